@@ -22,6 +22,36 @@ EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
+DO $$ BEGIN
+    CREATE TYPE department_status AS ENUM ('Active', 'Inactive', 'Restructuring');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE audit_action AS ENUM ('create', 'update', 'delete');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE event_type AS ENUM ('meeting', 'training', 'inspection', 'maintenance', 'emergency');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE event_status AS ENUM ('scheduled', 'ongoing', 'completed', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE event_priority AS ENUM ('low', 'medium', 'high');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
 CREATE TABLE IF NOT EXISTS users (
     id BIGSERIAL PRIMARY KEY,
     email VARCHAR(255) UNIQUE NOT NULL,
@@ -29,12 +59,57 @@ CREATE TABLE IF NOT EXISTS users (
     password VARCHAR(255) NOT NULL,
     phone VARCHAR(50),
     address TEXT,
-    role VARCHAR(50) DEFAULT 'user',
+    role VARCHAR(50) DEFAULT 'viewer',
     status user_status DEFAULT 'ACTIVE',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Existing installs: map legacy role values onto the RBAC roles
+-- (admin, hr_officer, records_clerk, viewer) before constraining the column
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'viewer';
+
+UPDATE users SET role = 'viewer'
+WHERE role IS NULL OR role NOT IN ('admin', 'hr_officer', 'records_clerk', 'viewer');
+
+DO $$ BEGIN
+    ALTER TABLE users
+        ADD CONSTRAINT users_role_check
+        CHECK (role IN ('admin', 'hr_officer', 'records_clerk', 'viewer'));
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Bootstrap: new and migrated accounts are viewers, and only an admin can
+-- change roles in the app. Promote your first admin by hand (replace the
+-- email) once, then manage everyone else from /admin/users:
+--
+--   UPDATE users SET role = 'admin' WHERE email = 'you@example.gov.ph';
+--
+-- An account that exists only in Supabase Auth (no users row) takes its role
+-- from app_metadata instead:
+--
+--   UPDATE auth.users
+--   SET raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || '{"role": "admin"}'
+--   WHERE email = 'you@example.gov.ph';
+
+CREATE TABLE IF NOT EXISTS departments (
+    id BIGSERIAL PRIMARY KEY,
+    name VARCHAR(255) UNIQUE NOT NULL,
+    description TEXT,
+    head_name VARCHAR(255),
+    head_email VARCHAR(255),
+    head_phone VARCHAR(50),
+    location VARCHAR(500),
+    budget DECIMAL(14,2),
+    established DATE,
+    status department_status DEFAULT 'Active',
+    performance DECIMAL(5,2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_performance CHECK (performance IS NULL OR (performance >= 0 AND performance <= 100))
+);
+
 CREATE TABLE IF NOT EXISTS personnel (
     id BIGSERIAL PRIMARY KEY,
     name VARCHAR(255) NOT NULL,
@@ -42,7 +117,7 @@ CREATE TABLE IF NOT EXISTS personnel (
     phone VARCHAR(50),
     address TEXT,
     profile_photo VARCHAR(500),
-    department VARCHAR(255) NOT NULL,
+    department VARCHAR(255) NOT NULL REFERENCES departments(name) ON UPDATE CASCADE ON DELETE RESTRICT,
     position VARCHAR(255),
     hire_date DATE,
     status personnel_status DEFAULT 'Active',
@@ -56,6 +131,21 @@ CREATE TABLE IF NOT EXISTS personnel (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Existing installs: register every free-text department value, then link
+-- personnel.department to departments(name) so renames cascade to staff records
+INSERT INTO departments (name)
+SELECT DISTINCT department FROM personnel
+ON CONFLICT (name) DO NOTHING;
+
+DO $$ BEGIN
+    ALTER TABLE personnel
+        ADD CONSTRAINT personnel_department_fkey
+        FOREIGN KEY (department) REFERENCES departments(name)
+        ON UPDATE CASCADE ON DELETE RESTRICT;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
 CREATE TABLE IF NOT EXISTS personnel_documents (
     id BIGSERIAL PRIMARY KEY,
     filename VARCHAR(255) NOT NULL,
@@ -64,10 +154,35 @@ CREATE TABLE IF NOT EXISTS personnel_documents (
     size INTEGER NOT NULL,
     path VARCHAR(500) NOT NULL,
     personnel_id BIGINT NOT NULL REFERENCES personnel(id) ON DELETE CASCADE,
+    document_type VARCHAR(50) NOT NULL DEFAULT 'other',
+    resource_type VARCHAR(20) NOT NULL DEFAULT 'raw',
+    delivery_type VARCHAR(20) NOT NULL DEFAULT 'upload',
+    uploaded_by UUID,
+    expires_on DATE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Existing installs: add the document category and Cloudinary resource type.
+-- filename holds the Cloudinary public_id and path the secure_url.
+ALTER TABLE personnel_documents ADD COLUMN IF NOT EXISTS document_type VARCHAR(50) NOT NULL DEFAULT 'other';
+ALTER TABLE personnel_documents ADD COLUMN IF NOT EXISTS resource_type VARCHAR(20) NOT NULL DEFAULT 'raw';
+ALTER TABLE personnel_documents ADD COLUMN IF NOT EXISTS uploaded_by UUID;
+-- Expiry date of IDs, certificates and the like; listed in activity digests as it approaches
+ALTER TABLE personnel_documents ADD COLUMN IF NOT EXISTS expires_on DATE;
+-- Cloudinary delivery type. Files uploaded before documents went private stay
+-- 'upload' (public URL); new ones are 'authenticated' and only served through
+-- the download route with a signed URL.
+ALTER TABLE personnel_documents ADD COLUMN IF NOT EXISTS delivery_type VARCHAR(20) NOT NULL DEFAULT 'upload';
+
+DO $$ BEGIN
+    ALTER TABLE personnel_documents
+        ADD CONSTRAINT personnel_documents_document_type_check
+        CHECK (document_type IN ('pds', 'appointment', 'certificate', 'id', 'other'));
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
 CREATE TABLE IF NOT EXISTS media_assets (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     cloudinary_public_id VARCHAR(500) NOT NULL UNIQUE,
@@ -169,6 +284,40 @@ CREATE TABLE IF NOT EXISTS media_collection_items (
     UNIQUE(collection_id, media_asset_id)
 );
 
+-- Differences between an asset in Cloudinary and its media_assets row, kept
+-- for an admin to resolve field by field instead of the sync overwriting them.
+-- resolution maps each field to the side that won ('cloudinary' or 'database')
+CREATE TABLE IF NOT EXISTS media_sync_conflicts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    media_asset_id UUID NOT NULL REFERENCES media_assets(id) ON DELETE CASCADE,
+    cloudinary_public_id VARCHAR(500) NOT NULL,
+    fields TEXT[] NOT NULL,
+    cloudinary_data JSONB NOT NULL,
+    database_data JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    resolution JSONB,
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID,
+    CONSTRAINT media_sync_conflicts_status_check CHECK (status IN ('open', 'resolved'))
+);
+
+-- Where the delta sync left off. high_water_mark is the latest Cloudinary
+-- uploaded_at already synced; while a run is in progress next_cursor and
+-- run_high_water_mark let the next call resume it. run_failed_at is the
+-- uploaded_at of the run's first resource that failed to sync; the mark
+-- stops there so the next run retries it
+CREATE TABLE IF NOT EXISTS media_sync_checkpoints (
+    name VARCHAR(50) PRIMARY KEY,
+    high_water_mark TIMESTAMP WITH TIME ZONE,
+    next_cursor TEXT,
+    run_high_water_mark TIMESTAMP WITH TIME ZONE,
+    run_failed_at TIMESTAMP WITH TIME ZONE,
+    last_delta_sync_at TIMESTAMP WITH TIME ZONE,
+    last_full_sync_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Cloudinary cleanup queue for automatic bidirectional sync
 DROP TABLE IF EXISTS cloudinary_cleanup_queue CASCADE;
 CREATE TABLE cloudinary_cleanup_queue (
@@ -248,13 +397,270 @@ CREATE TABLE IF NOT EXISTS sync_status_snapshots (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    action audit_action NOT NULL,
+    entity_type VARCHAR(50) NOT NULL CHECK (entity_type IN ('user', 'personnel', 'personnel_document', 'department', 'media_asset', 'event')),
+    entity_id VARCHAR(255) NOT NULL,
+    entity_label VARCHAR(255),
+    actor_id UUID,
+    actor_email VARCHAR(255),
+    changes JSONB NOT NULL DEFAULT '{}',
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Existing installs: widen the audited entity types as new tables are audited
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_entity_type_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_entity_type_check
+    CHECK (entity_type IN ('user', 'personnel', 'personnel_document', 'department', 'media_asset', 'event'));
+
+-- Calendar events. recurrence_rule is an RFC 5545 RRULE (e.g. FREQ=WEEKLY;BYDAY=MO
+-- or FREQ=MONTHLY;INTERVAL=3) expanded in the event's timezone when read.
+CREATE TABLE IF NOT EXISTS events (
+    id BIGSERIAL PRIMARY KEY,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    type event_type NOT NULL DEFAULT 'meeting',
+    status event_status NOT NULL DEFAULT 'scheduled',
+    priority event_priority NOT NULL DEFAULT 'medium',
+    location VARCHAR(255),
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    all_day BOOLEAN NOT NULL DEFAULT FALSE,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Manila',
+    recurrence_rule VARCHAR(500),
+    ical_uid VARCHAR(255),
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT events_time_range_check CHECK (ends_at >= starts_at)
+);
+
+-- Existing installs: UID of the iCalendar VEVENT an event was imported from,
+-- so re-importing the same .ics file updates events instead of duplicating them
+ALTER TABLE events ADD COLUMN IF NOT EXISTS ical_uid VARCHAR(255);
+
+-- Each attendee row invites either one person or a whole department
+CREATE TABLE IF NOT EXISTS event_attendees (
+    id BIGSERIAL PRIMARY KEY,
+    event_id BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    personnel_id BIGINT REFERENCES personnel(id) ON DELETE CASCADE,
+    department_id BIGINT REFERENCES departments(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT event_attendees_target_check CHECK (num_nonnulls(personnel_id, department_id) = 1),
+    CONSTRAINT event_attendees_personnel_unique UNIQUE (event_id, personnel_id),
+    CONSTRAINT event_attendees_department_unique UNIQUE (event_id, department_id)
+);
+
+-- Personal calendar subscription tokens. Only a SHA-256 hash is stored, so the
+-- feed URL is shown once when generated; regenerating revokes the old URL.
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL UNIQUE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Named filter presets for the personnel, users and media lists. definition
+-- holds the list's filter values (search, department, status, tags, dates,
+-- sort); a preset is private unless shared_with_role is set.
+CREATE TABLE IF NOT EXISTS saved_filters (
+    id BIGSERIAL PRIMARY KEY,
+    list_type VARCHAR(20) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    definition JSONB NOT NULL DEFAULT '{}',
+    owner_id UUID NOT NULL,
+    shared_with_role VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT saved_filters_list_type_check CHECK (list_type IN ('personnel', 'users', 'media')),
+    CONSTRAINT saved_filters_shared_role_check CHECK (
+        shared_with_role IS NULL OR shared_with_role IN ('admin', 'hr_officer', 'records_clerk', 'viewer')
+    ),
+    CONSTRAINT saved_filters_owner_name_key UNIQUE (owner_id, list_type, name)
+);
+
+-- In-app notifications, one row per recipient. read_at is NULL until the
+-- user reads it; category names the event source (personnel, sync, cleanup).
+CREATE TABLE IF NOT EXISTS notifications (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    message TEXT NOT NULL,
+    type VARCHAR(20) NOT NULL DEFAULT 'info',
+    priority VARCHAR(10) NOT NULL DEFAULT 'medium',
+    category VARCHAR(50) NOT NULL DEFAULT 'system',
+    link VARCHAR(500),
+    metadata JSONB,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT notifications_type_check CHECK (type IN ('info', 'success', 'warning', 'error')),
+    CONSTRAINT notifications_priority_check CHECK (priority IN ('low', 'medium', 'high'))
+);
+
+-- How each notification was routed: in_app only, emailed right away, sent by
+-- SMS, or held for the recipient's digest. emailed_at is set once an email covered it.
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS channel VARCHAR(10) NOT NULL DEFAULT 'in_app';
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMP WITH TIME ZONE;
+
+-- Recreated so existing installs accept the sms channel
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_channel_check;
+ALTER TABLE notifications
+    ADD CONSTRAINT notifications_channel_check CHECK (channel IN ('in_app', 'email', 'sms', 'digest'));
+
+-- Per-user delivery preferences. channels maps an event type (personnel.created,
+-- media.sync_failed, ...) to in_app, email, digest or off; missing events use
+-- the event's default. Quiet hours are wall-clock times in the user's timezone.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID PRIMARY KEY,
+    channels JSONB NOT NULL DEFAULT '{}',
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Manila',
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    digest_frequency VARCHAR(10) NOT NULL DEFAULT 'daily',
+    language VARCHAR(10) NOT NULL DEFAULT 'en',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Existing installs: how often the user wants the activity digest email
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS digest_frequency VARCHAR(10) NOT NULL DEFAULT 'daily';
+
+DO $$ BEGIN
+    ALTER TABLE notification_preferences
+        ADD CONSTRAINT notification_preferences_digest_frequency_check CHECK (digest_frequency IN ('off', 'daily', 'weekly'));
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- One row per recipient and digest period, claimed before the email is sent so
+-- overlapping or repeated runs never send the same digest twice. Failed runs
+-- may be claimed again; period_start is the local midnight (Monday for weekly)
+-- the period began at in the recipient's timezone.
+CREATE TABLE IF NOT EXISTS digest_runs (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL,
+    frequency VARCHAR(10) NOT NULL,
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    item_count INTEGER NOT NULL DEFAULT 0,
+    message_id VARCHAR(255),
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT digest_runs_frequency_check CHECK (frequency IN ('daily', 'weekly')),
+    CONSTRAINT digest_runs_status_check CHECK (status IN ('pending', 'sent', 'skipped', 'failed')),
+    CONSTRAINT digest_runs_period_key UNIQUE (user_id, frequency, period_start)
+);
+
+-- Outbound email queue and delivery log. Rows keep the template and its data,
+-- so a failed send is rendered again on retry; next_attempt_at backs off
+-- exponentially until max_attempts. message_id is the Resend email ID that
+-- delivery and bounce webhooks refer to.
+CREATE TABLE IF NOT EXISTS email_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    template VARCHAR(30) NOT NULL,
+    recipient_email VARCHAR(255) NOT NULL,
+    recipient_name VARCHAR(255),
+    subject VARCHAR(500) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_error TEXT,
+    message_id VARCHAR(255),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    bounced_at TIMESTAMP WITH TIME ZONE,
+    bounce_reason TEXT,
+    complained_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT email_outbox_template_check CHECK (template IN ('welcome', 'notification', 'system_alert', 'digest', 'test')),
+    CONSTRAINT email_outbox_status_check CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'bounced'))
+);
+
+-- Admin-edited versions of the welcome, notification and system alert emails,
+-- one per template and language. Subject and body use {{variable}} placeholders
+-- and {{#variable}}...{{/variable}} sections; without a row the built-in
+-- template is used.
+CREATE TABLE IF NOT EXISTS email_templates (
+    id BIGSERIAL PRIMARY KEY,
+    template_key VARCHAR(30) NOT NULL,
+    language VARCHAR(10) NOT NULL DEFAULT 'en',
+    subject VARCHAR(500) NOT NULL,
+    body TEXT NOT NULL,
+    updated_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT email_templates_key_check CHECK (template_key IN ('welcome', 'notification', 'system_alert')),
+    CONSTRAINT email_templates_language_check CHECK (language IN ('en', 'fil', 'ceb')),
+    CONSTRAINT email_templates_key_language_key UNIQUE (template_key, language)
+);
+
+-- Existing installs: language the user's emails are written in
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS language VARCHAR(10) NOT NULL DEFAULT 'en';
+
+DO $$ BEGIN
+    ALTER TABLE notification_preferences
+        ADD CONSTRAINT notification_preferences_language_check CHECK (language IN ('en', 'fil', 'ceb'));
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Outbound SMS log, one row per recipient number. Numbers are stored as
+-- +639XXXXXXXXX; segments is the number of SMS parts the carrier bills.
+-- opted_out rows were not sent because the number replied STOP.
+CREATE TABLE IF NOT EXISTS sms_messages (
+    id BIGSERIAL PRIMARY KEY,
+    phone_number VARCHAR(20) NOT NULL,
+    recipient_name VARCHAR(255),
+    personnel_id BIGINT REFERENCES personnel(id) ON DELETE SET NULL,
+    user_id UUID,
+    body TEXT NOT NULL,
+    encoding VARCHAR(10) NOT NULL DEFAULT 'gsm7',
+    segments INTEGER NOT NULL DEFAULT 1,
+    category VARCHAR(20) NOT NULL DEFAULT 'broadcast',
+    status VARCHAR(20) NOT NULL,
+    provider VARCHAR(20) NOT NULL,
+    provider_message_id VARCHAR(255),
+    error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT sms_messages_encoding_check CHECK (encoding IN ('gsm7', 'ucs2')),
+    CONSTRAINT sms_messages_category_check CHECK (category IN ('notification', 'broadcast')),
+    CONSTRAINT sms_messages_status_check CHECK (status IN ('sent', 'failed', 'opted_out'))
+);
+
+-- Numbers that get no SMS: replied STOP (source keyword) or removed by an
+-- admin. Replying START deletes the row.
+CREATE TABLE IF NOT EXISTS sms_opt_outs (
+    phone_number VARCHAR(20) PRIMARY KEY,
+    source VARCHAR(20) NOT NULL DEFAULT 'keyword',
+    note TEXT,
+    created_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT sms_opt_outs_source_check CHECK (source IN ('keyword', 'admin'))
+);
+
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_status ON users(status);
 CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+CREATE INDEX IF NOT EXISTS idx_departments_name ON departments(name);
+CREATE INDEX IF NOT EXISTS idx_departments_status ON departments(status);
 CREATE INDEX IF NOT EXISTS idx_personnel_email ON personnel(email);
 CREATE INDEX IF NOT EXISTS idx_personnel_department ON personnel(department);
 CREATE INDEX IF NOT EXISTS idx_personnel_status ON personnel(status);
 CREATE INDEX IF NOT EXISTS idx_personnel_documents_personnel_id ON personnel_documents(personnel_id);
+CREATE INDEX IF NOT EXISTS idx_personnel_documents_type ON personnel_documents(personnel_id, document_type);
 CREATE INDEX IF NOT EXISTS idx_media_assets_cloudinary_public_id ON media_assets(cloudinary_public_id);
 CREATE INDEX IF NOT EXISTS idx_media_assets_sync_status ON media_assets(sync_status);
 CREATE INDEX IF NOT EXISTS idx_media_assets_resource_type ON media_assets(resource_type);
@@ -271,6 +677,7 @@ CREATE INDEX IF NOT EXISTS idx_media_sync_log_operation ON media_sync_log(operat
 CREATE INDEX IF NOT EXISTS idx_media_sync_log_status ON media_sync_log(status);
 CREATE INDEX IF NOT EXISTS idx_media_sync_log_created_at ON media_sync_log(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_media_sync_log_source ON media_sync_log(source);
+CREATE INDEX IF NOT EXISTS idx_media_sync_log_webhook_event ON media_sync_log((webhook_data->>'event_id')) WHERE source = 'webhook';
 CREATE INDEX IF NOT EXISTS idx_media_usage_media_asset_id ON media_usage(media_asset_id);
 CREATE INDEX IF NOT EXISTS idx_media_usage_type ON media_usage(usage_type);
 CREATE INDEX IF NOT EXISTS idx_media_usage_reference ON media_usage(reference_table, reference_id);
@@ -278,6 +685,9 @@ CREATE INDEX IF NOT EXISTS idx_media_collections_slug ON media_collections(slug)
 CREATE INDEX IF NOT EXISTS idx_media_collections_parent ON media_collections(parent_collection_id);
 CREATE INDEX IF NOT EXISTS idx_media_collection_items_collection_id ON media_collection_items(collection_id);
 CREATE INDEX IF NOT EXISTS idx_media_collection_items_media_asset_id ON media_collection_items(media_asset_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_sync_conflicts_open ON media_sync_conflicts(media_asset_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_media_sync_conflicts_asset ON media_sync_conflicts(media_asset_id, resolved_at DESC);
+CREATE INDEX IF NOT EXISTS idx_media_sync_conflicts_detected_at ON media_sync_conflicts(detected_at DESC);
 CREATE INDEX IF NOT EXISTS idx_sync_operations_status ON sync_operations(status);
 CREATE INDEX IF NOT EXISTS idx_cloudinary_cleanup_queue_status ON cloudinary_cleanup_queue(status);
 CREATE INDEX IF NOT EXISTS idx_cloudinary_cleanup_queue_queued_at ON cloudinary_cleanup_queue(queued_at);
@@ -289,6 +699,44 @@ CREATE INDEX IF NOT EXISTS idx_sync_operations_created_at ON sync_operations(cre
 CREATE INDEX IF NOT EXISTS idx_connection_status_client ON connection_status(client_id);
 CREATE INDEX IF NOT EXISTS idx_connection_status_updated ON connection_status(updated_at DESC);
 CREATE INDEX IF NOT EXISTS idx_sync_snapshots_created ON sync_status_snapshots(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_email ON audit_log(actor_email);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+CREATE INDEX IF NOT EXISTS idx_events_starts_at ON events(starts_at);
+CREATE INDEX IF NOT EXISTS idx_events_ends_at ON events(ends_at);
+CREATE INDEX IF NOT EXISTS idx_events_recurring ON events(starts_at) WHERE recurrence_rule IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_ical_uid ON events(ical_uid) WHERE ical_uid IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_event_attendees_event_id ON event_attendees(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_attendees_personnel_id ON event_attendees(personnel_id);
+CREATE INDEX IF NOT EXISTS idx_event_attendees_department_id ON event_attendees(department_id);
+CREATE INDEX IF NOT EXISTS idx_saved_filters_owner ON saved_filters(list_type, owner_id);
+CREATE INDEX IF NOT EXISTS idx_saved_filters_shared ON saved_filters(list_type, shared_with_role) WHERE shared_with_role IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_digest ON notifications(user_id, created_at) WHERE channel = 'digest' AND emailed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_personnel_documents_expires_on ON personnel_documents(expires_on) WHERE expires_on IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_digest_runs_created_at ON digest_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox(next_attempt_at) WHERE status IN ('queued', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_recipient ON email_outbox(recipient_email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_status ON email_outbox(status, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_outbox_message_id ON email_outbox(message_id) WHERE message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sms_messages_created_at ON sms_messages(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_phone_number ON sms_messages(phone_number, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_personnel_id ON sms_messages(personnel_id);
+-- Full-text search (global_search). Each expression must match the one in the function
+CREATE INDEX IF NOT EXISTS idx_personnel_search ON personnel USING GIN(
+    to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(email, '') || ' ' || coalesce(position, '') || ' ' || coalesce(department, ''))
+);
+CREATE INDEX IF NOT EXISTS idx_users_search ON users USING GIN(
+    to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(email, ''))
+);
+CREATE INDEX IF NOT EXISTS idx_personnel_documents_search ON personnel_documents USING GIN(
+    to_tsvector('simple', coalesce(original_name, '') || ' ' || coalesce(document_type, ''))
+);
+CREATE INDEX IF NOT EXISTS idx_departments_search ON departments USING GIN(
+    to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(description, '') || ' ' || coalesce(head_name, '') || ' ' || coalesce(location, ''))
+);
 
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -302,6 +750,10 @@ DROP TRIGGER IF EXISTS update_users_updated_at ON users;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_departments_updated_at ON departments;
+CREATE TRIGGER update_departments_updated_at BEFORE UPDATE ON departments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 DROP TRIGGER IF EXISTS update_personnel_updated_at ON personnel;
 CREATE TRIGGER update_personnel_updated_at BEFORE UPDATE ON personnel
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -326,12 +778,42 @@ DROP TRIGGER IF EXISTS update_connection_status_updated_at ON connection_status;
 CREATE TRIGGER update_connection_status_updated_at BEFORE UPDATE ON connection_status
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_events_updated_at ON events;
+CREATE TRIGGER update_events_updated_at BEFORE UPDATE ON events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_saved_filters_updated_at ON saved_filters;
+CREATE TRIGGER update_saved_filters_updated_at BEFORE UPDATE ON saved_filters
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_digest_runs_updated_at ON digest_runs;
+CREATE TRIGGER update_digest_runs_updated_at BEFORE UPDATE ON digest_runs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_email_outbox_updated_at ON email_outbox;
+CREATE TRIGGER update_email_outbox_updated_at BEFORE UPDATE ON email_outbox
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_email_templates_updated_at ON email_templates;
+CREATE TRIGGER update_email_templates_updated_at BEFORE UPDATE ON email_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 DO $$ BEGIN
     ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 EXCEPTION
     WHEN OTHERS THEN NULL;
 END $$;
 
+DO $$ BEGIN
+    ALTER TABLE departments ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
 DO $$ BEGIN
     ALTER TABLE personnel ENABLE ROW LEVEL SECURITY;
 EXCEPTION
@@ -374,16 +856,104 @@ EXCEPTION
     WHEN OTHERS THEN NULL;
 END $$;
 
+DO $$ BEGIN
+    ALTER TABLE media_sync_conflicts ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE media_sync_checkpoints ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
 DO $$ BEGIN
     ALTER TABLE cloudinary_cleanup_queue ENABLE ROW LEVEL SECURITY;
 EXCEPTION
     WHEN OTHERS THEN NULL;
 END $$;
 
+DO $$ BEGIN
+    ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE event_attendees ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE saved_filters ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE digest_runs ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE sms_opt_outs ENABLE ROW LEVEL SECURITY;
+EXCEPTION
+    WHEN OTHERS THEN NULL;
+END $$;
+
 DROP POLICY IF EXISTS "Allow authenticated users to read users" ON users;
 CREATE POLICY "Allow authenticated users to read users" ON users
     FOR SELECT USING (auth.role() = 'authenticated');
 
+DROP POLICY IF EXISTS "Allow authenticated users to read departments" ON departments;
+CREATE POLICY "Allow authenticated users to read departments" ON departments
+    FOR SELECT USING (auth.role() = 'authenticated');
+
 DROP POLICY IF EXISTS "Allow authenticated users to read personnel" ON personnel;
 CREATE POLICY "Allow authenticated users to read personnel" ON personnel
     FOR SELECT USING (auth.role() = 'authenticated');
@@ -396,6 +966,10 @@ DROP POLICY IF EXISTS "Allow service role full access to users" ON users;
 CREATE POLICY "Allow service role full access to users" ON users
     FOR ALL USING (auth.role() = 'service_role');
 
+DROP POLICY IF EXISTS "Allow service role full access to departments" ON departments;
+CREATE POLICY "Allow service role full access to departments" ON departments
+    FOR ALL USING (auth.role() = 'service_role');
+
 DROP POLICY IF EXISTS "Allow service role full access to personnel" ON personnel;
 CREATE POLICY "Allow service role full access to personnel" ON personnel
     FOR ALL USING (auth.role() = 'service_role');
@@ -404,6 +978,71 @@ DROP POLICY IF EXISTS "Allow service role full access to personnel documents" ON
 CREATE POLICY "Allow service role full access to personnel documents" ON personnel_documents
     FOR ALL USING (auth.role() = 'service_role');
 
+-- Audit entries are written and read through the service role only
+DROP POLICY IF EXISTS "Allow service role full access to audit log" ON audit_log;
+CREATE POLICY "Allow service role full access to audit log" ON audit_log
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow authenticated users to read events" ON events;
+CREATE POLICY "Allow authenticated users to read events" ON events
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Allow service role full access to events" ON events;
+CREATE POLICY "Allow service role full access to events" ON events
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow authenticated users to read event attendees" ON event_attendees;
+CREATE POLICY "Allow authenticated users to read event attendees" ON event_attendees
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Allow service role full access to event attendees" ON event_attendees;
+CREATE POLICY "Allow service role full access to event attendees" ON event_attendees
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Feed tokens are managed through the service role only
+DROP POLICY IF EXISTS "Allow service role full access to calendar feed tokens" ON calendar_feed_tokens;
+CREATE POLICY "Allow service role full access to calendar feed tokens" ON calendar_feed_tokens
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Presets are read and written through the API, which applies owner/role sharing
+DROP POLICY IF EXISTS "Allow service role full access to saved filters" ON saved_filters;
+CREATE POLICY "Allow service role full access to saved filters" ON saved_filters
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Users may read their own notifications so Realtime can deliver them to the browser;
+-- changes go through the API
+DROP POLICY IF EXISTS "Allow users to read their own notifications" ON notifications;
+CREATE POLICY "Allow users to read their own notifications" ON notifications
+    FOR SELECT USING (auth.role() = 'authenticated' AND user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Allow service role full access to notifications" ON notifications;
+CREATE POLICY "Allow service role full access to notifications" ON notifications
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow service role full access to notification preferences" ON notification_preferences;
+CREATE POLICY "Allow service role full access to notification preferences" ON notification_preferences
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow service role full access to digest runs" ON digest_runs;
+CREATE POLICY "Allow service role full access to digest runs" ON digest_runs
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow service role full access to email outbox" ON email_outbox;
+CREATE POLICY "Allow service role full access to email outbox" ON email_outbox
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow service role full access to email templates" ON email_templates;
+CREATE POLICY "Allow service role full access to email templates" ON email_templates
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow service role full access to sms messages" ON sms_messages;
+CREATE POLICY "Allow service role full access to sms messages" ON sms_messages
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow service role full access to sms opt-outs" ON sms_opt_outs;
+CREATE POLICY "Allow service role full access to sms opt-outs" ON sms_opt_outs
+    FOR ALL USING (auth.role() = 'service_role');
+
 DROP POLICY IF EXISTS "Allow authenticated users to read media assets" ON media_assets;
 CREATE POLICY "Allow authenticated users to read media assets" ON media_assets
     FOR SELECT USING (auth.role() = 'authenticated' AND deleted_at IS NULL);
@@ -468,6 +1107,18 @@ DROP POLICY IF EXISTS "Allow service role full access to collection items" ON me
 CREATE POLICY "Allow service role full access to collection items" ON media_collection_items
     FOR ALL USING (auth.role() = 'service_role');
 
+DROP POLICY IF EXISTS "Allow authenticated users to read sync conflicts" ON media_sync_conflicts;
+CREATE POLICY "Allow authenticated users to read sync conflicts" ON media_sync_conflicts
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Allow service role full access to sync conflicts" ON media_sync_conflicts;
+CREATE POLICY "Allow service role full access to sync conflicts" ON media_sync_conflicts
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Allow service role full access to sync checkpoints" ON media_sync_checkpoints;
+CREATE POLICY "Allow service role full access to sync checkpoints" ON media_sync_checkpoints
+    FOR ALL USING (auth.role() = 'service_role');
+
 DROP POLICY IF EXISTS "Allow service role full access to cleanup queue" ON cloudinary_cleanup_queue;
 CREATE POLICY "Allow service role full access to cleanup queue" ON cloudinary_cleanup_queue
     FOR ALL USING (auth.role() = 'service_role');
@@ -690,6 +1341,119 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Prefix query for search-as-you-type: 'juan dela' becomes 'juan:* & dela:*'.
+-- Input is reduced to alphanumeric words, so to_tsquery never sees operators.
+CREATE OR REPLACE FUNCTION search_tsquery(search_query TEXT)
+RETURNS tsquery AS $$
+    SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+    FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked matches across personnel, users, documents, departments and media,
+-- at most per_type_limit of each type. Names and titles weigh more than the
+-- other fields. Media tags go through array_to_string (STABLE), so media has
+-- no expression index and is scanned per row. Only the service role may call
+-- it: /api/search filters entity types by the caller's role.
+CREATE OR REPLACE FUNCTION global_search(
+    search_query TEXT,
+    entity_types TEXT[] DEFAULT ARRAY['personnel', 'user', 'document', 'department', 'media'],
+    per_type_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    entity_type TEXT,
+    entity_id TEXT,
+    parent_id TEXT,
+    label TEXT,
+    detail TEXT,
+    thumbnail_url TEXT,
+    rank REAL
+) AS $$
+    WITH q AS (SELECT search_tsquery(search_query) AS query)
+    (
+        SELECT 'personnel', p.id::TEXT, NULL::TEXT, p.name::TEXT,
+            concat_ws(' · ', p.position, p.department)::TEXT, NULL::TEXT,
+            ts_rank(
+                setweight(to_tsvector('simple', coalesce(p.name, '')), 'A') ||
+                to_tsvector('simple', coalesce(p.email, '') || ' ' || coalesce(p.position, '') || ' ' || coalesce(p.department, '')),
+                q.query
+            )
+        FROM personnel p, q
+        WHERE 'personnel' = ANY(entity_types)
+          AND to_tsvector('simple', coalesce(p.name, '') || ' ' || coalesce(p.email, '') || ' ' || coalesce(p.position, '') || ' ' || coalesce(p.department, '')) @@ q.query
+        ORDER BY 7 DESC, p.name
+        LIMIT per_type_limit
+    )
+    UNION ALL
+    (
+        SELECT 'user', u.id::TEXT, NULL::TEXT, u.name::TEXT,
+            concat_ws(' · ', u.email, u.role)::TEXT, NULL::TEXT,
+            ts_rank(
+                setweight(to_tsvector('simple', coalesce(u.name, '')), 'A') ||
+                to_tsvector('simple', coalesce(u.email, '')),
+                q.query
+            )
+        FROM users u, q
+        WHERE 'user' = ANY(entity_types)
+          AND to_tsvector('simple', coalesce(u.name, '') || ' ' || coalesce(u.email, '')) @@ q.query
+        ORDER BY 7 DESC, u.name
+        LIMIT per_type_limit
+    )
+    UNION ALL
+    (
+        SELECT 'document', d.id::TEXT, d.personnel_id::TEXT, d.original_name::TEXT,
+            concat_ws(' · ', pe.name, d.document_type)::TEXT, NULL::TEXT,
+            ts_rank(
+                setweight(to_tsvector('simple', coalesce(d.original_name, '')), 'A') ||
+                to_tsvector('simple', coalesce(d.document_type, '')),
+                q.query
+            )
+        FROM personnel_documents d
+        JOIN personnel pe ON pe.id = d.personnel_id, q
+        WHERE 'document' = ANY(entity_types)
+          AND to_tsvector('simple', coalesce(d.original_name, '') || ' ' || coalesce(d.document_type, '')) @@ q.query
+        ORDER BY 7 DESC, d.created_at DESC
+        LIMIT per_type_limit
+    )
+    UNION ALL
+    (
+        SELECT 'department', dp.id::TEXT, NULL::TEXT, dp.name::TEXT,
+            concat_ws(' · ', dp.head_name, dp.location)::TEXT, NULL::TEXT,
+            ts_rank(
+                setweight(to_tsvector('simple', coalesce(dp.name, '')), 'A') ||
+                to_tsvector('simple', coalesce(dp.description, '') || ' ' || coalesce(dp.head_name, '') || ' ' || coalesce(dp.location, '')),
+                q.query
+            )
+        FROM departments dp, q
+        WHERE 'department' = ANY(entity_types)
+          AND to_tsvector('simple', coalesce(dp.name, '') || ' ' || coalesce(dp.description, '') || ' ' || coalesce(dp.head_name, '') || ' ' || coalesce(dp.location, '')) @@ q.query
+        ORDER BY 7 DESC, dp.name
+        LIMIT per_type_limit
+    )
+    UNION ALL
+    (
+        SELECT 'media', m.id::TEXT, NULL::TEXT,
+            coalesce(m.display_name, m.original_filename, m.cloudinary_public_id)::TEXT,
+            concat_ws(' · ', m.resource_type, m.folder)::TEXT,
+            coalesce(m.thumbnail_url, CASE WHEN m.resource_type = 'image' THEN m.secure_url END)::TEXT,
+            ts_rank(
+                setweight(to_tsvector('simple', coalesce(m.display_name, '')), 'A') ||
+                setweight(to_tsvector('simple', array_to_string(coalesce(m.tags, '{}'), ' ')), 'B') ||
+                to_tsvector('simple', coalesce(m.description, '') || ' ' || coalesce(m.alt_text, '')),
+                q.query
+            )
+        FROM media_assets m, q
+        WHERE 'media' = ANY(entity_types)
+          AND m.deleted_at IS NULL
+          AND to_tsvector('simple',
+                coalesce(m.display_name, '') || ' ' || array_to_string(coalesce(m.tags, '{}'), ' ') || ' ' ||
+                coalesce(m.description, '') || ' ' || coalesce(m.alt_text, '')
+              ) @@ q.query
+        ORDER BY 7 DESC, m.created_at DESC
+        LIMIT per_type_limit
+    );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
 CREATE OR REPLACE FUNCTION cleanup_old_sync_logs()
 RETURNS INTEGER AS $$
 DECLARE
@@ -820,6 +1584,8 @@ GRANT EXECUTE ON FUNCTION update_sync_operation_progress(UUID, INTEGER, INTEGER,
 GRANT EXECUTE ON FUNCTION complete_sync_operation(UUID, VARCHAR, JSONB) TO authenticated;
 GRANT EXECUTE ON FUNCTION create_sync_status_snapshot(VARCHAR) TO authenticated;
 GRANT EXECUTE ON FUNCTION notify_sync_status_change() TO authenticated;
+REVOKE EXECUTE ON FUNCTION global_search(TEXT, TEXT[], INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION global_search(TEXT, TEXT[], INTEGER) TO service_role;
 
 -- =====================================================
 -- SUPABASE REAL-TIME CONFIGURATION FOR DELETE EVENTS
@@ -844,6 +1610,8 @@ ALTER PUBLICATION supabase_realtime ADD TABLE media_sync_log;
 ALTER PUBLICATION supabase_realtime ADD TABLE sync_operations;
 ALTER PUBLICATION supabase_realtime ADD TABLE connection_status;
 ALTER PUBLICATION supabase_realtime ADD TABLE cloudinary_cleanup_queue;
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+GRANT SELECT ON notifications TO authenticated;
 
 -- =====================================================
 -- AUTOMATIC CLOUDINARY CLEANUP TRIGGERS
@@ -875,8 +1643,9 @@ BEGIN
         RETURN COALESCE(NEW, OLD);
     END IF;
 
-    -- Handle both hard deletes and soft deletes
-    IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL) THEN
+    -- Only hard deletes: soft-deleted assets sit in the trash, restorable, until
+    -- the retention purge queues them in cloudinary_cleanup_queue
+    IF TG_OP = 'DELETE' THEN
         -- Generate timestamp
         timestamp_str := extract(epoch from now())::text;
 
@@ -1,27 +1,365 @@
 'use client'
 
-import PlaceholderPage from '@/components/PlaceholderPage'
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Activity,
+  Plus,
+  Edit,
+  Trash2,
+  Download,
+  Filter,
+  ChevronDown,
+  ChevronRight,
+  User
+} from 'lucide-react'
+import type { AuditLog, AuditEntityType } from '@/lib/database.types'
+
+interface PaginationInfo {
+  page: number
+  limit: number
+  total: number
+  pages: number
+}
+
+interface AuditFilters {
+  actor: string
+  entityType: '' | AuditEntityType
+  action: '' | 'create' | 'update' | 'delete'
+  dateFrom: string
+  dateTo: string
+}
+
+type FieldChange = { before: unknown; after: unknown }
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: 'User',
+  personnel: 'Personnel',
+  personnel_document: 'Document',
+  department: 'Department',
+  media_asset: 'Media',
+  event: 'Event'
+}
+
+const ACTION_STYLES = {
+  create: { icon: Plus, label: 'Created', badge: 'bg-green-100 text-green-800', dot: 'bg-green-500' },
+  update: { icon: Edit, label: 'Updated', badge: 'bg-blue-100 text-blue-800', dot: 'bg-blue-500' },
+  delete: { icon: Trash2, label: 'Deleted', badge: 'bg-red-100 text-red-800', dot: 'bg-red-500' }
+}
+
+const emptyFilters: AuditFilters = {
+  actor: '',
+  entityType: '',
+  action: '',
+  dateFrom: '',
+  dateTo: ''
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
 
 export default function ActivityPage() {
-  const features = [
-    'Real-time activity monitoring',
-    'User action logging',
-    'System event tracking',
-    'Activity search and filtering',
-    'Audit trail generation',
-    'Security event monitoring',
-    'Performance metrics tracking',
-    'Activity reporting and analytics',
-    'Automated alert triggers',
-    'Activity data export'
-  ]
+  const [entries, setEntries] = useState<AuditLog[]>([])
+  const [pagination, setPagination] = useState<PaginationInfo>({
+    page: 1,
+    limit: 25,
+    total: 0,
+    pages: 0
+  })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters)
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(emptyFilters)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+
+  const buildParams = useCallback((extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams(extra)
+    if (appliedFilters.actor) params.set('actor', appliedFilters.actor)
+    if (appliedFilters.entityType) params.set('entityType', appliedFilters.entityType)
+    if (appliedFilters.action) params.set('action', appliedFilters.action)
+    // Date inputs are whole days; make the range inclusive of the end date
+    if (appliedFilters.dateFrom) params.set('dateFrom', new Date(`${appliedFilters.dateFrom}T00:00:00`).toISOString())
+    if (appliedFilters.dateTo) params.set('dateTo', new Date(`${appliedFilters.dateTo}T23:59:59.999`).toISOString())
+    return params
+  }, [appliedFilters])
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true)
+    setError('')
+    try {
+      const params = buildParams({
+        page: pagination.page.toString(),
+        limit: pagination.limit.toString()
+      })
+
+      const response = await fetch(`/api/audit-log?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setEntries(data.entries)
+        setPagination(data.pagination)
+      } else {
+        setError('Failed to load activity')
+      }
+    } catch (error) {
+      console.error('Error fetching activity:', error)
+      setError('An error occurred while loading activity')
+    } finally {
+      setLoading(false)
+    }
+  }, [buildParams, pagination.page, pagination.limit])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    setPagination(prev => ({ ...prev, page: 1 }))
+    setAppliedFilters(filters)
+  }
+
+  const handleResetFilters = () => {
+    setFilters(emptyFilters)
+    setPagination(prev => ({ ...prev, page: 1 }))
+    setAppliedFilters(emptyFilters)
+  }
+
+  const handleExport = (format: 'csv' | 'json') => {
+    window.location.href = `/api/audit-log?${buildParams({ format })}`
+  }
+
+  const inputClassName = 'block w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm'
 
   return (
-    <PlaceholderPage
-      title="Activity Log"
-      description="Monitor and track all system activities and user actions"
-      iconName="Activity"
-      features={features}
-    />
+    <div className="px-4 py-6 sm:px-0">
+      <div className="border-4 border-dashed border-gray-200 rounded-lg p-6">
+        {/* Header */}
+        <div className="sm:flex sm:items-center sm:justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Activity Log</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Audit trail of every change to users, personnel, departments, documents and media
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex space-x-3">
+            <button
+              onClick={() => handleExport('csv')}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={handleApplyFilters} className="mb-6 bg-white rounded-md shadow p-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label htmlFor="actor" className="block text-sm font-medium text-gray-700 mb-1">Actor</label>
+              <input
+                id="actor"
+                type="text"
+                value={filters.actor}
+                onChange={(e) => setFilters(prev => ({ ...prev, actor: e.target.value }))}
+                className={inputClassName}
+                placeholder="Email contains..."
+              />
+            </div>
+            <div>
+              <label htmlFor="entityType" className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+              <select
+                id="entityType"
+                value={filters.entityType}
+                onChange={(e) => setFilters(prev => ({ ...prev, entityType: e.target.value as AuditFilters['entityType'] }))}
+                className={inputClassName}
+              >
+                <option value="">All entities</option>
+                {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="action" className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+              <select
+                id="action"
+                value={filters.action}
+                onChange={(e) => setFilters(prev => ({ ...prev, action: e.target.value as AuditFilters['action'] }))}
+                className={inputClassName}
+              >
+                <option value="">All actions</option>
+                <option value="create">Created</option>
+                <option value="update">Updated</option>
+                <option value="delete">Deleted</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="dateFrom" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                id="dateFrom"
+                type="date"
+                value={filters.dateFrom}
+                onChange={(e) => setFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="dateTo" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                id="dateTo"
+                type="date"
+                value={filters.dateTo}
+                onChange={(e) => setFilters(prev => ({ ...prev, dateTo: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={handleResetFilters}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Reset
+            </button>
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <Filter className="w-4 h-4 mr-2" />
+              Apply Filters
+            </button>
+          </div>
+        </form>
+
+        {/* Timeline */}
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600">{error}</p>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <Activity className="mx-auto h-10 w-10 text-gray-300" />
+              <p className="mt-2 text-gray-500">No activity found</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {entries.map((entry) => {
+                const style = ACTION_STYLES[entry.action]
+                const ActionIcon = style.icon
+                const changes = (entry.changes || {}) as Record<string, FieldChange>
+                const changedFields = Object.keys(changes)
+                const isExpanded = expandedId === entry.id
+
+                return (
+                  <li key={entry.id} className="px-4 py-4">
+                    <div className="flex items-start">
+                      <div className={`flex-shrink-0 h-8 w-8 rounded-full ${style.dot} flex items-center justify-center`}>
+                        <ActionIcon className="h-4 w-4 text-white" />
+                      </div>
+                      <div className="ml-4 flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${style.badge}`}>
+                            {style.label}
+                          </span>
+                          <span className="text-sm font-medium text-gray-900">
+                            {ENTITY_LABELS[entry.entity_type]}: {entry.entity_label || `#${entry.entity_id}`}
+                          </span>
+                        </div>
+                        <div className="mt-1 flex flex-wrap items-center gap-x-4 text-xs text-gray-500">
+                          <span className="inline-flex items-center">
+                            <User className="h-3 w-3 mr-1" />
+                            {entry.actor_email || 'System'}
+                          </span>
+                          <span>{new Date(entry.created_at).toLocaleString()}</span>
+                          {entry.ip_address && <span>IP {entry.ip_address}</span>}
+                        </div>
+                        {changedFields.length > 0 && (
+                          <button
+                            onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                            className="mt-2 inline-flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                          >
+                            {isExpanded ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+                            {changedFields.length} field{changedFields.length === 1 ? '' : 's'} changed
+                          </button>
+                        )}
+                        {isExpanded && (
+                          <div className="mt-2 overflow-x-auto">
+                            <table className="min-w-full text-xs border border-gray-200 rounded">
+                              <thead className="bg-gray-50">
+                                <tr>
+                                  <th className="px-3 py-2 text-left font-medium text-gray-600">Field</th>
+                                  <th className="px-3 py-2 text-left font-medium text-gray-600">Before</th>
+                                  <th className="px-3 py-2 text-left font-medium text-gray-600">After</th>
+                                </tr>
+                              </thead>
+                              <tbody className="divide-y divide-gray-100">
+                                {changedFields.map((field) => (
+                                  <tr key={field}>
+                                    <td className="px-3 py-2 font-medium text-gray-700">{field}</td>
+                                    <td className="px-3 py-2 text-red-700 break-all">{formatValue(changes[field].before)}</td>
+                                    <td className="px-3 py-2 text-green-700 break-all">{formatValue(changes[field].after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            {entry.user_agent && (
+                              <p className="mt-2 text-xs text-gray-400 break-all">{entry.user_agent}</p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {pagination.pages > 1 && (
+          <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6 mt-4">
+            <p className="text-sm text-gray-700">
+              Showing <span className="font-medium">{((pagination.page - 1) * pagination.limit) + 1}</span> to{' '}
+              <span className="font-medium">
+                {Math.min(pagination.page * pagination.limit, pagination.total)}
+              </span>{' '}
+              of <span className="font-medium">{pagination.total}</span> entries
+            </p>
+            <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
+              <button
+                onClick={() => setPagination(prev => ({ ...prev, page: Math.max(1, prev.page - 1) }))}
+                disabled={pagination.page === 1}
+                className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPagination(prev => ({ ...prev, page: Math.min(prev.pages, prev.page + 1) }))}
+                disabled={pagination.page === pagination.pages}
+                className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </nav>
+          </div>
+        )}
+      </div>
+    </div>
   )
 }
@@ -1,10 +1,10 @@
 'use client'
 
-import { useState } from 'react'
-import { 
-  Calendar as CalendarIcon, 
-  Plus, 
-  ChevronLeft, 
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  Calendar as CalendarIcon,
+  Plus,
+  ChevronLeft,
   ChevronRight,
   Clock,
   MapPin,
@@ -14,91 +14,180 @@ import {
   CheckCircle,
   User,
   Filter,
-  Search
+  Search,
+  Repeat,
+  Upload,
+  Rss,
+  X
 } from 'lucide-react'
+import { useAuth } from '@/components/providers/SupabaseAuthProvider'
+import { useAppSelector } from '@/lib/store'
+import { selectUserPreferences } from '@/lib/redux/slices/settingsSlice'
+import EventModal from '@/components/EventModal'
+import CalendarFeedModal from '@/components/CalendarFeedModal'
+import type { CalendarEventWithAttendees } from '@/lib/database.types'
+import { EVENT_TYPES, EventOccurrence } from '@/lib/events'
+import { describeRecurrenceRule, fromZonedWallClock, toZonedWallClock } from '@/lib/recurrence'
 
-interface Event {
-  id: number
-  title: string
-  description: string
-  date: string
-  time: string
-  type: 'meeting' | 'training' | 'inspection' | 'maintenance' | 'emergency'
-  location: string
-  attendees: string[]
-  status: 'scheduled' | 'ongoing' | 'completed' | 'cancelled'
-  priority: 'low' | 'medium' | 'high'
+const eventTypes = ['All', ...EVENT_TYPES]
+
+interface ImportResult {
+  created: number
+  updated: number
+  failed: { summary: string; message: string }[]
+  warnings: { summary: string; message: string }[]
 }
 
-const mockEvents: Event[] = [
-  {
-    id: 1,
-    title: 'Monthly Safety Training',
-    description: 'Mandatory safety training for all marine operations personnel',
-    date: '2024-01-20',
-    time: '09:00',
-    type: 'training',
-    location: 'Training Center, Building D',
-    attendees: ['Marine Operations Team', 'Safety Officers'],
-    status: 'scheduled',
-    priority: 'high'
-  },
-  {
-    id: 2,
-    title: 'Boat Maintenance Inspection',
-    description: 'Quarterly inspection of fishing vessels and equipment',
-    date: '2024-01-22',
-    time: '08:00',
-    type: 'inspection',
-    location: 'Maintenance Dock, Pier 3',
-    attendees: ['Maintenance Team', 'Quality Control'],
-    status: 'scheduled',
-    priority: 'medium'
-  },
-  {
-    id: 3,
-    title: 'Department Heads Meeting',
-    description: 'Monthly coordination meeting for all department heads',
-    date: '2024-01-25',
-    time: '14:00',
-    type: 'meeting',
-    location: 'Conference Room A',
-    attendees: ['All Department Heads', 'Admin Staff'],
-    status: 'scheduled',
-    priority: 'high'
-  },
-  {
-    id: 4,
-    title: 'Equipment Calibration',
-    description: 'Calibration of quality control and measurement equipment',
-    date: '2024-01-28',
-    time: '10:00',
-    type: 'maintenance',
-    location: 'Quality Lab, Building B',
-    attendees: ['Quality Control Team', 'Technical Staff'],
-    status: 'scheduled',
-    priority: 'medium'
-  },
-  {
-    id: 5,
-    title: 'Emergency Response Drill',
-    description: 'Quarterly emergency response and evacuation drill',
-    date: '2024-01-30',
-    time: '15:00',
-    type: 'emergency',
-    location: 'All Facilities',
-    attendees: ['All Personnel'],
-    status: 'scheduled',
-    priority: 'high'
-  }
-]
+const pad = (value: number) => String(value).padStart(2, '0')
 
-const eventTypes = ['All', 'meeting', 'training', 'inspection', 'maintenance', 'emergency']
+// YYYY-MM-DD of an instant in a timezone
+const dayKey = (date: Date, timezone: string) => {
+  const clock = toZonedWallClock(date, timezone)
+  return `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`
+}
+
+const monthStart = (year: number, month: number, timezone: string) =>
+  fromZonedWallClock({ year, month, day: 1, hour: 0, minute: 0, second: 0 }, timezone)
 
 export default function CalendarPage() {
-  const [events] = useState<Event[]>(mockEvents)
+  const { can } = useAuth()
+  const { timezone, timeFormat } = useAppSelector(selectUserPreferences)
+  const canManage = can('events:manage')
+
+  const [cursor, setCursor] = useState(() => {
+    const today = toZonedWallClock(new Date(), timezone)
+    return { year: today.year, month: today.month }
+  })
+  const [occurrences, setOccurrences] = useState<EventOccurrence[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
   const [selectedType, setSelectedType] = useState('All')
   const [searchTerm, setSearchTerm] = useState('')
+  const [selectedDay, setSelectedDay] = useState<string | null>(null)
+  const [modal, setModal] = useState<{ isOpen: boolean; event: CalendarEventWithAttendees | null; defaultDate: string }>({
+    isOpen: false,
+    event: null,
+    defaultDate: ''
+  })
+  const [isFeedModalOpen, setIsFeedModalOpen] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const todayKey = dayKey(new Date(), timezone)
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError('')
+
+      const from = monthStart(cursor.year, cursor.month, timezone)
+      const to = cursor.month === 12
+        ? monthStart(cursor.year + 1, 1, timezone)
+        : monthStart(cursor.year, cursor.month + 1, timezone)
+
+      const params = new URLSearchParams({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        ...(selectedType !== 'All' && { type: selectedType }),
+        ...(searchTerm && { search: searchTerm })
+      })
+
+      const response = await fetch(`/api/events?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch events')
+      }
+
+      const data = await response.json()
+      setOccurrences(data.occurrences)
+    } catch (error) {
+      console.error('Error fetching events:', error)
+      setError('Failed to load events')
+    } finally {
+      setLoading(false)
+    }
+  }, [cursor, timezone, selectedType, searchTerm])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  const handleImport = async (file: File) => {
+    try {
+      setImporting(true)
+      setError('')
+      setImportResult(null)
+
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('timezone', timezone)
+
+      const response = await fetch('/api/events/import', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to import calendar')
+        return
+      }
+
+      setImportResult(data)
+      await fetchEvents()
+    } catch (error) {
+      console.error('Error importing calendar:', error)
+      setError('Failed to import calendar')
+    } finally {
+      setImporting(false)
+      if (importInputRef.current) {
+        importInputRef.current.value = ''
+      }
+    }
+  }
+
+  const changeMonth = (delta: number) => {
+    setSelectedDay(null)
+    setCursor(prev => {
+      const index = prev.year * 12 + (prev.month - 1) + delta
+      return { year: Math.floor(index / 12), month: (index % 12) + 1 }
+    })
+  }
+
+  // Occurrences grouped by every day of the month they touch
+  const occurrencesByDay = useMemo(() => {
+    const byDay = new Map<string, EventOccurrence[]>()
+    for (const occurrence of occurrences) {
+      const start = new Date(occurrence.occurrence_start)
+      const end = new Date(Math.max(start.getTime(), new Date(occurrence.occurrence_end).getTime() - 1))
+      const last = dayKey(end, timezone)
+      const cursorDay = toZonedWallClock(start, timezone)
+      let day = new Date(Date.UTC(cursorDay.year, cursorDay.month - 1, cursorDay.day))
+
+      for (let guard = 0; guard < 62; guard++) {
+        const key = day.toISOString().slice(0, 10)
+        byDay.set(key, [...(byDay.get(key) || []), occurrence])
+        if (key >= last) break
+        day = new Date(day.getTime() + 24 * 60 * 60 * 1000)
+      }
+    }
+    return byDay
+  }, [occurrences, timezone])
+
+  const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: timeFormat === '12h'
+  })
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric'
+  })
+
+  const openEvent = (event: CalendarEventWithAttendees | null, defaultDate: string = selectedDay || todayKey) => {
+    setModal({ isOpen: true, event, defaultDate })
+  }
+
 
   const getEventTypeIcon = (type: string) => {
     switch (type) {
@@ -164,15 +253,26 @@ export default function CalendarPage() {
     }
   }
 
-  const filteredEvents = events.filter(event => {
-    const matchesSearch = event.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         event.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         event.location.toLowerCase().includes(searchTerm.toLowerCase())
-    const matchesType = selectedType === 'All' || event.type === selectedType
-    return matchesSearch && matchesType
-  })
+  const now = new Date()
+  const weekAhead = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
+  const thisWeekCount = occurrences.filter(occurrence => {
+    const start = new Date(occurrence.occurrence_start)
+    return start >= now && start < weekAhead
+  }).length
+  const pendingCount = occurrences.filter(occurrence => occurrence.status === 'scheduled').length
+  const highPriorityCount = occurrences.filter(occurrence => occurrence.priority === 'high').length
+
+  const listedEvents = selectedDay
+    ? occurrencesByDay.get(selectedDay) || []
+    : occurrences.filter(occurrence => new Date(occurrence.occurrence_end) >= now).slice(0, 5)
 
-  const upcomingEvents = filteredEvents.filter(event => new Date(event.date) >= new Date()).slice(0, 5)
+  const firstWeekday = new Date(Date.UTC(cursor.year, cursor.month - 1, 1)).getUTCDay()
+  const daysInMonth = new Date(Date.UTC(cursor.year, cursor.month, 0)).getUTCDate()
+  const monthLabel = new Date(Date.UTC(cursor.year, cursor.month - 1, 1)).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    month: 'long',
+    year: 'numeric'
+  })
 
   return (
     <div className="space-y-6">
@@ -199,8 +299,8 @@ export default function CalendarPage() {
               <CalendarIcon className="h-6 w-6 text-blue-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Total Events</p>
-              <p className="text-2xl font-bold text-gray-900">{events.length}</p>
+              <p className="text-sm font-medium text-gray-600">Events This Month</p>
+              <p className="text-2xl font-bold text-gray-900">{occurrences.length}</p>
             </div>
           </div>
         </div>
@@ -211,8 +311,8 @@ export default function CalendarPage() {
               <CheckCircle className="h-6 w-6 text-green-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">This Week</p>
-              <p className="text-2xl font-bold text-gray-900">3</p>
+              <p className="text-sm font-medium text-gray-600">Next 7 Days</p>
+              <p className="text-2xl font-bold text-gray-900">{thisWeekCount}</p>
             </div>
           </div>
         </div>
@@ -223,8 +323,8 @@ export default function CalendarPage() {
               <Clock className="h-6 w-6 text-yellow-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Pending</p>
-              <p className="text-2xl font-bold text-gray-900">5</p>
+              <p className="text-sm font-medium text-gray-600">Scheduled</p>
+              <p className="text-2xl font-bold text-gray-900">{pendingCount}</p>
             </div>
           </div>
         </div>
@@ -236,7 +336,7 @@ export default function CalendarPage() {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">High Priority</p>
-              <p className="text-2xl font-bold text-gray-900">3</p>
+              <p className="text-2xl font-bold text-gray-900">{highPriorityCount}</p>
             </div>
           </div>
         </div>
@@ -250,7 +350,7 @@ export default function CalendarPage() {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search events..."
+                placeholder="Search events by title or location..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
@@ -271,100 +371,237 @@ export default function CalendarPage() {
             </div>
           </div>
           
-          <button className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
-            <Plus className="h-4 w-4 mr-2" />
-            Add Event
-          </button>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setIsFeedModalOpen(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Rss className="h-4 w-4 mr-2" />
+              Subscribe
+            </button>
+            {canManage && (
+              <>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".ics,text/calendar"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) handleImport(file)
+                  }}
+                />
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={importing}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {importing ? 'Importing...' : 'Import .ics'}
+                </button>
+                <button
+                  onClick={() => openEvent(null)}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Event
+                </button>
+              </>
+            )}
+          </div>
         </div>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {importResult && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+          <div className="flex items-start justify-between">
+            <p className="font-medium">
+              Import finished: {importResult.created} created, {importResult.updated} updated
+              {importResult.failed.length > 0 && `, ${importResult.failed.length} failed`}
+            </p>
+            <button onClick={() => setImportResult(null)} className="text-blue-400 hover:text-blue-600">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {[...importResult.failed, ...importResult.warnings].length > 0 && (
+            <ul className="mt-2 space-y-1 list-disc list-inside">
+              {importResult.failed.map((item, index) => (
+                <li key={`failed-${index}`} className="text-red-700">
+                  {item.summary}: {item.message}
+                </li>
+              ))}
+              {importResult.warnings.map((item, index) => (
+                <li key={`warning-${index}`} className="text-yellow-800">
+                  {item.summary}: {item.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Calendar and Events Layout */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Mini Calendar */}
-        <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+        {/* Month View */}
+        <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-900">January 2024</h3>
+            <h3 className="text-lg font-semibold text-gray-900">{monthLabel}</h3>
             <div className="flex items-center space-x-2">
-              <button className="p-1 hover:bg-gray-100 rounded">
+              <button onClick={() => changeMonth(-1)} className="p-1 hover:bg-gray-100 rounded">
                 <ChevronLeft className="h-4 w-4 text-gray-600" />
               </button>
-              <button className="p-1 hover:bg-gray-100 rounded">
+              <button
+                onClick={() => {
+                  const today = toZonedWallClock(new Date(), timezone)
+                  setSelectedDay(null)
+                  setCursor({ year: today.year, month: today.month })
+                }}
+                className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+              >
+                Today
+              </button>
+              <button onClick={() => changeMonth(1)} className="p-1 hover:bg-gray-100 rounded">
                 <ChevronRight className="h-4 w-4 text-gray-600" />
               </button>
             </div>
           </div>
           
           {/* Calendar Grid */}
-          <div className="grid grid-cols-7 gap-1 text-center text-xs">
+          <div className={`grid grid-cols-7 gap-1 text-xs ${loading ? 'opacity-50' : ''}`}>
             {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
-              <div key={day} className="p-2 font-medium text-gray-500">{day}</div>
+              <div key={day} className="p-2 text-center font-medium text-gray-500">{day}</div>
             ))}
-            {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
-              <div 
-                key={day} 
-                className={`p-2 hover:bg-blue-100 rounded cursor-pointer ${
-                  day === 20 ? 'bg-blue-600 text-white' : 'text-gray-700'
-                } ${[20, 22, 25, 28, 30].includes(day) ? 'font-bold' : ''}`}
-              >
-                {day}
-              </div>
+            {Array.from({ length: firstWeekday }, (_, i) => (
+              <div key={`blank-${i}`} />
             ))}
+            {Array.from({ length: daysInMonth }, (_, i) => i + 1).map(day => {
+              const key = `${cursor.year}-${pad(cursor.month)}-${pad(day)}`
+              const dayEvents = occurrencesByDay.get(key) || []
+              return (
+                <div
+                  key={key}
+                  onClick={() => setSelectedDay(selectedDay === key ? null : key)}
+                  onDoubleClick={() => canManage && openEvent(null, key)}
+                  className={`min-h-[5.5rem] p-1 rounded border cursor-pointer text-left ${
+                    selectedDay === key ? 'border-blue-500 bg-blue-50' : 'border-gray-100 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className={`text-right mb-1 ${
+                    key === todayKey ? 'font-bold text-blue-600' : 'text-gray-700'
+                  }`}>
+                    {day}
+                  </div>
+                  <div className="space-y-0.5">
+                    {dayEvents.slice(0, 3).map(occurrence => (
+                      <button
+                        key={`${occurrence.id}-${occurrence.occurrence_start}`}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          openEvent(occurrence, key)
+                        }}
+                        className={`block w-full truncate px-1 rounded border text-left ${getEventTypeColor(occurrence.type)} ${
+                          occurrence.status === 'cancelled' ? 'line-through opacity-60' : ''
+                        }`}
+                        title={occurrence.title}
+                      >
+                        {!occurrence.all_day && `${formatTime(occurrence.occurrence_start)} `}
+                        {occurrence.title}
+                      </button>
+                    ))}
+                    {dayEvents.length > 3 && (
+                      <p className="px-1 text-gray-500">+{dayEvents.length - 3} more</p>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
           </div>
         </div>
 
-        {/* Upcoming Events */}
-        <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
-          <div className="px-6 py-4 border-b border-gray-200">
-            <h3 className="text-lg font-semibold text-gray-900">Upcoming Events</h3>
+        {/* Upcoming / Selected Day Events */}
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {selectedDay ? formatDate(`${selectedDay}T12:00:00Z`) : 'Upcoming Events'}
+            </h3>
+            {selectedDay && (
+              <button onClick={() => setSelectedDay(null)} className="text-xs text-blue-600 hover:text-blue-800">
+                Show upcoming
+              </button>
+            )}
           </div>
           
           <div className="divide-y divide-gray-200">
-            {upcomingEvents.map((event) => (
-              <div key={event.id} className="p-6 hover:bg-gray-50">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start space-x-4">
-                    <div className={`p-2 rounded-lg border ${getEventTypeColor(event.type)}`}>
-                      {getEventTypeIcon(event.type)}
-                    </div>
-                    <div className="flex-1">
-                      <h4 className="text-lg font-medium text-gray-900">{event.title}</h4>
-                      <p className="text-sm text-gray-600 mt-1">{event.description}</p>
-                      
-                      <div className="flex items-center space-x-4 mt-3 text-sm text-gray-500">
-                        <div className="flex items-center">
-                          <CalendarIcon className="h-4 w-4 mr-1" />
-                          {event.date}
-                        </div>
+            {listedEvents.length === 0 && (
+              <p className="p-6 text-sm text-gray-500">
+                {loading ? 'Loading events...' : 'No events'}
+              </p>
+            )}
+            {listedEvents.map((occurrence) => (
+              <div
+                key={`${occurrence.id}-${occurrence.occurrence_start}`}
+                onClick={() => openEvent(occurrence)}
+                className="p-4 hover:bg-gray-50 cursor-pointer"
+              >
+                <div className="flex items-start space-x-3">
+                  <div className={`p-2 rounded-lg border ${getEventTypeColor(occurrence.type)}`}>
+                    {getEventTypeIcon(occurrence.type)}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-medium text-gray-900 truncate">{occurrence.title}</h4>
+                    {occurrence.description && (
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-2">{occurrence.description}</p>
+                    )}
+                    
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-gray-500">
+                      <div className="flex items-center">
+                        <CalendarIcon className="h-3 w-3 mr-1" />
+                        {formatDate(occurrence.occurrence_start)}
+                      </div>
+                      <div className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {occurrence.all_day
+                          ? 'All day'
+                          : `${formatTime(occurrence.occurrence_start)} – ${formatTime(occurrence.occurrence_end)}`}
+                      </div>
+                      {occurrence.location && (
                         <div className="flex items-center">
-                          <Clock className="h-4 w-4 mr-1" />
-                          {event.time}
+                          <MapPin className="h-3 w-3 mr-1" />
+                          {occurrence.location}
                         </div>
+                      )}
+                      {occurrence.recurrence_rule && (
                         <div className="flex items-center">
-                          <MapPin className="h-4 w-4 mr-1" />
-                          {event.location}
+                          <Repeat className="h-3 w-3 mr-1" />
+                          {describeRecurrenceRule(occurrence.recurrence_rule)}
                         </div>
-                      </div>
-                      
-                      <div className="flex items-center space-x-2 mt-3">
-                        <span className={getStatusBadge(event.status)}>
-                          {event.status}
-                        </span>
-                        <span className={getPriorityBadge(event.priority)}>
-                          {event.priority} priority
-                        </span>
-                      </div>
-                      
-                      <div className="mt-3">
-                        <p className="text-xs text-gray-500">Attendees:</p>
-                        <div className="flex flex-wrap gap-1 mt-1">
-                          {event.attendees.map((attendee, index) => (
-                            <span key={index} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-700">
-                              {attendee}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
+                      )}
                     </div>
+                    
+                    <div className="flex items-center space-x-2 mt-2">
+                      <span className={getStatusBadge(occurrence.status)}>
+                        {occurrence.status}
+                      </span>
+                      <span className={getPriorityBadge(occurrence.priority)}>
+                        {occurrence.priority} priority
+                      </span>
+                    </div>
+                    
+                    {occurrence.attendees.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {occurrence.attendees.map(attendee => (
+                          <span key={attendee.id} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-700">
+                            {attendee.name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -377,8 +614,8 @@ export default function CalendarPage() {
       <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
         <h3 className="text-lg font-semibold text-gray-900 mb-6">Event Types Distribution</h3>
         <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-          {['meeting', 'training', 'inspection', 'maintenance', 'emergency'].map((type) => {
-            const count = events.filter(event => event.type === type).length
+          {EVENT_TYPES.map((type) => {
+            const count = occurrences.filter(occurrence => occurrence.type === type).length
             return (
               <div key={type} className={`p-4 rounded-xl border ${getEventTypeColor(type)}`}>
                 <div className="flex items-center justify-between">
@@ -394,6 +631,21 @@ export default function CalendarPage() {
           })}
         </div>
       </div>
+
+      <EventModal
+        isOpen={modal.isOpen}
+        onClose={() => setModal(prev => ({ ...prev, isOpen: false }))}
+        onSaved={fetchEvents}
+        event={modal.event}
+        defaultDate={modal.defaultDate}
+        timezone={timezone}
+        canManage={canManage}
+      />
+
+      <CalendarFeedModal
+        isOpen={isFeedModalOpen}
+        onClose={() => setIsFeedModalOpen(false)}
+      />
     </div>
   )
 }
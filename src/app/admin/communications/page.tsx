@@ -1,27 +1,474 @@
 'use client'
 
-import PlaceholderPage from '@/components/PlaceholderPage'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { MessageSquare, Send, RefreshCw, UserX, Trash2, ChevronLeft, ChevronRight } from 'lucide-react'
+import type { Department, SmsMessage, SmsOptOut, SmsStatus } from '@/lib/database.types'
+import { SMS_MAX_SEGMENTS, formatPhilippineNumber, segmentSms, withOptOutHint } from '@/lib/sms'
+
+type Audience = 'all' | 'departments' | 'numbers'
+
+interface SmsServiceStatus {
+  enabled: boolean
+  provider: string
+  configuration: { valid: boolean; errors: string[] }
+}
+
+interface BroadcastResult {
+  recipients: number
+  sent: number
+  failed: number
+  optedOut: number
+  duplicates: number
+  segments: number
+  provider: string
+  invalid: { name: string | null; phone: string | null }[]
+}
+
+interface PaginationInfo {
+  page: number
+  limit: number
+  total: number
+  pages: number
+}
+
+const PAGE_SIZE = 15
+
+const STATUS_BADGES: Record<SmsStatus, string> = {
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  opted_out: 'bg-gray-100 text-gray-700'
+}
+
+const STATUS_LABELS: Record<SmsStatus, string> = {
+  sent: 'Sent',
+  failed: 'Failed',
+  opted_out: 'Opted out'
+}
 
 export default function CommunicationsPage() {
-  const features = [
-    'Multi-channel communication hub',
-    'Email campaign management',
-    'SMS notification system',
-    'Public announcement tools',
-    'Communication templates',
-    'Scheduled messaging',
-    'Communication analytics',
-    'Contact list management',
-    'Emergency communication protocols',
-    'Integration with external platforms'
-  ]
+  const [status, setStatus] = useState<SmsServiceStatus | null>(null)
+  const [departments, setDepartments] = useState<Department[]>([])
+  const [audience, setAudience] = useState<Audience>('all')
+  const [selectedDepartments, setSelectedDepartments] = useState<string[]>([])
+  const [numbers, setNumbers] = useState('')
+  const [includeEmergencyContacts, setIncludeEmergencyContacts] = useState(false)
+  const [message, setMessage] = useState('')
+  const [sending, setSending] = useState(false)
+  const [result, setResult] = useState<BroadcastResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const [messages, setMessages] = useState<SmsMessage[]>([])
+  const [pagination, setPagination] = useState<PaginationInfo>({ page: 1, limit: PAGE_SIZE, total: 0, pages: 0 })
+  const [page, setPage] = useState(1)
+
+  const [optOuts, setOptOuts] = useState<SmsOptOut[]>([])
+  const [optOutNumber, setOptOutNumber] = useState('')
+  const [optOutNote, setOptOutNote] = useState('')
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sms/send')
+      if (response.ok) {
+        setStatus(await response.json())
+      }
+    } catch (error) {
+      console.error('Error checking SMS status:', error)
+    }
+  }, [])
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sms/messages?page=${page}&limit=${PAGE_SIZE}`)
+      if (response.ok) {
+        const data = await response.json()
+        setMessages(data.messages)
+        setPagination(data.pagination)
+      }
+    } catch (error) {
+      console.error('Error fetching SMS log:', error)
+    }
+  }, [page])
+
+  const fetchOptOuts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sms/opt-outs')
+      if (response.ok) {
+        const data = await response.json()
+        setOptOuts(data.optOuts)
+      }
+    } catch (error) {
+      console.error('Error fetching SMS opt-outs:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+    fetchOptOuts()
+    fetch('/api/departments')
+      .then(response => response.ok ? response.json() : { departments: [] })
+      .then(data => setDepartments(data.departments || []))
+      .catch(error => console.error('Error fetching departments:', error))
+  }, [fetchStatus, fetchOptOuts])
+
+  useEffect(() => {
+    fetchMessages()
+  }, [fetchMessages])
+
+  // Counted on the text as sent, opt-out hint included
+  const segmentation = useMemo(() => segmentSms(withOptOutHint(message)), [message])
+  const tooLong = segmentation.parts.length > SMS_MAX_SEGMENTS
+
+  const phoneNumbers = numbers.split(/[\n,;]+/).map(number => number.trim()).filter(Boolean)
+  const hasRecipients = audience === 'all'
+    || (audience === 'departments' && selectedDepartments.length > 0)
+    || (audience === 'numbers' && phoneNumbers.length > 0)
+
+  const toggleDepartment = (name: string) => {
+    setSelectedDepartments(selectedDepartments.includes(name)
+      ? selectedDepartments.filter(department => department !== name)
+      : [...selectedDepartments, name])
+  }
+
+  const handleSend = async () => {
+    const target = audience === 'all'
+      ? 'all personnel'
+      : audience === 'departments'
+        ? `${selectedDepartments.length} department(s)`
+        : `${phoneNumbers.length} number(s)`
+    if (!confirm(`Send this SMS to ${target}? Each recipient is billed ${segmentation.parts.length} SMS part(s).`)) {
+      return
+    }
+
+    setSending(true)
+    setResult(null)
+    setError(null)
+    try {
+      const response = await fetch('/api/sms/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          message,
+          audience,
+          ...(audience === 'departments' && { departments: selectedDepartments }),
+          ...(audience === 'numbers' && { phoneNumbers }),
+          includeEmergencyContacts: audience !== 'numbers' && includeEmergencyContacts
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setResult(data)
+        setMessage('')
+        setPage(1)
+        await fetchMessages()
+      } else {
+        setError(data.details?.[0]?.message || data.error || 'Failed to send SMS')
+      }
+    } catch (error) {
+      console.error('Error sending SMS:', error)
+      setError('Failed to send SMS')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleAddOptOut = async () => {
+    try {
+      const response = await fetch('/api/sms/opt-outs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber: optOutNumber, note: optOutNote || undefined })
+      })
+      if (response.ok) {
+        setOptOutNumber('')
+        setOptOutNote('')
+        await fetchOptOuts()
+      } else {
+        const data = await response.json()
+        alert(data.details?.[0]?.message || data.error || 'Failed to opt out number')
+      }
+    } catch (error) {
+      console.error('Error adding SMS opt-out:', error)
+    }
+  }
+
+  const handleRemoveOptOut = async (optOut: SmsOptOut) => {
+    if (!confirm(`Send SMS to ${formatPhilippineNumber(optOut.phone_number)} again?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/sms/opt-outs?phoneNumber=${encodeURIComponent(optOut.phone_number)}`, { method: 'DELETE' })
+      if (response.ok) {
+        await fetchOptOuts()
+      }
+    } catch (error) {
+      console.error('Error removing SMS opt-out:', error)
+    }
+  }
 
   return (
-    <PlaceholderPage
-      title="Communications Center"
-      description="Manage all external and internal communications"
-      iconName="MessageSquare"
-      features={features}
-    />
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl shadow-lg p-8 text-white">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Communications Center</h1>
+            <p className="text-blue-100 text-lg">Text announcements and alerts to personnel in the field</p>
+          </div>
+          <div className="hidden lg:block">
+            <div className="h-20 w-20 bg-white/20 rounded-2xl flex items-center justify-center">
+              <MessageSquare className="h-10 w-10 text-white" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {status && (
+        <div className={`p-4 rounded-2xl border text-sm ${
+          status.enabled && status.configuration.valid ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+        }`}>
+          <p className="font-medium">
+            {status.enabled ? 'SMS enabled' : 'SMS disabled (set ENABLE_SMS_NOTIFICATIONS=true)'} - provider: <span className="uppercase">{status.provider}</span>
+            {status.provider === 'mock' && ' (messages are logged, not sent)'}
+          </p>
+          {status.configuration.errors.length > 0 && (
+            <ul className="mt-1">
+              {status.configuration.errors.map(configError => (
+                <li key={configError}>• {configError}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Send SMS</h3>
+
+        <div className="flex flex-wrap gap-2">
+          {([['all', 'All personnel'], ['departments', 'Departments'], ['numbers', 'Phone numbers']] as [Audience, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setAudience(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                audience === value ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {audience === 'departments' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+            {departments.map(department => (
+              <label key={department.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selectedDepartments.includes(department.name)}
+                  onChange={() => toggleDepartment(department.name)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>{department.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {audience === 'numbers' && (
+          <div>
+            <textarea
+              value={numbers}
+              onChange={(e) => setNumbers(e.target.value)}
+              rows={3}
+              placeholder="0917 123 4567, one per line or separated by commas"
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        )}
+
+        {audience !== 'numbers' && (
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeEmergencyContacts}
+              onChange={(e) => setIncludeEmergencyContacts(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <span>Also text their emergency contacts</span>
+          </label>
+        )}
+
+        <div>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={5}
+            placeholder="Type the message..."
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div className="mt-1 flex flex-wrap justify-between gap-2 text-xs">
+            <span className={tooLong ? 'text-red-600' : 'text-gray-500'}>
+              {segmentation.length} characters - {segmentation.parts.length} SMS part{segmentation.parts.length === 1 ? '' : 's'}
+              {' '}({segmentation.remaining} left in this part, limit {SMS_MAX_SEGMENTS} parts)
+            </span>
+            {segmentation.encoding === 'ucs2' && (
+              <span className="text-yellow-700">Emoji or special characters shorten each part to 67 characters</span>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">&quot;Reply STOP to opt out.&quot; is added to every message.</p>
+        </div>
+
+        {error && <p className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</p>}
+
+        {result && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            <p className="font-medium">
+              {result.sent} sent ({result.segments} SMS parts via {result.provider}), {result.failed} failed, {result.optedOut} opted out
+              {result.duplicates > 0 && `, ${result.duplicates} duplicate numbers skipped`}
+            </p>
+            {result.invalid.length > 0 && (
+              <p className="mt-1 text-yellow-800">
+                No mobile number for: {result.invalid.map(recipient => recipient.name || recipient.phone || 'unknown').join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={sending || !message.trim() || tooLong || !hasRecipients || !status?.enabled}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {sending ? 'Sending...' : 'Send SMS'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2 bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">SMS Log ({pagination.total})</h3>
+            <button
+              onClick={() => fetchMessages()}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </button>
+          </div>
+          {messages.length === 0 ? (
+            <p className="text-center py-12 text-sm text-gray-500">No SMS have been sent yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Message</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {messages.map(sms => (
+                    <tr key={sms.id} className="align-top">
+                      <td className="px-6 py-4 text-sm">
+                        <p className="font-medium text-gray-900">{formatPhilippineNumber(sms.phone_number)}</p>
+                        {sms.recipient_name && <p className="text-gray-500">{sms.recipient_name}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="text-gray-900 whitespace-pre-line line-clamp-3 max-w-md">{sms.body}</p>
+                        <p className="text-xs text-gray-500">
+                          {sms.category === 'notification' ? 'Notification' : 'Broadcast'} - {sms.segments} part{sms.segments === 1 ? '' : 's'} - {new Date(sms.created_at).toLocaleString()}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[sms.status]}`}>
+                          {STATUS_LABELS[sms.status]}
+                        </span>
+                        {sms.error && <p className="text-xs text-red-600 mt-1 max-w-xs break-words">{sms.error}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {pagination.pages > 1 && (
+            <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+              <p className="text-sm text-gray-600">Page {pagination.page} of {pagination.pages}</p>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.pages}
+                  className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-4">
+          <div className="flex items-center space-x-2">
+            <UserX className="h-5 w-5 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900">Opted Out ({optOuts.length})</h3>
+          </div>
+          <p className="text-xs text-gray-500">Numbers that replied STOP get no SMS until they reply START.</p>
+          <div className="space-y-2">
+            <input
+              type="tel"
+              value={optOutNumber}
+              onChange={(e) => setOptOutNumber(e.target.value)}
+              placeholder="0917 123 4567"
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={optOutNote}
+              onChange={(e) => setOptOutNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="button"
+              onClick={handleAddOptOut}
+              disabled={!optOutNumber.trim()}
+              className="w-full px-4 py-2 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Opt out number
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {optOuts.map(optOut => (
+              <li key={optOut.phone_number} className="py-2 flex items-start justify-between text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{formatPhilippineNumber(optOut.phone_number)}</p>
+                  <p className="text-xs text-gray-500">
+                    {optOut.source === 'keyword' ? 'Replied' : 'Added by staff'} {new Date(optOut.created_at).toLocaleDateString()}
+                    {optOut.note && ` - ${optOut.note}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemoveOptOut(optOut)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Let this number receive SMS again"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
   )
 }
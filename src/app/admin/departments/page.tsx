@@ -1,13 +1,12 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import {
   Building,
   Users,
   Plus,
   Edit,
   Trash2,
-  Eye,
   MapPin,
   Phone,
   Mail,
@@ -17,111 +16,60 @@ import {
   TrendingUp,
   Award
 } from 'lucide-react'
+import DepartmentModal, { Department } from '@/components/DepartmentModal'
+import DepartmentDeleteModal from '@/components/DepartmentDeleteModal'
 
-interface Department {
-  id: number
-  name: string
-  description: string
-  head: string
-  headEmail: string
-  headPhone: string
-  location: string
-  personnelCount: number
-  budget: string
-  established: string
-  status: 'Active' | 'Inactive' | 'Restructuring'
-  performance: number
-}
+const formatBudget = (budget: number | null) =>
+  budget === null ? '—' : `₱${budget.toLocaleString('en-PH', { maximumFractionDigits: 2 })}`
+
+export default function DepartmentsPage() {
+  const [departments, setDepartments] = useState<Department[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
+  const [selectedDepartment, setSelectedDepartment] = useState<Department | null>(null)
+  const [modalMode, setModalMode] = useState<'create' | 'edit'>('create')
+
+  const fetchDepartments = useCallback(async () => {
+    setLoading(true)
+    setError('')
+    try {
+      const response = await fetch('/api/departments')
+      if (response.ok) {
+        const data = await response.json()
+        setDepartments(data.departments)
+      } else {
+        setError('Failed to load departments')
+      }
+    } catch (error) {
+      console.error('Error fetching departments:', error)
+      setError('An error occurred while loading departments')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
 
-const mockDepartments: Department[] = [
-  {
-    id: 1,
-    name: 'Marine Operations',
-    description: 'Oversees all fishing operations, boat management, and marine safety protocols',
-    head: 'Captain Juan Dela Cruz',
-    headEmail: 'juan.delacruz@mao-ipil.gov.ph',
-    headPhone: '+63 917 123 4567',
-    location: 'Main Harbor Office, Building A',
-    personnelCount: 89,
-    budget: '₱2,450,000',
-    established: '2018-03-15',
-    status: 'Active',
-    performance: 94.5
-  },
-  {
-    id: 2,
-    name: 'Quality Control',
-    description: 'Ensures fish quality standards, safety inspections, and regulatory compliance',
-    head: 'Dr. Maria Santos',
-    headEmail: 'maria.santos@mao-ipil.gov.ph',
-    headPhone: '+63 917 234 5678',
-    location: 'Quality Lab, Building B',
-    personnelCount: 45,
-    budget: '₱1,200,000',
-    established: '2019-01-20',
-    status: 'Active',
-    performance: 96.8
-  },
-  {
-    id: 3,
-    name: 'Administration',
-    description: 'Handles administrative tasks, documentation, and personnel management',
-    head: 'Ms. Ana Rodriguez',
-    headEmail: 'ana.rodriguez@mao-ipil.gov.ph',
-    headPhone: '+63 917 345 6789',
-    location: 'Admin Building, 2nd Floor',
-    personnelCount: 32,
-    budget: '₱980,000',
-    established: '2017-11-10',
-    status: 'Active',
-    performance: 92.3
-  },
-  {
-    id: 4,
-    name: 'Boat Maintenance',
-    description: 'Responsible for vessel maintenance, repairs, and equipment management',
-    head: 'Engr. Carlos Mendoza',
-    headEmail: 'carlos.mendoza@mao-ipil.gov.ph',
-    headPhone: '+63 917 456 7890',
-    location: 'Maintenance Dock, Pier 3',
-    personnelCount: 28,
-    budget: '₱1,800,000',
-    established: '2018-06-05',
-    status: 'Active',
-    performance: 88.7
-  },
-  {
-    id: 5,
-    name: 'Safety & Compliance',
-    description: 'Monitors safety protocols, regulatory compliance, and emergency response',
-    head: 'Ms. Elena Reyes',
-    headEmail: 'elena.reyes@mao-ipil.gov.ph',
-    headPhone: '+63 917 567 8901',
-    location: 'Safety Office, Building C',
-    personnelCount: 25,
-    budget: '₱750,000',
-    established: '2019-08-12',
-    status: 'Active',
-    performance: 95.2
-  },
-  {
-    id: 6,
-    name: 'Training & Development',
-    description: 'Provides training programs, skill development, and certification courses',
-    head: 'Prof. Roberto Silva',
-    headEmail: 'roberto.silva@mao-ipil.gov.ph',
-    headPhone: '+63 917 678 9012',
-    location: 'Training Center, Building D',
-    personnelCount: 18,
-    budget: '₱650,000',
-    established: '2020-02-28',
-    status: 'Restructuring',
-    performance: 89.4
+  useEffect(() => {
+    fetchDepartments()
+  }, [fetchDepartments])
+
+  const handleCreateDepartment = () => {
+    setSelectedDepartment(null)
+    setModalMode('create')
+    setIsModalOpen(true)
   }
-]
 
-export default function DepartmentsPage() {
-  const [departments] = useState<Department[]>(mockDepartments)
+  const handleEditDepartment = (department: Department) => {
+    setSelectedDepartment(department)
+    setModalMode('edit')
+    setIsModalOpen(true)
+  }
+
+  const handleDeleteDepartment = (department: Department) => {
+    setSelectedDepartment(department)
+    setIsDeleteModalOpen(true)
+  }
 
   const getStatusBadge = (status: string) => {
     const baseClasses = "px-3 py-1 rounded-full text-xs font-medium"
@@ -144,9 +92,12 @@ export default function DepartmentsPage() {
     return 'text-red-600'
   }
 
-  const totalPersonnel = departments.reduce((sum, dept) => sum + dept.personnelCount, 0)
+  const totalPersonnel = departments.reduce((sum, dept) => sum + dept.personnel_count, 0)
   const activeDepartments = departments.filter(dept => dept.status === 'Active').length
-  const averagePerformance = departments.reduce((sum, dept) => sum + dept.performance, 0) / departments.length
+  const ratedDepartments = departments.filter(dept => dept.performance !== null)
+  const averagePerformance = ratedDepartments.length > 0
+    ? ratedDepartments.reduce((sum, dept) => sum + (dept.performance ?? 0), 0) / ratedDepartments.length
+    : 0
 
   return (
     <div className="space-y-6">
@@ -220,7 +171,10 @@ export default function DepartmentsPage() {
       <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-900">Department Overview</h2>
-          <button className="inline-flex items-center px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors">
+          <button
+            onClick={handleCreateDepartment}
+            className="inline-flex items-center px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors"
+          >
             <Plus className="h-4 w-4 mr-2" />
             Add Department
           </button>
@@ -228,87 +182,120 @@ export default function DepartmentsPage() {
       </div>
 
       {/* Departments Grid */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {departments.map((department) => (
-          <div key={department.id} className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden hover:shadow-xl transition-shadow">
-            <div className="p-6">
-              {/* Header */}
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-center space-x-3">
-                  <div className="p-2 bg-emerald-100 rounded-lg">
-                    <Building className="h-6 w-6 text-emerald-600" />
+      {loading ? (
+        <div className="bg-white shadow-lg rounded-2xl border border-gray-100">
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-white shadow-lg rounded-2xl border border-red-100 p-8 text-center">
+          <p className="text-red-600">{error}</p>
+        </div>
+      ) : departments.length === 0 ? (
+        <div className="bg-white shadow-lg rounded-2xl border border-gray-100">
+          <div className="text-center py-16">
+            <Building className="mx-auto h-16 w-16 text-gray-400 mb-4" />
+            <p className="text-xl text-gray-500 mb-2">No departments yet</p>
+            <p className="text-gray-400">Add your first department to start assigning personnel</p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {departments.map((department) => (
+            <div key={department.id} className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden hover:shadow-xl transition-shadow">
+              <div className="p-6">
+                {/* Header */}
+                <div className="flex items-start justify-between mb-4">
+                  <div className="flex items-center space-x-3">
+                    <div className="p-2 bg-emerald-100 rounded-lg">
+                      <Building className="h-6 w-6 text-emerald-600" />
+                    </div>
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{department.name}</h3>
+                      <span className={getStatusBadge(department.status)}>
+                        {department.status}
+                      </span>
+                    </div>
                   </div>
-                  <div>
-                    <h3 className="text-lg font-semibold text-gray-900">{department.name}</h3>
-                    <span className={getStatusBadge(department.status)}>
-                      {department.status}
-                    </span>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleEditDepartment(department)}
+                      className="p-2 text-yellow-600 hover:bg-yellow-100 rounded-lg transition-colors"
+                      title="Edit Department"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteDepartment(department)}
+                      className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                      title="Delete Department"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
                   </div>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <button className="p-2 text-blue-600 hover:bg-blue-100 rounded-lg transition-colors">
-                    <Eye className="h-4 w-4" />
-                  </button>
-                  <button className="p-2 text-yellow-600 hover:bg-yellow-100 rounded-lg transition-colors">
-                    <Edit className="h-4 w-4" />
-                  </button>
-                  <button className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors">
-                    <Trash2 className="h-4 w-4" />
-                  </button>
-                </div>
-              </div>
 
-              {/* Description */}
-              <p className="text-sm text-gray-600 mb-4">{department.description}</p>
+                {/* Description */}
+                {department.description && (
+                  <p className="text-sm text-gray-600 mb-4">{department.description}</p>
+                )}
 
-              {/* Department Head */}
-              <div className="bg-gray-50 rounded-lg p-4 mb-4">
-                <div className="flex items-center space-x-3 mb-2">
-                  <User className="h-4 w-4 text-gray-500" />
-                  <span className="text-sm font-medium text-gray-900">{department.head}</span>
-                </div>
-                <div className="grid grid-cols-1 gap-2 text-xs text-gray-600">
-                  <div className="flex items-center space-x-2">
-                    <Mail className="h-3 w-3" />
-                    <span>{department.headEmail}</span>
+                {/* Department Head */}
+                <div className="bg-gray-50 rounded-lg p-4 mb-4">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <User className="h-4 w-4 text-gray-500" />
+                    <span className="text-sm font-medium text-gray-900">{department.head_name || 'No head assigned'}</span>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <Phone className="h-3 w-3" />
-                    <span>{department.headPhone}</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <MapPin className="h-3 w-3" />
-                    <span>{department.location}</span>
+                  <div className="grid grid-cols-1 gap-2 text-xs text-gray-600">
+                    {department.head_email && (
+                      <div className="flex items-center space-x-2">
+                        <Mail className="h-3 w-3" />
+                        <span>{department.head_email}</span>
+                      </div>
+                    )}
+                    {department.head_phone && (
+                      <div className="flex items-center space-x-2">
+                        <Phone className="h-3 w-3" />
+                        <span>{department.head_phone}</span>
+                      </div>
+                    )}
+                    {department.location && (
+                      <div className="flex items-center space-x-2">
+                        <MapPin className="h-3 w-3" />
+                        <span>{department.location}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
 
-              {/* Stats */}
-              <div className="grid grid-cols-2 gap-4 mb-4">
-                <div className="text-center p-3 bg-blue-50 rounded-lg">
-                  <div className="text-lg font-bold text-blue-600">{department.personnelCount}</div>
-                  <div className="text-xs text-blue-600">Personnel</div>
-                </div>
-                <div className="text-center p-3 bg-green-50 rounded-lg">
-                  <div className={`text-lg font-bold ${getPerformanceColor(department.performance)}`}>
-                    {department.performance}%
+                {/* Stats */}
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div className="text-center p-3 bg-blue-50 rounded-lg">
+                    <div className="text-lg font-bold text-blue-600">{department.personnel_count}</div>
+                    <div className="text-xs text-blue-600">Personnel</div>
+                  </div>
+                  <div className="text-center p-3 bg-green-50 rounded-lg">
+                    <div className={`text-lg font-bold ${department.performance !== null ? getPerformanceColor(department.performance) : 'text-gray-400'}`}>
+                      {department.performance !== null ? `${department.performance}%` : '—'}
+                    </div>
+                    <div className="text-xs text-gray-600">Performance</div>
                   </div>
-                  <div className="text-xs text-gray-600">Performance</div>
                 </div>
-              </div>
 
-              {/* Additional Info */}
-              <div className="flex items-center justify-between text-xs text-gray-500">
-                <div className="flex items-center space-x-1">
-                  <Calendar className="h-3 w-3" />
-                  <span>Est. {department.established}</span>
+                {/* Additional Info */}
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <div className="flex items-center space-x-1">
+                    <Calendar className="h-3 w-3" />
+                    <span>Est. {department.established || '—'}</span>
+                  </div>
+                  <div className="font-medium text-gray-700">{formatBudget(department.budget)}</div>
                 </div>
-                <div className="font-medium text-gray-700">{department.budget}</div>
               </div>
             </div>
-          </div>
-        ))}
-      </div>
+          ))}
+        </div>
+      )}
 
       {/* Performance Overview */}
       <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
@@ -317,7 +304,7 @@ export default function DepartmentsPage() {
           <TrendingUp className="h-5 w-5 text-gray-400" />
         </div>
         <div className="space-y-4">
-          {departments.map((dept) => (
+          {ratedDepartments.map((dept) => (
             <div key={dept.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
               <div className="flex items-center space-x-3">
                 <div className="w-8 h-8 bg-emerald-100 rounded-lg flex items-center justify-center">
@@ -325,12 +312,12 @@ export default function DepartmentsPage() {
                 </div>
                 <div>
                   <div className="text-sm font-medium text-gray-900">{dept.name}</div>
-                  <div className="text-xs text-gray-500">{dept.personnelCount} personnel</div>
+                  <div className="text-xs text-gray-500">{dept.personnel_count} personnel</div>
                 </div>
               </div>
               <div className="flex items-center space-x-4">
                 <div className="text-right">
-                  <div className={`text-sm font-semibold ${getPerformanceColor(dept.performance)}`}>
+                  <div className={`text-sm font-semibold ${getPerformanceColor(dept.performance ?? 0)}`}>
                     {dept.performance}%
                   </div>
                   <div className="text-xs text-gray-500">Performance</div>
@@ -365,6 +352,22 @@ export default function DepartmentsPage() {
           </button>
         </div>
       </div>
+
+      {/* Modals */}
+      <DepartmentModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSave={fetchDepartments}
+        department={selectedDepartment}
+        mode={modalMode}
+      />
+
+      <DepartmentDeleteModal
+        isOpen={isDeleteModalOpen}
+        onClose={() => setIsDeleteModalOpen(false)}
+        onConfirm={fetchDepartments}
+        department={selectedDepartment}
+      />
     </div>
   )
 }
@@ -0,0 +1,304 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Inbox, Search, Filter, RefreshCw, RotateCcw, ChevronLeft, ChevronRight } from 'lucide-react'
+import type { EmailOutbox, EmailOutboxStatus } from '@/lib/database.types'
+
+interface PaginationInfo {
+  page: number
+  limit: number
+  total: number
+  pages: number
+}
+
+type StatusFilter = 'all' | EmailOutboxStatus
+
+const PAGE_SIZE = 20
+
+const STATUSES: EmailOutboxStatus[] = ['queued', 'sending', 'sent', 'failed', 'bounced']
+
+const STATUS_BADGES: Record<EmailOutboxStatus, string> = {
+  queued: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  bounced: 'bg-orange-100 text-orange-800'
+}
+
+const TEMPLATE_LABELS: Record<EmailOutbox['template'], string> = {
+  welcome: 'Welcome',
+  notification: 'Notification',
+  system_alert: 'System alert',
+  digest: 'Digest',
+  test: 'Test'
+}
+
+const EMPTY_COUNTS: Record<EmailOutboxStatus, number> = { queued: 0, sending: 0, sent: 0, failed: 0, bounced: 0 }
+
+export default function EmailLogPage() {
+  const [emails, setEmails] = useState<EmailOutbox[]>([])
+  const [pagination, setPagination] = useState<PaginationInfo>({ page: 1, limit: PAGE_SIZE, total: 0, pages: 0 })
+  const [counts, setCounts] = useState<Record<EmailOutboxStatus, number>>(EMPTY_COUNTS)
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [recipientInput, setRecipientInput] = useState('')
+  const [recipient, setRecipient] = useState('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [retryingId, setRetryingId] = useState<number | null>(null)
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setRecipient(recipientInput.trim())
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [recipientInput])
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+        ...(recipient && { recipient }),
+        ...(statusFilter !== 'all' && { status: statusFilter })
+      })
+
+      const response = await fetch(`/api/email/outbox?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setEmails(data.emails)
+        setPagination(data.pagination)
+        setCounts(data.counts)
+      }
+    } catch (error) {
+      console.error('Error fetching email log:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, recipient, statusFilter])
+
+  useEffect(() => {
+    fetchEmails()
+  }, [fetchEmails])
+
+  const handleRetry = async (email: EmailOutbox) => {
+    setRetryingId(email.id)
+    try {
+      const response = await fetch(`/api/email/outbox/${email.id}/retry`, { method: 'POST' })
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to retry email')
+      }
+      await fetchEmails()
+    } catch (error) {
+      console.error('Error retrying email:', error)
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  const describeDelivery = (email: EmailOutbox) => {
+    if (email.bounced_at) {
+      return `Bounced ${new Date(email.bounced_at).toLocaleString()}${email.bounce_reason ? ` - ${email.bounce_reason}` : ''}`
+    }
+    if (email.complained_at) {
+      return `Marked as spam ${new Date(email.complained_at).toLocaleString()}`
+    }
+    if (email.delivered_at) {
+      return `Delivered ${new Date(email.delivered_at).toLocaleString()}`
+    }
+    if (email.sent_at) {
+      return `Sent ${new Date(email.sent_at).toLocaleString()}`
+    }
+    if (email.status === 'queued' && email.next_attempt_at) {
+      return `Next attempt ${new Date(email.next_attempt_at).toLocaleString()}`
+    }
+    return '-'
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl shadow-lg p-8 text-white">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Email Log</h1>
+            <p className="text-blue-100 text-lg">Outgoing emails, retries, deliveries and bounces</p>
+          </div>
+          <div className="hidden lg:block">
+            <div className="h-20 w-20 bg-white/20 rounded-2xl flex items-center justify-center">
+              <Inbox className="h-10 w-10 text-white" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {STATUSES.map(status => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => {
+              setStatusFilter(statusFilter === status ? 'all' : status)
+              setPage(1)
+            }}
+            className={`bg-white rounded-2xl shadow-lg p-5 border text-left transition-colors ${
+              statusFilter === status ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-100 hover:border-blue-200'
+            }`}
+          >
+            <p className="text-sm font-medium text-gray-600 capitalize">{status}</p>
+            <p className="text-2xl font-bold text-gray-900">{counts[status]}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={recipientInput}
+                onChange={(e) => setRecipientInput(e.target.value)}
+                placeholder="Search recipient..."
+                className="pl-9 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Filter className="h-4 w-4 text-gray-400" />
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as StatusFilter)
+                  setPage(1)
+                }}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="all">All Statuses</option>
+                {STATUSES.map(status => (
+                  <option key={status} value={status} className="capitalize">{status}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <button
+            onClick={() => fetchEmails()}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Emails ({pagination.total})
+          </h3>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : emails.length === 0 ? (
+          <div className="text-center py-16">
+            <Inbox className="mx-auto h-12 w-12 text-gray-300" />
+            <p className="mt-4 text-sm text-gray-500">
+              {recipient || statusFilter !== 'all' ? 'No emails match these filters' : 'No emails have been sent yet'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Subject</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Delivery</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {emails.map(email => (
+                  <tr key={email.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => setRecipientInput(email.recipient_email)}
+                        className="font-medium text-gray-900 hover:underline text-left"
+                        title="Show all emails to this recipient"
+                      >
+                        {email.recipient_email}
+                      </button>
+                      {email.recipient_name && <p className="text-gray-500">{email.recipient_name}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <p className="text-gray-900">{email.subject}</p>
+                      <p className="text-xs text-gray-500">
+                        {TEMPLATE_LABELS[email.template]} - queued {new Date(email.created_at).toLocaleString()}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_BADGES[email.status]}`}>
+                        {email.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {email.attempts} / {email.max_attempts}
+                      {email.last_error && (
+                        <p className="text-xs text-red-600 mt-1 max-w-xs break-words">{email.last_error}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{describeDelivery(email)}</td>
+                    <td className="px-6 py-4 text-right">
+                      {(email.status === 'failed' || email.status === 'queued') && (
+                        <button
+                          onClick={() => handleRetry(email)}
+                          disabled={retryingId === email.id}
+                          className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50"
+                          title={email.status === 'failed' ? 'Retry with a fresh set of attempts' : 'Send now'}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          {email.status === 'failed' ? 'Retry' : 'Send now'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination.pages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Page {pagination.page} of {pagination.pages}
+            </p>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.pages}
+                className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,289 +1,453 @@
 /**
- * Email Test Page
- * 
- * Professional admin page for testing Resend email integration
- * Allows administrators to send test emails and verify functionality
+ * Email Templates Page
+ *
+ * Edit the welcome, notification and system alert emails per language with a
+ * live preview, send a test of the current draft, and check the email
+ * service's transport and configuration.
  */
 
 'use client'
 
-import { useState } from 'react'
-import { useForm } from 'react-hook-form'
-import { zodResolver } from '@hookform/resolvers/zod'
-import { z } from 'zod'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { LayoutTemplate, Save, RotateCcw, Send, Eye, Code } from 'lucide-react'
+import type { EditableEmailTemplateKey, EmailLanguage } from '@/lib/database.types'
+import {
+  DEFAULT_EMAIL_LANGUAGE,
+  EMAIL_LANGUAGES,
+  EMAIL_LANGUAGE_LABELS,
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_KEYS,
+  EmailVariableDefinition,
+  renderTemplateString,
+  sampleTemplateValues,
+  validateTemplateString
+} from '@/lib/emailTemplates'
 
-// Form validation schema
-const testEmailSchema = z.object({
-  recipientEmail: z.string().email('Invalid email address'),
-  testType: z.enum(['basic', 'welcome', 'notification', 'system-alert'])
-})
+interface TemplateSummary {
+  key: EditableEmailTemplateKey
+  languages: { language: EmailLanguage; customized: boolean; updatedAt: string | null }[]
+}
 
-type TestEmailForm = z.infer<typeof testEmailSchema>
+type TemplateSource = 'custom' | 'fallback' | 'built-in'
 
-interface TestResult {
-  success: boolean
-  messageId?: string
+interface ServiceStatus {
+  emailEnabled: boolean
+  transport?: string
+  configuration?: {
+    valid: boolean
+    errors?: string[]
+  }
   error?: string
-  testType?: string
-  timestamp?: string
 }
 
-export default function EmailTestPage() {
-  const [isLoading, setIsLoading] = useState(false)
-  const [testResult, setTestResult] = useState<TestResult | null>(null)
-  const [serviceStatus, setServiceStatus] = useState<{
-    emailEnabled: boolean;
-    configuration?: {
-      valid: boolean;
-      errors?: string[];
-    };
-    availableTestTypes?: string[];
-    error?: string;
-  } | null>(null)
-
-  const {
-    register,
-    handleSubmit,
-    formState: { errors },
-
-  } = useForm<TestEmailForm>({
-    resolver: zodResolver(testEmailSchema),
-    defaultValues: {
-      recipientEmail: 'davemejos2020@gmail.com',
-      testType: 'basic'
+interface StatusMessage {
+  type: 'success' | 'error'
+  text: string
+}
+
+const SOURCE_BADGES: Record<TemplateSource, { label: string; className: string }> = {
+  custom: { label: 'Edited', className: 'bg-green-100 text-green-800' },
+  fallback: { label: 'Using the English edit', className: 'bg-yellow-100 text-yellow-800' },
+  'built-in': { label: 'Built-in default', className: 'bg-gray-100 text-gray-700' }
+}
+
+export default function EmailTemplatesPage() {
+  const [summaries, setSummaries] = useState<TemplateSummary[]>([])
+  const [templateKey, setTemplateKey] = useState<EditableEmailTemplateKey>('welcome')
+  const [language, setLanguage] = useState<EmailLanguage>(DEFAULT_EMAIL_LANGUAGE)
+  const [subject, setSubject] = useState('')
+  const [body, setBody] = useState('')
+  const [source, setSource] = useState<TemplateSource>('built-in')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [sendingTest, setSendingTest] = useState(false)
+  const [recipientEmail, setRecipientEmail] = useState('')
+  const [showSource, setShowSource] = useState(false)
+  const [status, setStatus] = useState<StatusMessage | null>(null)
+  const [serviceStatus, setServiceStatus] = useState<ServiceStatus | null>(null)
+  const bodyRef = useRef<HTMLTextAreaElement>(null)
+
+  const fetchSummaries = useCallback(async () => {
+    try {
+      const response = await fetch('/api/email/templates')
+      if (response.ok) {
+        const data = await response.json()
+        setSummaries(data.templates)
+      }
+    } catch (error) {
+      console.error('Error fetching email templates:', error)
     }
-  })
+  }, [])
 
-  // Check service status
-  const checkServiceStatus = async () => {
+  const fetchTemplate = useCallback(async () => {
+    setLoading(true)
+    setStatus(null)
+    try {
+      const response = await fetch(`/api/email/templates/${templateKey}?language=${language}`)
+      if (response.ok) {
+        const data = await response.json()
+        setSubject(data.template.subject)
+        setBody(data.template.body)
+        setSource(data.template.source)
+      }
+    } catch (error) {
+      console.error('Error fetching email template:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [templateKey, language])
+
+  const fetchServiceStatus = useCallback(async () => {
     try {
       const response = await fetch('/api/email/test')
-      const data = await response.json()
-      setServiceStatus(data)
+      setServiceStatus(await response.json())
     } catch (error) {
-      console.error('Error checking service status:', error)
+      console.error('Error checking email service status:', error)
       setServiceStatus({ emailEnabled: false, error: 'Failed to check service status' })
     }
-  }
+  }, [])
+
+  useEffect(() => {
+    fetchSummaries()
+    fetchServiceStatus()
+  }, [fetchSummaries, fetchServiceStatus])
+
+  useEffect(() => {
+    fetchTemplate()
+  }, [fetchTemplate])
+
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[templateKey]
+  const variables = Object.entries(definition.variables) as [string, EmailVariableDefinition][]
 
-  // Send test email
-  const onSubmit = async (data: TestEmailForm) => {
-    setIsLoading(true)
-    setTestResult(null)
+  const problems = useMemo(() => [
+    ...validateTemplateString(templateKey, subject).map(problem => `Subject: ${problem}`),
+    ...validateTemplateString(templateKey, body).map(problem => `Body: ${problem}`)
+  ], [templateKey, subject, body])
 
+  // Preview with the sample values, the same way the server renders the email
+  const preview = useMemo(() => {
+    const values = sampleTemplateValues(templateKey)
+    return {
+      subject: renderTemplateString(subject, values, { html: false }).replace(/\s+/g, ' ').trim(),
+      html: renderTemplateString(body, values, { html: true })
+    }
+  }, [templateKey, subject, body])
+
+  const insertVariable = (name: string) => {
+    const token = `{{${name}}}`
+    const textarea = bodyRef.current
+    if (!textarea) {
+      setBody(body + token)
+      return
+    }
+
+    const start = textarea.selectionStart
+    const end = textarea.selectionEnd
+    setBody(body.slice(0, start) + token + body.slice(end))
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(start + token.length, start + token.length)
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setStatus(null)
     try {
-      const response = await fetch('/api/email/test', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
+      const response = await fetch(`/api/email/templates/${templateKey}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language, subject, body })
       })
+      const data = await response.json()
+      if (response.ok) {
+        setSource('custom')
+        setStatus({ type: 'success', text: 'Template saved' })
+        await fetchSummaries()
+      } else {
+        setStatus({ type: 'error', text: data.details?.[0]?.message || data.error || 'Failed to save template' })
+      }
+    } catch (error) {
+      console.error('Error saving email template:', error)
+      setStatus({ type: 'error', text: 'Failed to save template' })
+    } finally {
+      setSaving(false)
+    }
+  }
 
-      const result = await response.json()
+  const handleReset = async () => {
+    if (!confirm(`Discard the edited ${EMAIL_LANGUAGE_LABELS[language]} version of this template?`)) {
+      return
+    }
 
+    setSaving(true)
+    setStatus(null)
+    try {
+      const response = await fetch(`/api/email/templates/${templateKey}?language=${language}`, { method: 'DELETE' })
+      const data = await response.json()
       if (response.ok) {
-        setTestResult({
-          success: true,
-          messageId: result.messageId,
-          testType: result.testType,
-          timestamp: result.timestamp
-        })
+        setSubject(data.template.subject)
+        setBody(data.template.body)
+        setSource(data.template.source)
+        setStatus({ type: 'success', text: 'Template reset to the default' })
+        await fetchSummaries()
       } else {
-        setTestResult({
-          success: false,
-          error: result.error || 'Failed to send test email'
-        })
+        setStatus({ type: 'error', text: data.error || 'Failed to reset template' })
       }
     } catch (error) {
-      setTestResult({
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error'
+      console.error('Error resetting email template:', error)
+      setStatus({ type: 'error', text: 'Failed to reset template' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSendTest = async () => {
+    setSendingTest(true)
+    setStatus(null)
+    try {
+      const response = await fetch(`/api/email/templates/${templateKey}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recipientEmail, language, subject, body })
       })
+      const data = await response.json()
+      if (response.ok) {
+        setStatus({ type: 'success', text: `Test email sent to ${recipientEmail} via ${data.transport}` })
+      } else {
+        const details = Array.isArray(data.details) ? data.details[0]?.message : data.details
+        setStatus({ type: 'error', text: details || data.error || 'Failed to send test email' })
+      }
+    } catch (error) {
+      console.error('Error sending test email:', error)
+      setStatus({ type: 'error', text: 'Failed to send test email' })
     } finally {
-      setIsLoading(false)
+      setSendingTest(false)
     }
   }
 
+  const isCustomized = (key: EditableEmailTemplateKey, lang: EmailLanguage) =>
+    summaries.find(summary => summary.key === key)?.languages.find(l => l.language === lang)?.customized ?? false
+
   return (
-    <div className="min-h-screen bg-gray-50 py-8">
-      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
-        {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Email Service Test</h1>
-          <p className="mt-2 text-gray-600">
-            Test the Resend email integration and verify that emails are being sent correctly.
-          </p>
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl shadow-lg p-8 text-white">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Email Templates</h1>
+            <p className="text-blue-100 text-lg">Edit the wording of system emails in each language</p>
+          </div>
+          <div className="hidden lg:block">
+            <div className="h-20 w-20 bg-white/20 rounded-2xl flex items-center justify-center">
+              <LayoutTemplate className="h-10 w-10 text-white" />
+            </div>
+          </div>
         </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+        <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+            <div className="flex flex-wrap gap-2">
+              {EMAIL_TEMPLATE_KEYS.map(key => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setTemplateKey(key)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    templateKey === key
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                  title={EMAIL_TEMPLATE_DEFINITIONS[key].description}
+                >
+                  {EMAIL_TEMPLATE_DEFINITIONS[key].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as EmailLanguage)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {EMAIL_LANGUAGES.map(lang => (
+                <option key={lang} value={lang}>
+                  {EMAIL_LANGUAGE_LABELS[lang]}{isCustomized(templateKey, lang) ? ' (edited)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="mt-3 text-sm text-gray-500">{definition.description}</p>
+      </div>
+
+      {status && (
+        <div className={`p-4 rounded-lg text-sm ${
+          status.type === 'success' ? 'bg-green-50 border border-green-200 text-green-800' : 'bg-red-50 border border-red-200 text-red-800'
+        }`}>
+          {status.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Editor</h3>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${SOURCE_BADGES[source].className}`}>
+              {SOURCE_BADGES[source].label}
+            </span>
+          </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Test Form */}
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">Send Test Email</h2>
-            
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
               <div>
-                <label htmlFor="recipientEmail" className="block text-sm font-medium text-gray-700 mb-1">
-                  Recipient Email
-                </label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
                 <input
-                  {...register('recipientEmail')}
-                  type="email"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Enter email address"
+                  type="text"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
-                {errors.recipientEmail && (
-                  <p className="mt-1 text-sm text-red-600">{errors.recipientEmail.message}</p>
-                )}
               </div>
 
               <div>
-                <label htmlFor="testType" className="block text-sm font-medium text-gray-700 mb-1">
-                  Test Type
-                </label>
-                <select
-                  {...register('testType')}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                >
-                  <option value="basic">Basic Test Email</option>
-                  <option value="welcome">Welcome Email Template</option>
-                  <option value="notification">Notification Email Template</option>
-                  <option value="system-alert">System Alert Email Template</option>
-                </select>
-                {errors.testType && (
-                  <p className="mt-1 text-sm text-red-600">{errors.testType.message}</p>
-                )}
+                <label className="block text-sm font-medium text-gray-700 mb-1">Body (HTML)</label>
+                <textarea
+                  ref={bodyRef}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={20}
+                  spellCheck={false}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
               </div>
 
-              <button
-                type="submit"
-                disabled={isLoading}
-                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isLoading ? 'Sending...' : 'Send Test Email'}
-              </button>
-            </form>
-
-            {/* Test Result */}
-            {testResult && (
-              <div className={`mt-6 p-4 rounded-md ${
-                testResult.success 
-                  ? 'bg-green-50 border border-green-200' 
-                  : 'bg-red-50 border border-red-200'
-              }`}>
-                <h3 className={`text-sm font-medium ${
-                  testResult.success ? 'text-green-800' : 'text-red-800'
-                }`}>
-                  {testResult.success ? '✅ Email Sent Successfully' : '❌ Email Failed'}
-                </h3>
-                <div className={`mt-2 text-sm ${
-                  testResult.success ? 'text-green-700' : 'text-red-700'
-                }`}>
-                  {testResult.success ? (
-                    <div>
-                      <p><strong>Message ID:</strong> {testResult.messageId}</p>
-                      <p><strong>Test Type:</strong> {testResult.testType}</p>
-                      <p><strong>Timestamp:</strong> {testResult.timestamp}</p>
-                    </div>
-                  ) : (
-                    <p><strong>Error:</strong> {testResult.error}</p>
-                  )}
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Variables (click to insert)</p>
+                <div className="flex flex-wrap gap-2">
+                  {variables.map(([name, variable]) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => insertVariable(name)}
+                      className="px-2 py-1 rounded-md bg-blue-50 text-blue-700 text-xs font-mono hover:bg-blue-100"
+                      title={`${variable.label}${variable.required ? '' : ' (optional)'} - e.g. ${variable.sample}`}
+                    >
+                      {`{{${name}}}`}{!variable.required && '?'}
+                    </button>
+                  ))}
                 </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Wrap content in {'{{#name}}...{{/name}}'} to show it only when an optional variable has a value.
+                </p>
               </div>
-            )}
-          </div>
 
-          {/* Service Status */}
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-semibold text-gray-900">Service Status</h2>
-              <button
-                onClick={checkServiceStatus}
-                className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500"
-              >
-                Refresh
-              </button>
-            </div>
+              {problems.length > 0 && (
+                <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  {problems.map(problem => (
+                    <li key={problem}>• {problem}</li>
+                  ))}
+                </ul>
+              )}
 
-            {serviceStatus ? (
-              <div className="space-y-3">
-                {serviceStatus.error ? (
-                  <div className="p-3 bg-red-50 border border-red-200 rounded-md">
-                    <p className="text-sm text-red-800">❌ {serviceStatus.error}</p>
-                  </div>
-                ) : (
-                  <>
-                    <div className={`p-3 rounded-md ${
-                      serviceStatus.emailEnabled 
-                        ? 'bg-green-50 border border-green-200' 
-                        : 'bg-yellow-50 border border-yellow-200'
-                    }`}>
-                      <p className={`text-sm font-medium ${
-                        serviceStatus.emailEnabled ? 'text-green-800' : 'text-yellow-800'
-                      }`}>
-                        {serviceStatus.emailEnabled ? '✅ Email Enabled' : '⚠️ Email Disabled'}
-                      </p>
-                    </div>
-
-                    <div className={`p-3 rounded-md ${
-                      serviceStatus.configuration?.valid 
-                        ? 'bg-green-50 border border-green-200' 
-                        : 'bg-red-50 border border-red-200'
-                    }`}>
-                      <p className={`text-sm font-medium ${
-                        serviceStatus.configuration?.valid ? 'text-green-800' : 'text-red-800'
-                      }`}>
-                        {serviceStatus.configuration?.valid ? '✅ Configuration Valid' : '❌ Configuration Invalid'}
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving || problems.length > 0 || !subject.trim() || !body.trim()}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  disabled={saving || source !== 'custom'}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  title="Discard the edited version and go back to the default"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reset to default
+                </button>
+              </div>
+
+              <div className="pt-4 border-t border-gray-200">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Send a test with the sample values</label>
+                <div className="flex gap-2">
+                  <input
+                    type="email"
+                    value={recipientEmail}
+                    onChange={(e) => setRecipientEmail(e.target.value)}
+                    placeholder="Recipient email"
+                    className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleSendTest}
+                    disabled={sendingTest || !recipientEmail || problems.length > 0}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    {sendingTest ? 'Sending...' : 'Send test'}
+                  </button>
+                </div>
+                {serviceStatus && (
+                  <div className="mt-2 text-xs">
+                    {serviceStatus.error ? (
+                      <p className="text-red-700">{serviceStatus.error}</p>
+                    ) : (
+                      <p className={serviceStatus.emailEnabled && serviceStatus.configuration?.valid ? 'text-gray-500' : 'text-yellow-700'}>
+                        {serviceStatus.emailEnabled ? 'Email enabled' : 'Email disabled'}
+                        {serviceStatus.transport && <> via <span className="uppercase">{serviceStatus.transport}</span></>}
+                        {serviceStatus.configuration && !serviceStatus.configuration.valid && (
+                          <> · configuration invalid: {serviceStatus.configuration.errors?.join('; ')}</>
+                        )}
                       </p>
-                      {serviceStatus.configuration?.errors && serviceStatus.configuration.errors.length > 0 && (
-                        <ul className="mt-2 text-sm text-red-700">
-                          {serviceStatus.configuration.errors.map((error: string, index: number) => (
-                            <li key={index}>• {error}</li>
-                          ))}
-                        </ul>
-                      )}
-                    </div>
-
-                    {serviceStatus.availableTestTypes && (
-                      <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
-                        <p className="text-sm font-medium text-blue-800 mb-2">Available Test Types:</p>
-                        <ul className="text-sm text-blue-700">
-                          {serviceStatus.availableTestTypes.map((type: string) => (
-                            <li key={type}>• {type}</li>
-                          ))}
-                        </ul>
-                      </div>
                     )}
-                  </>
+                  </div>
                 )}
               </div>
-            ) : (
-              <p className="text-sm text-gray-500">Click &quot;Refresh&quot; to check service status</p>
-            )}
-          </div>
+            </>
+          )}
         </div>
 
-        {/* Documentation */}
-        <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Email Templates</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <div className="p-4 bg-gray-50 rounded-md">
-              <h3 className="font-medium text-gray-900">Basic Test</h3>
-              <p className="text-sm text-gray-600 mt-1">Simple test email with basic content</p>
-            </div>
-            <div className="p-4 bg-gray-50 rounded-md">
-              <h3 className="font-medium text-gray-900">Welcome Email</h3>
-              <p className="text-sm text-gray-600 mt-1">Professional welcome email for new users</p>
-            </div>
-            <div className="p-4 bg-gray-50 rounded-md">
-              <h3 className="font-medium text-gray-900">Notification</h3>
-              <p className="text-sm text-gray-600 mt-1">General notification email template</p>
-            </div>
-            <div className="p-4 bg-gray-50 rounded-md">
-              <h3 className="font-medium text-gray-900">System Alert</h3>
-              <p className="text-sm text-gray-600 mt-1">Critical system alert with styling</p>
-            </div>
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Preview</h3>
+            <button
+              type="button"
+              onClick={() => setShowSource(!showSource)}
+              className="inline-flex items-center px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              {showSource ? <Eye className="h-4 w-4 mr-1" /> : <Code className="h-4 w-4 mr-1" />}
+              {showSource ? 'Show email' : 'Show HTML'}
+            </button>
+          </div>
+          <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+            <span className="text-gray-500">Subject: </span>
+            <span className="font-medium text-gray-900">{preview.subject}</span>
           </div>
+          {showSource ? (
+            <pre className="h-[640px] overflow-auto p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs whitespace-pre-wrap break-words">
+              {preview.html}
+            </pre>
+          ) : (
+            <iframe
+              title="Email preview"
+              srcDoc={preview.html}
+              sandbox=""
+              className="w-full h-[640px] border border-gray-200 rounded-lg bg-white"
+            />
+          )}
         </div>
       </div>
     </div>
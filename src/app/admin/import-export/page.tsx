@@ -1,27 +1,327 @@
 'use client'
 
-import PlaceholderPage from '@/components/PlaceholderPage'
+import { useRef, useState } from 'react'
+import {
+  Upload,
+  FileSpreadsheet,
+  Download,
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+  RotateCcw
+} from 'lucide-react'
+import { toCsv } from '@/lib/csv'
+import type { PersonnelImportResult, PersonnelImportRow } from '@/lib/personnelImport'
+
+const TEMPLATE_HEADER = [
+  'Name', 'Email', 'Phone', 'Address', 'Department', 'Position', 'Hire Date', 'Status',
+  'Biography', 'Spouse Name', 'Spouse Occupation', 'Children Count', 'Emergency Contact', 'Children Names'
+]
+
+const TEMPLATE_SAMPLE = [
+  'Juan Dela Cruz', 'juan.delacruz@example.gov.ph', '+63 912 345 6789', 'Poblacion', 'Human Resources',
+  'Administrative Officer', '2024-01-15', 'Active', '', '', '', '', '', ''
+]
+
+const PREVIEW_COLUMNS: { field: keyof PersonnelImportRow['values']; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'department', label: 'Department' },
+  { field: 'position', label: 'Position' },
+  { field: 'status', label: 'Status' }
+]
+
+function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
 
 export default function ImportExportPage() {
-  const features = [
-    'Data import from various formats',
-    'Bulk data export capabilities',
-    'CSV, Excel, and JSON support',
-    'Data validation and cleaning',
-    'Import/export scheduling',
-    'Progress tracking and monitoring',
-    'Error handling and reporting',
-    'Data mapping and transformation',
-    'Template management',
-    'API integration for data transfer'
-  ]
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<PersonnelImportResult | null>(null)
+  const [result, setResult] = useState<PersonnelImportResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [showInvalidOnly, setShowInvalidOnly] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) return
+
+    setLoading(true)
+    setError('')
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('dryRun', String(dryRun))
+
+      const response = await fetch('/api/personnel/import', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Import failed')
+        return
+      }
+
+      if (dryRun) {
+        setPreview(data)
+      } else {
+        setResult(data)
+      }
+    } catch (error) {
+      console.error('Error importing personnel:', error)
+      setError('An error occurred while processing the file')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] || null)
+    setPreview(null)
+    setResult(null)
+    setError('')
+  }
+
+  const handleReset = () => {
+    setFile(null)
+    setPreview(null)
+    setResult(null)
+    setError('')
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  const handleDownloadTemplate = () => {
+    downloadFile(toCsv(TEMPLATE_HEADER, [TEMPLATE_SAMPLE]), 'personnel-import-template.csv', 'text/csv')
+  }
+
+  const handleDownloadErrors = (report: PersonnelImportResult) => {
+    const rows = report.rows
+      .filter(row => row.errors.length > 0)
+      .map(row => [row.row, row.values.name, row.values.email, row.values.department, row.errors.join('; ')])
+
+    downloadFile(
+      toCsv(['row', 'name', 'email', 'department', 'errors'], rows),
+      `personnel-import-errors-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv'
+    )
+  }
+
+  const report = result || preview
+  const visibleRows = report
+    ? report.rows.filter(row => !showInvalidOnly || row.errors.length > 0)
+    : []
 
   return (
-    <PlaceholderPage
-      title="Import/Export"
-      description="Manage data import and export operations"
-      iconName="Upload"
-      features={features}
-    />
+    <div className="px-4 py-6 sm:px-0">
+      <div className="border-4 border-dashed border-gray-200 rounded-lg p-6">
+        {/* Header */}
+        <div className="sm:flex sm:items-center sm:justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Import/Export</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Bulk-register personnel from a CSV or Excel (.xlsx) file
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <button
+              onClick={handleDownloadTemplate}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download Template
+            </button>
+          </div>
+        </div>
+
+        {/* File Picker */}
+        <div className="bg-white shadow sm:rounded-md p-6 mb-6">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex items-center flex-1 min-w-0">
+              <FileSpreadsheet className="h-10 w-10 text-green-600 flex-shrink-0" />
+              <div className="ml-4 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">
+                  {file ? file.name : 'No file selected'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Name, email and department columns are required. Up to 1,000 rows, 5MB.
+                </p>
+              </div>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Choose File
+              </button>
+              <button
+                onClick={() => submit(true)}
+                disabled={!file || loading}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {loading && !preview ? 'Validating...' : 'Preview'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 flex items-center p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-white shadow sm:rounded-md p-4">
+                <p className="text-sm text-gray-500">Rows</p>
+                <p className="text-2xl font-semibold text-gray-900">{report.summary.total}</p>
+              </div>
+              <div className="bg-white shadow sm:rounded-md p-4">
+                <p className="text-sm text-gray-500">Valid</p>
+                <p className="text-2xl font-semibold text-green-600">{report.summary.valid}</p>
+              </div>
+              <div className="bg-white shadow sm:rounded-md p-4">
+                <p className="text-sm text-gray-500">With errors</p>
+                <p className="text-2xl font-semibold text-red-600">{report.summary.invalid}</p>
+              </div>
+              <div className="bg-white shadow sm:rounded-md p-4">
+                <p className="text-sm text-gray-500">Imported</p>
+                <p className="text-2xl font-semibold text-indigo-600">{result ? result.summary.imported : '—'}</p>
+              </div>
+            </div>
+
+            {report.columns.unmapped.length > 0 && (
+              <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                Ignored columns: {report.columns.unmapped.join(', ')}
+              </div>
+            )}
+
+            {result && (
+              <div className="mb-6 flex items-center p-4 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">
+                <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                Imported {result.summary.imported} personnel record{result.summary.imported === 1 ? '' : 's'}.
+                {result.summary.invalid > 0 && ` ${result.summary.invalid} row${result.summary.invalid === 1 ? ' was' : 's were'} skipped.`}
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <label className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showInvalidOnly}
+                  onChange={(e) => setShowInvalidOnly(e.target.checked)}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                />
+                Show only rows with errors
+              </label>
+              <div className="flex items-center gap-3">
+                {report.summary.invalid > 0 && (
+                  <button
+                    onClick={() => handleDownloadErrors(report)}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Error Report
+                  </button>
+                )}
+                {result ? (
+                  <button
+                    onClick={handleReset}
+                    className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Import Another File
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => submit(false)}
+                    disabled={loading || report.summary.valid === 0}
+                    className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {loading ? 'Importing...' : `Import ${report.summary.valid} Valid Row${report.summary.valid === 1 ? '' : 's'}`}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Preview Table */}
+            <div className="bg-white shadow overflow-x-auto sm:rounded-md">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    {PREVIEW_COLUMNS.map(column => (
+                      <th key={column.field} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {column.label}
+                      </th>
+                    ))}
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {visibleRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={PREVIEW_COLUMNS.length + 2} className="px-4 py-8 text-center text-sm text-gray-500">
+                        No rows to show
+                      </td>
+                    </tr>
+                  ) : visibleRows.map(row => (
+                    <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <td className="px-4 py-3 text-sm text-gray-500 font-mono">{row.row}</td>
+                      {PREVIEW_COLUMNS.map(column => (
+                        <td key={column.field} className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                          {row.values[column.field] || <span className="text-gray-400">—</span>}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-sm">
+                        {row.errors.length === 0 ? (
+                          <span className="inline-flex items-center text-green-700">
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            {result ? 'Imported' : 'Ready'}
+                          </span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {row.errors.map((message, index) => (
+                              <li key={index} className="flex items-start text-red-700">
+                                <XCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                                {message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
   )
 }
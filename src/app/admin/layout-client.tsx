@@ -1,15 +1,23 @@
 'use client'
 
+import { usePathname } from 'next/navigation'
 import DashboardLayout from '@/components/Layout/DashboardLayout'
 import { AuthGuard } from '@/components/auth/AuthGuard'
+import { getRequiredPermission } from '@/lib/permissions'
 
 export default function AdminLayoutClient({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const pathname = usePathname()
+
   return (
-    <AuthGuard requireAuth={true} redirectTo="/auth/login">
+    <AuthGuard
+      requireAuth={true}
+      redirectTo="/auth/login"
+      requiredPermission={getRequiredPermission(pathname)}
+    >
       <DashboardLayout>
         {children}
       </DashboardLayout>
@@ -5,7 +5,14 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 // Force dynamic rendering for this page
 export const dynamic = 'force-dynamic'
 import NextImage from 'next/image'
-import { Camera, Image, Video, Upload, Download, Trash2, Search, Grid, List, RefreshCw } from 'lucide-react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import SavedFilterMenu from '@/components/SavedFilterMenu'
+import MediaCollectionSidebar, { MEDIA_ASSETS_DRAG_TYPE } from '@/components/MediaCollectionSidebar'
+import MediaTrashPanel from '@/components/MediaTrashPanel'
+import MediaSyncConflictsPanel from '@/components/MediaSyncConflictsPanel'
+import type { MediaCollectionNode } from '@/lib/supabaseMediaService'
+import { Camera, Image, Video, Upload, Download, Trash2, Search, Grid, List, RefreshCw, FolderMinus, Link2, GitCompare } from 'lucide-react'
 
 // Removed CloudinaryUploadWidget - using direct file upload instead
 
@@ -27,6 +34,17 @@ interface MediaItem {
   signature: string
   etag: string
   type: string
+  // Profile photos and documents that use this asset
+  usage_count?: number
+}
+
+interface MediaUsageEntry {
+  id: string
+  mediaAssetId: string
+  usageType: string
+  label: string
+  href: string | null
+  since: string
 }
 
 interface PaginationInfo {
@@ -51,6 +69,11 @@ interface MediaStats {
 
 // Database setup interface removed - integration is working
 
+/**
+ * Split a comma-separated tag filter into tags
+ */
+const parseTags = (value: string) => value.split(',').map(tag => tag.trim()).filter(Boolean)
+
 /**
  * Simple MediaThumbnail Component - Show image fully covered
  */
@@ -69,10 +92,26 @@ function MediaThumbnail({ secureUrl, alt }: { secureUrl: string; alt: string })
 export default function MediaCenterPage() {
   // View and UI state
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
-  const [searchQuery, setSearchQuery] = useState('')
+  const [activeTab, setActiveTab] = useState<'library' | 'trash' | 'conflicts'>('library')
+  const searchParams = useSearchParams()
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get('search') || '')
+  const [resourceType, setResourceType] = useState<'' | 'image' | 'video' | 'raw'>('')
+  const [tagsInput, setTagsInput] = useState('')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
   const [selectedItems, setSelectedItems] = useState<string[]>([])
   const [showBulkActions, setShowBulkActions] = useState(false)
 
+  // Collections: the library shows the selected collection's items in their saved order
+  const [activeCollection, setActiveCollection] = useState<MediaCollectionNode | null>(null)
+  const [collectionRefreshKey, setCollectionRefreshKey] = useState(0)
+  const [reorderTargetId, setReorderTargetId] = useState<string | null>(null)
+  const draggedAssetIdsRef = useRef<string[]>([])
+  const activeCollectionId = activeCollection?.id || null
+
+  // Where the selected items are used, keyed by asset ID
+  const [selectionUsage, setSelectionUsage] = useState<Record<string, MediaUsageEntry[]>>({})
+
   // Data state
   const [mediaItems, setMediaItems] = useState<MediaItem[]>([])
   const [pagination, setPagination] = useState<PaginationInfo>({
@@ -99,6 +138,7 @@ export default function MediaCenterPage() {
 
   const [isDeleting, setIsDeleting] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
+  const [isScanningUsage, setIsScanningUsage] = useState(false)
 
   // Infinite scroll
   const [hasMore, setHasMore] = useState(true)
@@ -116,6 +156,18 @@ export default function MediaCenterPage() {
     }
 
     try {
+      if (activeCollectionId) {
+        // Collections are loaded whole; filters still narrow them on the client
+        const response = await fetch(`/api/media/collections/${activeCollectionId}/items`)
+        const data = response.ok ? await response.json() : { items: [] }
+        const items: MediaItem[] = data.items || []
+
+        setMediaItems(items)
+        setPagination(prev => ({ ...prev, page: 1, total: items.length, pages: 1, has_next: false, has_prev: false }))
+        setHasMore(false)
+        return
+      }
+
       // Build query parameters
       const params = new URLSearchParams({
         page: page.toString(),
@@ -126,6 +178,23 @@ export default function MediaCenterPage() {
         params.append('search', searchQuery)
       }
 
+      if (resourceType) {
+        params.append('resource_type', resourceType)
+      }
+
+      const tags = parseTags(tagsInput)
+      if (tags.length > 0) {
+        params.append('tags', tags.join(','))
+      }
+
+      if (dateFrom) {
+        params.append('date_from', dateFrom)
+      }
+
+      if (dateTo) {
+        params.append('date_to', dateTo)
+      }
+
       // Fetch from enhanced API endpoint
       const response = await fetch(`/api/cloudinary/media?${params}`)
 
@@ -198,7 +267,7 @@ export default function MediaCenterPage() {
       setIsLoading(false)
       setIsLoadingMore(false)
     }
-  }, [pagination.limit, searchQuery])
+  }, [activeCollectionId, pagination.limit, searchQuery, resourceType, tagsInput, dateFrom, dateTo])
 
   /**
    * Load more items for infinite scroll
@@ -221,16 +290,21 @@ export default function MediaCenterPage() {
   }
 
   /**
-   * Delete selected items
+   * Move selected items to the trash. Items still used by a profile photo or
+   * document are refused by the API; the user is shown where and can delete
+   * them anyway.
    */
-  const deleteSelectedItems = async () => {
-    if (selectedItems.length === 0) return
+  const deleteSelectedItems = async (publicIds: string[] = selectedItems, force = false) => {
+    if (publicIds.length === 0) return
 
     setIsDeleting(true)
     try {
       const params = new URLSearchParams({
-        public_ids: selectedItems.join(',')
+        public_ids: publicIds.join(',')
       })
+      if (force) {
+        params.append('force', 'true')
+      }
 
       const response = await fetch(`/api/cloudinary/media?${params}`, {
         method: 'DELETE'
@@ -242,13 +316,19 @@ export default function MediaCenterPage() {
         console.log('✅ Successfully deleted items:', data.deleted)
         console.log('❌ Failed to delete items:', data.failed)
 
+        const deletedIds: string[] = data.deleted || []
+        const blocked: { public_id: string; usages: MediaUsageEntry[] }[] = data.blocked || []
+
         // Remove deleted items from state
-        setMediaItems(prev => prev.filter(item => !selectedItems.includes(item.public_id)))
-        setSelectedItems([])
-        setShowBulkActions(false)
+        const deletedItems = mediaItems.filter(item => deletedIds.includes(item.public_id))
+        setMediaItems(prev => prev.filter(item => !deletedIds.includes(item.public_id)))
+        setSelectedItems(prev => {
+          const remaining = prev.filter(id => !deletedIds.includes(id))
+          setShowBulkActions(remaining.length > 0)
+          return remaining
+        })
 
         // Update stats
-        const deletedItems = mediaItems.filter(item => selectedItems.includes(item.public_id))
         const deletedSize = deletedItems.reduce((sum, item) => sum + item.bytes, 0)
         const deletedImages = deletedItems.filter(item => item.resource_type === 'image').length
         const deletedVideos = deletedItems.filter(item => item.resource_type === 'video').length
@@ -267,12 +347,23 @@ export default function MediaCenterPage() {
           pages: Math.ceil(Math.max(0, prev.total - deletedItems.length) / prev.limit)
         }))
 
-        console.log(`✅ Deleted ${data.deleted?.length || 0} items`)
+        console.log(`✅ Deleted ${deletedIds.length} items`)
 
         // Show user feedback
         if (data.failed && data.failed.length > 0) {
           alert(`Warning: ${data.failed.length} items failed to delete. Check console for details.`)
         }
+
+        if (blocked.length > 0) {
+          const names = new Map(mediaItems.map(item => [item.public_id, item.original_filename || item.public_id]))
+          const details = blocked
+            .map(entry => `• ${names.get(entry.public_id) || entry.public_id}: ${entry.usages.map(usage => usage.label).join('; ')}`)
+            .join('\n')
+
+          if (confirm(`${blocked.length} item${blocked.length !== 1 ? 's are' : ' is'} still in use and ${blocked.length !== 1 ? 'were' : 'was'} not deleted:\n\n${details}\n\nMoving them to the trash will break these. Move anyway?`)) {
+            await deleteSelectedItems(blocked.map(entry => entry.public_id), true)
+          }
+        }
       } else {
         const errorText = await response.text()
         console.error('❌ Delete API failed:', errorText)
@@ -285,6 +376,100 @@ export default function MediaCenterPage() {
     }
   }
 
+  /**
+   * Record usage for profile photos and documents saved before usage tracking
+   */
+  const scanMediaUsage = async () => {
+    setIsScanningUsage(true)
+    try {
+      const response = await fetch('/api/media/usage', { method: 'POST' })
+      if (response.ok) {
+        const data = await response.json()
+        alert(`Checked ${data.scanned.personnel} profile photos and ${data.scanned.documents} documents.`)
+        await loadMediaItems(1, false)
+      } else {
+        alert('Usage scan failed. Check console for details.')
+      }
+    } catch (error) {
+      console.error('Usage scan error:', error)
+    } finally {
+      setIsScanningUsage(false)
+    }
+  }
+
+  /**
+   * Remove selected items from the open collection (the media stays in the library)
+   */
+  const removeSelectedFromCollection = async () => {
+    if (!activeCollectionId || selectedItems.length === 0) return
+
+    const assetIds = mediaItems
+      .filter(item => selectedItems.includes(item.public_id))
+      .map(item => item.id)
+
+    try {
+      const params = new URLSearchParams({ assetIds: assetIds.join(',') })
+      const response = await fetch(`/api/media/collections/${activeCollectionId}/items?${params}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        setMediaItems(prev => prev.filter(item => !assetIds.includes(item.id)))
+        setPagination(prev => ({ ...prev, total: Math.max(0, prev.total - assetIds.length) }))
+        setSelectedItems([])
+        setShowBulkActions(false)
+        setCollectionRefreshKey(key => key + 1)
+      } else {
+        alert('Failed to remove items from the collection.')
+      }
+    } catch (error) {
+      console.error('Remove from collection error:', error)
+    }
+  }
+
+  /**
+   * Start dragging a card: the whole selection when the card is part of it
+   */
+  const handleItemDragStart = (event: React.DragEvent, item: MediaItem) => {
+    const assetIds = selectedItems.includes(item.public_id)
+      ? mediaItems.filter(media => selectedItems.includes(media.public_id)).map(media => media.id)
+      : [item.id]
+
+    draggedAssetIdsRef.current = assetIds
+    event.dataTransfer.setData(MEDIA_ASSETS_DRAG_TYPE, JSON.stringify(assetIds))
+    event.dataTransfer.effectAllowed = 'copyMove'
+  }
+
+  /**
+   * Drop dragged cards in front of another card to reorder the open collection
+   */
+  const handleItemDrop = async (event: React.DragEvent, target: MediaItem) => {
+    event.preventDefault()
+    setReorderTargetId(null)
+
+    const dragged = draggedAssetIdsRef.current
+    if (!activeCollectionId || dragged.length === 0 || dragged.includes(target.id)) return
+
+    const moving = mediaItems.filter(item => dragged.includes(item.id))
+    const remaining = mediaItems.filter(item => !dragged.includes(item.id))
+    remaining.splice(remaining.findIndex(item => item.id === target.id), 0, ...moving)
+    setMediaItems(remaining)
+
+    try {
+      const response = await fetch(`/api/media/collections/${activeCollectionId}/items`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assetIds: remaining.map(item => item.id) })
+      })
+      if (!response.ok) {
+        throw new Error(`Reorder failed with status ${response.status}`)
+      }
+    } catch (error) {
+      console.error('Reorder error:', error)
+      await loadMediaItems(1, false)
+    }
+  }
+
   /**
    * Handle direct file upload
    */
@@ -482,6 +667,46 @@ export default function MediaCenterPage() {
     }
   }, [hasMore, isLoadingMore, loadMoreItems])
 
+  /**
+   * Load where the selected items are used for the "Used in" panel
+   */
+  useEffect(() => {
+    // Items uploaded this session carry their public ID until the next reload
+    const assetIds = mediaItems
+      .filter(item => selectedItems.includes(item.public_id) && item.id !== item.public_id)
+      .map(item => item.id)
+
+    if (assetIds.length === 0) {
+      setSelectionUsage({})
+      return
+    }
+
+    let cancelled = false
+    const params = new URLSearchParams({ assetIds: assetIds.slice(0, 200).join(',') })
+    fetch(`/api/media/usage?${params}`)
+      .then(response => (response.ok ? response.json() : { usage: {} }))
+      .then(data => {
+        if (!cancelled) {
+          setSelectionUsage(data.usage || {})
+        }
+      })
+      .catch(error => console.error('Failed to load media usage:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedItems, mediaItems])
+
+  /**
+   * Apply ?search= from global search links
+   */
+  useEffect(() => {
+    const search = searchParams.get('search')
+    if (search !== null) {
+      setSearchQuery(search)
+    }
+  }, [searchParams])
+
   /**
    * Handle search debouncing
    */
@@ -580,7 +805,34 @@ export default function MediaCenterPage() {
         </div>
       </div>
 
-      <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
+      <div className="flex space-x-2">
+        {([
+          { tab: 'library', label: 'Library', icon: <Image className="h-4 w-4 mr-2" aria-label="Library" /> },
+          { tab: 'trash', label: 'Trash', icon: <Trash2 className="h-4 w-4 mr-2" /> },
+          { tab: 'conflicts', label: 'Sync Conflicts', icon: <GitCompare className="h-4 w-4 mr-2" /> }
+        ] as const).map(({ tab, label, icon }) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              activeTab === tab ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {icon}
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'trash' && (
+        <MediaTrashPanel onRestored={() => loadMediaItems(1, false)} />
+      )}
+
+      {activeTab === 'conflicts' && (
+        <MediaSyncConflictsPanel onResolved={() => loadMediaItems(1, false)} />
+      )}
+
+      <div className={`bg-white rounded-2xl shadow-lg p-6 border border-gray-100 ${activeTab !== 'library' ? 'hidden' : ''}`}>
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
           <div className="flex flex-col sm:flex-row gap-4 flex-1">
             <div className="relative flex-1">
@@ -593,6 +845,16 @@ export default function MediaCenterPage() {
                 className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
               />
             </div>
+            <select
+              value={resourceType}
+              onChange={(e) => setResourceType(e.target.value as '' | 'image' | 'video' | 'raw')}
+              className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            >
+              <option value="">All types</option>
+              <option value="image">Images</option>
+              <option value="video">Videos</option>
+              <option value="raw">Files</option>
+            </select>
             <div className="flex items-center space-x-2">
               <button
                 onClick={() => setViewMode('grid')}
@@ -621,6 +883,16 @@ export default function MediaCenterPage() {
               Refresh
             </button>
 
+            <button
+              onClick={scanMediaUsage}
+              disabled={isScanningUsage}
+              title="Find which media profile photos and documents use"
+              className="inline-flex items-center px-3 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <Link2 className={`h-4 w-4 mr-2 ${isScanningUsage ? 'animate-pulse' : ''}`} />
+              {isScanningUsage ? 'Scanning...' : 'Scan Usage'}
+            </button>
+
             {/* Direct File Upload */}
             <div className="relative">
               <input
@@ -644,10 +916,53 @@ export default function MediaCenterPage() {
             </div>
           </div>
         </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            placeholder="Tags (comma-separated)"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          />
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>Uploaded</span>
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            />
+          </div>
+          <SavedFilterMenu
+            listType="media"
+            definition={{
+              search: searchQuery || undefined,
+              resourceType: resourceType || undefined,
+              tags: parseTags(tagsInput).length > 0 ? parseTags(tagsInput) : undefined,
+              dateFrom: dateFrom || undefined,
+              dateTo: dateTo || undefined
+            }}
+            onApply={(definition) => {
+              setSearchQuery(definition.search || '')
+              setResourceType(definition.resourceType || '')
+              setTagsInput((definition.tags || []).join(', '))
+              setDateFrom(definition.dateFrom || '')
+              setDateTo(definition.dateTo || '')
+            }}
+          />
+        </div>
       </div>
 
       {/* Bulk Actions Bar */}
-      {showBulkActions && (
+      {showBulkActions && activeTab === 'library' && (
         <div className="bg-blue-50 border border-blue-200 rounded-2xl p-4 mb-6">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
@@ -668,153 +983,249 @@ export default function MediaCenterPage() {
               </button>
             </div>
             <div className="flex items-center space-x-2">
+              {activeCollection && (
+                <button
+                  onClick={removeSelectedFromCollection}
+                  className="inline-flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <FolderMinus className="h-4 w-4 mr-2" />
+                  Remove from Collection
+                </button>
+              )}
               <button
-                onClick={deleteSelectedItems}
+                onClick={() => deleteSelectedItems()}
                 disabled={isDeleting}
                 className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
               >
                 <Trash2 className={`h-4 w-4 mr-2 ${isDeleting ? 'animate-pulse' : ''}`} />
-                {isDeleting ? 'Deleting...' : 'Delete Selected'}
+                {isDeleting ? 'Moving...' : 'Move to Trash'}
               </button>
             </div>
           </div>
-        </div>
-      )}
 
-      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
-        <div className="flex items-center justify-between mb-6">
-          <div>
-            <h3 className="text-lg font-semibold text-gray-900">
-              Media Library - 100% Complete Bidirectional Sync
-            </h3>
-            <p className="text-sm text-gray-500 mt-1">
-              {pagination.total > 0 && (
-                <>
-                  Showing {mediaItems.length} of {pagination.total.toLocaleString()} items
-                  {searchQuery && ` matching "${searchQuery}"`}
-                </>
-              )}
-            </p>
+          {/* Used In Panel */}
+          <div className="mt-4 pt-4 border-t border-blue-200">
+            <h4 className="flex items-center text-sm font-medium text-blue-900 mb-2">
+              <Link2 className="h-4 w-4 mr-2" />
+              Used in
+            </h4>
+            {Object.keys(selectionUsage).length === 0 ? (
+              <p className="text-sm text-blue-700">
+                Not used by any profile photo or document. Safe to delete.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {mediaItems
+                  .filter(item => selectionUsage[item.id])
+                  .map(item => (
+                    <li key={item.id} className="text-sm">
+                      <p className="font-medium text-gray-900 truncate">{item.original_filename || item.public_id}</p>
+                      <ul className="ml-4 list-disc text-gray-700">
+                        {selectionUsage[item.id].map(usage => (
+                          <li key={usage.id}>
+                            {usage.href ? (
+                              <Link href={usage.href} className="text-blue-600 hover:text-blue-800 hover:underline">
+                                {usage.label}
+                              </Link>
+                            ) : usage.label}
+                            <span className="text-gray-400"> · since {new Date(usage.since).toLocaleDateString()}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                <li className="text-xs text-amber-700">
+                  Deleting these items will break the records above; you will be asked to confirm.
+                </li>
+              </ul>
+            )}
           </div>
-          {isLoading && (
-            <div className="flex items-center text-sm text-gray-500">
-              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-              Loading...
-            </div>
-          )}
         </div>
+      )}
 
-        {filteredItems.length === 0 && !isLoading ? (
-          <div className="text-center py-12">
-            <Image className="h-16 w-16 text-gray-400 mx-auto mb-4" aria-label="No media files" />
-            <h4 className="text-lg font-medium text-gray-900 mb-2">No media files found</h4>
-            <p className="text-gray-500 mb-6">
-              {searchQuery ? 'Try adjusting your search terms.' : 'Upload your first media file to get started.'}
-            </p>
-
-            {!searchQuery && (
-              <div className="space-y-4">
-                <div className="relative inline-block">
-                  <input
-                    type="file"
-                    accept="image/*,video/*"
-                    multiple
-                    onChange={handleFileUpload}
-                    disabled={isUploading}
-                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
-                    id="first-media-upload"
-                  />
-                  <label
-                    htmlFor="first-media-upload"
-                    className={`inline-flex items-center px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors cursor-pointer text-lg font-medium ${
-                      isUploading ? 'opacity-50 cursor-not-allowed' : ''
-                    }`}
-                  >
-                    <Upload className={`h-5 w-5 mr-2 ${isUploading ? 'animate-pulse' : ''}`} />
-                    {isUploading ? 'Uploading...' : 'Upload Your First Media'}
-                  </label>
-                </div>
-                <div className="text-sm text-gray-500 space-y-2">
-                  <p>✨ Upload images and videos directly</p>
-                  <p>📁 Files will be stored in your Cloudinary Media Library</p>
-                  <p>🔄 100% Complete bidirectional sync with automatic cleanup</p>
-                  <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
-                    <p className="text-green-800 font-medium">✅ Perfect Sync Achieved:</p>
-                    <p className="text-green-700 text-xs mt-1">
-                      🎯 100% complete bidirectional sync with automatic database triggers
-                    </p>
-                    <p className="text-green-700 text-xs mt-1">
-                      🔄 Automatic Cloudinary cleanup when database records are deleted
-                    </p>
-                    <p className="text-green-700 text-xs mt-1">
-                      ⚡ Background scheduler processes cleanup queue automatically
-                    </p>
-                  </div>
-                </div>
+      <div className={`grid grid-cols-1 lg:grid-cols-4 gap-6 items-start ${activeTab !== 'library' ? 'hidden' : ''}`}>
+        <MediaCollectionSidebar
+          selectedId={activeCollectionId}
+          onSelect={(collection) => {
+            if ((collection?.id || null) !== activeCollectionId) {
+              setSelectedItems([])
+              setShowBulkActions(false)
+            }
+            setActiveCollection(collection)
+          }}
+          onItemsAdded={(collectionId) => {
+            if (collectionId === activeCollectionId) {
+              loadMediaItems(1, false)
+            }
+          }}
+          refreshKey={collectionRefreshKey}
+        />
+
+        <div className="lg:col-span-3 bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {activeCollection ? activeCollection.name : 'Media Library - 100% Complete Bidirectional Sync'}
+              </h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {pagination.total > 0 && (
+                  <>
+                    Showing {mediaItems.length} of {pagination.total.toLocaleString()} items
+                    {searchQuery && ` matching "${searchQuery}"`}
+                  </>
+                )}
+                {activeCollection && pagination.total > 1 && ' • Drag to reorder'}
+              </p>
+            </div>
+            {isLoading && (
+              <div className="flex items-center text-sm text-gray-500">
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                Loading...
               </div>
             )}
           </div>
-        ) : (
-          <div className="space-y-6">
-            {/* Simple Media Grid */}
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
-              {filteredItems.map((item) => (
-                <div
-                  key={item.public_id}
-                  className="bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
-                  onClick={() => toggleItemSelection(item.public_id)}
-                >
-                  {/* Simple Image Display */}
-                  <div className="aspect-square bg-gray-100">
-                    <MediaThumbnail
-                      secureUrl={item.secure_url}
-                      alt={item.original_filename || item.public_id}
+
+          {filteredItems.length === 0 && !isLoading ? (
+            <div className="text-center py-12">
+              <Image className="h-16 w-16 text-gray-400 mx-auto mb-4" aria-label="No media files" />
+              <h4 className="text-lg font-medium text-gray-900 mb-2">
+                {activeCollection ? 'This collection is empty' : 'No media files found'}
+              </h4>
+              <p className="text-gray-500 mb-6">
+                {searchQuery
+                  ? 'Try adjusting your search terms.'
+                  : activeCollection
+                    ? 'Open All media and drag photos onto this collection in the sidebar.'
+                    : 'Upload your first media file to get started.'}
+              </p>
+
+              {!searchQuery && !activeCollection && (
+                <div className="space-y-4">
+                  <div className="relative inline-block">
+                    <input
+                      type="file"
+                      accept="image/*,video/*"
+                      multiple
+                      onChange={handleFileUpload}
+                      disabled={isUploading}
+                      className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+                      id="first-media-upload"
                     />
+                    <label
+                      htmlFor="first-media-upload"
+                      className={`inline-flex items-center px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors cursor-pointer text-lg font-medium ${
+                        isUploading ? 'opacity-50 cursor-not-allowed' : ''
+                      }`}
+                    >
+                      <Upload className={`h-5 w-5 mr-2 ${isUploading ? 'animate-pulse' : ''}`} />
+                      {isUploading ? 'Uploading...' : 'Upload Your First Media'}
+                    </label>
                   </div>
-
-                  {/* Simple Info */}
-                  <div className="p-2">
-                    <p className="text-xs text-gray-600 truncate">
-                      {item.original_filename || item.public_id}
-                    </p>
-                    <p className="text-xs text-gray-400">
-                      {item.format?.toUpperCase()} • {formatFileSize(item.bytes)}
-                    </p>
+                  <div className="text-sm text-gray-500 space-y-2">
+                    <p>✨ Upload images and videos directly</p>
+                    <p>📁 Files will be stored in your Cloudinary Media Library</p>
+                    <p>🔄 100% Complete bidirectional sync with automatic cleanup</p>
+                    <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+                      <p className="text-green-800 font-medium">✅ Perfect Sync Achieved:</p>
+                      <p className="text-green-700 text-xs mt-1">
+                        🎯 100% complete bidirectional sync with automatic database triggers
+                      </p>
+                      <p className="text-green-700 text-xs mt-1">
+                        🔄 Automatic Cloudinary cleanup when database records are deleted
+                      </p>
+                      <p className="text-green-700 text-xs mt-1">
+                        ⚡ Background scheduler processes cleanup queue automatically
+                      </p>
+                    </div>
                   </div>
                 </div>
-              ))}
+              )}
             </div>
-
-            {/* Infinite Scroll Trigger */}
-            {hasMore && (
-              <div ref={loadMoreRef} className="flex justify-center py-8">
-                {isLoadingMore ? (
-                  <div className="flex items-center space-x-2 text-gray-500">
-                    <RefreshCw className="h-5 w-5 animate-spin" />
-                    <span>Loading more...</span>
-                  </div>
-                ) : (
-                  <button
-                    onClick={loadMoreItems}
-                    className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          ) : (
+            <div className="space-y-6">
+              {/* Simple Media Grid */}
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+                {filteredItems.map((item) => (
+                  <div
+                    key={item.public_id}
+                    draggable
+                    onDragStart={(e) => handleItemDragStart(e, item)}
+                    onDragEnd={() => {
+                      draggedAssetIdsRef.current = []
+                      setReorderTargetId(null)
+                    }}
+                    onDragOver={(e) => {
+                      if (activeCollectionId && draggedAssetIdsRef.current.length > 0 && !draggedAssetIdsRef.current.includes(item.id)) {
+                        e.preventDefault()
+                        e.dataTransfer.dropEffect = 'move'
+                        setReorderTargetId(item.id)
+                      }
+                    }}
+                    onDragLeave={() => setReorderTargetId(prev => (prev === item.id ? null : prev))}
+                    onDrop={(e) => handleItemDrop(e, item)}
+                    className={`bg-white rounded-lg border overflow-hidden hover:shadow-lg transition-shadow cursor-pointer ${
+                      selectedItems.includes(item.public_id) ? 'border-purple-500 ring-2 ring-purple-300' : 'border-gray-200'
+                    } ${reorderTargetId === item.id ? 'border-l-4 border-l-purple-500' : ''}`}
+                    onClick={() => toggleItemSelection(item.public_id)}
                   >
-                    Load More
-                  </button>
-                )}
+                    {/* Simple Image Display */}
+                    <div className="aspect-square bg-gray-100">
+                      <MediaThumbnail
+                        secureUrl={item.secure_url}
+                        alt={item.original_filename || item.public_id}
+                      />
+                    </div>
+
+                    {/* Simple Info */}
+                    <div className="p-2">
+                      <p className="text-xs text-gray-600 truncate">
+                        {item.original_filename || item.public_id}
+                      </p>
+                      {!!item.usage_count && (
+                        <p className="inline-flex items-center text-xs text-amber-700" title="Used by profile photos or documents">
+                          <Link2 className="h-3 w-3 mr-1" />
+                          In use ({item.usage_count})
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-400">
+                        {item.format?.toUpperCase()} • {formatFileSize(item.bytes)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
               </div>
-            )}
 
-            {/* End of Results */}
-            {!hasMore && filteredItems.length > 0 && (
-              <div className="text-center py-8 text-gray-500">
-                <p>You&apos;ve reached the end of your media library</p>
-                <p className="text-sm mt-1">
-                  {pagination.total.toLocaleString()} total items
-                </p>
-              </div>
-            )}
-          </div>
-        )}
+              {/* Infinite Scroll Trigger */}
+              {hasMore && (
+                <div ref={loadMoreRef} className="flex justify-center py-8">
+                  {isLoadingMore ? (
+                    <div className="flex items-center space-x-2 text-gray-500">
+                      <RefreshCw className="h-5 w-5 animate-spin" />
+                      <span>Loading more...</span>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={loadMoreItems}
+                      className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      Load More
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* End of Results */}
+              {!hasMore && filteredItems.length > 0 && !activeCollection && (
+                <div className="text-center py-8 text-gray-500">
+                  <p>You&apos;ve reached the end of your media library</p>
+                  <p className="text-sm mt-1">
+                    {pagination.total.toLocaleString()} total items
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
 
@@ -1,61 +1,114 @@
 'use client'
 
-import { useState } from 'react'
-import { Bell, AlertTriangle, CheckCircle, Info, X, Eye, Trash2, Filter } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Bell, AlertTriangle, CheckCircle, Info, X, Eye, EyeOff, Trash2, Filter, ChevronLeft, ChevronRight } from 'lucide-react'
+import { useAuth } from '@/components/providers/SupabaseAuthProvider'
+import { NotificationItem } from '@/lib/notifications'
+import { useNotificationsRealtime } from '@/lib/notificationsRealtime'
+import NotificationPreferencesPanel from '@/components/NotificationPreferencesPanel'
 
-interface Notification {
-  id: number
-  title: string
-  message: string
-  type: 'info' | 'success' | 'warning' | 'error'
-  timestamp: string
-  read: boolean
-  priority: 'low' | 'medium' | 'high'
+interface PaginationInfo {
+  page: number
+  limit: number
+  total: number
+  pages: number
 }
 
-const mockNotifications: Notification[] = [
-  {
-    id: 1,
-    title: 'System Backup Completed',
-    message: 'Daily system backup has been completed successfully at 2:00 AM',
-    type: 'success',
-    timestamp: '2024-01-20 02:00:00',
-    read: false,
-    priority: 'low'
-  },
-  {
-    id: 2,
-    title: 'New Personnel Registration',
-    message: 'Juan Dela Cruz has been registered as a new marine operations personnel',
-    type: 'info',
-    timestamp: '2024-01-19 14:30:00',
-    read: true,
-    priority: 'medium'
-  },
-  {
-    id: 3,
-    title: 'Safety Violation Reported',
-    message: 'Safety violation reported at Pier 3 - immediate attention required',
-    type: 'warning',
-    timestamp: '2024-01-19 10:15:00',
-    read: false,
-    priority: 'high'
-  },
-  {
-    id: 4,
-    title: 'Database Connection Error',
-    message: 'Temporary database connection issue resolved after 5 minutes',
-    type: 'error',
-    timestamp: '2024-01-18 16:45:00',
-    read: true,
-    priority: 'high'
-  }
-]
+type ReadFilter = 'all' | 'unread' | 'read'
+type TypeFilter = 'all' | NotificationItem['type']
+
+const PAGE_SIZE = 20
 
 export default function NotificationsPage() {
-  const [notifications] = useState<Notification[]>(mockNotifications)
-  const [filter, setFilter] = useState<'all' | 'unread' | 'read'>('all')
-  const [typeFilter, setTypeFilter] = useState<'all' | 'info' | 'success' | 'warning' | 'error'>('all')
+  const router = useRouter()
+  const { user } = useAuth()
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [pagination, setPagination] = useState<PaginationInfo>({ page: 1, limit: PAGE_SIZE, total: 0, pages: 0 })
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [filter, setFilter] = useState<ReadFilter>('all')
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all')
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+        ...(filter !== 'all' && { read: String(filter === 'read') }),
+        ...(typeFilter !== 'all' && { type: typeFilter })
+      })
+
+      const response = await fetch(`/api/notifications?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setNotifications(data.notifications)
+        setPagination(data.pagination)
+        setUnreadCount(data.unreadCount)
+        // Step back when deleting emptied the last page
+        if (data.pagination.pages > 0 && page > data.pagination.pages) {
+          setPage(data.pagination.pages)
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, filter, typeFilter])
+
+  useEffect(() => {
+    fetchNotifications()
+  }, [fetchNotifications])
+
+  // New notifications and read changes from other tabs arrive live
+  useNotificationsRealtime(user?.id, fetchNotifications)
+
+  const updateNotifications = async (body: { ids?: number[]; all?: true; read: boolean }) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      if (response.ok) {
+        await fetchNotifications()
+      }
+    } catch (error) {
+      console.error('Error updating notifications:', error)
+    }
+  }
+
+  const deleteNotifications = async (body: { ids?: number[]; all?: true }) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      if (response.ok) {
+        await fetchNotifications()
+      }
+    } catch (error) {
+      console.error('Error deleting notifications:', error)
+    }
+  }
+
+  const handleOpen = (notification: NotificationItem) => {
+    if (!notification.read) {
+      updateNotifications({ ids: [notification.id], read: true })
+    }
+    if (notification.link) {
+      router.push(notification.link)
+    }
+  }
+
+  const handleClearAll = () => {
+    if (!confirm('Delete all of your notifications? This cannot be undone.')) return
+    setPage(1)
+    deleteNotifications({ all: true })
+  }
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
@@ -97,16 +150,6 @@ export default function NotificationsPage() {
     }
   }
 
-  const filteredNotifications = notifications.filter(notification => {
-    const matchesReadFilter = filter === 'all' || 
-                             (filter === 'read' && notification.read) || 
-                             (filter === 'unread' && !notification.read)
-    const matchesTypeFilter = typeFilter === 'all' || notification.type === typeFilter
-    return matchesReadFilter && matchesTypeFilter
-  })
-
-  const unreadCount = notifications.filter(n => !n.read).length
-
   return (
     <div className="space-y-6">
       <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl shadow-lg p-8 text-white">
@@ -119,8 +162,8 @@ export default function NotificationsPage() {
             <div className="h-20 w-20 bg-white/20 rounded-2xl flex items-center justify-center relative">
               <Bell className="h-10 w-10 text-white" />
               {unreadCount > 0 && (
-                <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-6 w-6 flex items-center justify-center">
-                  {unreadCount}
+                <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-6 min-w-[1.5rem] px-1 flex items-center justify-center">
+                  {unreadCount > 99 ? '99+' : unreadCount}
                 </span>
               )}
             </div>
@@ -128,15 +171,17 @@ export default function NotificationsPage() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-white rounded-2xl shadow-lg p-6 border border-blue-100">
           <div className="flex items-center">
             <div className="p-3 bg-blue-100 rounded-xl">
               <Bell className="h-6 w-6 text-blue-600" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Total</p>
-              <p className="text-2xl font-bold text-gray-900">{notifications.length}</p>
+              <p className="text-sm font-medium text-gray-600">
+                {filter === 'all' && typeFilter === 'all' ? 'Total' : 'Matching'}
+              </p>
+              <p className="text-2xl font-bold text-gray-900">{pagination.total}</p>
             </div>
           </div>
         </div>
@@ -151,32 +196,10 @@ export default function NotificationsPage() {
             </div>
           </div>
         </div>
-        <div className="bg-white rounded-2xl shadow-lg p-6 border border-yellow-100">
-          <div className="flex items-center">
-            <div className="p-3 bg-yellow-100 rounded-xl">
-              <AlertTriangle className="h-6 w-6 text-yellow-600" />
-            </div>
-            <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">High Priority</p>
-              <p className="text-2xl font-bold text-gray-900">
-                {notifications.filter(n => n.priority === 'high').length}
-              </p>
-            </div>
-          </div>
-        </div>
-        <div className="bg-white rounded-2xl shadow-lg p-6 border border-green-100">
-          <div className="flex items-center">
-            <div className="p-3 bg-green-100 rounded-xl">
-              <CheckCircle className="h-6 w-6 text-green-600" />
-            </div>
-            <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Today</p>
-              <p className="text-2xl font-bold text-gray-900">3</p>
-            </div>
-          </div>
-        </div>
       </div>
 
+      <NotificationPreferencesPanel />
+
       <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100">
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
           <div className="flex flex-col sm:flex-row gap-4">
@@ -184,7 +207,10 @@ export default function NotificationsPage() {
               <Filter className="h-4 w-4 text-gray-400" />
               <select
                 value={filter}
-                onChange={(e) => setFilter(e.target.value as 'all' | 'unread' | 'read')}
+                onChange={(e) => {
+                  setFilter(e.target.value as ReadFilter)
+                  setPage(1)
+                }}
                 className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
                 <option value="all">All Notifications</option>
@@ -194,7 +220,10 @@ export default function NotificationsPage() {
             </div>
             <select
               value={typeFilter}
-              onChange={(e) => setTypeFilter(e.target.value as 'all' | 'info' | 'success' | 'warning' | 'error')}
+              onChange={(e) => {
+                setTypeFilter(e.target.value as TypeFilter)
+                setPage(1)
+              }}
               className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Types</option>
@@ -205,10 +234,18 @@ export default function NotificationsPage() {
             </select>
           </div>
           <div className="flex items-center space-x-2">
-            <button className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+            <button
+              onClick={() => updateNotifications({ all: true, read: true })}
+              disabled={unreadCount === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
               Mark All Read
             </button>
-            <button className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors">
+            <button
+              onClick={handleClearAll}
+              disabled={pagination.total === 0 && filter === 'all' && typeFilter === 'all'}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
               Clear All
             </button>
           </div>
@@ -218,53 +255,103 @@ export default function NotificationsPage() {
       <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
           <h3 className="text-lg font-semibold text-gray-900">
-            Notifications ({filteredNotifications.length})
+            Notifications ({pagination.total})
           </h3>
         </div>
-        
-        <div className="divide-y divide-gray-200">
-          {filteredNotifications.map((notification) => (
-            <div 
-              key={notification.id} 
-              className={`p-6 hover:bg-gray-50 transition-colors ${
-                !notification.read ? 'bg-blue-50' : ''
-              }`}
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex items-start space-x-4">
-                  <div className={`p-2 rounded-lg border ${getNotificationColor(notification.type)}`}>
-                    {getNotificationIcon(notification.type)}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-1">
-                      <h4 className={`text-lg font-medium ${!notification.read ? 'text-gray-900' : 'text-gray-700'}`}>
-                        {notification.title}
-                      </h4>
-                      {!notification.read && (
-                        <span className="h-2 w-2 bg-blue-500 rounded-full"></span>
-                      )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-16">
+            <Bell className="mx-auto h-12 w-12 text-gray-300" />
+            <p className="mt-4 text-sm text-gray-500">
+              {filter === 'all' && typeFilter === 'all' ? 'You have no notifications' : 'No notifications match these filters'}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={`p-6 hover:bg-gray-50 transition-colors ${
+                  !notification.read ? 'bg-blue-50' : ''
+                }`}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start space-x-4">
+                    <div className={`p-2 rounded-lg border ${getNotificationColor(notification.type)}`}>
+                      {getNotificationIcon(notification.type)}
                     </div>
-                    <p className="text-sm text-gray-600 mb-2">{notification.message}</p>
-                    <div className="flex items-center space-x-4 text-xs text-gray-500">
-                      <span>{notification.timestamp}</span>
-                      <span className={getPriorityBadge(notification.priority)}>
-                        {notification.priority} priority
-                      </span>
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <button
+                          type="button"
+                          onClick={() => handleOpen(notification)}
+                          className={`text-left text-lg font-medium hover:underline ${!notification.read ? 'text-gray-900' : 'text-gray-700'}`}
+                        >
+                          {notification.title}
+                        </button>
+                        {!notification.read && (
+                          <span className="h-2 w-2 bg-blue-500 rounded-full"></span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 mb-2">{notification.message}</p>
+                      <div className="flex items-center space-x-4 text-xs text-gray-500">
+                        <span>{new Date(notification.createdAt).toLocaleString()}</span>
+                        <span className={getPriorityBadge(notification.priority)}>
+                          {notification.priority} priority
+                        </span>
+                        <span className="capitalize">{notification.category}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <button className="p-2 text-blue-600 hover:bg-blue-100 rounded-lg transition-colors">
-                    <Eye className="h-4 w-4" />
-                  </button>
-                  <button className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors">
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => updateNotifications({ ids: [notification.id], read: !notification.read })}
+                      className="p-2 text-blue-600 hover:bg-blue-100 rounded-lg transition-colors"
+                      title={notification.read ? 'Mark as unread' : 'Mark as read'}
+                    >
+                      {notification.read ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => deleteNotifications({ ids: [notification.id] })}
+                      className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                      title="Delete notification"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
                 </div>
               </div>
+            ))}
+          </div>
+        )}
+
+        {pagination.pages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Page {pagination.page} of {pagination.pages}
+            </p>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.pages}
+                className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
             </div>
-          ))}
-        </div>
+          </div>
+        )}
       </div>
     </div>
   )
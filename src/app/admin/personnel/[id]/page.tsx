@@ -1,7 +1,7 @@
 'use client'
 
 import { useEffect, useState, useCallback } from 'react'
-import { useRouter, useParams } from 'next/navigation'
+import { useRouter, useParams, useSearchParams } from 'next/navigation'
 import Image from 'next/image'
 import { 
   ArrowLeft, 
@@ -18,10 +18,13 @@ import {
   Trash2,
   FileText,
   Clock,
-  Shield
+  Shield,
+  FolderOpen
 } from 'lucide-react'
 import PersonnelModal from '@/components/PersonnelModal'
 import PersonnelDeleteModal from '@/components/PersonnelDeleteModal'
+import PersonnelDocuments from '@/components/PersonnelDocuments'
+import { useAuth } from '@/components/providers/SupabaseAuthProvider'
 
 interface Personnel {
   id: number
@@ -45,17 +48,24 @@ interface Personnel {
   documents?: unknown[]
 }
 
+type DetailTab = 'overview' | 'documents'
+
 export default function PersonnelDetailPage() {
   const router = useRouter()
   const params = useParams()
+  const searchParams = useSearchParams()
   const personnelId = params.id as string
+  const { can } = useAuth()
 
   const [personnel, setPersonnel] = useState<Personnel | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
-
+  // ?tab=documents opens the documents tab (linked from global search)
+  const [activeTab, setActiveTab] = useState<DetailTab>(
+    searchParams.get('tab') === 'documents' ? 'documents' : 'overview'
+  )
 
 
   const fetchPersonnel = useCallback(async () => {
@@ -279,126 +289,155 @@ export default function PersonnelDetailPage() {
 
           {/* Right Column - Detailed Information */}
           <div className="lg:col-span-2 space-y-8">
-            {/* Personal Information */}
-            <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
-                <User className="h-6 w-6 text-blue-600 mr-3" />
-                Personal Information
-              </h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {personnel.address && (
-                  <div className="flex items-start space-x-3">
-                    <MapPin className="h-5 w-5 text-gray-400 mt-0.5" />
-                    <div>
-                      <p className="text-sm font-medium text-gray-500">Address</p>
-                      <p className="text-sm text-gray-900">{personnel.address}</p>
-                    </div>
-                  </div>
-                )}
+            {/* Tabs */}
+            {can('documents:view') && (
+              <div className="flex space-x-2 bg-white rounded-xl shadow-sm border border-gray-200 p-1">
+                {([
+                  { id: 'overview', label: 'Overview', icon: User },
+                  { id: 'documents', label: 'Documents', icon: FolderOpen }
+                ] as const).map(tab => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`flex-1 inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                      activeTab === tab.id
+                        ? 'bg-blue-600 text-white'
+                        : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                    }`}
+                  >
+                    <tab.icon className="h-4 w-4 mr-2" />
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+            )}
 
-                {personnel.hireDate && (
-                  <div className="flex items-center space-x-3">
-                    <Briefcase className="h-5 w-5 text-gray-400" />
-                    <div>
-                      <p className="text-sm font-medium text-gray-500">Hire Date</p>
-                      <p className="text-sm text-gray-900">{personnel.hireDate}</p>
+            {activeTab === 'documents' && can('documents:view') ? (
+              <PersonnelDocuments personnelId={personnel.id} />
+            ) : (
+              <>
+                {/* Personal Information */}
+                <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+                    <User className="h-6 w-6 text-blue-600 mr-3" />
+                    Personal Information
+                  </h2>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {personnel.address && (
+                      <div className="flex items-start space-x-3">
+                        <MapPin className="h-5 w-5 text-gray-400 mt-0.5" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-500">Address</p>
+                          <p className="text-sm text-gray-900">{personnel.address}</p>
+                        </div>
+                      </div>
+                    )}
+
+                    {personnel.hireDate && (
+                      <div className="flex items-center space-x-3">
+                        <Briefcase className="h-5 w-5 text-gray-400" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-500">Hire Date</p>
+                          <p className="text-sm text-gray-900">{personnel.hireDate}</p>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-3">
+                      <Activity className="h-5 w-5 text-gray-400" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-500">Employment Status</p>
+                        <p className="text-sm text-gray-900">{personnel.status}</p>
+                      </div>
                     </div>
-                  </div>
-                )}
 
-                <div className="flex items-center space-x-3">
-                  <Activity className="h-5 w-5 text-gray-400" />
-                  <div>
-                    <p className="text-sm font-medium text-gray-500">Employment Status</p>
-                    <p className="text-sm text-gray-900">{personnel.status}</p>
+                    {personnel.emergencyContact && (
+                      <div className="flex items-center space-x-3">
+                        <Phone className="h-5 w-5 text-gray-400" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-500">Emergency Contact</p>
+                          <p className="text-sm text-gray-900">{personnel.emergencyContact}</p>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
 
-                {personnel.emergencyContact && (
-                  <div className="flex items-center space-x-3">
-                    <Phone className="h-5 w-5 text-gray-400" />
-                    <div>
-                      <p className="text-sm font-medium text-gray-500">Emergency Contact</p>
-                      <p className="text-sm text-gray-900">{personnel.emergencyContact}</p>
+                {/* Family Information */}
+                {(personnel.spouseName || personnel.childrenCount || personnel.childrenNames) && (
+                  <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+                      <Heart className="h-6 w-6 text-pink-600 mr-3" />
+                      Family Information
+                    </h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {personnel.spouseName && (
+                        <div>
+                          <p className="text-sm font-medium text-gray-500 mb-1">Spouse Name</p>
+                          <p className="text-sm text-gray-900">{personnel.spouseName}</p>
+                        </div>
+                      )}
+                      {personnel.spouseOccupation && (
+                        <div>
+                          <p className="text-sm font-medium text-gray-500 mb-1">Spouse Occupation</p>
+                          <p className="text-sm text-gray-900">{personnel.spouseOccupation}</p>
+                        </div>
+                      )}
+                      {personnel.childrenCount && (
+                        <div>
+                          <p className="text-sm font-medium text-gray-500 mb-1">Number of Children</p>
+                          <p className="text-sm text-gray-900">{personnel.childrenCount}</p>
+                        </div>
+                      )}
+                      {personnel.childrenNames && (
+                        <div>
+                          <p className="text-sm font-medium text-gray-500 mb-1">Children Names</p>
+                          <p className="text-sm text-gray-900">{personnel.childrenNames}</p>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
-              </div>
-            </div>
 
-            {/* Family Information */}
-            {(personnel.spouseName || personnel.childrenCount || personnel.childrenNames) && (
-              <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
-                <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
-                  <Heart className="h-6 w-6 text-pink-600 mr-3" />
-                  Family Information
-                </h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  {personnel.spouseName && (
-                    <div>
-                      <p className="text-sm font-medium text-gray-500 mb-1">Spouse Name</p>
-                      <p className="text-sm text-gray-900">{personnel.spouseName}</p>
+                {/* Biography */}
+                {personnel.biography && (
+                  <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+                      <FileText className="h-6 w-6 text-green-600 mr-3" />
+                      Biography
+                    </h2>
+                    <div className="prose prose-sm max-w-none">
+                      <p className="text-gray-700 leading-relaxed">{personnel.biography}</p>
                     </div>
-                  )}
-                  {personnel.spouseOccupation && (
-                    <div>
-                      <p className="text-sm font-medium text-gray-500 mb-1">Spouse Occupation</p>
-                      <p className="text-sm text-gray-900">{personnel.spouseOccupation}</p>
-                    </div>
-                  )}
-                  {personnel.childrenCount && (
-                    <div>
-                      <p className="text-sm font-medium text-gray-500 mb-1">Number of Children</p>
-                      <p className="text-sm text-gray-900">{personnel.childrenCount}</p>
-                    </div>
-                  )}
-                  {personnel.childrenNames && (
-                    <div>
-                      <p className="text-sm font-medium text-gray-500 mb-1">Children Names</p>
-                      <p className="text-sm text-gray-900">{personnel.childrenNames}</p>
-                    </div>
-                  )}
-                </div>
-              </div>
-            )}
-
-            {/* Biography */}
-            {personnel.biography && (
-              <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
-                <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
-                  <FileText className="h-6 w-6 text-green-600 mr-3" />
-                  Biography
-                </h2>
-                <div className="prose prose-sm max-w-none">
-                  <p className="text-gray-700 leading-relaxed">{personnel.biography}</p>
-                </div>
-              </div>
-            )}
-
-            {/* System Information */}
-            <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
-                <Clock className="h-6 w-6 text-gray-600 mr-3" />
-                System Information
-              </h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="flex items-center space-x-3">
-                  <Calendar className="h-5 w-5 text-gray-400" />
-                  <div>
-                    <p className="text-sm font-medium text-gray-500">Record Created</p>
-                    <p className="text-sm text-gray-900">{formatDate(personnel.createdAt)}</p>
                   </div>
-                </div>
+                )}
 
-                <div className="flex items-center space-x-3">
-                  <Calendar className="h-5 w-5 text-gray-400" />
-                  <div>
-                    <p className="text-sm font-medium text-gray-500">Last Updated</p>
-                    <p className="text-sm text-gray-900">{formatDate(personnel.updatedAt)}</p>
+                {/* System Information */}
+                <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+                    <Clock className="h-6 w-6 text-gray-600 mr-3" />
+                    System Information
+                  </h2>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="flex items-center space-x-3">
+                      <Calendar className="h-5 w-5 text-gray-400" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-500">Record Created</p>
+                        <p className="text-sm text-gray-900">{formatDate(personnel.createdAt)}</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-3">
+                      <Calendar className="h-5 w-5 text-gray-400" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-500">Last Updated</p>
+                        <p className="text-sm text-gray-900">{formatDate(personnel.updatedAt)}</p>
+                      </div>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </div>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -5,9 +5,17 @@ export const dynamic = 'force-dynamic'
 
 import { useEffect, useState, useCallback } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
-import { Plus, Search, Edit, Trash2, Eye, Fish, ArrowUpDown, List, Grid3X3, MapPin, Phone, Mail, Calendar, User } from 'lucide-react'
+import { Plus, Search, Edit, Trash2, Eye, Fish, ArrowUpDown, List, Grid3X3, MapPin, Phone, Mail, Calendar, User, Download, Filter, SlidersHorizontal, X } from 'lucide-react'
 import PersonnelModal from '@/components/PersonnelModal'
 import PersonnelDeleteModal from '@/components/PersonnelDeleteModal'
+import PersonnelExportModal from '@/components/PersonnelExportModal'
+import SavedFilterMenu from '@/components/SavedFilterMenu'
+import PersonnelFilterBuilder from '@/components/PersonnelFilterBuilder'
+import { useAppDispatch, useAppSelector } from '@/lib/store'
+import { setFilters, selectPersonnelFilters, PersonnelFilters } from '@/lib/redux/slices/personnelSlice'
+import { PERSONNEL_STATUSES } from '@/lib/personnelSchema'
+import type { FilterDefinition } from '@/lib/savedFilters'
+import { describePersonnelFilter, PersonnelFilterGroup } from '@/lib/personnelFilter'
 
 interface Personnel {
   id: number
@@ -41,6 +49,8 @@ interface PaginationInfo {
 export default function PersonnelPage() {
   const searchParams = useSearchParams()
   const router = useRouter()
+  const dispatch = useAppDispatch()
+  const filters = useAppSelector(selectPersonnelFilters)
   const [personnel, setPersonnel] = useState<Personnel[]>([])
   const [pagination, setPagination] = useState<PaginationInfo>({
     page: 1,
@@ -49,13 +59,14 @@ export default function PersonnelPage() {
     pages: 0
   })
   const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [sortBy, setSortBy] = useState<'id_asc' | 'id_desc' | 'name_asc' | 'name_desc'>('name_asc')
+  const [departments, setDepartments] = useState<string[]>([])
   const [viewMode, setViewMode] = useState<'list' | 'cards'>('list')
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
   const [selectedPersonnel, setSelectedPersonnel] = useState<Personnel | null>(null)
   const [modalMode, setModalMode] = useState<'create' | 'edit'>('create')
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false)
+  const [isFilterBuilderOpen, setIsFilterBuilderOpen] = useState(false)
 
   const fetchPersonnel = useCallback(async () => {
     setLoading(true)
@@ -63,8 +74,11 @@ export default function PersonnelPage() {
       const params = new URLSearchParams({
         page: pagination.page.toString(),
         limit: pagination.limit.toString(),
-        ...(searchTerm && { search: searchTerm }),
-        sort: sortBy
+        ...(filters.search && { search: filters.search }),
+        ...(filters.department && { department: filters.department }),
+        ...(filters.status && { status: filters.status }),
+        ...(filters.expression && { filter: JSON.stringify(filters.expression) }),
+        sort: filters.sortBy
       })
 
       const response = await fetch(`/api/personnel?${params}`)
@@ -78,12 +92,28 @@ export default function PersonnelPage() {
     } finally {
       setLoading(false)
     }
-  }, [pagination.page, pagination.limit, searchTerm, sortBy])
+  }, [pagination.page, pagination.limit, filters])
 
   useEffect(() => {
     fetchPersonnel()
   }, [fetchPersonnel])
 
+  useEffect(() => {
+    const fetchDepartments = async () => {
+      try {
+        const response = await fetch('/api/departments')
+        if (response.ok) {
+          const data = await response.json()
+          setDepartments(data.departments.map((department: { name: string }) => department.name))
+        }
+      } catch (error) {
+        console.error('Error fetching departments:', error)
+      }
+    }
+
+    fetchDepartments()
+  }, [])
+
   useEffect(() => {
     // Check if we should open create modal from URL
     if (searchParams.get('action') === 'create') {
@@ -131,11 +161,34 @@ export default function PersonnelPage() {
     fetchPersonnel()
   }
 
-  const handleSortChange = (newSort: 'id_asc' | 'id_desc' | 'name_asc' | 'name_desc') => {
-    setSortBy(newSort)
+  const handleFilterChange = (changes: Partial<PersonnelFilters>) => {
+    dispatch(setFilters(changes))
     setPagination(prev => ({ ...prev, page: 1 }))
   }
 
+  const handleSortChange = (newSort: PersonnelFilters['sortBy']) => {
+    handleFilterChange({ sortBy: newSort })
+  }
+
+  const personnelSorts: PersonnelFilters['sortBy'][] = ['id_asc', 'id_desc', 'name_asc', 'name_desc']
+
+  const handleApplyPreset = (definition: FilterDefinition) => {
+    handleFilterChange({
+      search: definition.search || '',
+      department: definition.department,
+      status: definition.status,
+      sortBy: personnelSorts.find(sort => sort === definition.sort) || 'name_asc',
+      expression: definition.expression
+    })
+  }
+
+  const handleApplyExpression = (expression: PersonnelFilterGroup | undefined) => {
+    handleFilterChange({ expression })
+    if (expression) {
+      setIsFilterBuilderOpen(false)
+    }
+  }
+
   const getStatusBadge = (status: string) => {
     const statusStyles = {
       'Active': 'bg-green-500 text-white',
@@ -247,7 +300,14 @@ export default function PersonnelPage() {
               <p className="mt-1 text-gray-600">Manage all fisheries personnel records and information</p>
             </div>
           </div>
-          <div className="mt-4 sm:mt-0">
+          <div className="mt-4 sm:mt-0 flex items-center gap-3">
+            <button
+              onClick={() => setIsExportModalOpen(true)}
+              className="inline-flex items-center px-6 py-3 border border-gray-300 rounded-xl shadow-sm text-base font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
+            >
+              <Download className="w-5 h-5 mr-2" />
+              Export
+            </button>
             <button
               onClick={handleCreatePersonnel}
               className="inline-flex items-center px-6 py-3 border border-transparent rounded-xl shadow-sm text-base font-medium text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all duration-200 transform hover:scale-105"
@@ -271,8 +331,8 @@ export default function PersonnelPage() {
                 </div>
                 <input
                   type="text"
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  value={filters.search}
+                  onChange={(e) => handleFilterChange({ search: e.target.value })}
                   className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-xl leading-5 bg-white placeholder-gray-600 focus:outline-none focus:placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-base text-gray-900"
                   placeholder="Search personnel by name, email, department, position, or status..."
                 />
@@ -286,8 +346,48 @@ export default function PersonnelPage() {
             </button>
           </form>
 
-          {/* Sort and View Controls */}
-          <div className="flex items-center gap-6">
+          {/* Filter, Sort and View Controls */}
+          <div className="flex flex-wrap items-center gap-6">
+            {/* Filters */}
+            <div className="flex items-center gap-3">
+              <div className="flex items-center text-sm font-medium text-gray-700">
+                <Filter className="h-4 w-4 mr-2 text-gray-500" />
+                Filter:
+              </div>
+              <select
+                value={filters.department || ''}
+                onChange={(e) => handleFilterChange({ department: e.target.value || undefined })}
+                className="px-4 py-3 border border-gray-300 rounded-xl text-base font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+              >
+                <option value="">All departments</option>
+                {departments.map(department => (
+                  <option key={department} value={department}>{department}</option>
+                ))}
+              </select>
+              <select
+                value={filters.status || ''}
+                onChange={(e) => handleFilterChange({ status: e.target.value || undefined })}
+                className="px-4 py-3 border border-gray-300 rounded-xl text-base font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+              >
+                <option value="">All statuses</option>
+                {PERSONNEL_STATUSES.map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setIsFilterBuilderOpen(!isFilterBuilderOpen)}
+                className={`inline-flex items-center px-4 py-3 border rounded-xl text-base font-medium transition-colors ${
+                  filters.expression
+                    ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                    : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Advanced
+              </button>
+            </div>
+
             {/* Sort Dropdown */}
             <div className="flex items-center gap-3">
               <div className="flex items-center text-sm font-medium text-gray-700">
@@ -295,7 +395,7 @@ export default function PersonnelPage() {
                 Sort by:
               </div>
               <select
-                value={sortBy}
+                value={filters.sortBy}
                 onChange={(e) => handleSortChange(e.target.value as 'id_asc' | 'id_desc' | 'name_asc' | 'name_desc')}
                 className="px-4 py-3 border border-gray-300 rounded-xl text-base font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors min-w-[160px]"
               >
@@ -306,6 +406,19 @@ export default function PersonnelPage() {
               </select>
             </div>
 
+            {/* Saved Presets */}
+            <SavedFilterMenu
+              listType="personnel"
+              definition={{
+                search: filters.search || undefined,
+                department: filters.department,
+                status: filters.status,
+                sort: filters.sortBy,
+                expression: filters.expression
+              }}
+              onApply={handleApplyPreset}
+            />
+
             {/* View Toggle */}
             <div className="flex items-center gap-3">
               <div className="flex items-center text-sm font-medium text-gray-700">
@@ -338,6 +451,36 @@ export default function PersonnelPage() {
             </div>
           </div>
         </div>
+
+        {/* Advanced Filter */}
+        {isFilterBuilderOpen ? (
+          <PersonnelFilterBuilder
+            value={filters.expression}
+            departments={departments}
+            onApply={handleApplyExpression}
+            onClose={() => setIsFilterBuilderOpen(false)}
+          />
+        ) : filters.expression && (
+          <div className="mt-4 flex items-center gap-2 text-sm">
+            <span className="font-medium text-gray-700">Advanced filter:</span>
+            <button
+              type="button"
+              onClick={() => setIsFilterBuilderOpen(true)}
+              className="truncate text-indigo-600 hover:text-indigo-800"
+              title="Edit advanced filter"
+            >
+              {describePersonnelFilter(filters.expression)}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleApplyExpression(undefined)}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Clear advanced filter"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Personnel Content */}
@@ -524,6 +667,12 @@ export default function PersonnelPage() {
         onConfirm={handlePersonnelDeleted}
         personnel={selectedPersonnel}
       />
+
+      <PersonnelExportModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        filters={filters}
+      />
     </div>
   )
 }
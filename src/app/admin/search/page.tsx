@@ -1,27 +1,146 @@
 'use client'
 
-import PlaceholderPage from '@/components/PlaceholderPage'
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Search } from 'lucide-react'
+import type { SearchEntityType } from '@/lib/database.types'
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  SEARCH_ENTITY_LABELS,
+  SEARCH_ENTITY_TYPES,
+  SearchResult
+} from '@/lib/search'
 
 export default function SearchPage() {
-  const features = [
-    'Advanced search capabilities',
-    'Full-text search across all data',
-    'Search filters and facets',
-    'Saved search queries',
-    'Search result ranking',
-    'Auto-complete and suggestions',
-    'Search analytics and insights',
-    'Custom search indexes',
-    'Search API integration',
-    'Search performance optimization'
-  ]
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const query = (searchParams.get('q') || '').trim()
+
+  const [input, setInput] = useState(query)
+  const [typeFilter, setTypeFilter] = useState<SearchEntityType | 'all'>('all')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchResults = useCallback(async () => {
+    if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+      setResults([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError('')
+
+      const params = new URLSearchParams({ q: query, limit: '20' })
+      if (typeFilter !== 'all') {
+        params.set('types', typeFilter)
+      }
+
+      const response = await fetch(`/api/search?${params}`)
+      if (!response.ok) {
+        throw new Error('Search failed')
+      }
+
+      const data = await response.json()
+      setResults(data.results)
+    } catch (error) {
+      console.error('Error searching:', error)
+      setError('Search failed')
+    } finally {
+      setLoading(false)
+    }
+  }, [query, typeFilter])
+
+  useEffect(() => {
+    fetchResults()
+  }, [fetchResults])
+
+  useEffect(() => {
+    setInput(query)
+  }, [query])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    router.push(`/admin/search?q=${encodeURIComponent(input.trim())}`)
+  }
 
   return (
-    <PlaceholderPage
-      title="Search Tools"
-      description="Advanced search and data discovery tools"
-      iconName="Search"
-      features={features}
-    />
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Search</h1>
+        <p className="mt-2 text-gray-600">
+          Find personnel, documents, departments, users and media
+        </p>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100 space-y-4">
+        <form onSubmit={handleSubmit} className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search..."
+            className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...SEARCH_ENTITY_TYPES] as const).map(type => (
+            <button
+              key={type}
+              onClick={() => setTypeFilter(type)}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                typeFilter === type
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {type === 'all' ? 'All' : SEARCH_ENTITY_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100">
+        {query.length < MIN_SEARCH_QUERY_LENGTH ? (
+          <p className="p-8 text-center text-gray-500">
+            Enter at least {MIN_SEARCH_QUERY_LENGTH} characters to search
+          </p>
+        ) : loading ? (
+          <div className="p-8 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : results.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">No results for &quot;{query}&quot;</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {results.map(result => (
+              <li key={`${result.type}-${result.id}`}>
+                <Link href={result.href} className="flex items-center justify-between px-6 py-4 hover:bg-gray-50">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{result.label}</p>
+                    {result.detail && (
+                      <p className="text-sm text-gray-500 truncate">{result.detail}</p>
+                    )}
+                  </div>
+                  <span className="ml-4 flex-shrink-0 px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-600">
+                    {SEARCH_ENTITY_LABELS[result.type]}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
   )
 }
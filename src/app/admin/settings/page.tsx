@@ -211,7 +211,7 @@ export default function SettingsPage() {
             href="/admin/email-test"
             className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-md hover:bg-blue-700 transition-colors"
           >
-            Test Email Service
+            Edit &amp; Test Emails
           </a>
           <span className="inline-flex items-center px-3 py-1.5 bg-green-100 text-green-800 text-xs font-medium rounded-md">
             ✓ Configured
@@ -9,6 +9,9 @@ import { Plus, Search, Edit, Trash2, Eye } from 'lucide-react'
 import UserModal from '@/components/UserModal'
 import UserViewModal from '@/components/UserViewModal'
 import DeleteConfirmModal from '@/components/DeleteConfirmModal'
+import SavedFilterMenu from '@/components/SavedFilterMenu'
+import { ROLES, ROLE_LABELS, normalizeRole } from '@/lib/permissions'
+import type { FilterDefinition } from '@/lib/savedFilters'
 
 interface User {
   id: number
@@ -16,11 +19,14 @@ interface User {
   name: string
   phone?: string
   address?: string
+  role?: string
   status: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED'
   createdAt: string
   updatedAt: string
 }
 
+type UserSort = 'name_asc' | 'name_desc' | 'email_asc' | 'email_desc' | 'created_desc' | 'created_asc'
+
 interface PaginationInfo {
   page: number
   limit: number
@@ -38,7 +44,9 @@ export default function UsersPage() {
     pages: 0
   })
   const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
+  const [searchTerm, setSearchTerm] = useState(() => searchParams.get('search') || '')
+  const [roleFilter, setRoleFilter] = useState('')
+  const [sortBy, setSortBy] = useState<UserSort>('name_asc')
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isViewModalOpen, setIsViewModalOpen] = useState(false)
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
@@ -51,7 +59,9 @@ export default function UsersPage() {
       const params = new URLSearchParams({
         page: pagination.page.toString(),
         limit: pagination.limit.toString(),
-        ...(searchTerm && { search: searchTerm })
+        ...(searchTerm && { search: searchTerm }),
+        ...(roleFilter && { role: roleFilter }),
+        sort: sortBy
       })
 
       const response = await fetch(`/api/users?${params}`)
@@ -65,12 +75,20 @@ export default function UsersPage() {
     } finally {
       setLoading(false)
     }
-  }, [pagination.page, pagination.limit, searchTerm])
+  }, [pagination.page, pagination.limit, searchTerm, roleFilter, sortBy])
 
   useEffect(() => {
     fetchUsers()
   }, [fetchUsers])
 
+  useEffect(() => {
+    // Global search links here with ?search=
+    const search = searchParams.get('search')
+    if (search !== null) {
+      setSearchTerm(search)
+    }
+  }, [searchParams])
+
   useEffect(() => {
     // Check if we should open create modal from URL
     if (searchParams.get('action') === 'create') {
@@ -112,6 +130,15 @@ export default function UsersPage() {
     fetchUsers()
   }
 
+  const userSorts: UserSort[] = ['name_asc', 'name_desc', 'email_asc', 'email_desc', 'created_desc', 'created_asc']
+
+  const handleApplyPreset = (definition: FilterDefinition) => {
+    setSearchTerm(definition.search || '')
+    setRoleFilter(definition.role || '')
+    setSortBy(userSorts.find(sort => sort === definition.sort) || 'name_asc')
+    setPagination(prev => ({ ...prev, page: 1 }))
+  }
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
     setPagination(prev => ({ ...prev, page: 1 }))
@@ -150,8 +177,8 @@ export default function UsersPage() {
         </div>
 
         {/* Search */}
-        <div className="mb-6">
-          <form onSubmit={handleSearch} className="flex gap-4">
+        <div className="mb-6 flex gap-4">
+          <form onSubmit={handleSearch} className="flex gap-4 flex-1">
             <div className="flex-1">
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -166,6 +193,34 @@ export default function UsersPage() {
                 />
               </div>
             </div>
+            <select
+              value={roleFilter}
+              onChange={(e) => {
+                setRoleFilter(e.target.value)
+                setPagination(prev => ({ ...prev, page: 1 }))
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">All roles</option>
+              {ROLES.map(role => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <select
+              value={sortBy}
+              onChange={(e) => {
+                setSortBy(e.target.value as UserSort)
+                setPagination(prev => ({ ...prev, page: 1 }))
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="name_asc">Name (A - Z)</option>
+              <option value="name_desc">Name (Z - A)</option>
+              <option value="email_asc">Email (A - Z)</option>
+              <option value="email_desc">Email (Z - A)</option>
+              <option value="created_desc">Newest first</option>
+              <option value="created_asc">Oldest first</option>
+            </select>
             <button
               type="submit"
               className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -173,6 +228,15 @@ export default function UsersPage() {
               Search
             </button>
           </form>
+          <SavedFilterMenu
+            listType="users"
+            definition={{
+              search: searchTerm || undefined,
+              role: roleFilter || undefined,
+              sort: sortBy
+            }}
+            onApply={handleApplyPreset}
+          />
         </div>
 
         {/* Users Table */}
@@ -206,6 +270,9 @@ export default function UsersPage() {
                           <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadge(user.status)}`}>
                             {user.status}
                           </span>
+                          <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                            {ROLE_LABELS[normalizeRole(user.role)]}
+                          </span>
                         </div>
                         <div className="text-sm text-gray-500">{user.email}</div>
                       </div>
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { AuditLog } from '@/lib/database.types'
+import { toCsv } from '@/lib/csv'
+import { z } from 'zod'
+
+const auditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  actor: z.string().optional(),
+  entityType: z.enum(['user', 'personnel', 'personnel_document', 'department', 'media_asset', 'event']).optional(),
+  entityId: z.string().optional(),
+  action: z.enum(['create', 'update', 'delete']).optional(),
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  format: z.enum(['csv', 'json']).optional()
+})
+
+// Exports are capped so a wide date range cannot exhaust the server
+const EXPORT_LIMIT = 5000
+
+function auditToCsv(entries: AuditLog[]): string {
+  const header = ['timestamp', 'action', 'entity_type', 'entity_id', 'entity_label', 'actor_email', 'ip_address', 'user_agent', 'changes']
+  const rows = entries.map(entry => [
+    entry.created_at,
+    entry.action,
+    entry.entity_type,
+    entry.entity_id,
+    entry.entity_label,
+    entry.actor_email,
+    entry.ip_address,
+    entry.user_agent,
+    entry.changes
+  ])
+
+  return toCsv(header, rows)
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('audit:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = auditQuerySchema.parse(
+      Object.fromEntries([...searchParams.entries()].filter(([, value]) => value !== ''))
+    )
+
+    const filters = {
+      actor: query.actor,
+      entityType: query.entityType,
+      entityId: query.entityId,
+      action: query.action,
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo
+    }
+
+    if (query.format) {
+      const result = await db.getAuditLogs({ ...filters, page: 1, limit: EXPORT_LIMIT })
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${query.format}`
+      const body = query.format === 'csv' ? auditToCsv(result.data) : JSON.stringify(result.data, null, 2)
+
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': query.format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      })
+    }
+
+    const result = await db.getAuditLogs({ ...filters, page: query.page, limit: query.limit })
+
+    return NextResponse.json({
+      entries: result.data,
+      pagination: result.pagination
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('[API] Error fetching audit log:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Current User API Route
+ *
+ * Returns the signed-in user's role and permissions so the client can
+ * hide pages and actions the role cannot use.
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/authorization'
+import { ROLE_PERMISSIONS } from '@/lib/permissions'
+
+/**
+ * GET /api/auth/me
+ * Get the current user's role and permissions
+ */
+export async function GET() {
+  try {
+    const current = await getCurrentUser()
+
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      id: current.user.id,
+      email: current.user.email,
+      role: current.role,
+      permissions: ROLE_PERMISSIONS[current.role]
+    })
+  } catch (error) {
+    console.error('[API] Error fetching current user:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
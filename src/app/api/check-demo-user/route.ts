@@ -1,8 +1,14 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { requirePermission } from '@/lib/authorization'
 
 export async function GET() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('Checking demo user status...')
 
     // Use service role key to check user status
@@ -8,6 +8,8 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+import { isCronRequest, requirePermission } from '@/lib/authorization'
+import { dispatchNotification } from '@/lib/notifier'
 
 // Server-side Cloudinary import
 let cloudinary: typeof import('cloudinary').v2 | null = null
@@ -46,10 +48,18 @@ interface CleanupQueueItem {
 
 /**
  * POST /api/cloudinary/cleanup
- * Process pending Cloudinary cleanup operations
+ * Process pending Cloudinary cleanup operations. Accepts the CRON_SECRET
+ * bearer token so a scheduler can drain the queue (e.g. after a trash purge).
  */
 export async function POST(request: NextRequest) {
   try {
+    if (!isCronRequest(request)) {
+      const auth = await requirePermission('system:manage')
+      if (!auth.authorized) {
+        return auth.response
+      }
+    }
+
     console.log('[Cloudinary Cleanup API] Starting cleanup processing...')
 
     const cloudinaryInstance = await initCloudinary()
@@ -233,6 +243,22 @@ export async function POST(request: NextRequest) {
 
     const successRate = results.processed / (results.processed + results.failed) * 100
 
+    if (results.failed > 0) {
+      await dispatchNotification('media.cleanup_failed', {
+        title: 'Cloudinary cleanup failed',
+        message: `${results.failed} of ${pendingItems.length} queued Cloudinary deletions failed. The files may still be stored in Cloudinary.`,
+        type: 'error',
+        priority: 'high',
+        category: 'cleanup',
+        link: '/admin/media',
+        metadata: {
+          failed: results.items
+            .filter(item => item.status === 'failed')
+            .map(item => ({ public_id: item.public_id, error: item.error ?? null }))
+        }
+      })
+    }
+
     console.log(`[Cloudinary Cleanup API] Cleanup completed: ${results.processed} processed, ${results.failed} failed (${successRate.toFixed(1)}% success rate)`)
 
     return NextResponse.json({
@@ -267,6 +293,11 @@ export async function POST(request: NextRequest) {
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Cloudinary Cleanup API] Getting cleanup queue status...')
 
     // Get queue statistics
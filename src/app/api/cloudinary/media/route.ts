@@ -7,7 +7,9 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { SupabaseMediaService } from '@/lib/supabaseMediaService'
-import { cloudinary } from '@/lib/cloudinary'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { getMediaUsageByAsset, MediaUsageDescription } from '@/lib/mediaUsage'
 // Removed unused imports - BidirectionalSyncService and deleteFromCloudinary
 
 /**
@@ -16,6 +18,11 @@ import { cloudinary } from '@/lib/cloudinary'
  */
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Cloudinary Media API] Fetching media items...')
 
     // Parse query parameters
@@ -28,6 +35,12 @@ export async function GET(request: NextRequest) {
     const tags = searchParams.get('tags')?.split(',').filter(Boolean) || undefined
     const sortBy = searchParams.get('sort_by')?.split(',') || undefined
     const sortOrder = searchParams.get('sort_order') as 'asc' | 'desc' || 'desc'
+    const dateFrom = searchParams.get('date_from') || undefined
+    // A bare YYYY-MM-DD end date includes the whole day
+    const dateToParam = searchParams.get('date_to')
+    const dateTo = dateToParam && /^\d{4}-\d{2}-\d{2}$/.test(dateToParam)
+      ? `${dateToParam}T23:59:59.999Z`
+      : dateToParam || undefined
 
 
     // First, check if database is properly set up
@@ -73,14 +86,26 @@ export async function GET(request: NextRequest) {
         resource_type: resourceType,
         search,
         tags,
+        date_from: dateFrom,
+        date_to: dateTo,
         sort_by: sortBy?.[0] || 'created_at',
         sort_order: sortOrder
       })
 
+      // Active usage counts, so the library can flag assets that records rely on
+      let usageCounts: Record<string, number> = {}
+      try {
+        const usage = await getMediaUsageByAsset(dbResult.assets.map(asset => asset.id))
+        usageCounts = Object.fromEntries(Object.entries(usage).map(([assetId, usages]) => [assetId, usages.length]))
+      } catch (usageError) {
+        console.warn('[Cloudinary Media API] Could not load media usage:', usageError)
+      }
+
       // Transform MediaAsset to include compatibility fields for existing UI
       result = {
         assets: dbResult.assets.map(asset => ({
           ...asset,
+          usage_count: usageCounts[asset.id] || 0,
           // Add compatibility fields for existing UI components
           public_id: asset.cloudinary_public_id,
           bytes: asset.file_size,
@@ -209,10 +234,17 @@ export async function GET(request: NextRequest) {
 
 /**
  * DELETE /api/cloudinary/media
- * Delete media items with bidirectional sync
+ * Move media items to the trash (see /api/media/trash). Items still used by a
+ * profile photo or document are skipped and reported under `blocked` unless
+ * the request passes force=true (query or body).
  */
 export async function DELETE(request: NextRequest) {
   try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Cloudinary Media API] Processing delete request...')
 
     // Parse query parameters for public IDs
@@ -221,9 +253,11 @@ export async function DELETE(request: NextRequest) {
 
     // Also check request body for public IDs (for POST-style requests from real-time handlers)
     let bodyPublicIds: string[] = []
+    let force = searchParams.get('force') === 'true'
     try {
       const body = await request.json()
       bodyPublicIds = body.public_ids || []
+      force = force || body.force === true
       console.log('[Cloudinary Media API] 📄 Request body public_ids:', bodyPublicIds)
     } catch {
       // No body or invalid JSON, use query params only
@@ -249,166 +283,54 @@ export async function DELETE(request: NextRequest) {
       deleted: [] as string[],
       failed: [] as {
         public_id: string,
-        error: string,
-        cloudinary_success?: boolean,
-        database_success?: boolean,
-        cloudinary_error?: string
+        error: string
+      }[],
+      blocked: [] as {
+        public_id: string,
+        usages: MediaUsageDescription[]
       }[]
     }
 
-    // Process each deletion - DELETE FROM BOTH CLOUDINARY AND DATABASE
+    // Move each item to the trash; Cloudinary files stay until the trash is purged
     for (const publicId of publicIds) {
       try {
         console.log(`[Cloudinary Media API] Processing deletion for: ${publicId}`)
 
-        // Get asset info first
         const asset = await SupabaseMediaService.getMediaAssetByPublicId(publicId)
 
         if (!asset) {
-          console.warn(`[Cloudinary Media API] Asset not found in database: ${publicId}`)
-          // Still try to delete from Cloudinary in case it exists there
-        }
-
-        // STEP 1: Delete from Cloudinary first
-        let cloudinaryDeleteSuccess = false
-        let cloudinaryErrorDetails = null
-
-        try {
-          console.log(`[Cloudinary Media API] Deleting from Cloudinary: ${publicId}`)
-
-          // Check if cloudinary instance is available
-          if (!cloudinary) {
-            throw new Error('Cloudinary instance not available - check environment variables')
-          }
-
-          // Get the resource type from the database asset
-          const rawResourceType = asset?.resource_type || 'image'
-          console.log(`[Cloudinary Media API] Using resource type: ${rawResourceType}`)
-
-          let cloudinaryResult
-
-          // Try with the known resource type first
-          try {
-            // Ensure we use a valid Cloudinary resource type
-            const destroyResourceType: 'image' | 'video' | 'raw' =
-              rawResourceType === 'video' ? 'video' :
-              rawResourceType === 'raw' ? 'raw' : 'image'
-
-            cloudinaryResult = await cloudinary.uploader.destroy(publicId, {
-              resource_type: destroyResourceType,
-              invalidate: true
-            })
-          } catch (firstAttemptError) {
-            console.log(`[Cloudinary Media API] First attempt failed with ${rawResourceType}, trying different types:`, firstAttemptError)
-
-            // Try different resource types
-            let success = false
-            for (const tryType of ['image', 'video', 'raw'] as const) {
-              try {
-                cloudinaryResult = await cloudinary.uploader.destroy(publicId, {
-                  resource_type: tryType,
-                  invalidate: true
-                })
-                success = true
-                break
-              } catch (attemptError) {
-                console.log(`[Cloudinary Media API] Failed with ${tryType}:`, attemptError)
-              }
-            }
-
-            if (!success) {
-              throw new Error('Failed to delete with any resource type')
-            }
-          }
-
-          console.log(`[Cloudinary Media API] Cloudinary delete result for ${publicId}:`, JSON.stringify(cloudinaryResult, null, 2))
-
-          if (cloudinaryResult.result === 'ok') {
-            cloudinaryDeleteSuccess = true
-            console.log(`[Cloudinary Media API] ✅ Successfully deleted from Cloudinary: ${publicId}`)
-          } else if (cloudinaryResult.result === 'not found') {
-            cloudinaryDeleteSuccess = true
-            console.log(`[Cloudinary Media API] ⚠️ Asset not found in Cloudinary (already deleted?): ${publicId}`)
-          } else {
-            cloudinaryErrorDetails = `Unexpected result: ${cloudinaryResult.result}`
-            console.error(`[Cloudinary Media API] ❌ Cloudinary delete failed for ${publicId}:`, cloudinaryResult.result)
-          }
-
-        } catch (cloudinaryError: unknown) {
-          // Properly extract error details from Cloudinary error object
-          if (cloudinaryError && typeof cloudinaryError === 'object') {
-            const errorObj = cloudinaryError as Record<string, unknown>
-            cloudinaryErrorDetails = JSON.stringify({
-              message: errorObj.message || 'Unknown error',
-              http_code: errorObj.http_code || 'Unknown',
-              error: errorObj.error || cloudinaryError,
-              name: errorObj.name || 'CloudinaryError'
-            })
-          } else {
-            cloudinaryErrorDetails = String(cloudinaryError)
-          }
-
-          console.error(`[Cloudinary Media API] ❌ Cloudinary delete error for ${publicId}:`, cloudinaryError)
-          console.error(`[Cloudinary Media API] Error details:`, {
-            error_type: cloudinaryError instanceof Error ? cloudinaryError.constructor.name : typeof cloudinaryError,
-            error_message: cloudinaryErrorDetails,
-            http_code: (cloudinaryError as Record<string, unknown>)?.http_code,
-            cloudinary_available: !!cloudinary,
-            env_vars: {
-              cloud_name: !!process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
-              api_key: !!process.env.CLOUDINARY_API_KEY,
-              api_secret: !!process.env.CLOUDINARY_API_SECRET
-            }
+          // Nothing to restore later, so remove the Cloudinary file through the cleanup queue
+          console.warn(`[Cloudinary Media API] Asset not found in database, queueing Cloudinary cleanup: ${publicId}`)
+          await SupabaseMediaService.queueCloudinaryCleanup(publicId, 'image', {
+            deletionReason: 'manual_deletion',
+            triggerSource: 'api',
+            triggeredBy: auth.user.id
           })
+          results.deleted.push(publicId)
+          continue
         }
 
-        // STEP 2: HARD DELETE from database (not soft delete)
-        let databaseDeleteSuccess = false
-        if (asset) {
-          try {
-            console.log(`[Cloudinary Media API] HARD DELETING from database: ${publicId}`)
-
-            // HARD DELETE: Actually remove the record from database
-            await SupabaseMediaService.hardDeleteMediaAsset(publicId)
-
-            databaseDeleteSuccess = true
-            console.log(`[Cloudinary Media API] Successfully HARD DELETED from database: ${publicId}`)
+        // Deleting an asset that records still use would break them
+        const usages = (await getMediaUsageByAsset([asset.id]))[asset.id] || []
+        if (usages.length > 0 && !force) {
+          console.warn(`[Cloudinary Media API] ⛔ Not deleting ${publicId}, still used in ${usages.length} place(s)`)
+          results.blocked.push({ public_id: publicId, usages })
+          continue
+        }
+        if (usages.length > 0) {
+          console.warn(`[Cloudinary Media API] ⚠️ Force deleting ${publicId}, still used in: ${usages.map(usage => usage.label).join('; ')}`)
+        }
 
-          } catch (databaseError) {
-            console.error(`[Cloudinary Media API] Database delete error for ${publicId}:`, databaseError)
-          }
-        } else {
-          // No database record to delete
-          databaseDeleteSuccess = true
+        const trashed = await SupabaseMediaService.softDeleteMediaAsset(publicId, auth.user.id)
+        if (!trashed) {
+          results.failed.push({ public_id: publicId, error: 'Asset was already deleted' })
+          continue
         }
 
-        // STEP 3: Evaluate overall success
-        if (cloudinaryDeleteSuccess && databaseDeleteSuccess) {
-          results.deleted.push(publicId)
-          console.log(`[Cloudinary Media API] ✅ Successfully processed deletion: ${publicId}`)
-        } else {
-          const errorDetails = []
-          if (!cloudinaryDeleteSuccess) {
-            errorDetails.push(`Cloudinary: ${cloudinaryErrorDetails || 'Unknown error'}`)
-          }
-          if (!databaseDeleteSuccess) {
-            errorDetails.push('Database: Delete failed')
-          }
-
-          results.failed.push({
-            public_id: publicId,
-            error: `Failed to delete - ${errorDetails.join(', ')}`,
-            cloudinary_success: cloudinaryDeleteSuccess,
-            database_success: databaseDeleteSuccess,
-            cloudinary_error: cloudinaryErrorDetails || undefined
-          })
+        await db.recordAudit('delete', 'media_asset', asset.id, asset.original_filename || publicId, asset, null, getAuditContext(request, auth.user))
 
-          console.error(`[Cloudinary Media API] ❌ Failed to delete ${publicId}:`, {
-            cloudinary_success: cloudinaryDeleteSuccess,
-            database_success: databaseDeleteSuccess,
-            cloudinary_error: cloudinaryErrorDetails
-          })
-        }
+        results.deleted.push(publicId)
+        console.log(`[Cloudinary Media API] ✅ Moved to trash: ${publicId}`)
 
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error'
@@ -418,10 +340,11 @@ export async function DELETE(request: NextRequest) {
     }
 
     return NextResponse.json({
-      success: results.failed.length === 0,
-      message: `Deleted ${results.deleted.length} items, ${results.failed.length} failed`,
+      success: results.failed.length === 0 && results.blocked.length === 0,
+      message: `Moved ${results.deleted.length} items to the trash, ${results.failed.length} failed, ${results.blocked.length} in use`,
       deleted: results.deleted,
       failed: results.failed,
+      blocked: results.blocked,
       timestamp: new Date().toISOString()
     })
 
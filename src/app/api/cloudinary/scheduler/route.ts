@@ -8,6 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getCleanupScheduler } from '@/lib/cloudinaryCleanupScheduler'
+import { requirePermission } from '@/lib/authorization'
 
 /**
  * GET /api/cloudinary/scheduler
@@ -15,6 +16,11 @@ import { getCleanupScheduler } from '@/lib/cloudinaryCleanupScheduler'
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Cloudinary Scheduler API] Getting scheduler status...')
 
     const scheduler = getCleanupScheduler()
@@ -62,6 +68,11 @@ export async function GET() {
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     const body = await request.json()
     const { action, config } = body
 
@@ -162,6 +173,11 @@ export async function POST(request: NextRequest) {
  */
 export async function PUT(request: NextRequest) {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     const config = await request.json()
     
     console.log('[Cloudinary Scheduler API] Updating configuration:', config)
@@ -197,6 +213,11 @@ export async function PUT(request: NextRequest) {
  */
 export async function DELETE() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Cloudinary Scheduler API] Emergency stop requested...')
 
     const scheduler = getCleanupScheduler()
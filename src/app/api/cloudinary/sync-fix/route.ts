@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SupabaseMediaService } from '@/lib/supabaseMediaService'
 import { getCleanupScheduler } from '@/lib/cloudinaryCleanupScheduler'
+import { requirePermission } from '@/lib/authorization'
 
 // Server-side Cloudinary import
 let cloudinary: typeof import('cloudinary').v2 | null = null
@@ -35,6 +36,11 @@ async function initCloudinary() {
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Sync Fix API] Running comprehensive diagnostic...')
 
     // Check scheduler status
@@ -149,6 +155,11 @@ export async function GET() {
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     const body = await request.json()
     const { action, options = {} } = body
 
@@ -0,0 +1,71 @@
+/**
+ * Cloudinary Delta Sync API Route
+ *
+ * Imports only the Cloudinary resources uploaded or overwritten since the
+ * last run, using a stored high-water mark, and pushes pending database
+ * changes to Cloudinary. Long backlogs are worked through a few pages per
+ * call. Meant to be called every few minutes by a scheduler with the
+ * CRON_SECRET bearer token; media managers can also trigger it.
+ *
+ * Usage:
+ * POST /api/cloudinary/sync/delta
+ * Authorization: Bearer <CRON_SECRET>
+ * GET  /api/cloudinary/sync/delta   (where the delta sync left off)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isCronRequest, requirePermission } from '@/lib/authorization'
+import { BidirectionalSyncService } from '@/lib/bidirectionalSyncService'
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const auth = await requirePermission('media:manage')
+      if (!auth.authorized) {
+        return auth.response
+      }
+    }
+
+    const result = await BidirectionalSyncService.performDeltaSync()
+
+    return NextResponse.json({
+      success: result.success,
+      data: {
+        synced_items: result.synced_items,
+        updated_items: result.updated_items,
+        deleted_items: result.deleted_items,
+        conflicts: result.conflicts || 0,
+        has_more: !!result.last_cursor,
+        duration_ms: result.duration_ms,
+        errors: result.errors,
+        error_count: result.errors.length
+      }
+    })
+  } catch (error) {
+    console.error('[API] Error running delta sync:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const checkpoint = await BidirectionalSyncService.getDeltaCheckpoint()
+
+    return NextResponse.json({
+      checkpoint: checkpoint && {
+        high_water_mark: checkpoint.high_water_mark,
+        in_progress: !!checkpoint.next_cursor,
+        last_delta_sync_at: checkpoint.last_delta_sync_at,
+        last_full_sync_at: checkpoint.last_full_sync_at
+      }
+    })
+  } catch (error) {
+    console.error('[API] Error fetching delta sync checkpoint:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -3,11 +3,16 @@
  *
  * Handles bidirectional synchronization between Cloudinary and Supabase database.
  * Provides enterprise-grade sync operations for perfect mirroring with persistent storage.
+ *
+ * A full sync reads every Cloudinary resource, so routine syncing goes
+ * through /api/cloudinary/sync/delta and the full sync runs as an occasional
+ * reconciliation, e.g. weekly by a scheduler with the CRON_SECRET bearer token.
  */
 
 import { NextResponse } from 'next/server'
 import { BidirectionalSyncService } from '@/lib/bidirectionalSyncService'
 import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+import { isCronRequest, requirePermission } from '@/lib/authorization'
 
 /**
  * POST /api/cloudinary/sync
@@ -15,6 +20,13 @@ import { SupabaseMediaService } from '@/lib/supabaseMediaService'
  */
 export async function POST(request: Request) {
   try {
+    if (!isCronRequest(request)) {
+      const auth = await requirePermission('media:manage')
+      if (!auth.authorized) {
+        return auth.response
+      }
+    }
+
     console.log('[Cloudinary Sync API] Starting bidirectional sync operation...')
 
     // First, check if database is properly set up
@@ -115,6 +127,11 @@ export async function POST(request: Request) {
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Cloudinary Sync API] Getting sync status...')
 
     // Get current media statistics
@@ -20,7 +20,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { uploadToCloudinary, CLOUDINARY_FOLDERS } from '@/lib/cloudinary'
 import { SupabaseMediaService } from '@/lib/supabaseMediaService'
-import { createClient } from '@/utils/supabase/server'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
 
 /**
  * Maximum file size (10MB)
@@ -52,6 +53,11 @@ const ALLOWED_FILE_TYPES = [
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Cloudinary API] Upload request received')
 
     // Parse form data
@@ -111,15 +117,6 @@ export async function POST(request: NextRequest) {
     let immediateSync = false
 
     try {
-      // Get the current user for uploaded_by field (required for RLS)
-      const supabase = await createClient()
-      const { data: { user }, error: authError } = await supabase.auth.getUser()
-
-      if (authError || !user) {
-        console.warn('[Cloudinary API] No authenticated user found for upload:', authError?.message)
-        // For now, we'll continue without user ID, but this should be addressed
-      }
-
       const mediaAsset = {
         cloudinary_public_id: uploadResult.public_id,
         cloudinary_version: uploadResult.version,
@@ -140,12 +137,14 @@ export async function POST(request: NextRequest) {
         resource_type: uploadResult.resource_type as 'image' | 'video' | 'raw',
         cloudinary_created_at: uploadResult.created_at,
         sync_status: 'synced' as const,
-        uploaded_by: user?.id || undefined, // Add uploaded_by for RLS
+        uploaded_by: auth.user.id, // Add uploaded_by for RLS
         used_in_personnel: personnel_id,
         access_mode: 'public' as const // Add access_mode with default
       }
 
-      await SupabaseMediaService.upsertMediaAsset(mediaAsset)
+      const savedAsset = await SupabaseMediaService.upsertMediaAsset(mediaAsset)
+
+      await db.recordAudit('create', 'media_asset', savedAsset.id, savedAsset.original_filename || savedAsset.cloudinary_public_id, null, savedAsset, getAuditContext(request, auth.user))
 
       // Log the upload operation
       await SupabaseMediaService.logSyncOperation({
@@ -240,6 +239,11 @@ export async function POST(request: NextRequest) {
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     return NextResponse.json({
       success: true,
       config: {
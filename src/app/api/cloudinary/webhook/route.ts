@@ -0,0 +1,83 @@
+/**
+ * Cloudinary Webhook API Route
+ *
+ * Receives Cloudinary notifications (upload, delete, rename, tag changes) and
+ * applies them to the database through the sync engine, so the media library
+ * stays current without waiting for a full sync.
+ */
+
+import { createHash } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  BidirectionalSyncService,
+  CloudinaryWebhookNotification
+} from '@/lib/bidirectionalSyncService'
+
+/**
+ * POST /api/cloudinary/webhook
+ * Handle a signed Cloudinary notification
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the raw body, so it must be read before parsing
+    const body = await request.text()
+    const timestamp = request.headers.get('x-cld-timestamp')
+    const signature = request.headers.get('x-cld-signature')
+
+    const isValid = await BidirectionalSyncService.verifyWebhookSignature(body, timestamp, signature)
+    if (!isValid) {
+      console.warn('[Cloudinary Webhook API] Rejected notification with invalid signature')
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid signature',
+        timestamp: new Date().toISOString()
+      }, { status: 401 })
+    }
+
+    let notification: CloudinaryWebhookNotification
+    try {
+      notification = JSON.parse(body)
+    } catch {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid JSON payload',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+
+    if (!notification.notification_type) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing notification_type',
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+
+    // Cloudinary retries resend the identical body, so its hash identifies the event
+    const eventId = createHash('sha256').update(body).digest('hex')
+
+    const result = await BidirectionalSyncService.processWebhookNotification(notification, eventId)
+
+    console.log('[Cloudinary Webhook API] Notification processed:', result)
+
+    // A non-2xx response makes Cloudinary retry; already-applied resources are skipped
+    return NextResponse.json({
+      success: result.success,
+      message: result.success
+        ? `Processed ${result.notification_type}: ${result.processed.length} applied, ${result.skipped.length} already applied`
+        : `Processed ${result.notification_type} with ${result.errors.length} errors`,
+      data: result,
+      timestamp: new Date().toISOString()
+    }, { status: result.success ? 200 : 500 })
+
+  } catch (error) {
+    console.error('[Cloudinary Webhook API] Webhook handling failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Webhook handling failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
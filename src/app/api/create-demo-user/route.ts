@@ -1,8 +1,14 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { requirePermission } from '@/lib/authorization'
 
 export async function POST() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('Creating demo user...')
     console.log('Supabase URL:', process.env.NEXT_PUBLIC_SUPABASE_URL)
     console.log('Service Role Key exists:', !!process.env.SUPABASE_SERVICE_ROLE_KEY)
@@ -44,14 +50,17 @@ export async function POST() {
       })
     }
 
-    // Create demo user with admin privileges
+    // Create demo user
     const { data, error } = await supabaseAdmin.auth.admin.createUser({
       email: 'demo@admin.com',
       password: 'demo123',
       email_confirm: true, // Skip email confirmation
       user_metadata: {
-        name: 'Demo Admin',
-        role: 'admin'
+        name: 'Demo User'
+      },
+      // Read-only: the demo password is public
+      app_metadata: {
+        role: 'viewer'
       }
     })
 
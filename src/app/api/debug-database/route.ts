@@ -7,9 +7,15 @@
 
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { requirePermission } from '@/lib/authorization'
 
 export async function GET() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Database Debug] Starting comprehensive database diagnostics...')
 
     const supabase = createClient(
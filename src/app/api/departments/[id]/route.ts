@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+
+const updateDepartmentSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  description: z.string().optional(),
+  headName: z.string().optional(),
+  headEmail: z.string().email('Invalid email address').optional().or(z.literal('')),
+  headPhone: z.string().optional(),
+  location: z.string().optional(),
+  budget: z.coerce.number().nonnegative('Budget cannot be negative').optional(),
+  established: z.string().optional(),
+  status: z.enum(['Active', 'Inactive', 'Restructuring']).optional(),
+  performance: z.coerce.number().min(0).max(100).optional(),
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('departments:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const department = await db.findDepartmentById(parseInt(id))
+
+    if (!department) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(department)
+  } catch (error) {
+    console.error('Error fetching department:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('departments:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateDepartmentSchema.parse(body)
+
+    // Check if department exists
+    const existingDepartment = await db.findDepartmentById(parseInt(id))
+
+    if (!existingDepartment) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    // Check if name is being changed and if it's already taken
+    if (validatedData.name && validatedData.name !== existingDepartment.name) {
+      const nameTaken = await db.findDepartmentByName(validatedData.name)
+
+      if (nameTaken) {
+        return NextResponse.json({ error: 'Department name already taken' }, { status: 400 })
+      }
+    }
+
+    // Renames cascade to personnel.department through the foreign key
+    const department = await db.updateDepartment(parseInt(id), {
+      name: validatedData.name,
+      description: validatedData.description,
+      head_name: validatedData.headName,
+      head_email: validatedData.headEmail,
+      head_phone: validatedData.headPhone,
+      location: validatedData.location,
+      budget: validatedData.budget,
+      established: validatedData.established || undefined,
+      status: validatedData.status,
+      performance: validatedData.performance
+    }, getAuditContext(request, auth.user))
+
+    if (!department) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(department)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('Error updating department:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('departments:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const existingDepartment = await db.findDepartmentById(parseInt(id))
+
+    if (!existingDepartment) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    if (existingDepartment.personnel_count > 0) {
+      return NextResponse.json({
+        error: `Cannot delete a department with ${existingDepartment.personnel_count} assigned personnel. Transfer them first.`
+      }, { status: 409 })
+    }
+
+    const deleted = await db.deleteDepartment(parseInt(id), getAuditContext(request, auth.user))
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Department not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Department deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting department:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+
+const createDepartmentSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  headName: z.string().optional(),
+  headEmail: z.string().email('Invalid email address').optional().or(z.literal('')),
+  headPhone: z.string().optional(),
+  location: z.string().optional(),
+  budget: z.coerce.number().nonnegative('Budget cannot be negative').optional(),
+  established: z.string().optional(),
+  status: z.enum(['Active', 'Inactive', 'Restructuring']).default('Active'),
+  performance: z.coerce.number().min(0).max(100).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('departments:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search') || ''
+    const status = searchParams.get('status') || ''
+
+    console.log(`[API] GET /api/departments - Search: "${search}", Status: "${status}"`)
+
+    const departments = await db.getAllDepartments({
+      search: search || undefined,
+      status: status || undefined
+    })
+
+    return NextResponse.json({ departments })
+  } catch (error) {
+    console.error('[API] Error fetching departments:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('departments:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validatedData = createDepartmentSchema.parse(body)
+
+    const existingDepartment = await db.findDepartmentByName(validatedData.name)
+
+    if (existingDepartment) {
+      return NextResponse.json({ error: 'Department with this name already exists' }, { status: 400 })
+    }
+
+    const department = await db.createDepartment({
+      name: validatedData.name,
+      description: validatedData.description || null,
+      head_name: validatedData.headName || null,
+      head_email: validatedData.headEmail || null,
+      head_phone: validatedData.headPhone || null,
+      location: validatedData.location || null,
+      budget: validatedData.budget ?? null,
+      established: validatedData.established || null,
+      status: validatedData.status,
+      performance: validatedData.performance ?? null
+    }, getAuditContext(request, auth.user))
+
+    return NextResponse.json(department, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('Error creating department:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
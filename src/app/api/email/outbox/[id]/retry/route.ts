@@ -0,0 +1,56 @@
+/**
+ * Email Retry API Route
+ *
+ * Sends a failed or still-queued outbox email again right away. A failed
+ * email gets a fresh set of attempts; bounced emails are not retried.
+ *
+ * Usage:
+ * POST /api/email/outbox/42/retry
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { attemptOutboxEmail } from '@/lib/emailOutbox'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const emailId = parseInt(id)
+    if (isNaN(emailId)) {
+      return NextResponse.json({ error: 'Invalid email ID' }, { status: 400 })
+    }
+
+    const email = await db.findOutboxEmailById(emailId)
+    if (!email) {
+      return NextResponse.json({ error: 'Email not found' }, { status: 404 })
+    }
+
+    if (email.status !== 'failed' && email.status !== 'queued') {
+      return NextResponse.json({ error: `Cannot retry an email that is ${email.status}` }, { status: 409 })
+    }
+
+    const requeued = email.status === 'failed'
+      ? await db.updateOutboxEmail(email.id, { status: 'queued', attempts: 0, next_attempt_at: new Date().toISOString() })
+      : email
+
+    const result = await attemptOutboxEmail(requeued)
+    if (!result) {
+      return NextResponse.json({ error: 'Email is already being sent' }, { status: 409 })
+    }
+
+    console.log(`[API] Email ${email.id} retried by ${auth.user.email}: ${result.status}`)
+    return NextResponse.json({ email: result })
+  } catch (error) {
+    console.error('[API] Error retrying email:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Email Outbox Processing API Route
+ *
+ * Sends queued emails whose next attempt is due. Meant to be called by a
+ * scheduler every few minutes with the CRON_SECRET bearer token; system
+ * managers can also trigger it.
+ *
+ * Usage:
+ * POST /api/email/outbox/process
+ * Authorization: Bearer <CRON_SECRET>
+ * Body (optional): { limit?: number }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { isCronRequest, requirePermission } from '@/lib/authorization'
+import { processEmailOutbox } from '@/lib/emailOutbox'
+
+const processOutboxSchema = z.object({
+  limit: z.number().int().min(1).max(200).optional().default(25)
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const auth = await requirePermission('system:manage')
+      if (!auth.authorized) {
+        return auth.response
+      }
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { limit } = processOutboxSchema.parse(body)
+
+    const summary = await processEmailOutbox({ limit })
+
+    return NextResponse.json({ summary })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error processing email outbox:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Email Delivery Log API Route
+ *
+ * Lists outbox emails, newest first, with how many are in each status.
+ *
+ * Usage:
+ * GET /api/email/outbox?page=1&limit=20&recipient=juan@&status=bounced
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+
+const listOutboxSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  recipient: z.string().trim().max(255).optional(),
+  status: z.enum(['queued', 'sending', 'sent', 'failed', 'bounced']).optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const options = listOutboxSchema.parse({
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      recipient: searchParams.get('recipient') || undefined,
+      status: searchParams.get('status') || undefined
+    })
+
+    const result = await db.getOutboxEmails(options)
+
+    return NextResponse.json({
+      emails: result.data,
+      pagination: result.pagination,
+      counts: result.counts
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error fetching email outbox:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,21 +1,30 @@
 /**
  * Email Send API Route
  * 
- * Professional API endpoint for sending emails through Resend
+ * Professional API endpoint for sending emails through the configured transport
  * Supports multiple email types with proper validation and error handling
  * 
+ * Welcome, notification and system alert emails go through the email outbox:
+ * the first attempt is made right away and a failed attempt is retried
+ * later, so the response says whether the email was sent or queued.
+ * Test emails are sent directly.
+ * 
  * POST /api/email/send
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { EmailService } from '@/lib/emailService'
-import { createClient } from '@/utils/supabase/server'
+import { requirePermission } from '@/lib/authorization'
+import { queueAndSend } from '@/lib/emailOutbox'
+import { EMAIL_LANGUAGES } from '@/lib/emailTemplates'
 
 // Validation schemas
 const baseEmailSchema = z.object({
   recipientEmail: z.string().email('Invalid email address'),
-  recipientName: z.string().min(1, 'Recipient name is required')
+  recipientName: z.string().min(1, 'Recipient name is required'),
+  // Picks the edited template's language variant
+  language: z.enum(EMAIL_LANGUAGES).optional()
 })
 
 const welcomeEmailSchema = baseEmailSchema.extend({
@@ -54,64 +63,83 @@ const emailRequestSchema = z.discriminatedUnion('type', [
 
 export async function POST(request: NextRequest) {
   try {
-    // Authentication check
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized - Authentication required' },
-        { status: 401 }
-      )
+    // Authorization check
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     // Parse and validate request body
     const body = await request.json()
     const validatedData = emailRequestSchema.parse(body)
 
-    console.log(`[EmailAPI] Processing ${validatedData.type} email request from user: ${user.email}`)
+    console.log(`[EmailAPI] Processing ${validatedData.type} email request from user: ${auth.user.email}`)
+
+    if (validatedData.type === 'test') {
+      const result = await EmailService.sendTestEmail(validatedData.recipientEmail)
 
-    let result
+      if (result.success) {
+        console.log(`[EmailAPI] Email sent successfully. Message ID: ${result.messageId}`)
+        return NextResponse.json({
+          success: true,
+          messageId: result.messageId,
+          transport: result.transport,
+          message: 'Email sent successfully'
+        })
+      }
+
+      console.error(`[EmailAPI] Failed to send email: ${result.error}`)
+      return NextResponse.json(
+        { 
+          error: 'Failed to send email',
+          details: result.error
+        },
+        { status: 500 }
+      )
+    }
+
+    let email
 
     // Handle different email types
     switch (validatedData.type) {
       case 'welcome':
-        result = await EmailService.sendWelcomeEmail(
-          validatedData.recipientEmail,
-          validatedData.recipientName,
-          validatedData.loginUrl
-        )
+        email = await queueAndSend(validatedData.recipientEmail, {
+          template: 'welcome',
+          data: {
+            recipientName: validatedData.recipientName,
+            loginUrl: validatedData.loginUrl,
+            language: validatedData.language
+          }
+        }, { createdBy: auth.user.id })
         break
 
       case 'notification':
-        result = await EmailService.sendNotification(
-          validatedData.recipientEmail,
-          {
+        email = await queueAndSend(validatedData.recipientEmail, {
+          template: 'notification',
+          data: {
             recipientName: validatedData.recipientName,
             subject: validatedData.subject,
             message: validatedData.message,
             actionUrl: validatedData.actionUrl,
-            actionText: validatedData.actionText
+            actionText: validatedData.actionText,
+            language: validatedData.language
           }
-        )
+        }, { createdBy: auth.user.id })
         break
 
       case 'system-alert':
-        result = await EmailService.sendSystemAlert(
-          validatedData.recipientEmail,
-          {
+        email = await queueAndSend(validatedData.recipientEmail, {
+          template: 'system_alert',
+          data: {
             recipientName: validatedData.recipientName,
             alertType: validatedData.alertType,
             subject: validatedData.subject,
             message: validatedData.message,
             details: validatedData.details,
-            timestamp: validatedData.timestamp ? new Date(validatedData.timestamp) : new Date()
+            timestamp: validatedData.timestamp || new Date().toISOString(),
+            language: validatedData.language
           }
-        )
-        break
-
-      case 'test':
-        result = await EmailService.sendTestEmail(validatedData.recipientEmail)
+        }, { createdBy: auth.user.id })
         break
 
       default:
@@ -122,24 +150,47 @@ export async function POST(request: NextRequest) {
     }
 
     // Return result
-    if (result.success) {
-      console.log(`[EmailAPI] Email sent successfully. Message ID: ${result.messageId}`)
+    if (!email) {
+      console.log('[EmailAPI] Email notifications are disabled; nothing sent')
       return NextResponse.json({
         success: true,
-        messageId: result.messageId,
+        messageId: 'disabled',
+        message: 'Email notifications are disabled'
+      })
+    }
+
+    if (email.status === 'sent') {
+      console.log(`[EmailAPI] Email sent successfully. Message ID: ${email.message_id}`)
+      return NextResponse.json({
+        success: true,
+        messageId: email.message_id,
+        outboxId: email.id,
         message: 'Email sent successfully'
       })
-    } else {
-      console.error(`[EmailAPI] Failed to send email: ${result.error}`)
-      return NextResponse.json(
-        { 
-          error: 'Failed to send email',
-          details: result.error
-        },
-        { status: 500 }
-      )
     }
 
+    if (email.status === 'queued') {
+      console.warn(`[EmailAPI] First attempt failed, email ${email.id} queued for retry: ${email.last_error}`)
+      return NextResponse.json({
+        success: true,
+        queued: true,
+        outboxId: email.id,
+        nextAttemptAt: email.next_attempt_at,
+        message: 'Email queued for retry',
+        details: email.last_error
+      }, { status: 202 })
+    }
+
+    console.error(`[EmailAPI] Failed to send email: ${email.last_error}`)
+    return NextResponse.json(
+      { 
+        error: 'Failed to send email',
+        details: email.last_error,
+        outboxId: email.id
+      },
+      { status: 500 }
+    )
+
   } catch (error) {
     if (error instanceof z.ZodError) {
       console.error('[EmailAPI] Validation error:', error.errors)
@@ -173,6 +224,7 @@ export async function GET() {
     return NextResponse.json({
       status: 'Email service is running',
       emailEnabled: EmailService.isEmailEnabled(),
+      transport: EmailService.getTransportName(),
       configuration: {
         valid: configValidation.valid,
         errors: configValidation.errors
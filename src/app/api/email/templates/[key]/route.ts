@@ -0,0 +1,132 @@
+/**
+ * Email Template API Route
+ *
+ * Reads, saves and resets one editable email template in one language.
+ * Subjects and bodies use {{variable}} placeholders and {{#variable}}...{{/variable}}
+ * sections; unknown variables are rejected.
+ *
+ * Usage:
+ * GET    /api/email/templates/welcome?language=fil
+ * PUT    /api/email/templates/welcome   { "language": "fil", "subject": "...", "body": "..." }
+ * DELETE /api/email/templates/welcome?language=fil   (back to the default)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import type { EditableEmailTemplateKey, EmailLanguage } from '@/lib/database.types'
+import { DEFAULT_EMAIL_LANGUAGE, EMAIL_LANGUAGES, EMAIL_TEMPLATE_KEYS, emailTemplateSchema } from '@/lib/emailTemplates'
+import { builtInEmailTemplate, resolveEmailTemplate } from '@/lib/emailTemplateRenderer'
+
+const isTemplateKey = (key: string): key is EditableEmailTemplateKey =>
+  (EMAIL_TEMPLATE_KEYS as readonly string[]).includes(key)
+
+const isLanguage = (language: string): language is EmailLanguage =>
+  (EMAIL_LANGUAGES as readonly string[]).includes(language)
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { key } = await params
+    if (!isTemplateKey(key)) {
+      return NextResponse.json({ error: 'Email template not found' }, { status: 404 })
+    }
+
+    const language = request.nextUrl.searchParams.get('language') || DEFAULT_EMAIL_LANGUAGE
+    if (!isLanguage(language)) {
+      return NextResponse.json({ error: 'Unsupported language' }, { status: 400 })
+    }
+
+    const [template, builtIn] = await Promise.all([
+      resolveEmailTemplate(key, language),
+      builtInEmailTemplate(key)
+    ])
+
+    return NextResponse.json({ template, builtIn })
+  } catch (error) {
+    console.error('[API] Error fetching email template:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { key } = await params
+    if (!isTemplateKey(key)) {
+      return NextResponse.json({ error: 'Email template not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validatedData = emailTemplateSchema(key).parse(body)
+
+    const template = await db.saveEmailTemplate({
+      template_key: key,
+      language: validatedData.language,
+      subject: validatedData.subject,
+      body: validatedData.body,
+      updated_by: auth.user.id
+    })
+
+    console.log(`[API] Email template ${key}/${validatedData.language} saved by ${auth.user.email}`)
+    return NextResponse.json({ template })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error saving email template:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { key } = await params
+    if (!isTemplateKey(key)) {
+      return NextResponse.json({ error: 'Email template not found' }, { status: 404 })
+    }
+
+    const language = request.nextUrl.searchParams.get('language') || DEFAULT_EMAIL_LANGUAGE
+    if (!isLanguage(language)) {
+      return NextResponse.json({ error: 'Unsupported language' }, { status: 400 })
+    }
+
+    const deleted = await db.deleteEmailTemplate(key, language)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Template has not been edited' }, { status: 404 })
+    }
+
+    console.log(`[API] Email template ${key}/${language} reset by ${auth.user.email}`)
+    return NextResponse.json({ template: await resolveEmailTemplate(key, language) })
+  } catch (error) {
+    console.error('[API] Error resetting email template:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Email Template Test API Route
+ *
+ * Sends an unsaved draft of a template, filled with the sample values, so
+ * admins can check it in a real mail client before saving.
+ *
+ * Usage:
+ * POST /api/email/templates/welcome/test
+ * { "recipientEmail": "admin@example.gov.ph", "subject": "...", "body": "..." }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { EmailService } from '@/lib/emailService'
+import type { EditableEmailTemplateKey } from '@/lib/database.types'
+import { DEFAULT_EMAIL_LANGUAGE, EMAIL_TEMPLATE_KEYS, emailTemplateSchema, sampleTemplateValues } from '@/lib/emailTemplates'
+import { renderEmailTemplate } from '@/lib/emailTemplateRenderer'
+
+const recipientSchema = z.object({
+  recipientEmail: z.string().email('Invalid email address')
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { key } = await params
+    if (!(EMAIL_TEMPLATE_KEYS as readonly string[]).includes(key)) {
+      return NextResponse.json({ error: 'Email template not found' }, { status: 404 })
+    }
+    const templateKey = key as EditableEmailTemplateKey
+
+    const body = await request.json()
+    const { recipientEmail } = recipientSchema.parse(body)
+    const draft = emailTemplateSchema(templateKey).parse({ language: DEFAULT_EMAIL_LANGUAGE, ...body })
+
+    const result = await EmailService.sendTemplatePreview(
+      recipientEmail,
+      renderEmailTemplate(draft, sampleTemplateValues(templateKey))
+    )
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Failed to send test email', details: result.error, transport: result.transport },
+        { status: 500 }
+      )
+    }
+
+    console.log(`[API] Email template ${templateKey}/${draft.language} test sent to ${recipientEmail} by ${auth.user.email}`)
+    return NextResponse.json({ success: true, messageId: result.messageId, transport: result.transport })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error sending email template test:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Email Templates API Route
+ *
+ * Lists the editable email templates in every language, with whether each
+ * one has been edited, plus the variables each template receives.
+ *
+ * Usage:
+ * GET /api/email/templates
+ */
+
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import {
+  EMAIL_LANGUAGES,
+  EMAIL_LANGUAGE_LABELS,
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_KEYS
+} from '@/lib/emailTemplates'
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const customized = await db.getEmailTemplates()
+
+    const templates = EMAIL_TEMPLATE_KEYS.map(key => ({
+      key,
+      ...EMAIL_TEMPLATE_DEFINITIONS[key],
+      languages: EMAIL_LANGUAGES.map(language => {
+        const template = customized.find(t => t.template_key === key && t.language === language)
+        return {
+          language,
+          customized: !!template,
+          updatedAt: template?.updated_at ?? null
+        }
+      })
+    }))
+
+    return NextResponse.json({
+      templates,
+      languages: EMAIL_LANGUAGES.map(language => ({ code: language, label: EMAIL_LANGUAGE_LABELS[language] }))
+    })
+  } catch (error) {
+    console.error('[API] Error fetching email templates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,7 +2,8 @@
  * Email Test API Route
  * 
  * Professional API endpoint for testing email functionality
- * Allows administrators to verify Resend integration
+ * Allows administrators to verify the configured email transport
+ * (Resend, SMTP or file sink); responses say which transport was used
  * 
  * POST /api/email/test
  */
@@ -10,7 +11,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { EmailService } from '@/lib/emailService'
-import { createClient } from '@/utils/supabase/server'
+import { requirePermission } from '@/lib/authorization'
 
 // Validation schema
 const testEmailSchema = z.object({
@@ -20,15 +21,10 @@ const testEmailSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    // Authentication check
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized - Authentication required' },
-        { status: 401 }
-      )
+    // Authorization check
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     // Parse and validate request body
@@ -59,7 +55,7 @@ export async function POST(request: NextRequest) {
           {
             recipientName: 'Test User',
             subject: 'Test Notification Email',
-            message: 'This is a test notification email to verify that the notification system is working correctly.\n\nIf you receive this email, the Resend integration is functioning properly!',
+            message: 'This is a test notification email to verify that the notification system is working correctly.\n\nIf you receive this email, the email integration is functioning properly!',
             actionUrl: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
             actionText: 'Go to Dashboard'
           }
@@ -74,7 +70,7 @@ export async function POST(request: NextRequest) {
             alertType: 'info',
             subject: 'Test System Alert',
             message: 'This is a test system alert email to verify that the alert notification system is working correctly.',
-            details: 'Test Details:\n- Email service: Resend\n- Template: SystemAlertEmailTemplate\n- Status: Testing\n- Integration: Successful',
+            details: `Test Details:\n- Email transport: ${EmailService.getTransportName()}\n- Template: SystemAlertEmailTemplate\n- Status: Testing\n- Integration: Successful`,
             timestamp: new Date()
           }
         )
@@ -93,6 +89,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         messageId: result.messageId,
+        transport: result.transport,
         testType,
         recipientEmail,
         message: `${testType} test email sent successfully`,
@@ -103,6 +100,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           error: 'Failed to send test email',
+          transport: result.transport,
           testType,
           recipientEmail,
           details: result.error
@@ -139,15 +137,10 @@ export async function POST(request: NextRequest) {
 // GET method for configuration check
 export async function GET() {
   try {
-    // Authentication check
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized - Authentication required' },
-        { status: 401 }
-      )
+    // Authorization check
+    const auth = await requirePermission('email:send')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const configValidation = EmailService.validateConfig()
@@ -155,6 +148,7 @@ export async function GET() {
     return NextResponse.json({
       status: 'Email test service is ready',
       emailEnabled: EmailService.isEmailEnabled(),
+      transport: EmailService.getTransportName(),
       configuration: {
         valid: configValidation.valid,
         errors: configValidation.errors
@@ -0,0 +1,48 @@
+/**
+ * Resend Webhook API Route
+ *
+ * Receives delivery events from Resend and records them on the matching
+ * email_outbox row: delivered, bounced, complained and delivery delayed.
+ * Requests are verified against RESEND_WEBHOOK_SECRET, the signing secret
+ * shown when the webhook is created in the Resend dashboard.
+ *
+ * Usage:
+ * POST /api/email/webhook
+ * svix-id, svix-timestamp, svix-signature headers set by Resend
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { recordDeliveryEvent, verifyWebhookSignature } from '@/lib/emailOutbox'
+
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.RESEND_WEBHOOK_SECRET
+    if (!secret) {
+      console.error('[EmailWebhook] RESEND_WEBHOOK_SECRET is not configured')
+      return NextResponse.json({ error: 'Webhook not configured' }, { status: 503 })
+    }
+
+    // The signature covers the raw body, so read it before parsing
+    const payload = await request.text()
+    const verified = verifyWebhookSignature(payload, {
+      id: request.headers.get('svix-id'),
+      timestamp: request.headers.get('svix-timestamp'),
+      signature: request.headers.get('svix-signature')
+    }, secret)
+    if (!verified) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+
+    const event = JSON.parse(payload)
+    const email = await recordDeliveryEvent(event)
+
+    return NextResponse.json({ received: true, outboxId: email?.id ?? null })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+
+    console.error('[EmailWebhook] Error handling webhook:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
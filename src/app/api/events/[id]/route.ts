@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { findEventConflicts } from '@/lib/eventConflicts'
+import { toEventColumns, updateEventSchema } from '@/lib/events'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('events:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const event = await db.findEventById(parseInt(id))
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(event)
+  } catch (error) {
+    console.error('Error fetching event:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('events:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateEventSchema.parse(body)
+
+    const existingEvent = await db.findEventById(parseInt(id))
+
+    if (!existingEvent) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    const columns = toEventColumns(validatedData)
+    const merged = { ...existingEvent, ...columns }
+
+    if (new Date(merged.ends_at) < new Date(merged.starts_at)) {
+      return NextResponse.json({
+        error: 'Validation error',
+        details: [{ path: ['endsAt'], message: 'End must not be before start' }]
+      }, { status: 400 })
+    }
+
+    // Attendee lists are only replaced when the request sends them
+    const attendeesChanged = validatedData.personnelIds !== undefined || validatedData.departmentIds !== undefined
+    const attendees = {
+      personnelIds: [...new Set(validatedData.personnelIds ?? existingEvent.attendees.flatMap(attendee => attendee.personnel_id ?? []))],
+      departmentIds: [...new Set(validatedData.departmentIds ?? existingEvent.attendees.flatMap(attendee => attendee.department_id ?? []))]
+    }
+
+    if (!validatedData.allowConflicts) {
+      const conflicts = await findEventConflicts({
+        id: existingEvent.id,
+        starts_at: merged.starts_at,
+        ends_at: merged.ends_at,
+        timezone: merged.timezone,
+        recurrence_rule: merged.recurrence_rule,
+        location: merged.location,
+        status: merged.status,
+        ...attendees
+      })
+
+      if (conflicts.length > 0) {
+        return NextResponse.json({ error: 'Scheduling conflict', conflicts }, { status: 409 })
+      }
+    }
+
+    const event = await db.updateEvent(parseInt(id), columns, attendeesChanged ? attendees : undefined, getAuditContext(request, auth.user))
+
+    return NextResponse.json(event)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('Error updating event:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('events:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const existingEvent = await db.findEventById(parseInt(id))
+
+    if (!existingEvent) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    await db.deleteEvent(parseInt(id), getAuditContext(request, auth.user))
+
+    return NextResponse.json({ message: 'Event deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting event:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
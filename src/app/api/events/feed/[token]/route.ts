@@ -0,0 +1,55 @@
+/**
+ * Calendar Feed API Route
+ *
+ * Serves the calendar as an iCalendar (.ics) subscription for phone and
+ * desktop calendar apps, which can't sign in; the secret token in the URL
+ * stands in for the session.
+ *
+ * Usage:
+ * GET /api/events/feed/<token>.ics
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { resolveFeedToken } from '@/lib/calendarFeed'
+import { buildICalendar } from '@/lib/ical'
+import { DEFAULT_EVENT_TIMEZONE } from '@/lib/events'
+
+// Non-recurring events further in the past than this are left out of the feed
+const FEED_HISTORY_MS = 365 * 24 * 60 * 60 * 1000
+const FEED_HORIZON_MS = 2 * 365 * 24 * 60 * 60 * 1000
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const user = await resolveFeedToken(token.replace(/\.ics$/i, ''))
+
+    if (!user) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    const now = Date.now()
+    const events = await db.getEvents({
+      from: new Date(now - FEED_HISTORY_MS).toISOString(),
+      to: new Date(now + FEED_HORIZON_MS).toISOString()
+    })
+
+    console.log(`[API] GET /api/events/feed - ${events.length} events for user: ${user.email}`)
+
+    const calendar = buildICalendar(events, { name: 'LGU Calendar', timezone: DEFAULT_EVENT_TIMEZONE })
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="lgu-calendar.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('[API] Error serving calendar feed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Calendar Feed Subscription API Route
+ *
+ * Manages the signed-in user's personal .ics subscription URL.
+ * GET reports whether a feed exists, POST issues a new URL (revoking the old
+ * one) and DELETE turns the feed off. The URL is only returned by POST.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { issueFeedToken } from '@/lib/calendarFeed'
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('events:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const record = await db.findCalendarFeedTokenByUser(auth.user.id)
+
+    return NextResponse.json({
+      active: Boolean(record),
+      createdAt: record?.created_at ?? null,
+      lastUsedAt: record?.last_used_at ?? null
+    })
+  } catch (error) {
+    console.error('[API] Error fetching calendar feed status:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('events:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const token = await issueFeedToken(auth.user.id)
+    const url = `${request.nextUrl.origin}/api/events/feed/${token}.ics`
+
+    console.log(`[API] POST /api/events/feed - Issued calendar feed for user: ${auth.user.email}`)
+
+    return NextResponse.json({ url }, { status: 201 })
+  } catch (error) {
+    console.error('[API] Error issuing calendar feed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE() {
+  try {
+    const auth = await requirePermission('events:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    await db.deleteCalendarFeedToken(auth.user.id)
+
+    return NextResponse.json({ message: 'Calendar feed turned off' })
+  } catch (error) {
+    console.error('[API] Error revoking calendar feed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Calendar Import API Route
+ *
+ * Imports the VEVENTs of an iCalendar (.ics) file. Events are matched on
+ * their UID, so importing the same file again updates the events it created
+ * instead of duplicating them. Floating times are read in the given timezone.
+ *
+ * Usage:
+ * POST /api/events/import
+ * Content-Type: multipart/form-data
+ * Body: { file: File, timezone?: string }  (timezone defaults to Asia/Manila)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { parseICalendar } from '@/lib/ical'
+import { DEFAULT_EVENT_TIMEZONE, isValidTimezone } from '@/lib/events'
+
+// Maximum .ics file size (2MB) and events per import
+const MAX_ICS_FILE_SIZE = 2 * 1024 * 1024
+const MAX_ICS_EVENTS = 500
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('events:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const timezone = String(formData.get('timezone') || DEFAULT_EVENT_TIMEZONE)
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    if (!file.name.toLowerCase().endsWith('.ics') && file.type !== 'text/calendar') {
+      return NextResponse.json({ error: 'Unsupported file format. Upload an .ics file' }, { status: 400 })
+    }
+
+    if (file.size > MAX_ICS_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File size ${file.size} exceeds maximum allowed size of ${MAX_ICS_FILE_SIZE} bytes` },
+        { status: 400 }
+      )
+    }
+
+    if (!isValidTimezone(timezone)) {
+      return NextResponse.json({ error: `Unknown timezone "${timezone}"` }, { status: 400 })
+    }
+
+    const { events, errors } = parseICalendar(await file.text(), timezone)
+
+    if (events.length === 0 && errors.length === 0) {
+      return NextResponse.json({ error: 'The file has no events' }, { status: 400 })
+    }
+
+    if (events.length > MAX_ICS_EVENTS) {
+      return NextResponse.json(
+        { error: `The file has ${events.length} events; the maximum per import is ${MAX_ICS_EVENTS}` },
+        { status: 400 }
+      )
+    }
+
+    console.log(`[API] POST /api/events/import - ${file.name}, ${events.length} events, timezone: ${timezone}`)
+
+    const audit = getAuditContext(request, auth.user)
+    const failed = errors.map(error => ({ summary: error.summary, message: error.message }))
+    const warnings: { summary: string; message: string }[] = []
+    let created = 0
+    let updated = 0
+
+    for (const event of events) {
+      const columns = {
+        title: event.title,
+        description: event.description,
+        location: event.location,
+        type: event.type,
+        status: event.status,
+        priority: event.priority,
+        starts_at: event.startsAt,
+        ends_at: event.endsAt,
+        all_day: event.allDay,
+        timezone: event.timezone,
+        recurrence_rule: event.recurrenceRule
+      }
+
+      try {
+        const existing = await db.findEventByIcalUid(event.uid)
+        if (existing) {
+          await db.updateEvent(existing.id, columns, undefined, audit)
+          updated++
+        } else {
+          await db.createEvent(
+            { ...columns, ical_uid: event.uid, created_by: auth.user.id },
+            { personnelIds: [], departmentIds: [] },
+            audit
+          )
+          created++
+        }
+        warnings.push(...event.warnings.map(message => ({ summary: event.title, message })))
+      } catch (error) {
+        console.error(`[API] Error importing event "${event.title}":`, error)
+        failed.push({ summary: event.title, message: 'Could not be saved' })
+      }
+    }
+
+    return NextResponse.json({ created, updated, failed, warnings })
+  } catch (error) {
+    console.error('[API] Error importing calendar:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
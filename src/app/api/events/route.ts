@@ -0,0 +1,129 @@
+/**
+ * Calendar Events API Route
+ *
+ * GET lists the occurrences in a date range, expanding recurring events.
+ * POST creates an event and responds 409 with the clashing events when a
+ * location or attendee is double-booked, unless allowConflicts is set.
+ *
+ * Usage:
+ * GET /api/events?from=2025-01-01T00:00:00Z&to=2025-02-01T00:00:00Z&type=meeting&search=
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { expandOccurrences } from '@/lib/recurrence'
+import { findEventConflicts } from '@/lib/eventConflicts'
+import { EVENT_TYPES, EventOccurrence, createEventSchema, toEventColumns } from '@/lib/events'
+
+// Longest range a single request may expand
+const MAX_RANGE_MS = 400 * 24 * 60 * 60 * 1000
+
+const eventsQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }),
+  to: z.string().datetime({ offset: true }),
+  type: z.enum(EVENT_TYPES).optional(),
+  search: z.string().optional()
+}).refine(
+  query => {
+    const span = new Date(query.to).getTime() - new Date(query.from).getTime()
+    return span > 0 && span <= MAX_RANGE_MS
+  },
+  { message: 'Range must be positive and at most 400 days', path: ['to'] }
+)
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('events:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const query = eventsQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const from = new Date(query.from)
+    const to = new Date(query.to)
+
+    console.log(`[API] GET /api/events - From: ${query.from}, To: ${query.to}, Type: "${query.type || ''}", Search: "${query.search || ''}"`)
+
+    const events = await db.getEvents({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      type: query.type,
+      search: query.search || undefined
+    })
+
+    const occurrences: EventOccurrence[] = []
+    for (const event of events) {
+      try {
+        for (const occurrence of expandOccurrences(event, from, to)) {
+          occurrences.push({
+            ...event,
+            occurrence_start: occurrence.start.toISOString(),
+            occurrence_end: occurrence.end.toISOString()
+          })
+        }
+      } catch (error) {
+        // A rule edited outside the API shouldn't hide every other event
+        console.error(`[API] Skipping event ${event.id} with unreadable recurrence rule:`, error)
+      }
+    }
+
+    occurrences.sort((a, b) => a.occurrence_start.localeCompare(b.occurrence_start) || a.id - b.id)
+
+    return NextResponse.json({ occurrences })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('[API] Error fetching events:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('events:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validatedData = createEventSchema.parse(body)
+    const columns = toEventColumns(validatedData)
+    const attendees = {
+      personnelIds: [...new Set(validatedData.personnelIds)],
+      departmentIds: [...new Set(validatedData.departmentIds)]
+    }
+
+    if (!validatedData.allowConflicts) {
+      const conflicts = await findEventConflicts({
+        starts_at: columns.starts_at!,
+        ends_at: columns.ends_at!,
+        timezone: validatedData.timezone,
+        recurrence_rule: columns.recurrence_rule ?? null,
+        location: columns.location ?? null,
+        status: validatedData.status,
+        ...attendees
+      })
+
+      if (conflicts.length > 0) {
+        return NextResponse.json({ error: 'Scheduling conflict', conflicts }, { status: 409 })
+      }
+    }
+
+    const event = await db.createEvent(
+      { ...columns, title: validatedData.title, starts_at: columns.starts_at!, ends_at: columns.ends_at!, created_by: auth.user.id },
+      attendees,
+      getAuditContext(request, auth.user)
+    )
+
+    return NextResponse.json(event, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('Error creating event:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -5,9 +5,15 @@
  */
 
 import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/authorization'
 
 export async function POST() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Fix Database] Attempting to fix missing functions and indexes...')
 
     return NextResponse.json({
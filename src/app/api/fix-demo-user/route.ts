@@ -1,8 +1,14 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { requirePermission } from '@/lib/authorization'
 
 export async function POST() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('Fixing demo user...')
 
     // Use service role key to fix the demo user
@@ -47,8 +53,11 @@ export async function POST() {
         password: 'demo123',
         email_confirm: true,
         user_metadata: {
-          name: 'Demo Admin',
-          role: 'admin'
+          name: 'Demo User'
+        },
+        // Read-only: the demo password is public
+        app_metadata: {
+          role: 'viewer'
         }
       }
     )
@@ -0,0 +1,158 @@
+/**
+ * Media Collection Items API Route
+ *
+ * The assets in a collection, in their saved order. Items come back in the
+ * same shape as /api/cloudinary/media so the media library can show either.
+ *
+ * Usage:
+ * GET    /api/media/collections/:id/items
+ * POST   /api/media/collections/:id/items  { "assetIds": ["…"] }   (added at the end)
+ * PUT    /api/media/collections/:id/items  { "assetIds": ["…"] }   (new order)
+ * DELETE /api/media/collections/:id/items?assetIds=id1,id2
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+
+const assetIdsSchema = z.object({
+  assetIds: z.array(z.string().uuid()).min(1).max(500)
+})
+
+/**
+ * Load a collection's items and map them to the media library's item shape
+ */
+async function collectionItemsResponse(collectionId: string) {
+  const items = await SupabaseMediaService.getCollectionItems(collectionId)
+  return NextResponse.json({
+    items: items.map(({ asset, sort_order, added_at }) => ({
+      ...asset,
+      public_id: asset.cloudinary_public_id,
+      bytes: asset.file_size,
+      version: asset.cloudinary_version,
+      etag: asset.cloudinary_etag,
+      original_filename: asset.original_filename || asset.display_name,
+      sort_order,
+      added_at
+    }))
+  })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    if (!(await SupabaseMediaService.getCollection(id))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return await collectionItemsResponse(id)
+  } catch (error) {
+    console.error('[API] Error fetching collection items:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { assetIds } = assetIdsSchema.parse(body)
+
+    if (!(await SupabaseMediaService.getCollection(id))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    const added = await SupabaseMediaService.addCollectionItems(id, assetIds, auth.user.id)
+    return NextResponse.json({ added, skipped: assetIds.length - added })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error adding collection items:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { assetIds } = assetIdsSchema.parse(body)
+
+    if (!(await SupabaseMediaService.getCollection(id))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    await SupabaseMediaService.reorderCollectionItems(id, assetIds)
+    return await collectionItemsResponse(id)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error reordering collection items:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const { assetIds } = assetIdsSchema.parse({
+      assetIds: request.nextUrl.searchParams.get('assetIds')?.split(',').filter(Boolean) || []
+    })
+
+    const removed = await SupabaseMediaService.removeCollectionItems(id, assetIds)
+    return NextResponse.json({ removed })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error removing collection items:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
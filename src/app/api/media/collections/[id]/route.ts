@@ -0,0 +1,121 @@
+/**
+ * Media Collection API Route
+ *
+ * Reads, renames, moves or deletes one collection. Moving a collection under
+ * a new parent puts it last among its new siblings; deleting one moves its
+ * sub-collections up to its parent and leaves its assets in the library.
+ *
+ * Usage:
+ * GET    /api/media/collections/:id
+ * PATCH  /api/media/collections/:id  { "name": "…", "description": "…", "parentId": "…" | null, "isPublic": false }
+ * DELETE /api/media/collections/:id
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+
+const updateCollectionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255).optional(),
+  description: z.string().trim().max(2000).nullable().optional(),
+  parentId: z.string().uuid().nullable().optional(),
+  isPublic: z.boolean().optional()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const collection = await SupabaseMediaService.getCollection(id)
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ collection })
+  } catch (error) {
+    console.error('[API] Error fetching media collection:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { name, description, parentId, isPublic } = updateCollectionSchema.parse(body)
+
+    if (parentId) {
+      if (!(await SupabaseMediaService.getCollection(parentId))) {
+        return NextResponse.json({ error: 'Parent collection not found' }, { status: 404 })
+      }
+      if (await SupabaseMediaService.isCollectionOrDescendant(id, parentId)) {
+        return NextResponse.json(
+          { error: 'A collection cannot be moved inside itself or one of its sub-collections' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const collection = await SupabaseMediaService.updateCollection(id, {
+      ...(name !== undefined && { name }),
+      ...(description !== undefined && { description: description || null }),
+      ...(parentId !== undefined && { parent_collection_id: parentId }),
+      ...(isPublic !== undefined && { is_public: isPublic })
+    })
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ collection })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error updating media collection:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const deleted = await SupabaseMediaService.deleteCollection(id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    console.log(`[API] Media collection ${id} deleted by ${auth.user.email}`)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API] Error deleting media collection:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Media Collections API Route
+ *
+ * Albums for organizing the media library, such as a photo set per event.
+ * Collections nest under a parent and keep a manual order among siblings.
+ *
+ * Usage:
+ * GET  /api/media/collections
+ * POST /api/media/collections  { "name": "Fish Festival 2025", "parentId": "…", "description": "…", "isPublic": true }
+ * PUT  /api/media/collections  { "parentId": null, "collectionIds": ["…", "…"] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+
+const createCollectionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().trim().max(2000).optional(),
+  parentId: z.string().uuid().nullable().optional(),
+  isPublic: z.boolean().optional()
+})
+
+const reorderCollectionsSchema = z.object({
+  parentId: z.string().uuid().nullable(),
+  collectionIds: z.array(z.string().uuid()).min(1)
+})
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const collections = await SupabaseMediaService.getCollectionTree()
+    return NextResponse.json({ collections })
+  } catch (error) {
+    console.error('[API] Error fetching media collections:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const { name, description, parentId, isPublic } = createCollectionSchema.parse(body)
+
+    if (parentId && !(await SupabaseMediaService.getCollection(parentId))) {
+      return NextResponse.json({ error: 'Parent collection not found' }, { status: 404 })
+    }
+
+    const collection = await SupabaseMediaService.createCollection({
+      name,
+      description: description || null,
+      parent_collection_id: parentId || null,
+      is_public: isPublic,
+      created_by: auth.user.id
+    })
+
+    console.log(`[API] Media collection "${collection.name}" created by ${auth.user.email}`)
+    return NextResponse.json({ collection }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error creating media collection:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const { parentId, collectionIds } = reorderCollectionsSchema.parse(body)
+
+    await SupabaseMediaService.reorderCollections(parentId, collectionIds)
+
+    const collections = await SupabaseMediaService.getCollectionTree()
+    return NextResponse.json({ collections })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error reordering media collections:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
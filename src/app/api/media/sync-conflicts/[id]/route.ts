@@ -0,0 +1,106 @@
+/**
+ * Media Sync Conflict API Route
+ *
+ * One conflict, and resolving it by choosing per field which side wins.
+ * Every conflicting field needs a side.
+ *
+ * Usage:
+ * GET   /api/media/sync-conflicts/:id
+ * PATCH /api/media/sync-conflicts/:id  { "resolution": { "file": "cloudinary", "tags": "database" } }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { BidirectionalSyncService } from '@/lib/bidirectionalSyncService'
+import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+
+const sideSchema = z.enum(['cloudinary', 'database'])
+
+const resolveConflictSchema = z.object({
+  resolution: z.object({
+    file: sideSchema.optional(),
+    tags: sideSchema.optional()
+  })
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const conflict = await SupabaseMediaService.getSyncConflict(id)
+    if (!conflict) {
+      return NextResponse.json({ error: 'Conflict not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ conflict })
+  } catch (error) {
+    console.error('[API] Error fetching sync conflict:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { resolution } = resolveConflictSchema.parse(body)
+
+    const conflict = await SupabaseMediaService.getSyncConflict(id)
+    if (!conflict) {
+      return NextResponse.json({ error: 'Conflict not found' }, { status: 404 })
+    }
+    if (conflict.status !== 'open') {
+      return NextResponse.json({ error: 'Conflict is already resolved' }, { status: 409 })
+    }
+
+    const unresolved = conflict.fields.filter(field => !resolution[field])
+    if (unresolved.length > 0) {
+      return NextResponse.json(
+        { error: `Choose which side wins for: ${unresolved.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const resolved = await BidirectionalSyncService.resolveSyncConflict(conflict, resolution, auth.user.id)
+
+    await db.recordAudit(
+      'update',
+      'media_asset',
+      conflict.media_asset_id,
+      conflict.cloudinary_public_id,
+      conflict.database_data,
+      { resolution },
+      getAuditContext(request, auth.user)
+    )
+
+    console.log(`[API] Sync conflict ${id} resolved by ${auth.user.email}`)
+    return NextResponse.json({ conflict: resolved })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error resolving sync conflict:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Media Sync Conflict Batch Resolution API Route
+ *
+ * Resolves many conflicts with one rule, e.g. Cloudinary wins for binary
+ * fields and the database wins for metadata. Without conflictIds every open
+ * conflict (up to 500) is resolved.
+ *
+ * Usage:
+ * POST /api/media/sync-conflicts/resolve  { "rule": "cloudinary_binary_database_metadata", "conflictIds": ["…"] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { BidirectionalSyncService } from '@/lib/bidirectionalSyncService'
+import { SYNC_CONFLICT_RULES, SyncConflictRule } from '@/lib/mediaSyncConflicts'
+
+const batchResolveSchema = z.object({
+  rule: z.enum(Object.keys(SYNC_CONFLICT_RULES) as [SyncConflictRule, ...SyncConflictRule[]]),
+  conflictIds: z.array(z.string().uuid()).min(1).max(500).optional()
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const { rule, conflictIds } = batchResolveSchema.parse(body)
+
+    const { resolved, failed } = await BidirectionalSyncService.resolveSyncConflictsByRule(rule, conflictIds, auth.user.id)
+
+    const auditContext = getAuditContext(request, auth.user)
+    for (const conflict of resolved) {
+      await db.recordAudit(
+        'update',
+        'media_asset',
+        conflict.media_asset_id,
+        conflict.cloudinary_public_id,
+        conflict.database_data,
+        { resolution: conflict.resolution, rule },
+        auditContext
+      )
+    }
+
+    console.log(`[API] ${resolved.length} sync conflicts resolved with ${rule} by ${auth.user.email}`)
+    return NextResponse.json({
+      success: failed.length === 0,
+      resolved: resolved.map(conflict => conflict.id),
+      failed
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error resolving sync conflicts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
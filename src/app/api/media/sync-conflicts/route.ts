@@ -0,0 +1,60 @@
+/**
+ * Media Sync Conflicts API Route
+ *
+ * Assets whose Cloudinary resource and database row disagree, recorded by
+ * sync verification and by syncs that would otherwise overwrite unsynced
+ * database edits. Each conflict holds both sides' values for a side-by-side
+ * diff.
+ *
+ * Usage:
+ * GET /api/media/sync-conflicts?status=open&page=1&limit=50   (status: open or resolved)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+
+const listConflictsSchema = z.object({
+  status: z.enum(['open', 'resolved']).default('open'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = request.nextUrl
+    const options = listConflictsSchema.parse({
+      status: searchParams.get('status') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined
+    })
+
+    const result = await SupabaseMediaService.getSyncConflicts(options)
+
+    return NextResponse.json({
+      conflicts: result.conflicts,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        pages: Math.ceil(result.total / result.limit)
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error fetching sync conflicts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Media Trash Purge API Route
+ *
+ * Purges assets that have been in the trash longer than
+ * MEDIA_TRASH_RETENTION_DAYS: their Cloudinary files are queued for
+ * /api/cloudinary/cleanup and their rows removed. Meant to be called daily by
+ * a scheduler with the CRON_SECRET bearer token; system managers can also
+ * trigger it.
+ *
+ * Usage:
+ * POST /api/media/trash/purge
+ * Authorization: Bearer <CRON_SECRET>
+ * Body (optional): { limit?: number }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { isCronRequest, requirePermission } from '@/lib/authorization'
+import { purgeExpiredTrash } from '@/lib/mediaTrash'
+
+const purgeSchema = z.object({
+  limit: z.number().int().min(1).max(500).optional().default(100)
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const auth = await requirePermission('system:manage')
+      if (!auth.authorized) {
+        return auth.response
+      }
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { limit } = purgeSchema.parse(body)
+
+    const summary = await purgeExpiredTrash(limit)
+
+    return NextResponse.json({ summary })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error purging media trash:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Media Trash Restore API Route
+ *
+ * Moves trashed assets back into the media library.
+ *
+ * Usage:
+ * POST /api/media/trash/restore  { "publicIds": ["…"] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+
+const restoreSchema = z.object({
+  publicIds: z.array(z.string().min(1)).min(1).max(200)
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const { publicIds } = restoreSchema.parse(body)
+
+    const auditContext = getAuditContext(request, auth.user)
+    const restored: string[] = []
+    const failed: { public_id: string; error: string }[] = []
+
+    for (const publicId of publicIds) {
+      try {
+        const asset = await SupabaseMediaService.getTrashedMediaAsset(publicId)
+        if (!asset || !(await SupabaseMediaService.restoreMediaAsset(publicId, auth.user.id))) {
+          failed.push({ public_id: publicId, error: 'Asset is not in the trash' })
+          continue
+        }
+
+        await db.recordAudit(
+          'update',
+          'media_asset',
+          asset.id,
+          asset.original_filename || publicId,
+          { deleted_at: asset.deleted_at },
+          { deleted_at: null },
+          auditContext
+        )
+        restored.push(publicId)
+      } catch (error) {
+        failed.push({ public_id: publicId, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    console.log(`[API] ${restored.length} media assets restored from the trash by ${auth.user.email}`)
+    return NextResponse.json({ success: failed.length === 0, restored, failed })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error restoring media assets:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Media Trash API Route
+ *
+ * Assets deleted from the media library, which stay restorable until the
+ * retention period (MEDIA_TRASH_RETENTION_DAYS) runs out. Items come back in
+ * the same shape as /api/cloudinary/media, with the date each will be purged.
+ *
+ * Usage:
+ * GET    /api/media/trash?page=1&limit=50
+ * DELETE /api/media/trash?public_ids=id1,id2   (purge now, without waiting for retention)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { SupabaseMediaService, MediaAsset } from '@/lib/supabaseMediaService'
+import { getTrashRetentionDays, purgeMediaAssets, trashPurgeDate } from '@/lib/mediaTrash'
+
+const listTrashSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+const publicIdsSchema = z.array(z.string().min(1)).min(1).max(200)
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = request.nextUrl
+    const { page, limit } = listTrashSchema.parse({
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined
+    })
+
+    const result = await SupabaseMediaService.getTrashedMediaAssets({ page, limit })
+
+    return NextResponse.json({
+      items: result.assets.map(asset => ({
+        ...asset,
+        public_id: asset.cloudinary_public_id,
+        bytes: asset.file_size,
+        version: asset.cloudinary_version,
+        etag: asset.cloudinary_etag,
+        original_filename: asset.original_filename || asset.display_name,
+        purge_at: asset.deleted_at ? trashPurgeDate(asset.deleted_at).toISOString() : null
+      })),
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        pages: Math.ceil(result.total / result.limit)
+      },
+      retention_days: getTrashRetentionDays()
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error fetching media trash:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const publicIds = publicIdsSchema.parse(
+      request.nextUrl.searchParams.get('public_ids')?.split(',').filter(Boolean) || []
+    )
+
+    // Only assets that are actually in the trash can be purged from here
+    const assets: MediaAsset[] = []
+    const notFound: string[] = []
+    for (const publicId of publicIds) {
+      const asset = await SupabaseMediaService.getTrashedMediaAsset(publicId)
+      if (asset) {
+        assets.push(asset)
+      } else {
+        notFound.push(publicId)
+      }
+    }
+
+    const summary = await purgeMediaAssets(assets, 'trash_emptied', auth.user.id)
+
+    const auditContext = getAuditContext(request, auth.user)
+    for (const asset of assets.filter(asset => summary.purged.includes(asset.cloudinary_public_id))) {
+      await db.recordAudit('delete', 'media_asset', asset.id, asset.original_filename || asset.cloudinary_public_id, asset, null, auditContext)
+    }
+
+    console.log(`[API] ${summary.purged.length} trashed media assets purged by ${auth.user.email}`)
+    return NextResponse.json({
+      success: summary.failed.length === 0 && notFound.length === 0,
+      purged: summary.purged,
+      failed: [
+        ...summary.failed,
+        ...notFound.map(publicId => ({ public_id: publicId, error: 'Asset is not in the trash' }))
+      ]
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error purging media trash:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
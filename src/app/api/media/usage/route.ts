@@ -0,0 +1,61 @@
+/**
+ * Media Usage API Route
+ *
+ * Where library assets are used: personnel profile photos and personnel
+ * documents. Usage is recorded as those records change; POST records it for
+ * records saved before tracking existed.
+ *
+ * Usage:
+ * GET  /api/media/usage?assetIds=id1,id2
+ * POST /api/media/usage   (backfill from existing profile photos and documents)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { backfillMediaUsage, getMediaUsageByAsset } from '@/lib/mediaUsage'
+
+const assetIdsSchema = z.array(z.string().uuid()).min(1).max(200)
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const assetIds = assetIdsSchema.parse(
+      request.nextUrl.searchParams.get('assetIds')?.split(',').filter(Boolean) || []
+    )
+
+    const usage = await getMediaUsageByAsset(assetIds)
+    return NextResponse.json({ usage })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error fetching media usage:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST() {
+  try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const scanned = await backfillMediaUsage()
+
+    console.log(`[API] Media usage backfilled by ${auth.user.email}`)
+    return NextResponse.json({ success: true, scanned })
+  } catch (error) {
+    console.error('[API] Error backfilling media usage:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
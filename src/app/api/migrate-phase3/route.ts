@@ -16,6 +16,7 @@
 
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { requirePermission } from '@/lib/authorization'
 
 /**
  * GET /api/migrate-phase3
@@ -23,6 +24,11 @@ import { createClient } from '@supabase/supabase-js'
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Phase 3 Migration] Checking migration status...')
 
     const supabase = createClient(
@@ -141,6 +147,11 @@ export async function GET() {
  */
 export async function POST() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Phase 3 Migration] Starting Phase 3 migration...')
 
     const supabase = createClient(
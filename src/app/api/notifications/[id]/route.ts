@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUser } from '@/lib/authorization'
+import { db } from '@/lib/db'
+
+const updateNotificationSchema = z.object({
+  read: z.boolean()
+})
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const current = await getCurrentUser()
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateNotificationSchema.parse(body)
+
+    // Already in the requested state counts as success
+    await db.markNotificationsRead(current.user.id, [parseInt(id)], validatedData.read)
+
+    return NextResponse.json({ message: 'Notification updated successfully' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('Error updating notification:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const current = await getCurrentUser()
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    // Scoped to the caller, so another user's notification is simply not found
+    const deleted = await db.deleteNotifications(current.user.id, [parseInt(id)])
+    if (deleted === 0) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Notification deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting notification:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Activity Digest API Route
+ *
+ * Runs the daily or weekly digest job. Meant to be called by a scheduler
+ * (cron, Vercel Cron, ...) with the CRON_SECRET bearer token; system
+ * managers can also trigger it or preview it with dryRun. Safe to call
+ * repeatedly - each recipient's period is sent at most once.
+ *
+ * Usage:
+ * POST /api/notifications/digest
+ * Authorization: Bearer <CRON_SECRET>
+ * Body: { frequency: 'daily' | 'weekly', dryRun?: boolean }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { isCronRequest, requirePermission } from '@/lib/authorization'
+import { runDigests } from '@/lib/digest'
+
+const runDigestSchema = z.object({
+  frequency: z.enum(['daily', 'weekly']),
+  dryRun: z.boolean().optional().default(false)
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const auth = await requirePermission('system:manage')
+      if (!auth.authorized) {
+        return auth.response
+      }
+    }
+
+    const body = await request.json()
+    const { frequency, dryRun } = runDigestSchema.parse(body)
+
+    const summary = await runDigests(frequency, { dryRun })
+
+    return NextResponse.json({ summary })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error running digests:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
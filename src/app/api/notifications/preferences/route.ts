@@ -0,0 +1,81 @@
+/**
+ * Notification Preferences API Route
+ *
+ * Reads and updates how the signed-in user receives each system event
+ * (in-app, email, digest or off), their timezone, quiet hours, how often
+ * the activity digest is sent and the language of their emails.
+ *
+ * Usage:
+ * GET /api/notifications/preferences
+ * PUT /api/notifications/preferences
+ *   { channels: { 'media.sync_failed': 'digest' }, timezone: 'Asia/Manila', quietHours: { start: '22:00', end: '07:00' } | null, digestFrequency: 'weekly', language: 'fil' }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUser } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import {
+  NOTIFICATION_EVENTS,
+  eventsForRole,
+  toPreferenceSettings,
+  updateNotificationPreferencesSchema
+} from '@/lib/notificationPreferences'
+
+export async function GET() {
+  try {
+    const current = await getCurrentUser()
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const preferences = await db.findNotificationPreferences(current.user.id)
+
+    return NextResponse.json({
+      preferences: toPreferenceSettings(preferences),
+      events: eventsForRole(current.role).map(event => ({
+        event,
+        label: NOTIFICATION_EVENTS[event].label,
+        description: NOTIFICATION_EVENTS[event].description
+      }))
+    })
+  } catch (error) {
+    console.error('[API] Error fetching notification preferences:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const current = await getCurrentUser()
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = updateNotificationPreferencesSchema.parse(body)
+
+    // Merge over the saved preferences so a partial update keeps the rest
+    const existing = toPreferenceSettings(await db.findNotificationPreferences(current.user.id))
+    const quietHours = validatedData.quietHours === undefined ? existing.quietHours : validatedData.quietHours
+
+    const saved = await db.saveNotificationPreferences({
+      user_id: current.user.id,
+      channels: { ...existing.channels, ...validatedData.channels },
+      timezone: validatedData.timezone || existing.timezone,
+      quiet_hours_start: quietHours?.start ?? null,
+      quiet_hours_end: quietHours?.end ?? null,
+      digest_frequency: validatedData.digestFrequency || existing.digestFrequency,
+      language: validatedData.language || existing.language
+    })
+
+    return NextResponse.json({ preferences: toPreferenceSettings(saved) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error updating notification preferences:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Notifications API Route
+ *
+ * Lists the signed-in user's notifications and applies bulk read/delete
+ * actions. Every user only ever sees and changes their own notifications.
+ *
+ * Usage:
+ * GET    /api/notifications?page=1&limit=20&read=false&type=error
+ * PATCH  /api/notifications  { ids: [1, 2] | all: true, read: true }
+ * DELETE /api/notifications  { ids: [1, 2] | all: true }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUser } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import type { NotificationType } from '@/lib/database.types'
+import {
+  NOTIFICATION_TYPES,
+  deleteNotificationsSchema,
+  toNotificationItem,
+  updateNotificationsSchema
+} from '@/lib/notifications'
+
+const MAX_PAGE_SIZE = 100
+
+export async function GET(request: NextRequest) {
+  try {
+    const current = await getCurrentUser()
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), MAX_PAGE_SIZE)
+    const read = searchParams.get('read')
+    const type = searchParams.get('type') as NotificationType | null
+
+    const result = await db.getNotifications(current.user.id, {
+      page,
+      limit,
+      read: read === 'true' ? true : read === 'false' ? false : undefined,
+      type: type && NOTIFICATION_TYPES.includes(type) ? type : undefined
+    })
+
+    return NextResponse.json({
+      notifications: result.data.map(toNotificationItem),
+      pagination: result.pagination,
+      unreadCount: result.unread
+    })
+  } catch (error) {
+    console.error('[API] Error fetching notifications:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const current = await getCurrentUser()
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = updateNotificationsSchema.parse(body)
+
+    const updated = await db.markNotificationsRead(current.user.id, validatedData.ids || null, validatedData.read)
+
+    return NextResponse.json({ updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error updating notifications:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const current = await getCurrentUser()
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = deleteNotificationsSchema.parse(body)
+
+    const deleted = await db.deleteNotifications(current.user.id, validatedData.ids || null)
+
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error deleting notifications:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Personnel Document API Route
+ *
+ * Downloads, replaces and deletes a single document in an employee's file.
+ * Downloads are proxied so authenticated files are fetched with a short-lived
+ * signed URL that never reaches the browser.
+ *
+ * Usage:
+ * GET    /api/personnel/:id/documents/:documentId  (file download)
+ * PUT    /api/personnel/:id/documents/:documentId
+ * Content-Type: multipart/form-data
+ * Body: { file?: File, documentType?: string, expiresOn?: 'YYYY-MM-DD' | '' }
+ * DELETE /api/personnel/:id/documents/:documentId
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { uploadToCloudinary, deleteFromCloudinary, generateSignedDownloadUrl, CLOUDINARY_FOLDERS } from '@/lib/cloudinary'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import type { PersonnelDocument, PersonnelDocumentUpdate } from '@/lib/database.types'
+import {
+  PERSONNEL_DOCUMENT_TYPES,
+  DOCUMENT_DELIVERY_TYPE,
+  documentExpirySchema,
+  toDocumentResponse,
+  validateDocumentFile
+} from '@/lib/personnelDocuments'
+
+type RouteParams = { params: Promise<{ id: string; documentId: string }> }
+
+const documentTypeSchema = z.enum(PERSONNEL_DOCUMENT_TYPES)
+
+/**
+ * Load a document, making sure it belongs to the personnel in the URL
+ */
+async function findDocument(params: RouteParams['params']) {
+  const { id, documentId } = await params
+  const document = await db.findPersonnelDocumentById(parseInt(documentId))
+
+  if (!document || document.personnel_id !== parseInt(id)) {
+    return null
+  }
+
+  return document
+}
+
+/**
+ * URL the download proxy fetches a document from. Files uploaded before
+ * documents went private still have a public URL; the rest need a signature.
+ */
+async function getFileUrl(document: PersonnelDocument): Promise<string> {
+  if (document.delivery_type === 'upload') {
+    return document.path
+  }
+
+  const format = document.path.match(/\.([a-z0-9]+)$/i)?.[1] || ''
+  return generateSignedDownloadUrl(
+    document.filename,
+    document.resource_type as 'image' | 'video' | 'raw',
+    document.delivery_type,
+    format
+  )
+}
+
+/**
+ * Remove a stored file from Cloudinary. Failures are logged, not thrown,
+ * since the database row is already gone or pointing at the new file.
+ */
+async function removeStoredFile(publicId: string, resourceType: string, deliveryType: string) {
+  try {
+    await deleteFromCloudinary(publicId, resourceType as 'image' | 'video' | 'raw', deliveryType)
+  } catch (error) {
+    console.error('Error deleting document file from Cloudinary:', error)
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requirePermission('documents:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const document = await findDocument(params)
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const upstream = await fetch(await getFileUrl(document))
+
+    if (!upstream.ok || !upstream.body) {
+      console.error('Error fetching document file:', upstream.status, document.filename)
+      return NextResponse.json({ error: 'Document file unavailable' }, { status: 502 })
+    }
+
+    return new NextResponse(upstream.body, {
+      headers: {
+        'Content-Type': document.mime_type,
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(document.original_name)}`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error downloading personnel document:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requirePermission('documents:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const existing = await findDocument(params)
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const type = formData.get('documentType')
+    const updates: PersonnelDocumentUpdate = {}
+
+    if (type) {
+      updates.document_type = documentTypeSchema.parse(type)
+    }
+
+    // An empty value clears the expiry date
+    if (formData.has('expiresOn')) {
+      const expiresOn = formData.get('expiresOn')
+      updates.expires_on = expiresOn ? documentExpirySchema.parse(expiresOn) : null
+    }
+
+    if (file instanceof File) {
+      const fileError = validateDocumentFile(file)
+      if (fileError) {
+        return NextResponse.json({ error: fileError }, { status: 400 })
+      }
+
+      const uploadResult = await uploadToCloudinary(file, {
+        folder: CLOUDINARY_FOLDERS.DOCUMENTS,
+        tags: ['personnel-document', `personnel-${existing.personnel_id}`, updates.document_type || existing.document_type],
+        resource_type: 'auto',
+        type: DOCUMENT_DELIVERY_TYPE
+      })
+
+      Object.assign(updates, {
+        filename: uploadResult.public_id,
+        original_name: file.name,
+        mime_type: file.type,
+        size: uploadResult.bytes || file.size,
+        path: uploadResult.secure_url,
+        resource_type: uploadResult.resource_type,
+        delivery_type: DOCUMENT_DELIVERY_TYPE,
+        uploaded_by: auth.user.id
+      })
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    const document = await db.updatePersonnelDocument(existing.id, updates, getAuditContext(request, auth.user))
+
+    if (updates.filename && updates.filename !== existing.filename) {
+      await removeStoredFile(existing.filename, existing.resource_type, existing.delivery_type)
+    }
+
+    return NextResponse.json(document && toDocumentResponse(document))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('Error replacing personnel document:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requirePermission('documents:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const existing = await findDocument(params)
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    await db.deletePersonnelDocument(existing.id, getAuditContext(request, auth.user))
+    await removeStoredFile(existing.filename, existing.resource_type, existing.delivery_type)
+
+    return NextResponse.json({ message: 'Document deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting personnel document:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
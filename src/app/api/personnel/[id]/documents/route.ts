@@ -0,0 +1,137 @@
+/**
+ * Personnel Documents API Route
+ *
+ * Lists and uploads the documents in an employee's file. Uploads go through
+ * the Cloudinary upload pipeline into the documents folder as authenticated
+ * files; the database row keeps the Cloudinary public_id (filename) and
+ * secure_url (path). The URL is never returned: files are downloaded through
+ * GET /api/personnel/:id/documents/:documentId.
+ *
+ * Usage:
+ * GET  /api/personnel/:id/documents?type=pds
+ * POST /api/personnel/:id/documents
+ * Content-Type: multipart/form-data
+ * Body: { file: File, documentType: 'pds' | 'appointment' | 'certificate' | 'id' | 'other', expiresOn?: 'YYYY-MM-DD' }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { uploadToCloudinary, deleteFromCloudinary, CLOUDINARY_FOLDERS } from '@/lib/cloudinary'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import {
+  PERSONNEL_DOCUMENT_TYPES,
+  DOCUMENT_DELIVERY_TYPE,
+  documentExpirySchema,
+  toDocumentResponse,
+  validateDocumentFile
+} from '@/lib/personnelDocuments'
+
+const documentTypeSchema = z.enum(PERSONNEL_DOCUMENT_TYPES)
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('documents:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const personnel = await db.findPersonnelById(parseInt(id))
+
+    if (!personnel) {
+      return NextResponse.json({ error: 'Personnel not found' }, { status: 404 })
+    }
+
+    const type = request.nextUrl.searchParams.get('type')
+    const documentType = type ? documentTypeSchema.parse(type) : undefined
+
+    const documents = await db.getPersonnelDocuments(personnel.id)
+
+    return NextResponse.json({
+      documents: (documentType
+        ? documents.filter(document => document.document_type === documentType)
+        : documents
+      ).map(toDocumentResponse)
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('Error fetching personnel documents:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requirePermission('documents:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const personnel = await db.findPersonnelById(parseInt(id))
+
+    if (!personnel) {
+      return NextResponse.json({ error: 'Personnel not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const documentType = documentTypeSchema.parse(formData.get('documentType') || 'other')
+    const expiresOn = formData.get('expiresOn')
+    const expiryDate = expiresOn ? documentExpirySchema.parse(expiresOn) : null
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const fileError = validateDocumentFile(file)
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 })
+    }
+
+    const uploadResult = await uploadToCloudinary(file, {
+      folder: CLOUDINARY_FOLDERS.DOCUMENTS,
+      tags: ['personnel-document', `personnel-${personnel.id}`, documentType],
+      resource_type: 'auto',
+      type: DOCUMENT_DELIVERY_TYPE
+    })
+
+    try {
+      const document = await db.createPersonnelDocument({
+        personnel_id: personnel.id,
+        filename: uploadResult.public_id,
+        original_name: file.name,
+        mime_type: file.type,
+        size: uploadResult.bytes || file.size,
+        path: uploadResult.secure_url,
+        document_type: documentType,
+        resource_type: uploadResult.resource_type,
+        delivery_type: DOCUMENT_DELIVERY_TYPE,
+        uploaded_by: auth.user.id,
+        expires_on: expiryDate
+      }, getAuditContext(request, auth.user))
+
+      return NextResponse.json(toDocumentResponse(document), { status: 201 })
+    } catch (dbError) {
+      // Don't leave an orphaned file behind when the row can't be saved
+      await deleteFromCloudinary(uploadResult.public_id, uploadResult.resource_type as 'image' | 'video' | 'raw', DOCUMENT_DELIVERY_TYPE)
+        .catch(cleanupError => console.error('Error removing orphaned document upload:', cleanupError))
+      throw dbError
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('Error uploading personnel document:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/utils/supabase/server'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
 import { db } from '@/lib/db'
 import { z } from 'zod'
 
@@ -26,11 +26,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('personnel:view')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { id } = await params
@@ -52,11 +50,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('personnel:update')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { id } = await params
@@ -79,7 +75,16 @@ export async function PUT(
       }
     }
 
-    const personnel = await db.updatePersonnel(parseInt(id), validatedData)
+    // Check if department is being changed to one that exists
+    if (validatedData.department && validatedData.department !== existingPersonnel.department) {
+      const department = await db.findDepartmentByName(validatedData.department)
+
+      if (!department) {
+        return NextResponse.json({ error: 'Department does not exist' }, { status: 400 })
+      }
+    }
+
+    const personnel = await db.updatePersonnel(parseInt(id), validatedData, getAuditContext(request, auth.user))
 
     if (!personnel) {
       return NextResponse.json({ error: 'Personnel not found' }, { status: 404 })
@@ -100,11 +105,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('personnel:delete')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { id } = await params
@@ -114,7 +117,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Personnel not found' }, { status: 404 })
     }
 
-    const deleted = await db.deletePersonnel(parseInt(id))
+    const deleted = await db.deletePersonnel(parseInt(id), getAuditContext(request, auth.user))
 
     if (!deleted) {
       return NextResponse.json({ error: 'Personnel not found' }, { status: 404 })
@@ -0,0 +1,177 @@
+/**
+ * Personnel Export API Route
+ *
+ * Exports the personnel list with the same search, department, status and
+ * sort filters and filter expression as GET /api/personnel. CSV and JSON are streamed page by page;
+ * XLSX is assembled in memory because the format is a zip archive.
+ *
+ * Usage:
+ * GET /api/personnel/export?format=csv&columns=name,email,department&includeSensitive=false
+ *     &search=&department=&status=&sort=name_asc&filter={"combinator":"and","conditions":[...]}
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { escapeCsvValue } from '@/lib/csv'
+import { buildXlsx } from '@/lib/spreadsheet'
+import type { Personnel } from '@/lib/database.types'
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  PERSONNEL_EXPORT_COLUMNS,
+  PERSONNEL_EXPORT_FORMATS,
+  PersonnelExportColumn
+} from '@/lib/personnelExport'
+import { personnelFilterParamSchema } from '@/lib/personnelFilter'
+
+const COLUMN_KEYS = PERSONNEL_EXPORT_COLUMNS.map(column => column.key) as [PersonnelExportColumn, ...PersonnelExportColumn[]]
+
+const exportQuerySchema = z.object({
+  format: z.enum(PERSONNEL_EXPORT_FORMATS).default('csv'),
+  columns: z.string().optional()
+    .transform(value => value ? value.split(',').map(column => column.trim()).filter(Boolean) : DEFAULT_EXPORT_COLUMNS)
+    .pipe(z.array(z.enum(COLUMN_KEYS)).min(1, 'Choose at least one column')),
+  includeSensitive: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  search: z.string().optional(),
+  department: z.string().optional(),
+  status: z.string().optional(),
+  sort: z.enum(['id_asc', 'id_desc', 'name_asc', 'name_desc']).default('name_asc'),
+  filter: personnelFilterParamSchema.optional()
+})
+
+// Rows fetched per database round trip while exporting
+const EXPORT_BATCH_SIZE = 500
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+type ExportFilters = Pick<z.infer<typeof exportQuerySchema>, 'search' | 'department' | 'status' | 'sort' | 'filter'>
+
+/**
+ * Walk every page of the filtered personnel query
+ */
+async function* personnelPages(filters: ExportFilters): AsyncGenerator<Personnel[]> {
+  let page = 1
+  let pages = 1
+
+  do {
+    const result = await db.getAllPersonnel(page, EXPORT_BATCH_SIZE, filters)
+    pages = result.pagination.pages
+    if (result.data.length > 0) {
+      yield result.data
+    }
+    page++
+  } while (page <= pages)
+}
+
+/**
+ * Stream the export as text, encoding each page of rows as it arrives
+ */
+function streamExport(
+  filters: ExportFilters,
+  head: string,
+  encodePage: (rows: Personnel[], isFirstPage: boolean) => string,
+  tail: string
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const pages = personnelPages(filters)
+  let started = false
+
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(head))
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await pages.next()
+        if (done) {
+          controller.enqueue(encoder.encode(tail))
+          controller.close()
+          return
+        }
+        controller.enqueue(encoder.encode(encodePage(value, !started)))
+        started = true
+      } catch (error) {
+        console.error('[API] Error streaming personnel export:', error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await pages.return(undefined)
+    }
+  })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('personnel:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const query = exportQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const columns = PERSONNEL_EXPORT_COLUMNS.filter(column =>
+      query.columns.includes(column.key) && (query.includeSensitive || !column.sensitive)
+    )
+
+    if (columns.length === 0) {
+      return NextResponse.json({ error: 'No exportable columns selected' }, { status: 400 })
+    }
+
+    const filters: ExportFilters = {
+      search: query.search || undefined,
+      department: query.department || undefined,
+      status: query.status || undefined,
+      sort: query.sort,
+      filter: query.filter
+    }
+
+    console.log(`[API] GET /api/personnel/export - Format: ${query.format}, Columns: ${columns.map(column => column.key).join(',')}`)
+
+    const filename = `personnel-${new Date().toISOString().slice(0, 10)}.${query.format}`
+    const headers = {
+      'Content-Type': CONTENT_TYPES[query.format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store'
+    }
+
+    const pick = (person: Personnel) => columns.map(column => person[column.key])
+
+    if (query.format === 'xlsx') {
+      const rows: unknown[][] = []
+      for await (const page of personnelPages(filters)) {
+        rows.push(...page.map(pick))
+      }
+      const workbook = await buildXlsx('Personnel', columns.map(column => column.label), rows)
+      return new NextResponse(workbook, { headers })
+    }
+
+    const body = query.format === 'csv'
+      ? streamExport(
+          filters,
+          columns.map(column => escapeCsvValue(column.label)).join(','),
+          rows => rows.map(person => '\n' + pick(person).map(escapeCsvValue).join(',')).join(''),
+          '\n'
+        )
+      : streamExport(
+          filters,
+          '[',
+          (rows, isFirstPage) => (isFirstPage ? '' : ',') + rows
+            .map(person => JSON.stringify(Object.fromEntries(columns.map(column => [column.key, person[column.key]]))))
+            .join(','),
+          ']'
+        )
+
+    return new NextResponse(body, { headers })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+    console.error('[API] Error exporting personnel:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Personnel Import API Route
+ *
+ * Bulk-creates personnel from a CSV or XLSX file. A dry run returns the
+ * per-row validation preview without writing anything; a commit re-validates
+ * the same file and inserts every valid row in a single statement.
+ *
+ * Usage:
+ * POST /api/personnel/import
+ * Content-Type: multipart/form-data
+ * Body: { file: File, dryRun?: 'true' | 'false' }  (dryRun defaults to true)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { readSpreadsheet } from '@/lib/spreadsheet'
+import { toPersonnelInsert } from '@/lib/personnelSchema'
+import { dispatchNotification } from '@/lib/notifier'
+import {
+  analyzePersonnelImport,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS,
+  PersonnelImportResult
+} from '@/lib/personnelImport'
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('personnel:create')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const dryRun = formData.get('dryRun') !== 'false'
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File size ${file.size} exceeds maximum allowed size of ${MAX_IMPORT_FILE_SIZE} bytes` },
+        { status: 400 }
+      )
+    }
+
+    let table: string[][]
+    try {
+      table = await readSpreadsheet(file)
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: parseError instanceof Error ? parseError.message : 'Could not read file' },
+        { status: 400 }
+      )
+    }
+
+    if (table.length < 2) {
+      return NextResponse.json({ error: 'The file has no data rows' }, { status: 400 })
+    }
+
+    if (table.length - 1 > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `The file has ${table.length - 1} rows; the maximum per import is ${MAX_IMPORT_ROWS}` },
+        { status: 400 }
+      )
+    }
+
+    console.log(`[API] POST /api/personnel/import - ${file.name}, ${table.length - 1} rows, dryRun: ${dryRun}`)
+
+    const analysis = await analyzePersonnelImport(table)
+
+    if (!analysis.columns.mapped.email || !analysis.columns.mapped.name || !analysis.columns.mapped.department) {
+      return NextResponse.json(
+        { error: 'The file must have name, email and department columns', columns: analysis.columns },
+        { status: 400 }
+      )
+    }
+
+    let imported = 0
+    if (!dryRun && analysis.validRecords.length > 0) {
+      const created = await db.createPersonnelBatch(
+        analysis.validRecords.map(toPersonnelInsert),
+        getAuditContext(request, auth.user)
+      )
+      imported = created.length
+
+      await dispatchNotification('personnel.imported', {
+        title: 'Personnel imported',
+        message: `${imported} personnel record${imported === 1 ? ' was' : 's were'} imported from ${file.name}`,
+        category: 'personnel',
+        link: '/admin/personnel',
+        metadata: { imported, file: file.name }
+      }, { excludeUserId: auth.user.id })
+    }
+
+    const result: PersonnelImportResult = {
+      dryRun,
+      columns: analysis.columns,
+      summary: {
+        total: analysis.rows.length,
+        valid: analysis.validRecords.length,
+        invalid: analysis.rows.length - analysis.validRecords.length,
+        imported
+      },
+      rows: analysis.rows
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[API] Error importing personnel:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
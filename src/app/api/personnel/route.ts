@@ -1,33 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/utils/supabase/server'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
 import { db } from '@/lib/db'
 import { z } from 'zod'
-
-const createPersonnelSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  email: z.string().email('Invalid email address'),
-  phone: z.string().optional(),
-  address: z.string().optional(),
-  profilePhoto: z.string().optional(),
-  department: z.string().min(1, 'Department is required'),
-  position: z.string().optional(),
-  hireDate: z.string().optional(),
-  status: z.enum(['Active', 'Inactive', 'On Leave', 'Suspended']).default('Active'),
-  biography: z.string().optional(),
-  spouseName: z.string().optional(),
-  spouseOccupation: z.string().optional(),
-  childrenCount: z.string().optional(),
-  emergencyContact: z.string().optional(),
-  childrenNames: z.string().optional(),
-})
+import { createPersonnelSchema, toPersonnelInsert } from '@/lib/personnelSchema'
+import { personnelFilterParamSchema } from '@/lib/personnelFilter'
+import { dispatchNotification } from '@/lib/notifier'
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('personnel:view')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { searchParams } = new URL(request.url)
@@ -37,15 +20,19 @@ export async function GET(request: NextRequest) {
     const department = searchParams.get('department') || ''
     const status = searchParams.get('status') || ''
     const sort = searchParams.get('sort') || 'name_asc'
+    const rawFilter = searchParams.get('filter')
+    // Structured AND/OR expression from the filter builder, applied on top of the simple filters
+    const filter = rawFilter ? personnelFilterParamSchema.parse(rawFilter) : undefined
 
-    console.log(`[API] GET /api/personnel - Page: ${page}, Limit: ${limit}, Search: "${search}", Department: "${department}", Status: "${status}", Sort: "${sort}"`)
+    console.log(`[API] GET /api/personnel - Page: ${page}, Limit: ${limit}, Search: "${search}", Department: "${department}", Status: "${status}", Sort: "${sort}", Filter: ${filter ? 'yes' : 'no'}`)
 
     // Use the new database service with built-in filtering and pagination
     const result = await db.getAllPersonnel(page, limit, {
       search: search || undefined,
       department: department || undefined,
       status: status || undefined,
-      sort: sort as 'id_asc' | 'id_desc' | 'name_asc' | 'name_desc'
+      sort: sort as 'id_asc' | 'id_desc' | 'name_asc' | 'name_desc',
+      filter
     })
 
     return NextResponse.json({
@@ -53,6 +40,10 @@ export async function GET(request: NextRequest) {
       pagination: result.pagination
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
     console.error('[API] Error fetching personnel:', error)
     return NextResponse.json({
       error: 'Internal server error',
@@ -63,11 +54,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('personnel:create')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const body = await request.json()
@@ -79,23 +68,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Personnel with this email already exists' }, { status: 400 })
     }
 
-    const personnel = await db.createPersonnel({
-      name: validatedData.name,
-      email: validatedData.email,
-      phone: validatedData.phone || null,
-      address: validatedData.address || null,
-      profile_photo: validatedData.profilePhoto || null,
-      department: validatedData.department,
-      position: validatedData.position || null,
-      hire_date: validatedData.hireDate || null,
-      status: validatedData.status,
-      biography: validatedData.biography || null,
-      spouse_name: validatedData.spouseName || null,
-      spouse_occupation: validatedData.spouseOccupation || null,
-      children_count: validatedData.childrenCount || null,
-      emergency_contact: validatedData.emergencyContact || null,
-      children_names: validatedData.childrenNames || null
-    })
+    const department = await db.findDepartmentByName(validatedData.department)
+
+    if (!department) {
+      return NextResponse.json({ error: 'Department does not exist' }, { status: 400 })
+    }
+
+    const personnel = await db.createPersonnel(toPersonnelInsert(validatedData), getAuditContext(request, auth.user))
+
+    await dispatchNotification('personnel.created', {
+      title: 'New personnel registered',
+      message: `${personnel.name} was registered in ${personnel.department}`,
+      category: 'personnel',
+      priority: 'low',
+      link: `/admin/personnel/${personnel.id}`,
+      metadata: { personnelId: personnel.id }
+    }, { excludeUserId: auth.user.id })
 
     return NextResponse.json(personnel, { status: 201 })
   } catch (error) {
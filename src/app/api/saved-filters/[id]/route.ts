@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUser } from '@/lib/authorization'
+import { hasPermission } from '@/lib/permissions'
+import { db } from '@/lib/db'
+import {
+  SAVED_FILTER_PERMISSIONS,
+  toSavedFilterPreset,
+  updateSavedFilterSchema
+} from '@/lib/savedFilters'
+import type { User as AuthUser } from '@supabase/supabase-js'
+import type { SavedFilter, SavedFilterUpdate } from '@/lib/database.types'
+
+/**
+ * Load a preset for its owner. Authentication and the id are checked before
+ * the lookup, so callers without a session can't probe which ids exist; the
+ * permission to use the preset's list is checked after it.
+ */
+async function findOwnedPreset(params: Promise<{ id: string }>, action: string): Promise<
+  | { ok: true; filter: SavedFilter; user: AuthUser }
+  | { ok: false; response: NextResponse }
+> {
+  const current = await getCurrentUser()
+  if (!current) {
+    return { ok: false, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { id } = await params
+  const filterId = parseInt(id)
+  if (isNaN(filterId)) {
+    return { ok: false, response: NextResponse.json({ error: 'Invalid preset ID' }, { status: 400 }) }
+  }
+
+  const filter = await db.findSavedFilterById(filterId)
+  if (!filter) {
+    return { ok: false, response: NextResponse.json({ error: 'Preset not found' }, { status: 404 }) }
+  }
+
+  if (!hasPermission(current.role, SAVED_FILTER_PERMISSIONS[filter.list_type])) {
+    return { ok: false, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  // Shared presets can be applied by others but only changed by their owner
+  if (filter.owner_id !== current.user.id) {
+    return { ok: false, response: NextResponse.json({ error: `Only the owner can ${action} this preset` }, { status: 403 }) }
+  }
+
+  return { ok: true, filter, user: current.user }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const preset = await findOwnedPreset(params, 'change')
+    if (!preset.ok) {
+      return preset.response
+    }
+    const { filter: existing, user } = preset
+
+    const body = await request.json()
+    const validatedData = updateSavedFilterSchema.parse(body)
+
+    if (validatedData.name && validatedData.name !== existing.name) {
+      const duplicate = await db.findSavedFilterByName(user.id, existing.list_type, validatedData.name)
+      if (duplicate) {
+        return NextResponse.json({ error: 'You already have a preset with this name' }, { status: 409 })
+      }
+    }
+
+    const changes: SavedFilterUpdate = {}
+    if (validatedData.name !== undefined) changes.name = validatedData.name
+    if (validatedData.definition !== undefined) changes.definition = validatedData.definition
+    if (validatedData.sharedWithRole !== undefined) changes.shared_with_role = validatedData.sharedWithRole
+
+    const filter = await db.updateSavedFilter(existing.id, changes)
+    if (!filter) {
+      return NextResponse.json({ error: 'Preset not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ filter: toSavedFilterPreset(filter, user.id) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('Error updating saved filter:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const preset = await findOwnedPreset(params, 'delete')
+    if (!preset.ok) {
+      return preset.response
+    }
+
+    await db.deleteSavedFilter(preset.filter.id)
+
+    return NextResponse.json({ message: 'Preset deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting saved filter:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Saved Filter Presets API Route
+ *
+ * Lists and creates named filter presets for the personnel, users and media
+ * lists. A user sees their own presets plus those shared with their role.
+ *
+ * Usage:
+ * GET  /api/saved-filters?list=personnel
+ * POST /api/saved-filters  { listType, name, definition, sharedWithRole? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import {
+  SAVED_FILTER_LISTS,
+  SAVED_FILTER_PERMISSIONS,
+  createSavedFilterSchema,
+  toSavedFilterPreset
+} from '@/lib/savedFilters'
+import type { SavedFilterListType } from '@/lib/database.types'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const list = searchParams.get('list') as SavedFilterListType | null
+
+    if (!list || !SAVED_FILTER_LISTS.includes(list)) {
+      return NextResponse.json(
+        { error: `list must be one of: ${SAVED_FILTER_LISTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const auth = await requirePermission(SAVED_FILTER_PERMISSIONS[list])
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    console.log(`[API] GET /api/saved-filters - List: ${list}`)
+
+    const filters = await db.getSavedFilters(list, auth.user.id, auth.role)
+
+    return NextResponse.json({
+      filters: filters.map(filter => toSavedFilterPreset(filter, auth.user.id))
+    })
+  } catch (error) {
+    console.error('[API] Error fetching saved filters:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = createSavedFilterSchema.parse(body)
+
+    const auth = await requirePermission(SAVED_FILTER_PERMISSIONS[validatedData.listType])
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const existing = await db.findSavedFilterByName(auth.user.id, validatedData.listType, validatedData.name)
+    if (existing) {
+      return NextResponse.json({ error: 'You already have a preset with this name' }, { status: 409 })
+    }
+
+    const filter = await db.createSavedFilter({
+      list_type: validatedData.listType,
+      name: validatedData.name,
+      definition: validatedData.definition,
+      owner_id: auth.user.id,
+      shared_with_role: validatedData.sharedWithRole
+    })
+
+    return NextResponse.json({ filter: toSavedFilterPreset(filter, auth.user.id) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error creating saved filter:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Global Search API Route
+ *
+ * Ranked full-text search across personnel, users, documents, departments and
+ * media. Only entity types the caller's role can view are searched.
+ *
+ * Usage:
+ * GET /api/search?q=juan&types=personnel,document&limit=5
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/authorization'
+import { hasPermission } from '@/lib/permissions'
+import { db } from '@/lib/db'
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  SEARCH_ENTITY_PERMISSIONS,
+  SEARCH_ENTITY_TYPES,
+  toSearchResult
+} from '@/lib/search'
+
+// Upper bound for matches per entity type
+const MAX_RESULTS_PER_TYPE = 20
+
+export async function GET(request: NextRequest) {
+  try {
+    const current = await getCurrentUser()
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+    const requestedTypes = searchParams.get('types')?.split(',').map(type => type.trim())
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '5') || 5, 1), MAX_RESULTS_PER_TYPE)
+
+    const entityTypes = SEARCH_ENTITY_TYPES.filter(type =>
+      hasPermission(current.role, SEARCH_ENTITY_PERMISSIONS[type]) &&
+      (!requestedTypes || requestedTypes.includes(type))
+    )
+
+    if (query.length < MIN_SEARCH_QUERY_LENGTH || entityTypes.length === 0) {
+      return NextResponse.json({ query, results: [] })
+    }
+
+    console.log(`[API] GET /api/search - Query: "${query}", Types: ${entityTypes.join(', ')}, Limit: ${limit}`)
+
+    const rows = await db.globalSearch(query, entityTypes, limit)
+
+    // Group by entity type in palette order; global_search ranks within each type
+    const results = entityTypes.flatMap(type =>
+      rows.filter(row => row.entity_type === type).map(toSearchResult)
+    )
+
+    return NextResponse.json({ query, results })
+  } catch (error) {
+    console.error('[API] Error searching:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -19,6 +19,7 @@
 import { NextResponse } from 'next/server'
 import { SupabaseMediaService } from '@/lib/supabaseMediaService'
 import { createClient } from '@supabase/supabase-js'
+import { requirePermission } from '@/lib/authorization'
 
 /**
  * GET /api/setup-media-db
@@ -26,6 +27,11 @@ import { createClient } from '@supabase/supabase-js'
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Setup Media DB] Verifying database setup...')
 
     const supabase = createClient(
@@ -241,6 +247,11 @@ export async function GET() {
  */
 export async function POST() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Setup Media DB] Starting automated database setup...')
 
     const supabase = createClient(
@@ -350,6 +361,9 @@ export async function POST() {
           size INTEGER NOT NULL,
           path VARCHAR(500) NOT NULL,
           personnel_id BIGINT NOT NULL REFERENCES personnel(id) ON DELETE CASCADE,
+          document_type VARCHAR(50) NOT NULL DEFAULT 'other',
+          resource_type VARCHAR(20) NOT NULL DEFAULT 'raw',
+          uploaded_by UUID,
           created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
           updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
         );`
@@ -0,0 +1,66 @@
+/**
+ * Inbound SMS API Route
+ *
+ * Receives replies forwarded by the SMS provider and applies the opt-out
+ * keywords: STOP (or UNSUBSCRIBE, CANCEL, END, QUIT) stops all SMS to the
+ * number, START (or SUBSCRIBE, UNSTOP) resumes them. Other replies are
+ * ignored. Requests must carry SMS_WEBHOOK_SECRET as a bearer token or the
+ * secret query parameter. JSON and form bodies are accepted, with the sender
+ * in from, number or mobile and the text in message, text or body.
+ *
+ * Usage:
+ * POST /api/sms/inbound?secret=...
+ * { "from": "09171234567", "message": "STOP" }
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { handleInboundSms } from '@/lib/smsService'
+
+const secretMatches = (received: string | null, secret: string) => {
+  if (!received) {
+    return false
+  }
+  const a = Buffer.from(received)
+  const b = Buffer.from(secret)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.SMS_WEBHOOK_SECRET
+    if (!secret) {
+      console.error('[SmsInbound] SMS_WEBHOOK_SECRET is not configured')
+      return NextResponse.json({ error: 'Webhook not configured' }, { status: 503 })
+    }
+
+    const bearer = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? null
+    if (!secretMatches(bearer, secret) && !secretMatches(request.nextUrl.searchParams.get('secret'), secret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const fields: Record<string, unknown> = request.headers.get('content-type')?.includes('application/json')
+      ? await request.json()
+      : Object.fromEntries(await request.formData())
+
+    const pick = (...names: string[]) => {
+      const name = names.find(key => typeof fields[key] === 'string' && fields[key])
+      return name ? fields[name] as string : null
+    }
+    const from = pick('from', 'number', 'mobile')
+    const text = pick('message', 'text', 'body')
+    if (!from || !text) {
+      return NextResponse.json({ error: 'Sender and message are required' }, { status: 400 })
+    }
+
+    const result = await handleInboundSms(from, text)
+    return NextResponse.json({ received: true, ...result })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+
+    console.error('[SmsInbound] Error handling inbound SMS:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
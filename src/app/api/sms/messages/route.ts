@@ -0,0 +1,51 @@
+/**
+ * SMS Log API Route
+ *
+ * Lists sent, failed and opted-out SMS messages, newest first.
+ *
+ * Usage:
+ * GET /api/sms/messages?page=1&limit=20&phoneNumber=917&status=failed
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+
+const listMessagesSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  phoneNumber: z.string().trim().max(20).optional(),
+  status: z.enum(['sent', 'failed', 'opted_out']).optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('sms:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const options = listMessagesSchema.parse({
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      phoneNumber: searchParams.get('phoneNumber') || undefined,
+      status: searchParams.get('status') || undefined
+    })
+
+    const result = await db.getSmsMessages(options)
+
+    return NextResponse.json({
+      messages: result.data,
+      pagination: result.pagination
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    console.error('[API] Error fetching SMS messages:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
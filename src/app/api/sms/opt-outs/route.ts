@@ -0,0 +1,101 @@
+/**
+ * SMS Opt-Out API Route
+ *
+ * Lists the numbers that receive no SMS, and lets staff add a number (for
+ * someone who asked in person) or remove one that asked to be texted again.
+ *
+ * Usage:
+ * GET    /api/sms/opt-outs
+ * POST   /api/sms/opt-outs   { "phoneNumber": "0917 123 4567", "note": "Asked at the front desk" }
+ * DELETE /api/sms/opt-outs?phoneNumber=%2B639171234567
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { normalizePhilippineNumber } from '@/lib/sms'
+
+const optOutSchema = z.object({
+  phoneNumber: z.string().trim().transform((value, ctx) => {
+    const phoneNumber = normalizePhilippineNumber(value)
+    if (!phoneNumber) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter a Philippine mobile number, e.g. 0917 123 4567' })
+      return z.NEVER
+    }
+    return phoneNumber
+  }),
+  note: z.string().trim().max(500).optional()
+})
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('sms:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const optOuts = await db.getSmsOptOuts()
+    return NextResponse.json({ optOuts })
+  } catch (error) {
+    console.error('[API] Error fetching SMS opt-outs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('sms:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const { phoneNumber, note } = optOutSchema.parse(body)
+
+    const optOut = await db.saveSmsOptOut({
+      phone_number: phoneNumber,
+      source: 'admin',
+      note: note || null,
+      created_by: auth.user.id
+    })
+
+    console.log(`[API] ${phoneNumber} opted out of SMS by ${auth.user.email}`)
+    return NextResponse.json({ optOut }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error saving SMS opt-out:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requirePermission('sms:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const phoneNumber = normalizePhilippineNumber(request.nextUrl.searchParams.get('phoneNumber'))
+    if (!phoneNumber) {
+      return NextResponse.json({ error: 'Invalid phone number' }, { status: 400 })
+    }
+
+    const deleted = await db.deleteSmsOptOut(phoneNumber)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Number has not opted out' }, { status: 404 })
+    }
+
+    console.log(`[API] ${phoneNumber} opted back in to SMS by ${auth.user.email}`)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API] Error deleting SMS opt-out:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
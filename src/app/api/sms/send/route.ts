@@ -0,0 +1,118 @@
+/**
+ * SMS Broadcast API Route
+ *
+ * Texts one message to personnel: everyone, whole departments, chosen
+ * personnel or typed-in numbers, optionally including their emergency
+ * contacts. The opt-out hint is appended to every broadcast; numbers that
+ * replied STOP are skipped. GET reports whether SMS is enabled and which
+ * provider sends it.
+ *
+ * Usage:
+ * GET  /api/sms/send
+ * POST /api/sms/send
+ * { "audience": "departments", "departments": ["Fisheries"], "message": "...", "includeEmergencyContacts": false }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/authorization'
+import { db } from '@/lib/db'
+import { SMS_MAX_SEGMENTS, extractPhilippineNumber, segmentSms, withOptOutHint } from '@/lib/sms'
+import { SmsRecipient, getSmsStatus, isSmsEnabled, sendSms } from '@/lib/smsService'
+
+const sendSmsSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required'),
+  audience: z.enum(['all', 'departments', 'personnel', 'numbers']),
+  departments: z.array(z.string().min(1)).optional(),
+  personnelIds: z.array(z.number().int().positive()).optional(),
+  phoneNumbers: z.array(z.string().trim().min(1)).optional(),
+  includeEmergencyContacts: z.boolean().optional().default(false)
+}).superRefine((data, ctx) => {
+  const parts = segmentSms(withOptOutHint(data.message)).parts.length
+  if (parts > SMS_MAX_SEGMENTS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['message'],
+      message: `Message is ${parts} SMS parts long; the limit is ${SMS_MAX_SEGMENTS}`
+    })
+  }
+
+  const lists = { departments: data.departments, personnel: data.personnelIds, numbers: data.phoneNumbers }
+  if (data.audience !== 'all' && !lists[data.audience]?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['audience'], message: `Choose at least one recipient for ${data.audience}` })
+  }
+})
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('sms:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    return NextResponse.json(getSmsStatus())
+  } catch (error) {
+    console.error('[API] Error checking SMS status:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('sms:send')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    if (!isSmsEnabled()) {
+      return NextResponse.json({ error: 'SMS is disabled' }, { status: 503 })
+    }
+
+    const body = await request.json()
+    const validatedData = sendSmsSchema.parse(body)
+
+    let recipients: SmsRecipient[]
+    if (validatedData.audience === 'numbers') {
+      recipients = validatedData.phoneNumbers!.map(phone => ({ phone }))
+    } else {
+      const personnel = await db.getPersonnelContacts({
+        ids: validatedData.audience === 'personnel' ? validatedData.personnelIds : undefined,
+        departments: validatedData.audience === 'departments' ? validatedData.departments : undefined
+      })
+
+      recipients = personnel.flatMap(person => {
+        const own = { phone: person.phone, name: person.name, personnelId: person.id }
+        if (!validatedData.includeEmergencyContacts || !person.emergency_contact) {
+          return [own]
+        }
+        // Emergency contacts are free text; only a mobile number in it is used
+        const contact = {
+          phone: extractPhilippineNumber(person.emergency_contact) || person.emergency_contact,
+          name: `${person.name} (emergency contact)`,
+          personnelId: person.id
+        }
+        return [own, contact]
+      })
+    }
+
+    const summary = await sendSms(recipients, withOptOutHint(validatedData.message), {
+      category: 'broadcast',
+      createdBy: auth.user.id
+    })
+
+    console.log(`[API] SMS broadcast to ${validatedData.audience} by ${auth.user.email}: ${summary.sent} sent`)
+
+    const { messages, ...counts } = summary
+    return NextResponse.json({ ...counts, recipients: recipients.length, messageIds: messages.map(message => message.id) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Error sending SMS broadcast:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
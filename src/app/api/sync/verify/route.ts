@@ -7,13 +7,20 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { BidirectionalSyncService } from '@/lib/bidirectionalSyncService'
+import { requirePermission } from '@/lib/authorization'
+import { SYNC_CONFLICT_RULES, SyncConflictRule } from '@/lib/mediaSyncConflicts'
 
 /**
  * GET /api/sync/verify
- * Verify sync integrity between Cloudinary and Supabase
+ * Verify sync integrity between Cloudinary and Supabase (read-only)
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('media:view')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Sync Verify API] Starting sync integrity verification...')
 
     const startTime = Date.now()
@@ -54,19 +61,29 @@ export async function GET() {
 
 /**
  * POST /api/sync/verify
- * Verify and optionally fix sync issues
+ * Verify and optionally fix sync issues. Conflicts are only resolved when a
+ * conflict_rule is given (see SYNC_CONFLICT_RULES); otherwise they stay open
+ * for review under /api/media/sync-conflicts.
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requirePermission('media:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Sync Verify API] Starting verification with auto-fix...')
 
     const body = await request.json()
-    const { auto_fix = false, fix_missing_in_database = false, fix_conflicts = false } = body
+    const { auto_fix = false, fix_missing_in_database = false, fix_conflicts = false, conflict_rule } = body
+    if (conflict_rule !== undefined && !(conflict_rule in SYNC_CONFLICT_RULES)) {
+      return NextResponse.json({ error: `conflict_rule must be one of: ${Object.keys(SYNC_CONFLICT_RULES).join(', ')}` }, { status: 400 })
+    }
 
     const startTime = Date.now()
     
-    // First, perform verification
-    const verificationResult = await BidirectionalSyncService.verifySyncIntegrity()
+    // First, perform verification, recording conflicts that need review
+    const verificationResult = await BidirectionalSyncService.verifySyncIntegrity({ recordConflicts: true })
     
     const fixResults = {
       fixed_missing_in_database: 0,
@@ -95,24 +112,19 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Fix conflicts by re-syncing
-      if ((auto_fix || fix_conflicts) && verificationResult.sync_conflicts.length > 0) {
-        let conflictsFixed = 0
-        
-        for (const conflict of verificationResult.sync_conflicts) {
-          try {
-            const syncResult = await BidirectionalSyncService.syncSingleAsset(conflict.public_id)
-            if (syncResult.success) {
-              conflictsFixed++
-            } else {
-              fixResults.fix_errors.push(`Failed to fix conflict for ${conflict.public_id}: ${syncResult.errors.join(', ')}`)
-            }
-          } catch (error) {
-            fixResults.fix_errors.push(`Failed to fix conflict for ${conflict.public_id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
-          }
-        }
-        
-        fixResults.fixed_conflicts = conflictsFixed
+      // Resolve the conflicts just recorded with the given rule
+      if ((auto_fix || fix_conflicts) && conflict_rule && verificationResult.sync_conflicts.length > 0) {
+        const conflictIds = verificationResult.sync_conflicts
+          .map(conflict => conflict.conflict_id)
+          .filter((id): id is string => !!id)
+        const resolution = await BidirectionalSyncService.resolveSyncConflictsByRule(
+          conflict_rule as SyncConflictRule,
+          conflictIds,
+          auth.user.id
+        )
+
+        fixResults.fixed_conflicts = resolution.resolved.length
+        fixResults.fix_errors.push(...resolution.failed.map(failure => `Failed to resolve conflict ${failure.id}: ${failure.error}`))
       }
     }
 
@@ -8,6 +8,7 @@
 
 import { NextResponse } from 'next/server'
 import { SupabaseMediaService } from '@/lib/supabaseMediaService'
+import { requirePermission } from '@/lib/authorization'
 
 // Server-side Cloudinary import
 let cloudinary: typeof import('cloudinary').v2 | null = null
@@ -42,6 +43,11 @@ interface TestResult {
  * Run comprehensive bidirectional sync tests
  */
 export async function POST() {
+  const auth = await requirePermission('system:manage')
+  if (!auth.authorized) {
+    return auth.response
+  }
+
   const startTime = Date.now()
   const results: TestResult[] = []
 
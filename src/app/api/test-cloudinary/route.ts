@@ -8,6 +8,7 @@
 
 import { NextResponse } from 'next/server'
 import { cloudinary } from '@/lib/cloudinary'
+import { requirePermission } from '@/lib/authorization'
 
 /**
  * GET /api/test-cloudinary
@@ -15,6 +16,11 @@ import { cloudinary } from '@/lib/cloudinary'
  */
 export async function GET() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Test Cloudinary] Testing configuration...')
 
     // Check environment variables
@@ -107,6 +113,11 @@ export async function GET() {
  */
 export async function POST() {
   try {
+    const auth = await requirePermission('system:manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
     console.log('[Test Cloudinary] Testing upload functionality...')
 
     // Create a simple test image (1x1 pixel PNG)
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/utils/supabase/server'
+import { requirePermission, getAuditContext } from '@/lib/authorization'
 import { db } from '@/lib/db'
+import { ROLES } from '@/lib/permissions'
 import { z } from 'zod'
 
 const updateUserSchema = z.object({
@@ -8,7 +9,8 @@ const updateUserSchema = z.object({
   name: z.string().min(1).optional(),
   phone: z.string().optional(),
   address: z.string().optional(),
-  status: z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED']).optional()
+  status: z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED']).optional(),
+  role: z.enum(ROLES).optional()
 })
 
 export async function GET(
@@ -16,11 +18,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const supabase = await createClient()
-    const { data: { user: authUser } } = await supabase.auth.getUser()
-
-    if (!authUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('users:view')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { id } = await params
@@ -42,11 +42,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const supabase = await createClient()
-    const { data: { user: authUser } } = await supabase.auth.getUser()
-
-    if (!authUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('users:manage')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { id } = await params
@@ -69,7 +67,7 @@ export async function PUT(
       }
     }
 
-    const user = await db.updateUser(parseInt(id), validatedData)
+    const user = await db.updateUser(parseInt(id), validatedData, getAuditContext(request, auth.user))
 
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
@@ -90,11 +88,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const supabase = await createClient()
-    const { data: { user: authUser } } = await supabase.auth.getUser()
-
-    if (!authUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('users:manage')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { id } = await params
@@ -104,7 +100,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
     }
 
-    const deleted = await db.deleteUser(parseInt(id))
+    const deleted = await db.deleteUser(parseInt(id), getAuditContext(request, auth.user))
 
     if (!deleted) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
@@ -1,48 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/utils/supabase/server'
+import { requirePermission } from '@/lib/authorization'
 import { db } from '@/lib/db'
+import { ROLES } from '@/lib/permissions'
+import { z } from 'zod'
+
+const usersQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  search: z.string().optional().transform(value => value || undefined),
+  status: z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED']).or(z.literal('')).optional().transform(value => value || undefined),
+  role: z.enum(ROLES).or(z.literal('')).optional().transform(value => value || undefined),
+  sort: z.enum(['name_asc', 'name_desc', 'email_asc', 'email_desc', 'created_desc', 'created_asc']).default('name_asc')
+})
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('users:view')
+    if (!auth.authorized) {
+      return auth.response
     }
 
-    const { searchParams } = new URL(request.url)
-    const page = parseInt(searchParams.get('page') || '1')
-    const limit = parseInt(searchParams.get('limit') || '10')
-    const search = searchParams.get('search') || ''
-    const status = searchParams.get('status') || ''
-
-    console.log(`[API] GET /api/users - Page: ${page}, Limit: ${limit}, Search: "${search}", Status: "${status}"`)
+    const query = usersQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
 
-    // Use the new database service with built-in filtering and pagination
-    const users = await db.getAllUsers({
-      page,
-      limit,
-      search: search || undefined,
-      status: status || undefined
-    })
+    console.log(`[API] GET /api/users - Page: ${query.page}, Limit: ${query.limit}, Search: "${query.search || ''}", Status: "${query.status || ''}", Role: "${query.role || ''}", Sort: "${query.sort}"`)
 
-    // Get total count for pagination (without pagination applied)
-    const allUsers = await db.getAllUsers({
-      search: search || undefined,
-      status: status || undefined
-    })
+    const result = await db.getAllUsers(query)
 
     return NextResponse.json({
-      users: users,
-      pagination: {
-        page,
-        limit,
-        total: allUsers.length,
-        pages: Math.ceil(allUsers.length / limit)
-      }
+      users: result.data,
+      pagination: result.pagination
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
     console.error('[API] Error fetching users:', error)
     return NextResponse.json({
       error: 'Internal server error',
@@ -53,11 +44,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST() {
   try {
-    const supabase = await createClient()
-    const { data: { user } } = await supabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await requirePermission('users:manage')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     // Note: User creation should be handled through Supabase Auth registration
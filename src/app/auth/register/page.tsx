@@ -61,8 +61,7 @@ export default function RegisterPage() {
         password: data.password,
         options: {
           data: {
-            name: data.name,
-            role: 'admin' // Default role for new users
+            name: data.name
           }
         }
       })
@@ -0,0 +1,199 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Check, Copy, Link as LinkIcon, X } from 'lucide-react'
+
+interface CalendarFeedModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface FeedStatus {
+  active: boolean
+  createdAt: string | null
+  lastUsedAt: string | null
+}
+
+export default function CalendarFeedModal({ isOpen, onClose }: CalendarFeedModalProps) {
+  const [status, setStatus] = useState<FeedStatus | null>(null)
+  const [url, setUrl] = useState('')
+  const [working, setWorking] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/events/feed')
+      if (!response.ok) {
+        throw new Error('Failed to load calendar feed')
+      }
+      setStatus(await response.json())
+    } catch (error) {
+      console.error('Error fetching calendar feed status:', error)
+      setError('Failed to load calendar feed')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) {
+      setUrl('')
+      setCopied(false)
+      setError('')
+      fetchStatus()
+    }
+  }, [isOpen, fetchStatus])
+
+  if (!isOpen) return null
+
+  const handleGenerate = async () => {
+    setWorking(true)
+    setError('')
+    try {
+      const response = await fetch('/api/events/feed', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create link')
+      }
+      setUrl(data.url)
+      setCopied(false)
+      await fetchStatus()
+    } catch (error) {
+      console.error('Error creating calendar feed:', error)
+      setError('Failed to create link')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    setWorking(true)
+    setError('')
+    try {
+      const response = await fetch('/api/events/feed', { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to turn off feed')
+      }
+      setUrl('')
+      await fetchStatus()
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error)
+      setError('Failed to turn off feed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+  }
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleString()
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center">
+                <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-blue-100 sm:mx-0 sm:h-10 sm:w-10">
+                  <LinkIcon className="h-6 w-6 text-blue-600" />
+                </div>
+                <div className="ml-4">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    Subscribe to Calendar
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    Add LGU events to Google Calendar, Outlook or your phone
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600">
+              Your personal link works without signing in, so keep it private. Creating a new link turns off the old one.
+            </p>
+
+            {status?.active && !url && (
+              <div className="mt-4 p-3 bg-gray-50 rounded-md text-sm text-gray-600">
+                A link was created {status.createdAt && formatDate(status.createdAt)}
+                {status.lastUsedAt ? ` and last used ${formatDate(status.lastUsedAt)}` : ' and has not been used yet'}.
+                For security it can&apos;t be shown again; create a new link if you need it.
+              </div>
+            )}
+
+            {url && (
+              <div className="mt-4">
+                <div className="flex">
+                  <input
+                    type="text"
+                    readOnly
+                    value={url}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 border border-gray-300 rounded-l-md px-3 py-2 text-sm bg-gray-50"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleCopy}
+                    className="inline-flex items-center px-3 border border-l-0 border-gray-300 rounded-r-md bg-white text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                  </button>
+                </div>
+                <a
+                  href={url.replace(/^https?:/, 'webcal:')}
+                  className="inline-block mt-2 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Open in calendar app
+                </a>
+              </div>
+            )}
+
+            {error && (
+              <div className="mt-4 p-3 bg-red-50 rounded-md text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+              <button
+                type="button"
+                onClick={handleGenerate}
+                disabled={working || !status}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                {status?.active ? 'Create New Link' : 'Create Link'}
+              </button>
+              {status?.active && (
+                <button
+                  type="button"
+                  onClick={handleRevoke}
+                  disabled={working}
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-red-600 hover:bg-red-50 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                >
+                  Turn Off
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:w-auto sm:text-sm"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,280 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { X, Building } from 'lucide-react'
+
+const departmentSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  headName: z.string().optional(),
+  headEmail: z.string().email('Invalid email address').optional().or(z.literal('')),
+  headPhone: z.string().optional(),
+  location: z.string().optional(),
+  budget: z.string().optional(),
+  established: z.string().optional(),
+  status: z.enum(['Active', 'Inactive', 'Restructuring']),
+  performance: z.string().optional(),
+})
+
+type DepartmentForm = z.infer<typeof departmentSchema>
+
+export interface Department {
+  id: number
+  name: string
+  description: string | null
+  head_name: string | null
+  head_email: string | null
+  head_phone: string | null
+  location: string | null
+  budget: number | null
+  established: string | null
+  status: 'Active' | 'Inactive' | 'Restructuring'
+  performance: number | null
+  personnel_count: number
+  created_at: string
+  updated_at: string
+}
+
+interface DepartmentModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSave: () => void
+  department?: Department | null
+  mode: 'create' | 'edit'
+}
+
+export default function DepartmentModal({ isOpen, onClose, onSave, department, mode }: DepartmentModalProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors }
+  } = useForm<DepartmentForm>({
+    resolver: zodResolver(departmentSchema),
+    defaultValues: {
+      status: 'Active'
+    }
+  })
+
+  useEffect(() => {
+    if (isOpen) {
+      if (mode === 'edit' && department) {
+        reset({
+          name: department.name,
+          description: department.description || '',
+          headName: department.head_name || '',
+          headEmail: department.head_email || '',
+          headPhone: department.head_phone || '',
+          location: department.location || '',
+          budget: department.budget !== null ? String(department.budget) : '',
+          established: department.established || '',
+          status: department.status,
+          performance: department.performance !== null ? String(department.performance) : '',
+        })
+      } else {
+        reset({
+          name: '',
+          description: '',
+          headName: '',
+          headEmail: '',
+          headPhone: '',
+          location: '',
+          budget: '',
+          established: '',
+          status: 'Active',
+          performance: '',
+        })
+      }
+      setError('')
+    }
+  }, [isOpen, mode, department, reset])
+
+  const onSubmit = async (data: DepartmentForm) => {
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const url = mode === 'create' ? '/api/departments' : `/api/departments/${department?.id}`
+      const method = mode === 'create' ? 'POST' : 'PUT'
+
+      // Blank numeric fields are omitted rather than coerced to 0
+      const submitData = {
+        ...data,
+        budget: data.budget || undefined,
+        performance: data.performance || undefined,
+      }
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(submitData)
+      })
+
+      if (response.ok) {
+        onSave()
+        onClose()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'An error occurred')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500'
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-2xl text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          <div className="bg-gradient-to-r from-emerald-600 to-teal-600 px-6 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center">
+                <div className="h-10 w-10 bg-white bg-opacity-20 rounded-lg flex items-center justify-center mr-3">
+                  <Building className="h-6 w-6 text-white" />
+                </div>
+                <h3 className="text-xl font-semibold text-white">
+                  {mode === 'create' ? 'Add Department' : 'Edit Department'}
+                </h3>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-white hover:text-gray-200 p-2 hover:bg-white hover:bg-opacity-20 rounded-lg transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="bg-white">
+            <div className="px-6 py-6 max-h-[28rem] overflow-y-auto space-y-6">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                  Department Name *
+                </label>
+                <input {...register('name')} type="text" className={inputClassName} placeholder="e.g. Marine Operations" />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+                )}
+                {mode === 'edit' && (
+                  <p className="mt-1 text-xs text-gray-500">Renaming updates every personnel record in this department.</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
+                  Description
+                </label>
+                <textarea {...register('description')} rows={3} className={inputClassName} />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label htmlFor="headName" className="block text-sm font-medium text-gray-700 mb-2">
+                    Department Head
+                  </label>
+                  <input {...register('headName')} type="text" className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="headEmail" className="block text-sm font-medium text-gray-700 mb-2">
+                    Head Email
+                  </label>
+                  <input {...register('headEmail')} type="email" className={inputClassName} />
+                  {errors.headEmail && (
+                    <p className="mt-1 text-sm text-red-600">{errors.headEmail.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="headPhone" className="block text-sm font-medium text-gray-700 mb-2">
+                    Head Phone
+                  </label>
+                  <input {...register('headPhone')} type="text" className={inputClassName} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-2">
+                    Location
+                  </label>
+                  <input {...register('location')} type="text" className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="established" className="block text-sm font-medium text-gray-700 mb-2">
+                    Established
+                  </label>
+                  <input {...register('established')} type="date" className={inputClassName} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label htmlFor="budget" className="block text-sm font-medium text-gray-700 mb-2">
+                    Annual Budget (₱)
+                  </label>
+                  <input {...register('budget')} type="number" min="0" step="0.01" className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="performance" className="block text-sm font-medium text-gray-700 mb-2">
+                    Performance (%)
+                  </label>
+                  <input {...register('performance')} type="number" min="0" max="100" step="0.1" className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-2">
+                    Status
+                  </label>
+                  <select {...register('status')} className={inputClassName}>
+                    <option value="Active">Active</option>
+                    <option value="Inactive">Inactive</option>
+                    <option value="Restructuring">Restructuring</option>
+                  </select>
+                </div>
+              </div>
+
+              {error && (
+                <div className="rounded-md bg-red-50 p-4">
+                  <div className="text-sm text-red-700">{error}</div>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-gray-50 px-6 py-4 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="px-4 py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {isLoading ? 'Saving...' : mode === 'create' ? 'Create Department' : 'Update Department'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
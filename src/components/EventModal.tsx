@@ -0,0 +1,558 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, Calendar as CalendarIcon, Repeat, Search, Trash2, X } from 'lucide-react'
+import type { CalendarEventWithAttendees } from '@/lib/database.types'
+import {
+  EVENT_PRIORITIES,
+  EVENT_STATUSES,
+  EVENT_TYPES,
+  EventConflict,
+  RECURRENCE_PRESETS
+} from '@/lib/events'
+import { describeRecurrenceRule, fromZonedWallClock, toZonedWallClock } from '@/lib/recurrence'
+
+interface EventModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => void
+  event: CalendarEventWithAttendees | null
+  defaultDate: string
+  timezone: string
+  canManage: boolean
+}
+
+interface PersonOption {
+  id: number
+  name: string
+  department: string | null
+}
+
+interface DepartmentOption {
+  id: number
+  name: string
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Split an instant into the date and time inputs for a timezone
+const toInputs = (iso: string, timezone: string) => {
+  const clock = toZonedWallClock(new Date(iso), timezone)
+  return {
+    date: `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`,
+    time: `${pad(clock.hour)}:${pad(clock.minute)}`
+  }
+}
+
+const fromInputs = (date: string, time: string, timezone: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute, second = 0] = time.split(':').map(Number)
+  return fromZonedWallClock({ year, month, day, hour, minute, second }, timezone).toISOString()
+}
+
+// Separate an UNTIL clause from the rest of a stored rule
+const splitRule = (rule: string | null) => {
+  const parts = (rule || '').split(';').filter(Boolean)
+  const until = parts.find(part => part.startsWith('UNTIL='))?.slice(6) || ''
+  return {
+    base: parts.filter(part => !part.startsWith('UNTIL=')).join(';'),
+    until: until.length >= 8 ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}` : ''
+  }
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+export default function EventModal({ isOpen, onClose, onSaved, event, defaultDate, timezone, canManage }: EventModalProps) {
+  const eventTimezone = event?.timezone || timezone
+
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [type, setType] = useState<typeof EVENT_TYPES[number]>('meeting')
+  const [status, setStatus] = useState<typeof EVENT_STATUSES[number]>('scheduled')
+  const [priority, setPriority] = useState<typeof EVENT_PRIORITIES[number]>('medium')
+  const [location, setLocation] = useState('')
+  const [allDay, setAllDay] = useState(false)
+  const [startDate, setStartDate] = useState(defaultDate)
+  const [startTime, setStartTime] = useState('09:00')
+  const [endDate, setEndDate] = useState(defaultDate)
+  const [endTime, setEndTime] = useState('10:00')
+  const [repeatRule, setRepeatRule] = useState('')
+  const [repeatUntil, setRepeatUntil] = useState('')
+  const [people, setPeople] = useState<PersonOption[]>([])
+  const [departmentIds, setDepartmentIds] = useState<number[]>([])
+
+  const [departments, setDepartments] = useState<DepartmentOption[]>([])
+  const [personSearch, setPersonSearch] = useState('')
+  const [personResults, setPersonResults] = useState<PersonOption[]>([])
+
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const [error, setError] = useState('')
+  const [conflicts, setConflicts] = useState<EventConflict[]>([])
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    const start = event ? toInputs(event.starts_at, eventTimezone) : { date: defaultDate, time: '09:00' }
+    const end = event ? toInputs(event.ends_at, eventTimezone) : { date: defaultDate, time: '10:00' }
+    const rule = splitRule(event?.recurrence_rule ?? null)
+
+    setTitle(event?.title || '')
+    setDescription(event?.description || '')
+    setType(event?.type || 'meeting')
+    setStatus(event?.status || 'scheduled')
+    setPriority(event?.priority || 'medium')
+    setLocation(event?.location || '')
+    setAllDay(event?.all_day || false)
+    setStartDate(start.date)
+    setStartTime(start.time)
+    setEndDate(end.date)
+    setEndTime(end.time)
+    setRepeatRule(rule.base)
+    setRepeatUntil(rule.until)
+    setPeople((event?.attendees || [])
+      .filter(attendee => attendee.personnel_id !== null)
+      .map(attendee => ({ id: attendee.personnel_id!, name: attendee.name, department: attendee.department })))
+    setDepartmentIds((event?.attendees || []).flatMap(attendee => attendee.department_id ?? []))
+    setPersonSearch('')
+    setPersonResults([])
+    setConfirmDelete(false)
+    setError('')
+    setConflicts([])
+  }, [isOpen, event, eventTimezone, defaultDate])
+
+  useEffect(() => {
+    if (!isOpen || !canManage) return
+
+    const fetchDepartments = async () => {
+      try {
+        const response = await fetch('/api/departments')
+        if (response.ok) {
+          const data = await response.json()
+          setDepartments(data.departments.map((department: DepartmentOption) => ({ id: department.id, name: department.name })))
+        }
+      } catch (error) {
+        console.error('Error fetching departments:', error)
+      }
+    }
+
+    fetchDepartments()
+  }, [isOpen, canManage])
+
+  // Debounced personnel lookup for the attendee picker
+  useEffect(() => {
+    if (!personSearch.trim()) {
+      setPersonResults([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ search: personSearch.trim(), limit: '8' })
+        const response = await fetch(`/api/personnel?${params}`)
+        if (response.ok) {
+          const data = await response.json()
+          setPersonResults(data.personnel.map((person: PersonOption) => ({
+            id: person.id,
+            name: person.name,
+            department: person.department
+          })))
+        }
+      } catch (error) {
+        console.error('Error searching personnel:', error)
+      }
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [personSearch])
+
+  if (!isOpen) return null
+
+  const presetRules: string[] = RECURRENCE_PRESETS.map(preset => preset.rule)
+  const isCustomRule = repeatRule !== '' && !presetRules.includes(repeatRule)
+
+  const handleSave = async (allowConflicts: boolean) => {
+    setSaving(true)
+    setError('')
+
+    try {
+      const startsAt = fromInputs(startDate, allDay ? '00:00' : startTime, eventTimezone)
+      const endsAt = fromInputs(endDate, allDay ? '23:59:59' : endTime, eventTimezone)
+      const recurrenceRule = repeatRule
+        ? repeatRule + (repeatUntil ? `;UNTIL=${repeatUntil.replace(/-/g, '')}` : '')
+        : null
+
+      const response = await fetch(event ? `/api/events/${event.id}` : '/api/events', {
+        method: event ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title,
+          description,
+          type,
+          status,
+          priority,
+          location,
+          startsAt,
+          endsAt,
+          allDay,
+          timezone: eventTimezone,
+          recurrenceRule,
+          personnelIds: people.map(person => person.id),
+          departmentIds,
+          allowConflicts
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.status === 409) {
+        setConflicts(data.conflicts)
+        return
+      }
+
+      if (!response.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to save event')
+        return
+      }
+
+      onSaved()
+      onClose()
+    } catch (error) {
+      console.error('Error saving event:', error)
+      setError('Failed to save event')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!event) return
+    setDeleting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/events/${event.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to delete event')
+        return
+      }
+
+      onSaved()
+      onClose()
+    } catch (error) {
+      console.error('Error deleting event:', error)
+      setError('Failed to delete event')
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  const formatConflictTime = (iso: string) => new Date(iso).toLocaleString('en-US', {
+    timeZone: eventTimezone,
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  })
+
+  const inputClass = 'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50'
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center">
+                <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-blue-100 sm:mx-0 sm:h-10 sm:w-10">
+                  <CalendarIcon className="h-6 w-6 text-blue-600" />
+                </div>
+                <div className="ml-4">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    {event ? (canManage ? 'Edit Event' : event.title) : 'New Event'}
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    {event?.recurrence_rule
+                      ? `${describeRecurrenceRule(event.recurrence_rule)} · changes apply to every occurrence`
+                      : `Times are in ${eventTimezone}`}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <fieldset disabled={!canManage} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Title</label>
+                <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Type</label>
+                  <select value={type} onChange={(e) => setType(e.target.value as typeof type)} className={inputClass}>
+                    {EVENT_TYPES.map(option => <option key={option} value={option}>{capitalize(option)}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Priority</label>
+                  <select value={priority} onChange={(e) => setPriority(e.target.value as typeof priority)} className={inputClass}>
+                    {EVENT_PRIORITIES.map(option => <option key={option} value={option}>{capitalize(option)}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Status</label>
+                  <select value={status} onChange={(e) => setStatus(e.target.value as typeof status)} className={inputClass}>
+                    {EVENT_STATUSES.map(option => <option key={option} value={option}>{capitalize(option)}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Starts</label>
+                  <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">&nbsp;</label>
+                  <input type="time" value={startTime} disabled={allDay} onChange={(e) => setStartTime(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Ends</label>
+                  <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">&nbsp;</label>
+                  <input type="time" value={endTime} disabled={allDay} onChange={(e) => setEndTime(e.target.value)} className={inputClass} />
+                </div>
+              </div>
+
+              <label className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allDay}
+                  onChange={(e) => setAllDay(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                All day
+              </label>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    <Repeat className="inline h-4 w-4 mr-1" />
+                    Repeats
+                  </label>
+                  <select value={repeatRule} onChange={(e) => setRepeatRule(e.target.value)} className={inputClass}>
+                    {RECURRENCE_PRESETS.map(preset => (
+                      <option key={preset.label} value={preset.rule}>{preset.label}</option>
+                    ))}
+                    {isCustomRule && (
+                      <option value={repeatRule}>{describeRecurrenceRule(repeatRule)}</option>
+                    )}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Until (optional)</label>
+                  <input
+                    type="date"
+                    value={repeatUntil}
+                    disabled={!repeatRule}
+                    onChange={(e) => setRepeatUntil(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Location</label>
+                <input type="text" value={location} onChange={(e) => setLocation(e.target.value)} className={inputClass} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Description</label>
+                <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={inputClass} />
+              </div>
+
+              {/* Attendees */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Personnel</label>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {people.map(person => (
+                    <span key={person.id} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800">
+                      {person.name}
+                      {canManage && (
+                        <button
+                          type="button"
+                          onClick={() => setPeople(prev => prev.filter(p => p.id !== person.id))}
+                          className="ml-1 text-blue-600 hover:text-blue-900"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+                {canManage && (
+                  <div className="relative mt-2">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <input
+                      type="text"
+                      placeholder="Add personnel..."
+                      value={personSearch}
+                      onChange={(e) => setPersonSearch(e.target.value)}
+                      className="pl-9 pr-3 py-2 w-full border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    {personResults.length > 0 && (
+                      <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-y-auto">
+                        {personResults.map(person => (
+                          <li key={person.id}>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setPeople(prev => prev.some(p => p.id === person.id) ? prev : [...prev, person])
+                                setPersonSearch('')
+                              }}
+                              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                            >
+                              {person.name}
+                              <span className="text-gray-500"> · {person.department}</span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Departments</label>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {(canManage
+                    ? departments
+                    : (event?.attendees || []).flatMap(attendee => attendee.department_id !== null ? [{ id: attendee.department_id, name: attendee.name }] : [])
+                  ).map(department => (
+                    <button
+                      key={department.id}
+                      type="button"
+                      onClick={() => setDepartmentIds(prev => prev.includes(department.id)
+                        ? prev.filter(id => id !== department.id)
+                        : [...prev, department.id]
+                      )}
+                      className={`px-2 py-1 rounded-full text-xs border transition-colors ${
+                        departmentIds.includes(department.id)
+                          ? 'bg-blue-600 text-white border-blue-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {department.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </fieldset>
+
+            {error && (
+              <div className="mt-4 p-3 bg-red-50 rounded-md text-sm text-red-700">{error}</div>
+            )}
+
+            {conflicts.length > 0 && (
+              <div className="mt-4 p-3 bg-yellow-50 rounded-md">
+                <p className="flex items-center text-sm font-medium text-yellow-800">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  Scheduling conflicts
+                </p>
+                <ul className="mt-2 space-y-2 text-sm text-yellow-800">
+                  {conflicts.map(conflict => (
+                    <li key={conflict.eventId}>
+                      <span className="font-medium">{conflict.title}</span>
+                      {' · '}{formatConflictTime(conflict.occurrenceStart)}
+                      <ul className="ml-4 list-disc text-xs">
+                        {conflict.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {canManage && (
+              <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse sm:items-center">
+                {conflicts.length > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => handleSave(true)}
+                    disabled={saving}
+                    className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-yellow-600 text-base font-medium text-white hover:bg-yellow-700 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save Anyway'}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleSave(false)}
+                    disabled={saving || !title.trim()}
+                    className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save Event'}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:mt-0 sm:w-auto sm:text-sm"
+                >
+                  Cancel
+                </button>
+                {event && (
+                  <div className="mt-3 sm:mt-0 sm:mr-auto">
+                    {confirmDelete ? (
+                      <span className="text-sm text-gray-700">
+                        Delete {event.recurrence_rule ? 'all occurrences' : 'this event'}?
+                        <button
+                          type="button"
+                          onClick={handleDelete}
+                          disabled={deleting}
+                          className="ml-2 text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                        >
+                          {deleting ? 'Deleting...' : 'Delete'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setConfirmDelete(false)}
+                          className="ml-2 text-gray-500 hover:text-gray-700"
+                        >
+                          Keep
+                        </button>
+                      </span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setConfirmDelete(true)}
+                        className="inline-flex items-center text-sm text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import NextImage from 'next/image'
+import {
+  Search,
+  User,
+  Users,
+  FileText,
+  Building,
+  Image as ImageIcon,
+  CornerDownLeft,
+  Loader2
+} from 'lucide-react'
+import { useUI } from '@/lib/redux/hooks'
+import type { SearchEntityType } from '@/lib/database.types'
+import { MIN_SEARCH_QUERY_LENGTH, SEARCH_ENTITY_LABELS, SearchResult } from '@/lib/search'
+
+const entityIcons: Record<SearchEntityType, typeof User> = {
+  personnel: User,
+  document: FileText,
+  department: Building,
+  user: Users,
+  media: ImageIcon
+}
+
+/**
+ * Global search overlay opened from the header search box or Ctrl/⌘+K.
+ * The query lives in uiSlice so it survives closing and reopening.
+ */
+export default function CommandPalette() {
+  const router = useRouter()
+  const { globalSearchOpen, globalSearchQuery, setGlobalSearch, setSearchQuery, toggleSearch } = useUI()
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const query = globalSearchQuery.trim()
+
+  // Ctrl/⌘+K toggles the palette from anywhere in the admin
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        toggleSearch()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [toggleSearch])
+
+  useEffect(() => {
+    if (globalSearchOpen) {
+      inputRef.current?.focus()
+      inputRef.current?.select()
+    }
+  }, [globalSearchOpen])
+
+  // Debounced search as the query changes
+  useEffect(() => {
+    if (!globalSearchOpen || query.length < MIN_SEARCH_QUERY_LENGTH) {
+      setResults([])
+      setError('')
+      setLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(async () => {
+      try {
+        setLoading(true)
+        setError('')
+
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`, { signal: controller.signal })
+        if (!response.ok) {
+          throw new Error('Search failed')
+        }
+
+        const data = await response.json()
+        setResults(data.results)
+        setActiveIndex(0)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error('Error searching:', error)
+        setError('Search failed')
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false)
+        }
+      }
+    }, 250)
+
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [globalSearchOpen, query])
+
+  // Keep the highlighted result in view while arrowing through the list
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  // Results arrive ordered by group, so each group is a contiguous slice
+  const groups = useMemo(() => {
+    const byType: { type: SearchEntityType; items: { result: SearchResult; index: number }[] }[] = []
+    results.forEach((result, index) => {
+      const last = byType[byType.length - 1]
+      if (last && last.type === result.type) {
+        last.items.push({ result, index })
+      } else {
+        byType.push({ type: result.type, items: [{ result, index }] })
+      }
+    })
+    return byType
+  }, [results])
+
+  if (!globalSearchOpen) return null
+
+  const close = () => setGlobalSearch(false)
+
+  const openResult = (result: SearchResult) => {
+    close()
+    router.push(result.href)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setActiveIndex(prev => (results.length ? (prev + 1) % results.length : 0))
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setActiveIndex(prev => (results.length ? (prev - 1 + results.length) % results.length : 0))
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      const result = results[activeIndex]
+      if (result) openResult(result)
+    } else if (event.key === 'Escape') {
+      event.preventDefault()
+      close()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-y-auto" role="dialog" aria-modal="true">
+      <div className="fixed inset-0 bg-gray-500 bg-opacity-50 transition-opacity" onClick={close}></div>
+
+      <div className="relative mx-auto mt-20 max-w-2xl px-4">
+        <div className="bg-white rounded-xl shadow-2xl border border-gray-200 overflow-hidden">
+          <div className="flex items-center px-4 border-b border-gray-100">
+            <Search className="h-5 w-5 text-gray-400" />
+            <input
+              ref={inputRef}
+              type="text"
+              value={globalSearchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search personnel, documents, departments, users or media..."
+              className="flex-1 px-3 py-4 text-sm text-gray-900 placeholder-gray-500 border-0 focus:ring-0 focus:outline-none"
+              role="combobox"
+              aria-expanded={results.length > 0}
+              aria-controls="command-palette-results"
+              aria-activedescendant={results.length ? `command-palette-result-${activeIndex}` : undefined}
+            />
+            {loading && <Loader2 className="h-4 w-4 text-gray-400 animate-spin" />}
+            <kbd className="ml-3 hidden sm:inline-flex items-center px-2 py-1 border border-gray-200 rounded text-xs font-mono text-gray-500">
+              Esc
+            </kbd>
+          </div>
+
+          <div ref={listRef} id="command-palette-results" role="listbox" className="max-h-96 overflow-y-auto">
+            {query.length < MIN_SEARCH_QUERY_LENGTH ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">
+                Type at least {MIN_SEARCH_QUERY_LENGTH} characters to search
+              </p>
+            ) : error ? (
+              <p className="px-4 py-8 text-center text-sm text-red-600">{error}</p>
+            ) : results.length === 0 && !loading ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">
+                No results for &quot;{query}&quot;
+              </p>
+            ) : (
+              groups.map(group => {
+                const Icon = entityIcons[group.type]
+                return (
+                  <div key={group.type} className="py-2">
+                    <p className="px-4 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      {SEARCH_ENTITY_LABELS[group.type]}
+                    </p>
+                    {group.items.map(({ result, index }) => (
+                      <div
+                        key={`${result.type}-${result.id}`}
+                        id={`command-palette-result-${index}`}
+                        data-index={index}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        onMouseMove={() => setActiveIndex(index)}
+                        onClick={() => openResult(result)}
+                        className={`flex items-center px-4 py-2 cursor-pointer ${
+                          index === activeIndex ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <div className="relative flex-shrink-0 h-8 w-8 rounded-lg bg-gray-100 flex items-center justify-center overflow-hidden">
+                          {result.thumbnailUrl ? (
+                            <NextImage src={result.thumbnailUrl} alt={result.label} fill unoptimized className="object-cover" />
+                          ) : (
+                            <Icon className="h-4 w-4 text-gray-500" />
+                          )}
+                        </div>
+                        <div className="ml-3 flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{result.label}</p>
+                          {result.detail && (
+                            <p className="text-xs text-gray-500 truncate">{result.detail}</p>
+                          )}
+                        </div>
+                        {index === activeIndex && (
+                          <CornerDownLeft className="h-4 w-4 text-gray-400" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )
+              })
+            )}
+          </div>
+
+          <div className="flex items-center justify-between px-4 py-2 border-t border-gray-100 bg-gray-50 text-xs text-gray-500">
+            <span>↑↓ to navigate · Enter to open · Ctrl/⌘ K to toggle</span>
+            {query.length >= MIN_SEARCH_QUERY_LENGTH && (
+              <button
+                type="button"
+                onClick={() => {
+                  close()
+                  router.push(`/admin/search?q=${encodeURIComponent(query)}`)
+                }}
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                See all results
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { useAuth } from '@/components/providers/SupabaseAuthProvider'
 import { useRouter } from 'next/navigation'
 import Sidebar from './Sidebar'
 import Header from './Header'
+import CommandPalette from './CommandPalette'
 
 interface DashboardLayoutProps {
   children: React.ReactNode
@@ -107,6 +108,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
           </div>
         </footer>
       </div>
+
+      <CommandPalette />
     </div>
   )
 }
@@ -2,8 +2,9 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { useAuth } from '@/components/providers/SupabaseAuthProvider'
+import { useUI } from '@/lib/redux/hooks'
+import NotificationBell from './NotificationBell'
 import {
-  Bell,
   Search,
   User,
   Settings,
@@ -21,27 +22,15 @@ interface HeaderProps {
 
 export default function Header({ onMenuClick }: HeaderProps) {
   const { user, signOut } = useAuth()
+  const { globalSearchQuery, setGlobalSearch } = useUI()
   const [showUserMenu, setShowUserMenu] = useState(false)
-  const [showNotifications, setShowNotifications] = useState(false)
 
-  // Refs for click outside detection
-  const notificationsRef = useRef<HTMLDivElement>(null)
+  // Ref for click outside detection
   const userMenuRef = useRef<HTMLDivElement>(null)
 
-  const notifications = [
-    { id: 1, title: 'New personnel registered', time: '2 min ago', type: 'info' },
-    { id: 2, title: 'System backup completed', time: '1 hour ago', type: 'success' },
-    { id: 3, title: 'Document approval pending', time: '3 hours ago', type: 'warning' },
-  ]
-
-  // Handle click outside and keyboard events to close dropdowns
+  // Handle click outside and keyboard events to close the user menu
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      // Close notifications dropdown if clicked outside
-      if (notificationsRef.current && !notificationsRef.current.contains(event.target as Node)) {
-        setShowNotifications(false)
-      }
-
       // Close user menu dropdown if clicked outside
       if (userMenuRef.current && !userMenuRef.current.contains(event.target as Node)) {
         setShowUserMenu(false)
@@ -49,15 +38,14 @@ export default function Header({ onMenuClick }: HeaderProps) {
     }
 
     const handleKeyDown = (event: KeyboardEvent) => {
-      // Close dropdowns on Escape key
+      // Close dropdown on Escape key
       if (event.key === 'Escape') {
-        setShowNotifications(false)
         setShowUserMenu(false)
       }
     }
 
-    // Add event listeners when any dropdown is open
-    if (showNotifications || showUserMenu) {
+    // Add event listeners when the dropdown is open
+    if (showUserMenu) {
       document.addEventListener('mousedown', handleClickOutside)
       document.addEventListener('keydown', handleKeyDown)
     }
@@ -67,7 +55,7 @@ export default function Header({ onMenuClick }: HeaderProps) {
       document.removeEventListener('mousedown', handleClickOutside)
       document.removeEventListener('keydown', handleKeyDown)
     }
-  }, [showNotifications, showUserMenu])
+  }, [showUserMenu])
 
   return (
     <header className="flex-shrink-0 z-50 bg-white/95 backdrop-blur-md border-b border-gray-200 shadow-sm">
@@ -96,11 +84,13 @@ export default function Header({ onMenuClick }: HeaderProps) {
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
               <Search className="h-5 w-5 text-gray-400" />
             </div>
-            <input
-              type="text"
-              placeholder="Search personnel, documents, or departments..."
-              className="block w-full pl-10 pr-4 py-2.5 border border-gray-300 rounded-xl bg-white focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-sm text-gray-900 placeholder-gray-600"
-            />
+            <button
+              type="button"
+              onClick={() => setGlobalSearch(true)}
+              className="block w-full pl-10 pr-4 py-2.5 border border-gray-300 rounded-xl bg-white text-left hover:border-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-sm text-gray-600"
+            >
+              {globalSearchQuery || 'Search personnel, documents, or departments...'}
+            </button>
             <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
               <kbd className="hidden sm:inline-flex items-center px-2 py-1 border border-gray-200 rounded text-xs font-mono text-gray-500 bg-white">
                 ⌘K
@@ -126,54 +116,7 @@ export default function Header({ onMenuClick }: HeaderProps) {
           </div>
 
           {/* Notifications */}
-          <div className="relative" ref={notificationsRef}>
-            <button
-              onClick={() => setShowNotifications(!showNotifications)}
-              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors relative"
-            >
-              <Bell className="h-5 w-5" />
-              <span className="absolute -top-1 -right-1 h-4 w-4 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
-                3
-              </span>
-            </button>
-
-            {/* Notifications Dropdown */}
-            {showNotifications && (
-              <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-lg border border-gray-200 py-2 z-50">
-                <div className="px-4 py-2 border-b border-gray-100">
-                  <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
-                </div>
-                <div className="max-h-64 overflow-y-auto">
-                  {notifications.map((notification) => (
-                    <div
-                      key={notification.id}
-                      className="px-4 py-3 hover:bg-gray-50 cursor-pointer transition-colors"
-                      onClick={() => setShowNotifications(false)}
-                    >
-                      <div className="flex items-start space-x-3">
-                        <div className={`h-2 w-2 rounded-full mt-2 ${
-                          notification.type === 'success' ? 'bg-green-500' :
-                          notification.type === 'warning' ? 'bg-yellow-500' : 'bg-blue-500'
-                        }`}></div>
-                        <div className="flex-1">
-                          <p className="text-sm text-gray-900">{notification.title}</p>
-                          <p className="text-xs text-gray-500 mt-1">{notification.time}</p>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-                <div className="px-4 py-2 border-t border-gray-100">
-                  <button
-                    className="text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors"
-                    onClick={() => setShowNotifications(false)}
-                  >
-                    View all notifications
-                  </button>
-                </div>
-              </div>
-            )}
-          </div>
+          <NotificationBell />
 
           {/* User Menu */}
           <div className="relative" ref={userMenuRef}>
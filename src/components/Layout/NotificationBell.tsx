@@ -0,0 +1,194 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Bell } from 'lucide-react'
+import { useAuth } from '@/components/providers/SupabaseAuthProvider'
+import { NotificationItem, formatNotificationTime, toNotificationItem } from '@/lib/notifications'
+import { NotificationChange, useNotificationsRealtime } from '@/lib/notificationsRealtime'
+
+// Most recent notifications shown in the dropdown
+const DROPDOWN_LIMIT = 8
+
+const TYPE_DOT_COLORS: Record<NotificationItem['type'], string> = {
+  info: 'bg-blue-500',
+  success: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  error: 'bg-red-500'
+}
+
+export default function NotificationBell() {
+  const router = useRouter()
+  const { user } = useAuth()
+  const [isOpen, setIsOpen] = useState(false)
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  const userId = user?.id
+
+  const fetchNotifications = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/notifications?limit=${DROPDOWN_LIMIT}`)
+      if (response.ok) {
+        const data = await response.json()
+        setNotifications(data.notifications)
+        setUnreadCount(data.unreadCount)
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (userId) {
+      fetchNotifications()
+    } else {
+      setNotifications([])
+      setUnreadCount(0)
+    }
+  }, [userId, fetchNotifications])
+
+  const handleChange = useCallback((change: NotificationChange) => {
+    if (change.event === 'INSERT') {
+      setNotifications(prev => [toNotificationItem(change.notification), ...prev].slice(0, DROPDOWN_LIMIT))
+      setUnreadCount(prev => prev + 1)
+    } else {
+      // Read state changed elsewhere (another tab or the notifications page)
+      fetchNotifications()
+    }
+  }, [fetchNotifications])
+
+  useNotificationsRealtime(userId, handleChange)
+
+  // Close on click outside or Escape
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [isOpen])
+
+  const handleOpen = (notification: NotificationItem) => {
+    setIsOpen(false)
+
+    if (!notification.read) {
+      setNotifications(prev => prev.map(item => item.id === notification.id ? { ...item, read: true } : item))
+      setUnreadCount(prev => Math.max(prev - 1, 0))
+      fetch(`/api/notifications/${notification.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ read: true })
+      }).catch(error => console.error('Error marking notification read:', error))
+    }
+
+    if (notification.link) {
+      router.push(notification.link)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ all: true, read: true })
+      })
+      if (response.ok) {
+        setNotifications(prev => prev.map(item => ({ ...item, read: true })))
+        setUnreadCount(0)
+      }
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors relative"
+        title={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {/* Notifications Dropdown */}
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-lg border border-gray-200 py-2 z-50">
+          <div className="px-4 py-2 border-b border-gray-100 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs text-blue-600 hover:text-blue-800 font-medium transition-colors"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">
+                {loading ? 'Loading...' : 'You have no notifications'}
+              </p>
+            ) : notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={`px-4 py-3 hover:bg-gray-50 cursor-pointer transition-colors ${
+                  notification.read ? '' : 'bg-blue-50/60'
+                }`}
+                onClick={() => handleOpen(notification)}
+              >
+                <div className="flex items-start space-x-3">
+                  <div className={`h-2 w-2 rounded-full mt-2 flex-shrink-0 ${TYPE_DOT_COLORS[notification.type]}`}></div>
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm text-gray-900 ${notification.read ? '' : 'font-medium'}`}>{notification.title}</p>
+                    <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{notification.message}</p>
+                    <p className="text-xs text-gray-500 mt-1">{formatNotificationTime(notification.createdAt)}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="px-4 py-2 border-t border-gray-100">
+            <button
+              className="text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors"
+              onClick={() => {
+                setIsOpen(false)
+                router.push('/admin/notifications')
+              }}
+            >
+              View all notifications
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,8 @@
 import Link from 'next/link'
 import Image from 'next/image'
 import { usePathname } from 'next/navigation'
+import { useAuth } from '@/components/providers/SupabaseAuthProvider'
+import { getRequiredPermission } from '@/lib/permissions'
 import {
   Users,
   FileText,
@@ -21,6 +23,8 @@ import {
   Archive,
   Bell,
   Mail,
+  Inbox,
+  LayoutTemplate,
   MessageSquare,
   Activity,
   TrendingUp,
@@ -65,12 +69,20 @@ const navigation = [
   { name: 'Search Tools', href: '/admin/search', icon: Search },
   { name: 'Data Filters', href: '/admin/filters', icon: Filter },
   { name: 'Security', href: '/admin/security', icon: Shield },
-  { name: 'Email Test', href: '/admin/email-test', icon: Mail },
+  { name: 'Email Templates', href: '/admin/email-test', icon: LayoutTemplate },
+  { name: 'Email Log', href: '/admin/email-log', icon: Inbox },
   { name: 'Settings', href: '/admin/settings', icon: Settings },
 ]
 
 export default function Sidebar({ isCollapsed, onToggle }: SidebarProps) {
   const pathname = usePathname()
+  const { can } = useAuth()
+
+  // Only list pages the current role can open
+  const visibleNavigation = navigation.filter((item) => {
+    const permission = getRequiredPermission(item.href)
+    return !permission || can(permission)
+  })
 
   return (
     <div className={`text-gray-800 transition-all duration-300 ease-in-out ${
@@ -137,7 +149,7 @@ export default function Sidebar({ isCollapsed, onToggle }: SidebarProps) {
         {/* Navigation */}
         <nav className="mt-6 px-3">
           <div className="space-y-1">
-          {navigation.map((item) => {
+          {visibleNavigation.map((item) => {
             const isActive = pathname === item.href
             return (
               <Link
@@ -0,0 +1,481 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { ChevronDown, ChevronRight, Edit, Folder, FolderOpen, FolderPlus, Images, Trash2, X } from 'lucide-react'
+import type { MediaCollectionNode } from '@/lib/supabaseMediaService'
+
+// Drag payloads: media grid cards carry asset IDs, sidebar rows a collection ID
+export const MEDIA_ASSETS_DRAG_TYPE = 'application/x-lgu-media-assets'
+const COLLECTION_DRAG_TYPE = 'application/x-lgu-media-collection'
+
+interface MediaCollectionSidebarProps {
+  selectedId: string | null
+  onSelect: (collection: MediaCollectionNode | null) => void
+  // Called after assets dropped on a collection were saved
+  onItemsAdded?: (collectionId: string, added: number) => void
+  // Bump to reload the tree, e.g. after items were removed elsewhere
+  refreshKey?: number
+}
+
+/**
+ * Flatten the tree in display order, with each collection's depth
+ */
+const flattenTree = (nodes: MediaCollectionNode[], depth = 0): { node: MediaCollectionNode; depth: number }[] =>
+  nodes.flatMap(node => [{ node, depth }, ...flattenTree(node.children, depth + 1)])
+
+const collectSubtreeIds = (node: MediaCollectionNode): string[] =>
+  [node.id, ...node.children.flatMap(collectSubtreeIds)]
+
+export default function MediaCollectionSidebar({ selectedId, onSelect, onItemsAdded, refreshKey }: MediaCollectionSidebarProps) {
+  const [collections, setCollections] = useState<MediaCollectionNode[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  const [draggedCollectionId, setDraggedCollectionId] = useState<string | null>(null)
+  const [showCreateForm, setShowCreateForm] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [createInside, setCreateInside] = useState(true)
+  const [isEditing, setIsEditing] = useState(false)
+  const [editName, setEditName] = useState('')
+  const [editParentId, setEditParentId] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const flat = useMemo(() => flattenTree(collections), [collections])
+  const selected = flat.find(entry => entry.node.id === selectedId)?.node || null
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      const response = await fetch('/api/media/collections')
+      if (response.ok) {
+        const data = await response.json()
+        setCollections(data.collections)
+      }
+    } catch (error) {
+      console.error('Error fetching media collections:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCollections()
+  }, [fetchCollections, refreshKey])
+
+  // Latest props for the effect below, which should only run when the tree
+  // reloads, not whenever the page re-renders with a new onSelect
+  const selectedIdRef = useRef(selectedId)
+  const onSelectRef = useRef(onSelect)
+  useEffect(() => {
+    selectedIdRef.current = selectedId
+    onSelectRef.current = onSelect
+  })
+
+  // Keep the page's copy of the selected collection current (name, counts), and
+  // clear it when the collection is gone
+  useEffect(() => {
+    const currentId = selectedIdRef.current
+    if (currentId && !isLoading) {
+      onSelectRef.current(flat.find(entry => entry.node.id === currentId)?.node || null)
+    }
+  }, [flat, isLoading])
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/media/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newName,
+          parentId: selected && createInside ? selected.id : null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to create collection')
+        return
+      }
+
+      if (selected && createInside) {
+        setCollapsed(prev => {
+          const next = new Set(prev)
+          next.delete(selected.id)
+          return next
+        })
+      }
+      setNewName('')
+      setShowCreateForm(false)
+      await fetchCollections()
+    } catch (error) {
+      console.error('Error creating media collection:', error)
+      setError('Failed to create collection')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const startEditing = () => {
+    if (!selected) return
+    setEditName(selected.name)
+    setEditParentId(selected.parent_collection_id || '')
+    setError('')
+    setIsEditing(true)
+  }
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected) return
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/media/collections/${selected.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: editName, parentId: editParentId || null })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to update collection')
+        return
+      }
+
+      setIsEditing(false)
+      await fetchCollections()
+    } catch (error) {
+      console.error('Error updating media collection:', error)
+      setError('Failed to update collection')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected) return
+    const message = selected.children.length > 0
+      ? `Delete "${selected.name}"? Its sub-collections move up a level. The media itself stays in the library.`
+      : `Delete "${selected.name}"? The media itself stays in the library.`
+    if (!confirm(message)) return
+
+    try {
+      const response = await fetch(`/api/media/collections/${selected.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to delete collection')
+        return
+      }
+
+      setIsEditing(false)
+      onSelect(null)
+      await fetchCollections()
+    } catch (error) {
+      console.error('Error deleting media collection:', error)
+      setError('Failed to delete collection')
+    }
+  }
+
+  /**
+   * Move a dragged collection in front of a sibling
+   */
+  const moveCollectionBefore = async (draggedId: string, target: MediaCollectionNode) => {
+    const parentId = target.parent_collection_id || null
+    const siblings = parentId
+      ? flat.find(entry => entry.node.id === parentId)?.node.children || []
+      : collections
+    if (!siblings.some(sibling => sibling.id === draggedId)) {
+      // Only siblings reorder by dragging; use Edit to move to another parent
+      return
+    }
+
+    const order = siblings.map(sibling => sibling.id).filter(id => id !== draggedId)
+    order.splice(order.indexOf(target.id), 0, draggedId)
+
+    try {
+      const response = await fetch('/api/media/collections', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ parentId, collectionIds: order })
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setCollections(data.collections)
+      }
+    } catch (error) {
+      console.error('Error reordering media collections:', error)
+    }
+  }
+
+  const addAssets = async (collection: MediaCollectionNode, assetIds: string[]) => {
+    try {
+      const response = await fetch(`/api/media/collections/${collection.id}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assetIds })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to add media to collection')
+        return
+      }
+
+      onItemsAdded?.(collection.id, data.added)
+      await fetchCollections()
+    } catch (error) {
+      console.error('Error adding media to collection:', error)
+      setError('Failed to add media to collection')
+    }
+  }
+
+  const handleDragOver = (e: React.DragEvent, node: MediaCollectionNode) => {
+    const types = Array.from(e.dataTransfer.types)
+    if (types.includes(MEDIA_ASSETS_DRAG_TYPE) || (types.includes(COLLECTION_DRAG_TYPE) && draggedCollectionId !== node.id)) {
+      e.preventDefault()
+      e.dataTransfer.dropEffect = types.includes(MEDIA_ASSETS_DRAG_TYPE) ? 'copy' : 'move'
+      setDropTargetId(node.id)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, node: MediaCollectionNode) => {
+    e.preventDefault()
+    setDropTargetId(null)
+
+    const assets = e.dataTransfer.getData(MEDIA_ASSETS_DRAG_TYPE)
+    if (assets) {
+      addAssets(node, JSON.parse(assets) as string[])
+      return
+    }
+
+    const collectionId = e.dataTransfer.getData(COLLECTION_DRAG_TYPE)
+    if (collectionId && collectionId !== node.id) {
+      moveCollectionBefore(collectionId, node)
+    }
+  }
+
+  // Moving a collection under itself or its own sub-collections is not allowed
+  const excludedParents = selected ? new Set(collectSubtreeIds(selected)) : new Set<string>()
+  const hiddenIds = new Set(flat
+    .filter(entry => collapsed.has(entry.node.id))
+    .flatMap(entry => collectSubtreeIds(entry.node).slice(1)))
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900">Collections</h3>
+        <button
+          onClick={() => {
+            setShowCreateForm(!showCreateForm)
+            setError('')
+          }}
+          className="p-1.5 rounded-lg text-purple-600 hover:bg-purple-50"
+          title="New collection"
+        >
+          <FolderPlus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {showCreateForm && (
+        <form onSubmit={handleCreate} className="mb-3 space-y-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. Fish Festival 2025"
+            maxLength={255}
+            required
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          />
+          {selected && (
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={createInside}
+                onChange={(e) => setCreateInside(e.target.checked)}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              Inside &quot;{selected.name}&quot;
+            </label>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || !newName.trim()}
+              className="flex-1 px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Creating...' : 'Create'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowCreateForm(false)}
+              className="px-3 py-1.5 text-sm text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mb-3 flex items-start justify-between gap-2 p-2 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+          <span>{error}</span>
+          <button onClick={() => setError('')} className="text-red-400 hover:text-red-600">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => {
+          setIsEditing(false)
+          onSelect(null)
+        }}
+        className={`w-full flex items-center px-2 py-1.5 rounded-lg text-sm ${
+          selectedId === null ? 'bg-purple-100 text-purple-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        <Images className="h-4 w-4 mr-2" />
+        All media
+      </button>
+
+      <div className="mt-1 space-y-0.5">
+        {isLoading ? (
+          <p className="px-2 py-2 text-xs text-gray-400">Loading...</p>
+        ) : flat.length === 0 ? (
+          <p className="px-2 py-2 text-xs text-gray-400">
+            No collections yet. Create one, then drag photos onto it.
+          </p>
+        ) : (
+          flat.filter(entry => !hiddenIds.has(entry.node.id)).map(({ node, depth }) => (
+            <div
+              key={node.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(COLLECTION_DRAG_TYPE, node.id)
+                e.dataTransfer.effectAllowed = 'move'
+                setDraggedCollectionId(node.id)
+              }}
+              onDragEnd={() => setDraggedCollectionId(null)}
+              onDragOver={(e) => handleDragOver(e, node)}
+              onDragLeave={() => setDropTargetId(prev => (prev === node.id ? null : prev))}
+              onDrop={(e) => handleDrop(e, node)}
+              onClick={() => {
+                setIsEditing(false)
+                onSelect(node)
+              }}
+              style={{ paddingLeft: `${0.5 + depth}rem` }}
+              className={`flex items-center pr-2 py-1.5 rounded-lg text-sm cursor-pointer ${
+                dropTargetId === node.id
+                  ? 'bg-purple-50 ring-2 ring-purple-400'
+                  : selectedId === node.id
+                    ? 'bg-purple-100 text-purple-700 font-medium'
+                    : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {node.children.length > 0 ? (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    toggleCollapsed(node.id)
+                  }}
+                  className="mr-1 text-gray-400 hover:text-gray-600"
+                >
+                  {collapsed.has(node.id) ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                </button>
+              ) : (
+                <span className="mr-1 w-3" />
+              )}
+              {selectedId === node.id
+                ? <FolderOpen className="h-4 w-4 mr-2 flex-shrink-0" />
+                : <Folder className="h-4 w-4 mr-2 flex-shrink-0" />}
+              <span className="truncate flex-1">{node.name}</span>
+              <span className="ml-2 text-xs text-gray-400">{node.item_count}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {selected && !isEditing && (
+        <div className="mt-3 pt-3 border-t border-gray-100 flex gap-2">
+          <button
+            onClick={startEditing}
+            className="flex-1 inline-flex items-center justify-center px-2 py-1.5 text-xs text-gray-700 rounded-lg hover:bg-gray-100"
+          >
+            <Edit className="h-3 w-3 mr-1" />
+            Edit
+          </button>
+          <button
+            onClick={handleDelete}
+            className="flex-1 inline-flex items-center justify-center px-2 py-1.5 text-xs text-red-600 rounded-lg hover:bg-red-50"
+          >
+            <Trash2 className="h-3 w-3 mr-1" />
+            Delete
+          </button>
+        </div>
+      )}
+
+      {selected && isEditing && (
+        <form onSubmit={handleUpdate} className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+          <input
+            type="text"
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+            maxLength={255}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          />
+          <select
+            value={editParentId}
+            onChange={(e) => setEditParentId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          >
+            <option value="">Top level</option>
+            {flat.filter(entry => !excludedParents.has(entry.node.id)).map(({ node, depth }) => (
+              <option key={node.id} value={node.id}>
+                {'  '.repeat(depth)}{node.name}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || !editName.trim()}
+              className="flex-1 px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1.5 text-sm text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <p className="mt-3 text-xs text-gray-400">
+        Drag media onto a collection to add it. Drag a collection onto a sibling to reorder.
+      </p>
+    </div>
+  )
+}
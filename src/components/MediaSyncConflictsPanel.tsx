@@ -0,0 +1,327 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { CheckCircle, Cloud, Database, GitCompare, RefreshCw } from 'lucide-react'
+import type { MediaSyncConflict } from '@/lib/supabaseMediaService'
+import {
+  SYNC_CONFLICT_FIELDS,
+  SYNC_CONFLICT_RULES,
+  SyncConflictField,
+  SyncConflictResolution,
+  SyncConflictRule,
+  SyncConflictSide,
+  SyncConflictSnapshot
+} from '@/lib/mediaSyncConflicts'
+
+interface MediaSyncConflictsPanelProps {
+  // Called after conflicts were resolved, so the library can reload
+  onResolved?: () => void
+}
+
+const PROPERTY_LABELS: Record<keyof SyncConflictSnapshot, string> = {
+  version: 'Version',
+  signature: 'Signature',
+  bytes: 'Size',
+  width: 'Width',
+  height: 'Height',
+  format: 'Format',
+  etag: 'ETag',
+  secure_url: 'URL',
+  url: 'URL (http)',
+  tags: 'Tags'
+}
+
+const formatValue = (property: keyof SyncConflictSnapshot, value: SyncConflictSnapshot[keyof SyncConflictSnapshot]) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (property === 'tags') return (value as string[]).length > 0 ? [...(value as string[])].sort().join(', ') : '(none)'
+  if (property === 'bytes') return `${((value as number) / 1024).toFixed(1)} KB`
+  return String(value)
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  Array.isArray(a) && Array.isArray(b)
+    ? JSON.stringify([...a].sort()) === JSON.stringify([...b].sort())
+    : a === b
+
+export default function MediaSyncConflictsPanel({ onResolved }: MediaSyncConflictsPanelProps) {
+  const [status, setStatus] = useState<'open' | 'resolved'>('open')
+  const [conflicts, setConflicts] = useState<MediaSyncConflict[]>([])
+  const [total, setTotal] = useState(0)
+  const [choices, setChoices] = useState<Record<string, SyncConflictResolution>>({})
+  const [selected, setSelected] = useState<string[]>([])
+  const [rule, setRule] = useState<SyncConflictRule>('cloudinary_binary_database_metadata')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchConflicts = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/media/sync-conflicts?status=${status}&limit=100`)
+      if (response.ok) {
+        const data = await response.json()
+        setConflicts(data.conflicts)
+        setTotal(data.pagination.total)
+        setSelected([])
+      }
+    } catch (error) {
+      console.error('Error fetching sync conflicts:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchConflicts()
+  }, [fetchConflicts])
+
+  const choose = (conflictId: string, field: SyncConflictField, side: SyncConflictSide) => {
+    setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }))
+  }
+
+  const toggleSelected = (conflictId: string) => {
+    setSelected(prev => prev.includes(conflictId) ? prev.filter(id => id !== conflictId) : [...prev, conflictId])
+  }
+
+  const resolveConflict = async (conflict: MediaSyncConflict) => {
+    setIsWorking(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/media/sync-conflicts/${conflict.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution: choices[conflict.id] || {} })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to resolve conflict')
+        return
+      }
+
+      onResolved?.()
+      await fetchConflicts()
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error)
+      setError('Failed to resolve conflict')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const applyRule = async () => {
+    const count = selected.length || total
+    if (!confirm(`Resolve ${count} conflict${count !== 1 ? 's' : ''} with "${SYNC_CONFLICT_RULES[rule]}"?`)) {
+      return
+    }
+
+    setIsWorking(true)
+    setError('')
+    try {
+      const response = await fetch('/api/media/sync-conflicts/resolve', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule, conflictIds: selected.length > 0 ? selected : undefined })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to resolve conflicts')
+        return
+      }
+      if (data.failed.length > 0) {
+        setError(`${data.failed.length} conflict${data.failed.length !== 1 ? 's' : ''} could not be resolved: ${data.failed[0].error}`)
+      }
+
+      onResolved?.()
+      await fetchConflicts()
+    } catch (error) {
+      console.error('Error resolving sync conflicts:', error)
+      setError('Failed to resolve conflicts')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Sync Conflicts</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Assets that differ between Cloudinary and the database. Choose which side wins for each field.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as 'open' | 'resolved')}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          >
+            <option value="open">Open</option>
+            <option value="resolved">Resolved</option>
+          </select>
+          <button
+            onClick={fetchConflicts}
+            disabled={isLoading}
+            className="inline-flex items-center px-3 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {status === 'open' && total > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-6 p-4 bg-purple-50 border border-purple-100 rounded-xl">
+          <span className="text-sm font-medium text-purple-900">
+            {selected.length > 0 ? `${selected.length} selected` : `All ${total} open`}
+          </span>
+          <select
+            value={rule}
+            onChange={(e) => setRule(e.target.value as SyncConflictRule)}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          >
+            {(Object.keys(SYNC_CONFLICT_RULES) as SyncConflictRule[]).map(key => (
+              <option key={key} value={key}>{SYNC_CONFLICT_RULES[key]}</option>
+            ))}
+          </select>
+          <button
+            onClick={applyRule}
+            disabled={isWorking}
+            className="inline-flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Apply Rule
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {conflicts.length === 0 && !isLoading ? (
+        <div className="text-center py-12">
+          <GitCompare className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h4 className="text-lg font-medium text-gray-900 mb-2">
+            {status === 'open' ? 'No open conflicts' : 'No resolved conflicts'}
+          </h4>
+          <p className="text-gray-600">Conflicts are recorded when sync verification or a sync finds an asset that differs.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {conflicts.map(conflict => {
+            const choice = choices[conflict.id] || {}
+            const complete = conflict.fields.every(field => choice[field])
+
+            return (
+              <div key={conflict.id} className="border border-gray-200 rounded-xl p-4">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div className="flex items-start gap-3 min-w-0">
+                    {conflict.status === 'open' && (
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(conflict.id)}
+                        onChange={() => toggleSelected(conflict.id)}
+                        className="mt-1 h-4 w-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                      />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {conflict.asset?.original_filename || conflict.asset?.display_name || conflict.cloudinary_public_id}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {conflict.cloudinary_public_id} • Detected {new Date(conflict.detected_at).toLocaleString()}
+                        {conflict.resolved_at && ` • Resolved ${new Date(conflict.resolved_at).toLocaleString()}`}
+                      </p>
+                    </div>
+                  </div>
+                  {conflict.status === 'open' && (
+                    <button
+                      onClick={() => resolveConflict(conflict)}
+                      disabled={isWorking || !complete}
+                      title={complete ? 'Apply the chosen sides' : 'Choose a side for every field first'}
+                      className="inline-flex items-center px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 flex-shrink-0"
+                    >
+                      Resolve
+                    </button>
+                  )}
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="py-2 pr-4 font-medium">Field</th>
+                        <th className="py-2 pr-4 font-medium">
+                          <span className="inline-flex items-center"><Cloud className="h-3.5 w-3.5 mr-1" />Cloudinary</span>
+                        </th>
+                        <th className="py-2 font-medium">
+                          <span className="inline-flex items-center"><Database className="h-3.5 w-3.5 mr-1" />Database</span>
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {conflict.fields.flatMap(field => {
+                        const definition = SYNC_CONFLICT_FIELDS[field]
+                        const winner = conflict.status === 'open' ? choice[field] : conflict.resolution?.[field]
+
+                        return [
+                          <tr key={field} className="bg-gray-50">
+                            <td className="py-2 pr-4 font-medium text-gray-900">
+                              {definition.label}
+                              <span className="ml-2 text-xs font-normal text-gray-500">{definition.kind}</span>
+                            </td>
+                            {(['cloudinary', 'database'] as const).map(side => (
+                              <td key={side} className="py-2 pr-4">
+                                <label className={`inline-flex items-center text-xs ${winner === side ? 'text-purple-700 font-semibold' : 'text-gray-600'}`}>
+                                  <input
+                                    type="radio"
+                                    name={`${conflict.id}-${field}`}
+                                    checked={winner === side}
+                                    disabled={conflict.status !== 'open'}
+                                    onChange={() => choose(conflict.id, field, side)}
+                                    className="mr-1.5 text-purple-600 focus:ring-purple-500"
+                                  />
+                                  {winner === side && conflict.status !== 'open' ? 'Won' : `Keep ${side === 'cloudinary' ? 'Cloudinary' : 'database'}`}
+                                </label>
+                              </td>
+                            ))}
+                          </tr>,
+                          ...definition.properties.map(property => {
+                            const cloudinaryValue = conflict.cloudinary_data[property]
+                            const databaseValue = conflict.database_data[property]
+                            const differs = !sameValue(cloudinaryValue, databaseValue)
+
+                            return (
+                              <tr key={`${field}-${property}`}>
+                                <td className="py-1.5 pr-4 pl-4 text-gray-500">{PROPERTY_LABELS[property]}</td>
+                                <td className={`py-1.5 pr-4 break-all ${differs ? 'bg-amber-50 text-amber-900' : 'text-gray-700'}`}>
+                                  {formatValue(property, cloudinaryValue)}
+                                </td>
+                                <td className={`py-1.5 break-all ${differs ? 'bg-amber-50 text-amber-900' : 'text-gray-700'}`}>
+                                  {formatValue(property, databaseValue)}
+                                </td>
+                              </tr>
+                            )
+                          })
+                        ]
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {total > conflicts.length && (
+        <p className="text-center text-sm text-gray-500 mt-4">
+          Showing {conflicts.length} of {total.toLocaleString()} conflicts
+        </p>
+      )}
+    </div>
+  )
+}
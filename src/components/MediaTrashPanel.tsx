@@ -0,0 +1,232 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import NextImage from 'next/image'
+import { FileText, RefreshCw, RotateCcw, Trash2, Video } from 'lucide-react'
+
+interface TrashedMediaItem {
+  id: string
+  public_id: string
+  secure_url: string
+  format: string
+  resource_type: string
+  bytes: number
+  original_filename?: string
+  deleted_at: string
+  purge_at: string | null
+}
+
+interface MediaTrashPanelProps {
+  // Called after items were restored, so the library can reload
+  onRestored?: (publicIds: string[]) => void
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+
+const daysUntil = (value: string) =>
+  Math.max(0, Math.ceil((new Date(value).getTime() - Date.now()) / (24 * 60 * 60 * 1000)))
+
+export default function MediaTrashPanel({ onRestored }: MediaTrashPanelProps) {
+  const [items, setItems] = useState<TrashedMediaItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const fetchTrash = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/media/trash?limit=200')
+      if (response.ok) {
+        const data = await response.json()
+        setItems(data.items)
+        setTotal(data.pagination.total)
+        setRetentionDays(data.retention_days)
+        setSelected(prev => prev.filter(id => data.items.some((item: TrashedMediaItem) => item.public_id === id)))
+      }
+    } catch (error) {
+      console.error('Error fetching media trash:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const toggleSelected = (publicId: string) => {
+    setSelected(prev => prev.includes(publicId) ? prev.filter(id => id !== publicId) : [...prev, publicId])
+  }
+
+  const restoreItems = async (publicIds: string[]) => {
+    if (publicIds.length === 0) return
+    setIsWorking(true)
+    try {
+      const response = await fetch('/api/media/trash/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ publicIds })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to restore items')
+        return
+      }
+      if (data.failed.length > 0) {
+        alert(`${data.failed.length} item${data.failed.length !== 1 ? 's' : ''} could not be restored. Check console for details.`)
+        console.error('Failed to restore:', data.failed)
+      }
+
+      if (data.restored.length > 0) {
+        onRestored?.(data.restored)
+      }
+      await fetchTrash()
+    } catch (error) {
+      console.error('Error restoring media:', error)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const deleteForever = async (publicIds: string[]) => {
+    if (publicIds.length === 0) return
+    if (!confirm(`Permanently delete ${publicIds.length} item${publicIds.length !== 1 ? 's' : ''}? The files will be removed from Cloudinary and cannot be restored.`)) {
+      return
+    }
+
+    setIsWorking(true)
+    try {
+      const params = new URLSearchParams({ public_ids: publicIds.join(',') })
+      const response = await fetch(`/api/media/trash?${params}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to delete items')
+        return
+      }
+      if (data.failed.length > 0) {
+        alert(`${data.failed.length} item${data.failed.length !== 1 ? 's' : ''} could not be deleted. Check console for details.`)
+        console.error('Failed to purge:', data.failed)
+      }
+
+      await fetchTrash()
+    } catch (error) {
+      console.error('Error purging media:', error)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Trash</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            {total.toLocaleString()} item{total !== 1 ? 's' : ''}
+            {retentionDays !== null && ` • Items are permanently deleted ${retentionDays} day${retentionDays !== 1 ? 's' : ''} after being moved here`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={fetchTrash}
+            disabled={isLoading}
+            className="inline-flex items-center px-3 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+          {selected.length > 0 && (
+            <>
+              <button
+                onClick={() => restoreItems(selected)}
+                disabled={isWorking}
+                className="inline-flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore ({selected.length})
+              </button>
+              <button
+                onClick={() => deleteForever(selected)}
+                disabled={isWorking}
+                className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Forever
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {items.length === 0 && !isLoading ? (
+        <div className="text-center py-12">
+          <Trash2 className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h4 className="text-lg font-medium text-gray-900 mb-2">The trash is empty</h4>
+          <p className="text-gray-600">Deleted media stays here until it is restored or permanently deleted.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {items.map(item => (
+            <div key={item.public_id} className="flex items-center gap-4 py-3">
+              <input
+                type="checkbox"
+                checked={selected.includes(item.public_id)}
+                onChange={() => toggleSelected(item.public_id)}
+                className="h-4 w-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+              />
+              <div className="relative h-14 w-14 flex-shrink-0 rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center">
+                {item.resource_type === 'image' ? (
+                  <NextImage src={item.secure_url} alt={item.original_filename || item.public_id} fill className="object-cover" sizes="56px" />
+                ) : item.resource_type === 'video' ? (
+                  <Video className="h-6 w-6 text-gray-400" />
+                ) : (
+                  <FileText className="h-6 w-6 text-gray-400" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{item.original_filename || item.public_id}</p>
+                <p className="text-xs text-gray-500">
+                  {item.format.toUpperCase()} • Deleted {formatDate(item.deleted_at)}
+                  {item.purge_at && (
+                    <span className={daysUntil(item.purge_at) <= 3 ? 'text-red-600' : ''}>
+                      {' '}• Permanently deleted on {formatDate(item.purge_at)} ({daysUntil(item.purge_at)} day{daysUntil(item.purge_at) !== 1 ? 's' : ''} left)
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => restoreItems([item.public_id])}
+                  disabled={isWorking}
+                  title="Restore"
+                  className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg disabled:opacity-50"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => deleteForever([item.public_id])}
+                  disabled={isWorking}
+                  title="Delete forever"
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {total > items.length && (
+        <p className="text-center text-sm text-gray-500 mt-4">
+          Showing the {items.length} most recently deleted of {total.toLocaleString()} items
+        </p>
+      )}
+    </div>
+  )
+}
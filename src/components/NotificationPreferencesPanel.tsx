@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Settings, Moon, Save, ChevronDown, ChevronUp } from 'lucide-react'
+import type { DigestFrequency, EmailLanguage } from '@/lib/database.types'
+import { EMAIL_LANGUAGES, EMAIL_LANGUAGE_LABELS } from '@/lib/emailTemplates'
+import {
+  DELIVERY_LABELS,
+  DIGEST_FREQUENCIES,
+  DIGEST_FREQUENCY_LABELS,
+  NOTIFICATION_DELIVERIES,
+  NotificationDelivery,
+  NotificationEventType,
+  NotificationPreferenceSettings
+} from '@/lib/notificationPreferences'
+
+interface EventOption {
+  event: NotificationEventType
+  label: string
+  description: string
+}
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' }
+
+export default function NotificationPreferencesPanel() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [events, setEvents] = useState<EventOption[]>([])
+  const [preferences, setPreferences] = useState<NotificationPreferenceSettings | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || preferences) return
+
+    const fetchPreferences = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch('/api/notifications/preferences')
+        if (response.ok) {
+          const data = await response.json()
+          setEvents(data.events)
+          setPreferences(data.preferences)
+        }
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPreferences()
+  }, [isOpen, preferences])
+
+  const setDelivery = (event: NotificationEventType, delivery: NotificationDelivery) => {
+    setPreferences(prev => prev && { ...prev, channels: { ...prev.channels, [event]: delivery } })
+  }
+
+  const handleSave = async () => {
+    if (!preferences) return
+
+    setSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          channels: Object.fromEntries(events.map(({ event }) => [event, preferences.channels[event]])),
+          timezone: preferences.timezone,
+          quietHours: preferences.quietHours,
+          digestFrequency: preferences.digestFrequency,
+          language: preferences.language
+        })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setPreferences(data.preferences)
+        setMessage({ type: 'success', text: 'Notification preferences saved' })
+      } else {
+        const detail = data.details?.[0]?.message
+        setMessage({ type: 'error', text: detail || data.error || 'Failed to save preferences' })
+      }
+    } catch (error) {
+      console.error('Error saving notification preferences:', error)
+      setMessage({ type: 'error', text: 'Failed to save preferences' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex items-center space-x-3">
+          <Settings className="h-5 w-5 text-gray-500" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Delivery Preferences</h3>
+            <p className="text-sm text-gray-500">Choose how each kind of alert reaches you</p>
+          </div>
+        </div>
+        {isOpen ? <ChevronUp className="h-5 w-5 text-gray-400" /> : <ChevronDown className="h-5 w-5 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 border-t border-gray-200">
+          {loading || !preferences ? (
+            <p className="py-6 text-sm text-center text-gray-500">{loading ? 'Loading...' : 'Preferences unavailable'}</p>
+          ) : (
+            <div className="space-y-6 pt-4">
+              {events.length === 0 ? (
+                <p className="text-sm text-gray-500">Your role does not receive any system alerts.</p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {events.map(({ event, label, description }) => (
+                    <div key={event} className="py-3 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{label}</p>
+                        <p className="text-xs text-gray-500">{description}</p>
+                      </div>
+                      <select
+                        value={preferences.channels[event]}
+                        onChange={(e) => setDelivery(event, e.target.value as NotificationDelivery)}
+                        className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {NOTIFICATION_DELIVERIES.map(delivery => (
+                          <option key={delivery} value={delivery}>{DELIVERY_LABELS[delivery]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  {Object.values(preferences.channels).includes('sms') && (
+                    <p className="pt-3 text-xs text-gray-500">SMS alerts go to the mobile number on your user profile.</p>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Activity digest</label>
+                  <select
+                    value={preferences.digestFrequency}
+                    onChange={(e) => setPreferences({ ...preferences, digestFrequency: e.target.value as DigestFrequency })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {DIGEST_FREQUENCIES.map(frequency => (
+                      <option key={frequency} value={frequency}>{DIGEST_FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email language</label>
+                  <select
+                    value={preferences.language}
+                    onChange={(e) => setPreferences({ ...preferences, language: e.target.value as EmailLanguage })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {EMAIL_LANGUAGES.map(language => (
+                      <option key={language} value={language}>{EMAIL_LANGUAGE_LABELS[language]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+                  <input
+                    type="text"
+                    value={preferences.timezone}
+                    onChange={(e) => setPreferences({ ...preferences, timezone: e.target.value })}
+                    placeholder="Asia/Manila"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-1">
+                    <input
+                      type="checkbox"
+                      checked={!!preferences.quietHours}
+                      onChange={(e) => setPreferences({ ...preferences, quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : null })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <Moon className="h-4 w-4 text-gray-400" />
+                    <span>Quiet hours</span>
+                  </label>
+                  {preferences.quietHours ? (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="time"
+                        value={preferences.quietHours.start}
+                        onChange={(e) => setPreferences({ ...preferences, quietHours: { ...preferences.quietHours!, start: e.target.value } })}
+                        className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <span className="text-sm text-gray-500">to</span>
+                      <input
+                        type="time"
+                        value={preferences.quietHours.end}
+                        onChange={(e) => setPreferences({ ...preferences, quietHours: { ...preferences.quietHours!, end: e.target.value } })}
+                        className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 py-2">Emails are sent as soon as alerts happen</p>
+                  )}
+                  {preferences.quietHours && (
+                    <p className="text-xs text-gray-500 mt-1">Emails during quiet hours wait for your digest</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                {message ? (
+                  <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+                ) : <span />}
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save Preferences'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,369 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  FileText,
+  Upload,
+  Download,
+  RefreshCw,
+  Trash2,
+  AlertCircle,
+  FolderOpen
+} from 'lucide-react'
+import { useAuth } from '@/components/providers/SupabaseAuthProvider'
+import {
+  PERSONNEL_DOCUMENT_TYPES,
+  PERSONNEL_DOCUMENT_TYPE_LABELS,
+  ALLOWED_DOCUMENT_TYPES,
+  PersonnelDocumentType,
+  DOCUMENT_EXPIRY_WARNING_DAYS,
+  normalizeDocumentType,
+  validateDocumentFile
+} from '@/lib/personnelDocuments'
+
+interface PersonnelDocument {
+  id: number
+  filename: string
+  original_name: string
+  mime_type: string
+  size: number
+  personnel_id: number
+  document_type: string
+  expires_on: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface PersonnelDocumentsProps {
+  personnelId: number
+}
+
+type CategoryFilter = PersonnelDocumentType | 'all'
+
+export default function PersonnelDocuments({ personnelId }: PersonnelDocumentsProps) {
+  const { can } = useAuth()
+  const canManage = can('documents:manage')
+
+  const [documents, setDocuments] = useState<PersonnelDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [category, setCategory] = useState<CategoryFilter>('all')
+  const [uploadType, setUploadType] = useState<PersonnelDocumentType>('pds')
+  const [uploadExpiry, setUploadExpiry] = useState('')
+  const [uploading, setUploading] = useState(false)
+  const [busyId, setBusyId] = useState<number | null>(null)
+  const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null)
+
+  const uploadInputRef = useRef<HTMLInputElement>(null)
+  const replaceInputRef = useRef<HTMLInputElement>(null)
+  const replaceTargetRef = useRef<number | null>(null)
+
+  const fetchDocuments = useCallback(async () => {
+    setLoading(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/personnel/${personnelId}/documents`)
+      if (response.ok) {
+        const data = await response.json()
+        setDocuments(data.documents)
+      } else {
+        setError('Failed to load documents')
+      }
+    } catch (error) {
+      console.error('Error fetching documents:', error)
+      setError('An error occurred while loading documents')
+    } finally {
+      setLoading(false)
+    }
+  }, [personnelId])
+
+  useEffect(() => {
+    fetchDocuments()
+  }, [fetchDocuments])
+
+  const sendFile = async (url: string, method: 'POST' | 'PUT', file: File, documentType?: PersonnelDocumentType, expiresOn?: string) => {
+    const fileError = validateDocumentFile(file)
+    if (fileError) {
+      setError(fileError)
+      return false
+    }
+
+    const formData = new FormData()
+    formData.append('file', file)
+    if (documentType) {
+      formData.append('documentType', documentType)
+    }
+    if (expiresOn) {
+      formData.append('expiresOn', expiresOn)
+    }
+
+    const response = await fetch(url, { method, body: formData })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      setError(data.error || 'Failed to save document')
+      return false
+    }
+
+    return true
+  }
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setUploading(true)
+    setError('')
+    try {
+      if (await sendFile(`/api/personnel/${personnelId}/documents`, 'POST', file, uploadType, uploadExpiry)) {
+        setUploadExpiry('')
+        await fetchDocuments()
+      }
+    } catch (error) {
+      console.error('Error uploading document:', error)
+      setError('An error occurred while uploading the document')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleReplaceClick = (documentId: number) => {
+    replaceTargetRef.current = documentId
+    replaceInputRef.current?.click()
+  }
+
+  const handleReplace = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    const documentId = replaceTargetRef.current
+    event.target.value = ''
+    if (!file || documentId === null) return
+
+    setBusyId(documentId)
+    setError('')
+    try {
+      if (await sendFile(`/api/personnel/${personnelId}/documents/${documentId}`, 'PUT', file)) {
+        await fetchDocuments()
+      }
+    } catch (error) {
+      console.error('Error replacing document:', error)
+      setError('An error occurred while replacing the document')
+    } finally {
+      setBusyId(null)
+      replaceTargetRef.current = null
+    }
+  }
+
+  const handleDelete = async (documentId: number) => {
+    setBusyId(documentId)
+    setError('')
+    try {
+      const response = await fetch(`/api/personnel/${personnelId}/documents/${documentId}`, {
+        method: 'DELETE'
+      })
+      if (response.ok) {
+        setDocuments(prev => prev.filter(document => document.id !== documentId))
+      } else {
+        setError('Failed to delete document')
+      }
+    } catch (error) {
+      console.error('Error deleting document:', error)
+      setError('An error occurred while deleting the document')
+    } finally {
+      setBusyId(null)
+      setConfirmDeleteId(null)
+    }
+  }
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  // Days until a document expires; negative once it has expired
+  const daysUntilExpiry = (expiresOn: string) => {
+    const today = new Date()
+    const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())
+    return Math.round((Date.parse(expiresOn) - todayUtc) / (24 * 60 * 60 * 1000))
+  }
+
+  const countFor = (type: CategoryFilter) =>
+    type === 'all'
+      ? documents.length
+      : documents.filter(document => normalizeDocumentType(document.document_type) === type).length
+
+  const visibleDocuments = category === 'all'
+    ? documents
+    : documents.filter(document => normalizeDocumentType(document.document_type) === category)
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <FolderOpen className="h-6 w-6 text-amber-600 mr-3" />
+          Documents
+        </h2>
+
+        {canManage && (
+          <div className="flex items-center space-x-3">
+            <select
+              value={uploadType}
+              onChange={(e) => setUploadType(e.target.value as PersonnelDocumentType)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {PERSONNEL_DOCUMENT_TYPES.map(type => (
+                <option key={type} value={type}>{PERSONNEL_DOCUMENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={uploadExpiry}
+              onChange={(e) => setUploadExpiry(e.target.value)}
+              title="Expiry date (optional)"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={() => uploadInputRef.current?.click()}
+              disabled={uploading}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? 'Uploading...' : 'Upload'}
+            </button>
+            <input
+              ref={uploadInputRef}
+              type="file"
+              accept={ALLOWED_DOCUMENT_TYPES.join(',')}
+              onChange={handleUpload}
+              className="hidden"
+            />
+            <input
+              ref={replaceInputRef}
+              type="file"
+              accept={ALLOWED_DOCUMENT_TYPES.join(',')}
+              onChange={handleReplace}
+              className="hidden"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Category Tabs */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(['all', ...PERSONNEL_DOCUMENT_TYPES] as CategoryFilter[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setCategory(type)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+              category === type
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {type === 'all' ? 'All' : PERSONNEL_DOCUMENT_TYPE_LABELS[type]} ({countFor(type)})
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 flex items-center p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-10 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-3 text-sm text-gray-600">Loading documents...</p>
+        </div>
+      ) : visibleDocuments.length === 0 ? (
+        <div className="py-10 text-center border-2 border-dashed border-gray-200 rounded-xl">
+          <FileText className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-sm text-gray-500">
+            {category === 'all'
+              ? 'No documents on file yet'
+              : `No ${PERSONNEL_DOCUMENT_TYPE_LABELS[category].toLowerCase()} on file`}
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {visibleDocuments.map(document => (
+            <li key={document.id} className="py-4 flex items-center justify-between gap-4">
+              <div className="flex items-center space-x-3 min-w-0">
+                <FileText className="h-8 w-8 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{document.original_name}</p>
+                  <p className="text-xs text-gray-500">
+                    {PERSONNEL_DOCUMENT_TYPE_LABELS[normalizeDocumentType(document.document_type)]}
+                    {' · '}{formatSize(document.size)}
+                    {' · '}{new Date(document.updated_at).toLocaleDateString()}
+                    {document.expires_on && (() => {
+                      const days = daysUntilExpiry(document.expires_on)
+                      const color = days < 0 ? 'text-red-600' : days <= DOCUMENT_EXPIRY_WARNING_DAYS ? 'text-amber-600' : ''
+                      return (
+                        <span className={color}>
+                          {' · '}{days < 0 ? 'Expired' : 'Expires'} {new Date(`${document.expires_on}T00:00:00`).toLocaleDateString()}
+                        </span>
+                      )
+                    })()}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                {confirmDeleteId === document.id ? (
+                  <>
+                    <span className="text-sm text-gray-700">Delete this document?</span>
+                    <button
+                      onClick={() => handleDelete(document.id)}
+                      disabled={busyId === document.id}
+                      className="px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      {busyId === document.id ? 'Deleting...' : 'Delete'}
+                    </button>
+                    <button
+                      onClick={() => setConfirmDeleteId(null)}
+                      className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <a
+                      href={`/api/personnel/${personnelId}/documents/${document.id}`}
+                      className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Download"
+                    >
+                      <Download className="h-4 w-4" />
+                    </a>
+                    {canManage && (
+                      <>
+                        <button
+                          onClick={() => handleReplaceClick(document.id)}
+                          disabled={busyId === document.id}
+                          className="p-2 text-gray-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors disabled:opacity-50"
+                          title="Replace file"
+                        >
+                          <RefreshCw className={`h-4 w-4 ${busyId === document.id ? 'animate-spin' : ''}`} />
+                        </button>
+                        <button
+                          onClick={() => setConfirmDeleteId(document.id)}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, X, ShieldAlert } from 'lucide-react'
+import type { PersonnelFilters } from '@/lib/redux/slices/personnelSlice'
+import { describePersonnelFilter } from '@/lib/personnelFilter'
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  PERSONNEL_EXPORT_COLUMNS,
+  PERSONNEL_EXPORT_FORMATS,
+  PersonnelExportColumn,
+  PersonnelExportFormat
+} from '@/lib/personnelExport'
+
+interface PersonnelExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  filters: PersonnelFilters
+}
+
+const FORMAT_LABELS: Record<PersonnelExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  json: 'JSON'
+}
+
+export default function PersonnelExportModal({ isOpen, onClose, filters }: PersonnelExportModalProps) {
+  const [format, setFormat] = useState<PersonnelExportFormat>('csv')
+  const [columns, setColumns] = useState<PersonnelExportColumn[]>(DEFAULT_EXPORT_COLUMNS)
+  const [includeSensitive, setIncludeSensitive] = useState(false)
+
+  if (!isOpen) return null
+
+  const toggleColumn = (column: PersonnelExportColumn) => {
+    setColumns(prev => prev.includes(column)
+      ? prev.filter(key => key !== column)
+      : [...prev, column]
+    )
+  }
+
+  const availableColumns = PERSONNEL_EXPORT_COLUMNS.filter(column => includeSensitive || !column.sensitive)
+  const selectedColumns = availableColumns.filter(column => columns.includes(column.key))
+
+  const handleExport = () => {
+    const params = new URLSearchParams({
+      format,
+      columns: selectedColumns.map(column => column.key).join(','),
+      includeSensitive: String(includeSensitive),
+      sort: filters.sortBy,
+      ...(filters.search && { search: filters.search }),
+      ...(filters.department && { department: filters.department }),
+      ...(filters.status && { status: filters.status }),
+      ...(filters.expression && { filter: JSON.stringify(filters.expression) })
+    })
+
+    // The response is an attachment, so navigating downloads it without leaving the page
+    window.location.href = `/api/personnel/export?${params}`
+    onClose()
+  }
+
+  const activeFilters = [
+    filters.search && `search "${filters.search}"`,
+    filters.department && `department ${filters.department}`,
+    filters.status && `status ${filters.status}`,
+    filters.expression && describePersonnelFilter(filters.expression)
+  ].filter(Boolean)
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center">
+                <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-indigo-100 sm:mx-0 sm:h-10 sm:w-10">
+                  <Download className="h-6 w-6 text-indigo-600" />
+                </div>
+                <div className="ml-4">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    Export Personnel
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    {activeFilters.length > 0 ? `Filtered by ${activeFilters.join(', ')}` : 'All personnel records'}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {/* Format */}
+            <div className="mt-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">Format</p>
+              <div className="flex gap-2">
+                {PERSONNEL_EXPORT_FORMATS.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setFormat(option)}
+                    className={`flex-1 px-3 py-2 rounded-md border text-sm font-medium transition-colors ${
+                      format === option
+                        ? 'bg-indigo-600 text-white border-indigo-600'
+                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {FORMAT_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Columns */}
+            <div className="mt-5">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-gray-700">Columns</p>
+                <div className="space-x-3 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setColumns(availableColumns.map(column => column.key))}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Select all
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Reset
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {availableColumns.map(column => (
+                  <label key={column.key} className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Sensitive fields */}
+            <div className="mt-5 p-3 bg-yellow-50 rounded-md">
+              <label className="flex items-start text-sm text-yellow-800">
+                <input
+                  type="checkbox"
+                  checked={includeSensitive}
+                  onChange={(e) => setIncludeSensitive(e.target.checked)}
+                  className="h-4 w-4 mt-0.5 text-indigo-600 border-gray-300 rounded mr-2"
+                />
+                <span>
+                  <span className="inline-flex items-center font-medium">
+                    <ShieldAlert className="h-4 w-4 mr-1" />
+                    Include family details
+                  </span>
+                  <span className="block text-xs mt-1">
+                    Spouse and children fields are personal information. Only include them when required.
+                  </span>
+                </span>
+              </label>
+            </div>
+
+            <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={selectedColumns.length === 0}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-indigo-600 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                Export {selectedColumns.length} Column{selectedColumns.length === 1 ? '' : 's'}
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:w-auto sm:text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
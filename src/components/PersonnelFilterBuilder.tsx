@@ -0,0 +1,378 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Trash2, FolderPlus, X } from 'lucide-react'
+import {
+  FILTER_OPERATORS,
+  MAX_FILTER_DEPTH,
+  PERSONNEL_FILTER_FIELDS,
+  FilterOperator,
+  PersonnelFilterCondition,
+  PersonnelFilterField,
+  PersonnelFilterGroup,
+  isFilterGroup,
+  operatorsForField,
+  personnelFilterSchema
+} from '@/lib/personnelFilter'
+
+interface PersonnelFilterBuilderProps {
+  // Expression currently applied to the list, if any
+  value?: PersonnelFilterGroup
+  departments: string[]
+  onApply: (expression: PersonnelFilterGroup | undefined) => void
+  onClose: () => void
+}
+
+type FilterNode = PersonnelFilterCondition | PersonnelFilterGroup
+
+const FIELD_KEYS = Object.keys(PERSONNEL_FILTER_FIELDS) as PersonnelFilterField[]
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-900 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500'
+
+const emptyValue = (operator: FilterOperator): PersonnelFilterCondition['value'] => {
+  switch (FILTER_OPERATORS[operator].value) {
+    case 'single':
+      return ''
+    case 'list':
+      return []
+    case 'range':
+      return ['', '']
+    case 'none':
+      return undefined
+  }
+}
+
+const newCondition = (): PersonnelFilterCondition => ({ field: 'name', operator: 'contains', value: '' })
+
+const newGroup = (): PersonnelFilterGroup => ({ combinator: 'and', conditions: [newCondition()] })
+
+// Trim typed values and drop blank list entries before validating
+const cleanGroup = (group: PersonnelFilterGroup): PersonnelFilterGroup => ({
+  combinator: group.combinator,
+  conditions: group.conditions.map(node => {
+    if (isFilterGroup(node)) return cleanGroup(node)
+    const { value } = node
+    if (Array.isArray(value)) {
+      const trimmed = value.map(item => item.trim())
+      return { ...node, value: node.operator === 'between' ? trimmed : trimmed.filter(Boolean) }
+    }
+    return { ...node, value: typeof value === 'string' ? value.trim() : value }
+  })
+})
+
+interface ConditionEditorProps {
+  condition: PersonnelFilterCondition
+  departments: string[]
+  onChange: (condition: PersonnelFilterCondition) => void
+  onRemove: () => void
+}
+
+function ConditionEditor({ condition, departments, onChange, onRemove }: ConditionEditorProps) {
+  const field = PERSONNEL_FILTER_FIELDS[condition.field]
+  const options: readonly string[] | undefined = 'options' in field ? field.options : undefined
+  const valueKind = FILTER_OPERATORS[condition.operator].value
+  const suggestions = condition.field === 'department' ? departments : []
+  const datalistId = suggestions.length > 0 ? 'personnel-filter-departments' : undefined
+
+  const handleFieldChange = (fieldKey: PersonnelFilterField) => {
+    const operators = operatorsForField(fieldKey)
+    // Keep the operator when the new field supports it, otherwise start over
+    const operator = operators.includes(condition.operator) ? condition.operator : operators[0]
+    const sameKind = PERSONNEL_FILTER_FIELDS[fieldKey].type === field.type && operator === condition.operator
+    onChange({ field: fieldKey, operator, value: sameKind ? condition.value : emptyValue(operator) })
+  }
+
+  const handleOperatorChange = (operator: FilterOperator) => {
+    const sameKind = FILTER_OPERATORS[operator].value === valueKind
+    onChange({ ...condition, operator, value: sameKind ? condition.value : emptyValue(operator) })
+  }
+
+  const list = Array.isArray(condition.value) ? condition.value : []
+  const single = typeof condition.value === 'string' ? condition.value : ''
+
+  const toggleOption = (option: string) => {
+    onChange({
+      ...condition,
+      value: list.includes(option) ? list.filter(item => item !== option) : [...list, option]
+    })
+  }
+
+  const renderValue = () => {
+    switch (valueKind) {
+      case 'none':
+        return null
+      case 'range':
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={list[0] || ''}
+              onChange={(e) => onChange({ ...condition, value: [e.target.value, list[1] || ''] })}
+              className={inputClass}
+            />
+            <span className="text-sm text-gray-500">and</span>
+            <input
+              type="date"
+              value={list[1] || ''}
+              onChange={(e) => onChange({ ...condition, value: [list[0] || '', e.target.value] })}
+              className={inputClass}
+            />
+          </div>
+        )
+      case 'list':
+        if (options) {
+          return (
+            <div className="flex flex-wrap gap-1">
+              {options.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => toggleOption(option)}
+                  className={`px-2 py-1 rounded-full border text-xs font-medium transition-colors ${
+                    list.includes(option)
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          )
+        }
+        return (
+          <input
+            type="text"
+            value={list.join(',')}
+            onChange={(e) => onChange({ ...condition, value: e.target.value.split(',') })}
+            placeholder="Comma-separated values"
+            list={datalistId}
+            className={`${inputClass} flex-1 min-w-[12rem]`}
+          />
+        )
+      case 'single':
+        if (options) {
+          return (
+            <select
+              value={single}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Choose...</option>
+              {options.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          )
+        }
+        return (
+          <input
+            type={field.type === 'date' ? 'date' : 'text'}
+            value={single}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder="Value"
+            list={datalistId}
+            className={`${inputClass} flex-1 min-w-[12rem]`}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.field}
+        onChange={(e) => handleFieldChange(e.target.value as PersonnelFilterField)}
+        className={inputClass}
+      >
+        {FIELD_KEYS.map(key => (
+          <option key={key} value={key}>{PERSONNEL_FILTER_FIELDS[key].label}</option>
+        ))}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(e) => handleOperatorChange(e.target.value as FilterOperator)}
+        className={inputClass}
+      >
+        {operatorsForField(condition.field).map(operator => (
+          <option key={operator} value={operator}>{FILTER_OPERATORS[operator].label}</option>
+        ))}
+      </select>
+      {renderValue()}
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-2 text-gray-400 hover:text-red-600"
+        title="Remove condition"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
+
+interface GroupEditorProps {
+  group: PersonnelFilterGroup
+  depth: number
+  departments: string[]
+  onChange: (group: PersonnelFilterGroup) => void
+  onRemove?: () => void
+}
+
+function GroupEditor({ group, depth, departments, onChange, onRemove }: GroupEditorProps) {
+  const updateNode = (index: number, node: FilterNode) => {
+    onChange({ ...group, conditions: group.conditions.map((item, i) => i === index ? node : item) })
+  }
+
+  const removeNode = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+  }
+
+  const addNode = (node: FilterNode) => {
+    onChange({ ...group, conditions: [...group.conditions, node] })
+  }
+
+  return (
+    <div className={`space-y-3 ${depth > 1 ? 'border-l-4 border-indigo-200 bg-indigo-50/40 rounded-r-lg pl-4 py-3 pr-3' : ''}`}>
+      <div className="flex items-center gap-2">
+        <div className="flex rounded-md border border-gray-300 overflow-hidden">
+          {(['and', 'or'] as const).map(combinator => (
+            <button
+              key={combinator}
+              type="button"
+              onClick={() => onChange({ ...group, combinator })}
+              className={`px-3 py-1 text-xs font-semibold uppercase transition-colors ${
+                group.combinator === combinator
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {combinator}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500">
+          {group.combinator === 'and' ? 'Match all of these' : 'Match any of these'}
+        </span>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="ml-auto p-1 text-gray-400 hover:text-red-600"
+            title="Remove group"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((node, index) => isFilterGroup(node) ? (
+        <GroupEditor
+          key={index}
+          group={node}
+          depth={depth + 1}
+          departments={departments}
+          onChange={(updated) => updateNode(index, updated)}
+          onRemove={() => removeNode(index)}
+        />
+      ) : (
+        <ConditionEditor
+          key={index}
+          condition={node}
+          departments={departments}
+          onChange={(updated) => updateNode(index, updated)}
+          onRemove={() => removeNode(index)}
+        />
+      ))}
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => addNode(newCondition())}
+          className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add condition
+        </button>
+        {depth < MAX_FILTER_DEPTH && (
+          <button
+            type="button"
+            onClick={() => addNode(newGroup())}
+            className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Add group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function PersonnelFilterBuilder({ value, departments, onApply, onClose }: PersonnelFilterBuilderProps) {
+  const [draft, setDraft] = useState<PersonnelFilterGroup>(value || newGroup())
+  const [error, setError] = useState('')
+
+  const handleApply = () => {
+    const result = personnelFilterSchema.safeParse(cleanGroup(draft))
+    if (!result.success) {
+      setError(result.error.errors[0]?.message || 'Filter is incomplete')
+      return
+    }
+
+    setError('')
+    onApply(result.data)
+  }
+
+  const handleClear = () => {
+    setDraft(newGroup())
+    setError('')
+    onApply(undefined)
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-gray-900">Advanced filter</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600"
+          title="Close"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <GroupEditor group={draft} depth={1} departments={departments} onChange={setDraft} />
+
+      {departments.length > 0 && (
+        <datalist id="personnel-filter-departments">
+          {departments.map(department => (
+            <option key={department} value={department} />
+          ))}
+        </datalist>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={handleClear}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Clear
+        </button>
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={draft.conditions.length === 0}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Apply filter
+        </button>
+      </div>
+    </div>
+  )
+}
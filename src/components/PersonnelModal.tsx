@@ -56,17 +56,6 @@ interface PersonnelModalProps {
   mode: 'create' | 'edit'
 }
 
-const departments = [
-  'Fisheries Management',
-  'Aquaculture Development',
-  'Marine Resources',
-  'Freshwater Fisheries',
-  'Fish Processing',
-  'Extension Services',
-  'Research & Development',
-  'Administration'
-]
-
 const childrenOptions = ['0', '1', '2', '3', '4', '5', '5+']
 
 export default function PersonnelModal({ isOpen, onClose, onSave, personnel, mode }: PersonnelModalProps) {
@@ -75,6 +64,7 @@ export default function PersonnelModal({ isOpen, onClose, onSave, personnel, mod
   const [activeTab, setActiveTab] = useState('personal')
   const [profilePhotoUrl, setProfilePhotoUrl] = useState<string>('')
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false)
+  const [departments, setDepartments] = useState<string[]>([])
 
   const {
     register,
@@ -89,6 +79,20 @@ export default function PersonnelModal({ isOpen, onClose, onSave, personnel, mod
     }
   })
 
+  useEffect(() => {
+    if (!isOpen) return
+
+    // Department options come from the departments table (personnel.department references departments.name)
+    fetch('/api/departments')
+      .then((response) => response.ok ? response.json() : { departments: [] })
+      .then((data: { departments: { name: string }[] }) => {
+        setDepartments(data.departments.map((dept) => dept.name))
+      })
+      .catch((error) => {
+        console.error('Error fetching departments:', error)
+      })
+  }, [isOpen])
+
   useEffect(() => {
     if (isOpen) {
       if (mode === 'edit' && personnel) {
@@ -0,0 +1,281 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Bookmark, ChevronDown, Check, Save, Trash2, Users } from 'lucide-react'
+import { ROLES, ROLE_LABELS, Role } from '@/lib/permissions'
+import type { SavedFilterListType } from '@/lib/database.types'
+import type { FilterDefinition, SavedFilterPreset } from '@/lib/savedFilters'
+
+interface SavedFilterMenuProps {
+  listType: SavedFilterListType
+  // Filters currently applied on the list, saved as-is
+  definition: FilterDefinition
+  onApply: (definition: FilterDefinition) => void
+}
+
+export default function SavedFilterMenu({ listType, definition, onApply }: SavedFilterMenuProps) {
+  const [presets, setPresets] = useState<SavedFilterPreset[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeId, setActiveId] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showSaveForm, setShowSaveForm] = useState(false)
+  const [name, setName] = useState('')
+  const [sharedWithRole, setSharedWithRole] = useState<Role | ''>('')
+  const [error, setError] = useState('')
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  const activePreset = presets.find(preset => preset.id === activeId) || null
+
+  const fetchPresets = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/saved-filters?list=${listType}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPresets(data.filters)
+      }
+    } catch (error) {
+      console.error('Error fetching saved filters:', error)
+    }
+  }, [listType])
+
+  useEffect(() => {
+    fetchPresets()
+  }, [fetchPresets])
+
+  // Close on click outside or Escape
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [isOpen])
+
+  const handleApply = (preset: SavedFilterPreset) => {
+    setActiveId(preset.id)
+    setIsOpen(false)
+    onApply(preset.definition)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/saved-filters', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          listType,
+          name,
+          definition,
+          sharedWithRole: sharedWithRole || null
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to save preset')
+        return
+      }
+
+      await fetchPresets()
+      setActiveId(data.filter.id)
+      setShowSaveForm(false)
+      setName('')
+      setSharedWithRole('')
+    } catch (error) {
+      console.error('Error saving filter preset:', error)
+      setError('Failed to save preset')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUpdate = async () => {
+    if (!activePreset) return
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/saved-filters/${activePreset.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ definition })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to update preset')
+        return
+      }
+
+      await fetchPresets()
+      setIsOpen(false)
+    } catch (error) {
+      console.error('Error updating filter preset:', error)
+      setError('Failed to update preset')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (preset: SavedFilterPreset) => {
+    if (!confirm(`Delete the preset "${preset.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/saved-filters/${preset.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to delete preset')
+        return
+      }
+
+      if (activeId === preset.id) {
+        setActiveId(null)
+      }
+      await fetchPresets()
+    } catch (error) {
+      console.error('Error deleting filter preset:', error)
+      setError('Failed to delete preset')
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+      >
+        <Bookmark className="h-4 w-4 mr-2 text-gray-500" />
+        <span className="max-w-[10rem] truncate">{activePreset ? activePreset.name : 'Presets'}</span>
+        <ChevronDown className="h-4 w-4 ml-2 text-gray-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-200 py-2 z-40">
+          {presets.length === 0 ? (
+            <p className="px-4 py-2 text-sm text-gray-500">No saved presets yet</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto">
+              {presets.map(preset => (
+                <div key={preset.id} className="flex items-center px-4 py-2 hover:bg-gray-50 group">
+                  <button
+                    type="button"
+                    onClick={() => handleApply(preset)}
+                    className="flex-1 flex items-center min-w-0 text-left text-sm text-gray-900"
+                  >
+                    <Check className={`h-4 w-4 mr-2 flex-shrink-0 ${preset.id === activeId ? 'text-blue-600' : 'text-transparent'}`} />
+                    <span className="truncate">{preset.name}</span>
+                    {preset.sharedWithRole && (
+                      <span
+                        className="ml-2 inline-flex items-center text-xs text-gray-500"
+                        title={`Shared with ${ROLE_LABELS[preset.sharedWithRole as Role] || preset.sharedWithRole}`}
+                      >
+                        <Users className="h-3 w-3" />
+                      </span>
+                    )}
+                  </button>
+                  {preset.isOwner && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(preset)}
+                      className="ml-2 p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                      title="Delete preset"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t border-gray-100 mt-2 pt-2 px-4 space-y-2">
+            {activePreset?.isOwner && (
+              <button
+                type="button"
+                onClick={handleUpdate}
+                disabled={isSaving}
+                className="w-full text-left text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                Update &quot;{activePreset.name}&quot; with current filters
+              </button>
+            )}
+
+            {showSaveForm ? (
+              <form onSubmit={handleSave} className="space-y-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Preset name"
+                  maxLength={100}
+                  autoFocus
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <select
+                  value={sharedWithRole}
+                  onChange={(e) => setSharedWithRole(e.target.value as Role | '')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Private (only me)</option>
+                  {ROLES.map(role => (
+                    <option key={role} value={role}>Shared with {ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowSaveForm(false)}
+                    className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSaving || !name.trim()}
+                    className="inline-flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Save className="h-3 w-3 mr-1" />
+                    Save
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                type="button"
+                onClick={() => {
+                  setShowSaveForm(true)
+                  setError('')
+                }}
+                className="w-full text-left text-sm text-gray-700 hover:text-gray-900"
+              >
+                Save current filters as preset...
+              </button>
+            )}
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
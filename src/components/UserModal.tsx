@@ -5,6 +5,7 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { X } from 'lucide-react'
+import { ROLES, ROLE_LABELS, normalizeRole } from '@/lib/permissions'
 
 const userSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -12,7 +13,8 @@ const userSchema = z.object({
   password: z.string().optional(),
   phone: z.string().optional(),
   address: z.string().optional(),
-  status: z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED'])
+  status: z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED']),
+  role: z.enum(ROLES)
 })
 
 type UserForm = z.infer<typeof userSchema>
@@ -23,6 +25,7 @@ interface User {
   name: string
   phone?: string
   address?: string
+  role?: string
   status: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED'
   createdAt: string
   updatedAt: string
@@ -48,7 +51,8 @@ export default function UserModal({ isOpen, onClose, onSave, user, mode }: UserM
   } = useForm<UserForm>({
     resolver: zodResolver(userSchema),
     defaultValues: {
-      status: 'ACTIVE'
+      status: 'ACTIVE',
+      role: 'viewer'
     }
   })
 
@@ -61,7 +65,8 @@ export default function UserModal({ isOpen, onClose, onSave, user, mode }: UserM
           password: '',
           phone: user.phone || '',
           address: user.address || '',
-          status: user.status
+          status: user.status,
+          role: normalizeRole(user.role)
         })
       } else {
         reset({
@@ -70,7 +75,8 @@ export default function UserModal({ isOpen, onClose, onSave, user, mode }: UserM
           password: '',
           phone: '',
           address: '',
-          status: 'ACTIVE'
+          status: 'ACTIVE',
+          role: 'viewer'
         })
       }
       setError('')
@@ -221,6 +227,20 @@ export default function UserModal({ isOpen, onClose, onSave, user, mode }: UserM
                 </select>
               </div>
 
+              <div>
+                <label htmlFor="role" className="block text-sm font-medium text-gray-700">
+                  Role
+                </label>
+                <select
+                  {...register('role')}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+
               {error && (
                 <div className="rounded-md bg-red-50 p-4">
                   <div className="text-sm text-red-700">{error}</div>
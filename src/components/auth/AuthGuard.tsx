@@ -2,7 +2,9 @@
  * Client-Side Authentication Guard
  * 
  * This component protects routes by checking authentication status
- * and redirecting to login if user is not authenticated.
+ * and redirecting to login if user is not authenticated. When a
+ * permission is required, users whose role lacks it see an access
+ * denied state instead of the page.
  */
 
 'use client'
@@ -10,19 +12,22 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/components/providers/SupabaseAuthProvider'
+import { Permission } from '@/lib/permissions'
 
 interface AuthGuardProps {
   children: React.ReactNode
   redirectTo?: string
   requireAuth?: boolean
+  requiredPermission?: Permission | null
 }
 
 export function AuthGuard({ 
   children, 
   redirectTo = '/auth/login',
-  requireAuth = true 
+  requireAuth = true,
+  requiredPermission = null
 }: AuthGuardProps) {
-  const { user, loading } = useAuth()
+  const { user, loading, roleLoading, can } = useAuth()
   const router = useRouter()
   const [isChecking, setIsChecking] = useState(true)
 
@@ -77,6 +82,43 @@ export function AuthGuard({
     )
   }
 
+  // Wait for the role before deciding on permission-guarded pages
+  if (requiredPermission && user && roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Checking permissions...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Show access denied state if the user's role lacks the required permission
+  if (requiredPermission && user && !can(requiredPermission)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-yellow-100">
+            <svg className="h-6 w-6 text-yellow-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Access Denied</h3>
+          <p className="mt-1 text-sm text-gray-500">Your role does not have permission to view this page.</p>
+          <div className="mt-6">
+            <button
+              onClick={() => router.push('/admin')}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   // Render children if authentication check passes
   return <>{children}</>
 }
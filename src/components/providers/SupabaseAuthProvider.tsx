@@ -8,15 +8,19 @@
 
 'use client'
 
-import { createContext, useContext, useEffect, useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useState } from 'react'
 import { User, Session } from '@supabase/supabase-js'
 import { createClient } from '@/utils/supabase/client'
+import { Permission, Role, hasPermission } from '@/lib/permissions'
 
 interface AuthContextType {
   user: User | null
   session: Session | null
   loading: boolean
   error: string | null
+  role: Role | null
+  roleLoading: boolean
+  can: (permission: Permission) => boolean
   signOut: () => Promise<void>
 }
 
@@ -25,6 +29,9 @@ const AuthContext = createContext<AuthContextType>({
   session: null,
   loading: true,
   error: null,
+  role: null,
+  roleLoading: true,
+  can: () => false,
   signOut: async () => {},
 })
 
@@ -45,6 +52,8 @@ export function SupabaseAuthProvider({ children }: SupabaseAuthProviderProps) {
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [role, setRole] = useState<Role | null>(null)
+  const [roleLoading, setRoleLoading] = useState(true)
 
   useEffect(() => {
     // Check if environment variables are available
@@ -108,6 +117,46 @@ export function SupabaseAuthProvider({ children }: SupabaseAuthProviderProps) {
     }
   }, [])
 
+  // Load the user's role whenever the signed-in account changes
+  const userId = user?.id
+  useEffect(() => {
+    if (loading) return
+
+    if (!userId) {
+      setRole(null)
+      setRoleLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setRoleLoading(true)
+
+    const fetchRole = async () => {
+      try {
+        const response = await fetch('/api/auth/me')
+        if (response.ok) {
+          const data = await response.json()
+          if (!cancelled) setRole(data.role)
+        } else if (!cancelled) {
+          setRole(null)
+        }
+      } catch (err) {
+        console.error('Error fetching user role:', err)
+        if (!cancelled) setRole(null)
+      } finally {
+        if (!cancelled) setRoleLoading(false)
+      }
+    }
+
+    fetchRole()
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, loading])
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role])
+
   const signOut = async () => {
     try {
       const supabase = createClient()
@@ -122,6 +171,9 @@ export function SupabaseAuthProvider({ children }: SupabaseAuthProviderProps) {
     session,
     loading,
     error,
+    role,
+    roleLoading,
+    can,
     signOut,
   }
 
@@ -134,6 +186,9 @@ export function SupabaseAuthProvider({ children }: SupabaseAuthProviderProps) {
       session: null,
       loading: false,
       error,
+      role: null,
+      roleLoading: false,
+      can: () => false,
       signOut: async () => {},
     }
 
@@ -0,0 +1,113 @@
+/**
+ * API Route Authorization
+ *
+ * Resolves the signed-in user's role and guards route handlers by permission.
+ *
+ * Usage:
+ * ```typescript
+ * const auth = await requirePermission('personnel:delete')
+ * if (!auth.authorized) return auth.response
+ * ```
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import type { User as AuthUser } from '@supabase/supabase-js'
+import { createClient } from '@/utils/supabase/server'
+import { db } from '@/lib/db'
+import type { AuditContext } from '@/lib/database.types'
+import { Permission, Role, hasPermission, normalizeRole } from '@/lib/permissions'
+
+export type AuthorizationResult =
+  | { authorized: true; user: AuthUser; role: Role }
+  | { authorized: false; response: NextResponse }
+
+/**
+ * Resolve the role of an authenticated user.
+ *
+ * The users table is the source of truth; app_metadata (which only the
+ * service role can write) covers accounts without a profile row, such as
+ * the demo user.
+ */
+export async function getUserRole(authUser: AuthUser): Promise<Role> {
+  if (authUser.email) {
+    try {
+      const profile = await db.findUserByEmail(authUser.email)
+      if (profile) {
+        return normalizeRole(profile.role)
+      }
+    } catch (error) {
+      console.error('[Authorization] Failed to load user role:', error)
+    }
+  }
+
+  return normalizeRole(authUser.app_metadata?.role)
+}
+
+/**
+ * Get the signed-in user and their role, or null when unauthenticated
+ */
+export async function getCurrentUser(): Promise<{ user: AuthUser; role: Role } | null> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return null
+  }
+
+  return { user, role: await getUserRole(user) }
+}
+
+/**
+ * Require the signed-in user to hold a permission.
+ * Responds 401 when unauthenticated and 403 when the role lacks it.
+ */
+export async function requirePermission(permission: Permission): Promise<AuthorizationResult> {
+  const current = await getCurrentUser()
+
+  if (!current) {
+    return {
+      authorized: false,
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  if (!hasPermission(current.role, permission)) {
+    return {
+      authorized: false,
+      response: NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+  }
+
+  return { authorized: true, user: current.user, role: current.role }
+}
+
+/**
+ * Whether a request comes from the job scheduler, i.e. carries the
+ * CRON_SECRET bearer token. Scheduled routes accept it in place of a session.
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  const header = request.headers.get('authorization')
+  if (!secret || !header?.startsWith('Bearer ')) {
+    return false
+  }
+
+  // Compare digests so the check takes the same time for any token length
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(header.slice('Bearer '.length)), digest(secret))
+}
+
+/**
+ * Build the audit context (actor, IP and user agent) for a mutation
+ */
+export function getAuditContext(request: Request, user: AuthUser | null): AuditContext {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+
+  return {
+    actorId: user?.id ?? null,
+    actorEmail: user?.email ?? null,
+    ipAddress: forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip'),
+    userAgent: request.headers.get('user-agent')
+  }
+}
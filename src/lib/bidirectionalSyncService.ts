@@ -18,7 +18,16 @@
  * @version 1.0.0
  */
 
-import { SupabaseMediaService, MediaAsset } from './supabaseMediaService'
+import { SupabaseMediaService, MediaAsset, MediaSyncCheckpoint, MediaSyncConflict } from './supabaseMediaService'
+import { dispatchNotification } from './notifier'
+import {
+  conflictingFields,
+  resolutionForRule,
+  SyncConflictField,
+  SyncConflictResolution,
+  SyncConflictRule,
+  SyncConflictSnapshot
+} from './mediaSyncConflicts'
 
 
 // Server-side Cloudinary import
@@ -48,7 +57,10 @@ export interface SyncResult {
   deleted_items: number
   errors: string[]
   duration_ms: number
+  // Set when the Cloudinary pass stopped with more pages left; a delta sync resumes from it
   last_cursor?: string
+  // Changed assets left for an admin to resolve instead of being overwritten
+  conflicts?: number
 }
 
 export interface SyncOptions {
@@ -69,6 +81,7 @@ export interface CloudinaryResource {
   format: string
   resource_type: string
   created_at: string
+  uploaded_at?: string
   bytes: number
   type: string
   etag?: string
@@ -79,6 +92,35 @@ export interface CloudinaryResource {
   original_filename?: string
 }
 
+export interface CloudinaryWebhookResource {
+  public_id: string
+  resource_type?: string
+  type?: string
+  added?: string[]
+  removed?: string[]
+}
+
+export interface CloudinaryWebhookNotification {
+  notification_type: string
+  timestamp?: string
+  public_id?: string
+  resource_type?: string
+  from_public_id?: string
+  to_public_id?: string
+  resources?: CloudinaryWebhookResource[]
+  [key: string]: unknown
+}
+
+export interface WebhookProcessResult {
+  success: boolean
+  event_id: string
+  notification_type: string
+  processed: string[]
+  skipped: string[]
+  errors: string[]
+  duration_ms: number
+}
+
 /**
  * Bidirectional Sync Service Class
  */
@@ -86,11 +128,20 @@ export class BidirectionalSyncService {
   private static readonly BATCH_SIZE = 100
   private static readonly MAX_RETRIES = 3
   private static readonly RETRY_DELAY = 1000 // 1 second
+  private static readonly WEBHOOK_SIGNATURE_VALIDITY = 7200 // 2 hours, in seconds
+  private static readonly DELTA_CHECKPOINT = 'cloudinary_delta'
+  private static readonly DELTA_PAGE_SIZE = 500
+  private static readonly DELTA_MAX_PAGES = 10 // per run, the rest is picked up by the next run
+  private static readonly DELTA_OVERLAP_MS = 5 * 60 * 1000 // 5 minutes, for resources indexed late by Cloudinary search
+  private static readonly VERIFY_PAGE_SIZE = 1000
 
   /**
-   * Verify sync integrity between Cloudinary and Supabase
+   * Verify sync integrity between Cloudinary and Supabase. Read-only unless
+   * recordConflicts is set, in which case differences that need an admin
+   * (the same ones a sync would keep for review) are saved as conflicts.
+   * Differences a sync would simply apply are reported without a conflict.
    */
-  static async verifySyncIntegrity(): Promise<{
+  static async verifySyncIntegrity({ recordConflicts = false }: { recordConflicts?: boolean } = {}): Promise<{
     success: boolean
     cloudinary_count: number
     database_count: number
@@ -99,6 +150,10 @@ export class BidirectionalSyncService {
     sync_conflicts: Array<{
       public_id: string
       issue: string
+      // Waits for an admin rather than being applied by the next sync
+      needs_review: boolean
+      conflict_id?: string
+      fields?: SyncConflictField[]
       cloudinary_data?: Partial<CloudinaryResource>
       database_data?: Partial<MediaAsset>
     }>
@@ -131,16 +186,25 @@ export class BidirectionalSyncService {
         next_cursor = result.next_cursor
       } while (next_cursor)
 
-      // Get all assets from database
-      const dbResult = await SupabaseMediaService.searchMediaAssets({
-        limit: 10000, // Get all assets
-        sort_by: 'created_at',
-        sort_order: 'desc'
-      })
-
+      // Get all assets from database, a page at a time
       const databaseAssets = new Map<string, MediaAsset>()
-      for (const asset of dbResult.assets) {
-        databaseAssets.set(asset.cloudinary_public_id, asset)
+      let page = 1
+      let has_next = true
+
+      while (has_next) {
+        const dbResult = await SupabaseMediaService.searchMediaAssets({
+          page,
+          limit: this.VERIFY_PAGE_SIZE,
+          sort_by: 'created_at',
+          sort_order: 'desc'
+        })
+
+        for (const asset of dbResult.assets) {
+          databaseAssets.set(asset.cloudinary_public_id, asset)
+        }
+
+        has_next = dbResult.has_next
+        page++
       }
 
       // Find discrepancies
@@ -149,6 +213,9 @@ export class BidirectionalSyncService {
       const sync_conflicts: Array<{
         public_id: string
         issue: string
+        needs_review: boolean
+        conflict_id?: string
+        fields?: SyncConflictField[]
         cloudinary_data?: Partial<CloudinaryResource>
         database_data?: Partial<MediaAsset>
       }> = []
@@ -162,9 +229,25 @@ export class BidirectionalSyncService {
         } else {
           // Check for sync conflicts
           if (this.hasResourceChanged(dbAsset, cloudinaryAsset)) {
+            const comparison = await this.compareWithDatabase(dbAsset, cloudinaryAsset)
+            if (comparison.fields.length === 0) {
+              continue
+            }
+
+            const needsReview = this.needsReview(dbAsset, comparison)
+            const conflict = needsReview && recordConflicts
+              ? await this.saveSyncConflict(dbAsset, comparison)
+              : comparison.open
             sync_conflicts.push({
               public_id: publicId,
-              issue: 'Version mismatch between Cloudinary and database',
+              issue: !needsReview
+                ? 'Changed in Cloudinary only; the next sync applies it'
+                : comparison.fields.includes('file')
+                  ? 'Version mismatch between Cloudinary and database'
+                  : 'Tags differ between Cloudinary and database',
+              needs_review: needsReview,
+              conflict_id: conflict?.id,
+              fields: comparison.fields,
               cloudinary_data: {
                 version: cloudinaryAsset.version,
                 signature: cloudinaryAsset.signature,
@@ -200,8 +283,16 @@ export class BidirectionalSyncService {
         recommendations.push(`${missing_in_cloudinary.length} assets found in database but missing in Cloudinary. These may be orphaned records.`)
       }
 
-      if (sync_conflicts.length > 0) {
-        recommendations.push(`${sync_conflicts.length} assets have version conflicts. Run sync to resolve them.`)
+      const inReview = sync_conflicts.filter(conflict => conflict.needs_review)
+      if (inReview.length > 0) {
+        recommendations.push(`${inReview.length} assets differ between Cloudinary and the database. Review them under Media → Sync Conflicts and choose which side wins.`)
+      }
+      const unrecorded = inReview.filter(conflict => !conflict.conflict_id).length
+      if (unrecorded > 0) {
+        recommendations.push(`${unrecorded} of them are not recorded as sync conflicts yet. Verify with POST to record them.`)
+      }
+      if (sync_conflicts.length > inReview.length) {
+        recommendations.push(`${sync_conflicts.length - inReview.length} assets changed in Cloudinary only. Run sync to apply the changes.`)
       }
 
       if (missing_in_database.length === 0 && missing_in_cloudinary.length === 0 && sync_conflicts.length === 0) {
@@ -237,8 +328,9 @@ export class BidirectionalSyncService {
 
   /**
    * Sync a single asset by public ID (for upload widget integration)
+   * @param deliveryType - Delivery type of the asset, e.g. authenticated personnel documents
    */
-  static async syncSingleAsset(publicId: string): Promise<SyncResult> {
+  static async syncSingleAsset(publicId: string, resourceType: string = 'auto', deliveryType: string = 'upload'): Promise<SyncResult> {
     const startTime = Date.now()
 
     try {
@@ -251,7 +343,8 @@ export class BidirectionalSyncService {
 
       // Fetch the specific resource from Cloudinary
       const resource = await cloudinaryInstance.api.resource(publicId, {
-        resource_type: 'auto'
+        resource_type: resourceType,
+        type: deliveryType
       })
 
       // Sync to database
@@ -285,6 +378,213 @@ export class BidirectionalSyncService {
     }
   }
 
+  /**
+   * Verify the X-Cld-Signature of a Cloudinary webhook notification
+   */
+  static async verifyWebhookSignature(body: string, timestamp: string | null, signature: string | null): Promise<boolean> {
+    if (!timestamp || !signature) {
+      return false
+    }
+
+    const cloudinaryInstance = await initCloudinary()
+    if (!cloudinaryInstance || !process.env.CLOUDINARY_API_SECRET) {
+      console.error('[BidirectionalSyncService] Cannot verify webhook signature: Cloudinary not configured')
+      return false
+    }
+
+    try {
+      return cloudinaryInstance.utils.verifyNotificationSignature(
+        body,
+        Number(timestamp),
+        signature,
+        this.WEBHOOK_SIGNATURE_VALIDITY
+      )
+    } catch (error) {
+      console.error('[BidirectionalSyncService] Webhook signature verification failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * Apply a verified Cloudinary webhook notification to the database.
+   *
+   * Every affected public ID is recorded in media_sync_log under the given
+   * event ID, so replayed deliveries skip the resources already applied and
+   * only retry the ones that failed.
+   */
+  static async processWebhookNotification(
+    notification: CloudinaryWebhookNotification,
+    eventId: string
+  ): Promise<WebhookProcessResult> {
+    const startTime = Date.now()
+    const processed: string[] = []
+    const skipped: string[] = []
+    const errors: string[] = []
+    const notificationType = notification.notification_type
+
+    console.log(`[BidirectionalSyncService] Processing webhook ${eventId}: ${notificationType}`)
+
+    const existingLogs = await SupabaseMediaService.getWebhookSyncLogs(eventId)
+    const appliedPublicIds = new Set(
+      existingLogs
+        .filter(log => log.status === 'synced')
+        .map(log => log.cloudinary_public_id)
+    )
+
+    const targets = this.getWebhookTargets(notification)
+
+    // Notifications the sync engine does not act on are still recorded once
+    if (targets.length === 0) {
+      if (existingLogs.length > 0) {
+        skipped.push(eventId)
+      } else {
+        await SupabaseMediaService.logSyncOperation({
+          operation: 'update',
+          status: 'synced',
+          cloudinary_public_id: notification.public_id || 'WEBHOOK_EVENT',
+          source: 'webhook',
+          operation_data: { ignored: true },
+          webhook_data: {
+            event_id: eventId,
+            notification_type: notificationType,
+            payload: notification
+          },
+          completed_at: new Date().toISOString()
+        })
+      }
+    }
+
+    for (const target of targets) {
+      if (appliedPublicIds.has(target.public_id)) {
+        skipped.push(target.public_id)
+        continue
+      }
+
+      const targetStart = Date.now()
+      const log = await SupabaseMediaService.logSyncOperation({
+        operation: target.operation,
+        status: 'pending',
+        cloudinary_public_id: target.public_id,
+        source: 'webhook',
+        webhook_data: {
+          event_id: eventId,
+          notification_type: notificationType,
+          payload: notification
+        }
+      })
+
+      try {
+        await this.applyWebhookTarget(notificationType, target)
+        processed.push(target.public_id)
+
+        await SupabaseMediaService.updateSyncLog(log.id, {
+          status: 'synced',
+          processing_time_ms: Date.now() - targetStart,
+          completed_at: new Date().toISOString()
+        })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        errors.push(`${target.public_id}: ${errorMessage}`)
+        console.error(`[BidirectionalSyncService] Webhook ${eventId} failed for ${target.public_id}:`, error)
+
+        await SupabaseMediaService.updateSyncLog(log.id, {
+          status: 'error',
+          error_message: errorMessage,
+          processing_time_ms: Date.now() - targetStart,
+          completed_at: new Date().toISOString()
+        })
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      event_id: eventId,
+      notification_type: notificationType,
+      processed,
+      skipped,
+      errors,
+      duration_ms: Date.now() - startTime
+    }
+  }
+
+  /**
+   * Resolve the public IDs a webhook notification affects
+   */
+  private static getWebhookTargets(notification: CloudinaryWebhookNotification): Array<{
+    public_id: string
+    resource_type: string
+    operation: 'upload' | 'delete' | 'update'
+    from_public_id?: string
+  }> {
+    switch (notification.notification_type) {
+      case 'upload':
+        return notification.public_id
+          ? [{
+              public_id: notification.public_id,
+              resource_type: notification.resource_type || 'image',
+              operation: 'upload'
+            }]
+          : []
+
+      case 'delete':
+        return (notification.resources || []).map(resource => ({
+          public_id: resource.public_id,
+          resource_type: resource.resource_type || 'image',
+          operation: 'delete' as const
+        }))
+
+      case 'rename':
+        return notification.from_public_id && notification.to_public_id
+          ? [{
+              public_id: notification.to_public_id,
+              resource_type: notification.resource_type || 'image',
+              operation: 'update',
+              from_public_id: notification.from_public_id
+            }]
+          : []
+
+      case 'resource_tags_changed':
+        return (notification.resources || []).map(resource => ({
+          public_id: resource.public_id,
+          resource_type: resource.resource_type || 'image',
+          operation: 'update' as const
+        }))
+
+      default:
+        return []
+    }
+  }
+
+  /**
+   * Apply a single webhook target to the database
+   */
+  private static async applyWebhookTarget(
+    notificationType: string,
+    target: { public_id: string; resource_type: string; from_public_id?: string }
+  ): Promise<void> {
+    if (notificationType === 'delete') {
+      // The file is gone, so there is nothing to keep in the trash for a restore
+      await SupabaseMediaService.hardDeleteMediaAsset(target.public_id)
+      await SupabaseMediaService.logSyncOperation({
+        operation: 'delete',
+        status: 'synced',
+        cloudinary_public_id: target.public_id,
+        source: 'webhook',
+        operation_data: { reason: 'deleted_in_cloudinary' }
+      })
+      return
+    }
+
+    if (notificationType === 'rename' && target.from_public_id) {
+      await SupabaseMediaService.renameMediaAsset(target.from_public_id, target.public_id)
+    }
+
+    const result = await this.syncSingleAsset(target.public_id, target.resource_type)
+    if (!result.success) {
+      throw new Error(result.errors.join('; '))
+    }
+  }
+
   /**
    * Perform complete bidirectional sync
    */
@@ -314,6 +614,11 @@ export class BidirectionalSyncService {
       // Step 1: Sync from Cloudinary to Database
       const cloudinaryToDbResult = await this.syncCloudinaryToDatabase(options, operationId)
 
+      // An unfiltered pass saw every resource, so delta syncs can start from here
+      if (cloudinaryToDbResult.success && !options.folder_filter && !options.resource_type_filter) {
+        await this.resetDeltaCheckpoint(new Date(startTime).toISOString())
+      }
+
       // Step 2: Starting Database → Cloudinary sync
       console.log(`[BidirectionalSyncService] ${operationId}: Starting Database → Cloudinary sync (${cloudinaryToDbResult.synced_items} items synced so far)`)
 
@@ -334,11 +639,12 @@ export class BidirectionalSyncService {
         deleted_items: cloudinaryToDbResult.deleted_items + dbToCloudinaryResult.deleted_items + cleanupResult.deleted_items,
         errors: [...cloudinaryToDbResult.errors, ...dbToCloudinaryResult.errors, ...cleanupResult.errors],
         duration_ms,
-        last_cursor: cloudinaryToDbResult.last_cursor
+        last_cursor: cloudinaryToDbResult.last_cursor,
+        conflicts: cloudinaryToDbResult.conflicts
       }
 
       // Complete sync operation
-      console.log(`[BidirectionalSyncService] ${operationId}: Sync ${result.success ? 'completed' : 'failed'}: ${result.synced_items} synced, ${result.updated_items} updated, ${result.deleted_items} deleted`)
+      console.log(`[BidirectionalSyncService] ${operationId}: Sync ${result.success ? 'completed' : 'failed'}: ${result.synced_items} synced, ${result.updated_items} updated, ${result.deleted_items} deleted, ${result.conflicts || 0} conflicts`)
 
       // Log sync completion (legacy)
       await SupabaseMediaService.logSyncOperation({
@@ -351,6 +657,10 @@ export class BidirectionalSyncService {
         error_message: result.errors.length > 0 ? result.errors.join('; ') : undefined
       })
 
+      if (!result.success) {
+        await this.notifySyncFailure(result.errors, operationId)
+      }
+
       console.log('[BidirectionalSyncService] Full sync completed:', result)
       return result
 
@@ -370,6 +680,8 @@ export class BidirectionalSyncService {
         error_message: errorMessage
       })
 
+      await this.notifySyncFailure([errorMessage], operationId)
+
       return {
         success: false,
         synced_items: 0,
@@ -381,6 +693,206 @@ export class BidirectionalSyncService {
     }
   }
 
+  /**
+   * Sync only what changed in Cloudinary since the last run. Resources are
+   * read in uploaded_at order from the stored high-water mark, a few pages
+   * per run; an unfinished run keeps its cursor and the next run resumes it.
+   * Pending database changes are then pushed to Cloudinary as in a full sync.
+   * Without a high-water mark this falls back to a full sync, which sets one.
+   *
+   * The high-water mark only moves past resources that synced: it stops
+   * before the first failure, so the next run retries from there.
+   *
+   * uploaded_at only moves on uploads and overwrites. Tag edits and deletions
+   * made in Cloudinary arrive through webhooks, and anything missed is
+   * caught by the scheduled full reconciliation.
+   */
+  static async performDeltaSync(): Promise<SyncResult> {
+    const startTime = Date.now()
+    const operationId = `delta_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    let synced_items = 0
+    let updated_items = 0
+    let conflicts = 0
+    const errors: string[] = []
+
+    try {
+      const checkpoint = await this.getDeltaCheckpoint()
+      if (!checkpoint?.high_water_mark) {
+        console.log('[BidirectionalSyncService] No delta sync checkpoint yet, running a full sync')
+        return await this.performFullSync()
+      }
+
+      const cloudinaryInstance = await initCloudinary()
+      if (!cloudinaryInstance) {
+        throw new Error('Cloudinary not available for sync operations')
+      }
+
+      console.log(`[BidirectionalSyncService] ${operationId}: Syncing Cloudinary changes since ${checkpoint.high_water_mark}${checkpoint.next_cursor ? ' (resuming)' : ''}`)
+
+      // The expression only depends on the committed high-water mark, so a stored cursor stays valid
+      const since = new Date(Date.parse(checkpoint.high_water_mark) - this.DELTA_OVERLAP_MS).toISOString()
+      const expression = `(resource_type:image OR resource_type:video) AND uploaded_at>="${since}"`
+
+      let next_cursor = checkpoint.next_cursor || undefined
+      let runHighWaterMark = checkpoint.run_high_water_mark || checkpoint.high_water_mark
+      let runFailedAt = checkpoint.run_failed_at
+      let pages = 0
+
+      do {
+        const result = await cloudinaryInstance.search
+          .expression(expression)
+          .sort_by('uploaded_at', 'asc')
+          .max_results(this.DELTA_PAGE_SIZE)
+          .next_cursor(next_cursor)
+          .execute()
+
+        for (const resource of result.resources as CloudinaryResource[]) {
+          const uploadedAt = resource.uploaded_at || resource.created_at
+          try {
+            const syncResult = await this.syncSingleResourceToDatabase(resource)
+            if (syncResult.created) {
+              synced_items++
+            } else if (syncResult.updated) {
+              updated_items++
+            } else if (syncResult.conflict) {
+              conflicts++
+            }
+
+            // Resources come oldest first, so after a failure the mark stays put
+            if (!runFailedAt && Date.parse(uploadedAt) > Date.parse(runHighWaterMark)) {
+              runHighWaterMark = uploadedAt
+            }
+          } catch (error) {
+            runFailedAt ||= uploadedAt
+            const errorMsg = `Failed to sync ${resource.public_id}: ${error}`
+            errors.push(errorMsg)
+            console.error('[BidirectionalSyncService]', errorMsg)
+          }
+        }
+
+        next_cursor = result.next_cursor
+        pages++
+
+        await SupabaseMediaService.saveSyncCheckpoint(this.DELTA_CHECKPOINT, {
+          next_cursor: next_cursor || null,
+          run_high_water_mark: runHighWaterMark,
+          run_failed_at: runFailedAt
+        })
+      } while (next_cursor && pages < this.DELTA_MAX_PAGES)
+
+      if (!next_cursor) {
+        await SupabaseMediaService.saveSyncCheckpoint(this.DELTA_CHECKPOINT, {
+          high_water_mark: runHighWaterMark,
+          next_cursor: null,
+          run_high_water_mark: null,
+          run_failed_at: null,
+          last_delta_sync_at: new Date().toISOString()
+        })
+      }
+
+      const dbToCloudinaryResult = await this.syncDatabaseToCloudinary({}, operationId)
+
+      const duration_ms = Date.now() - startTime
+      const result: SyncResult = {
+        success: errors.length === 0 && dbToCloudinaryResult.success,
+        synced_items: synced_items + dbToCloudinaryResult.synced_items,
+        updated_items: updated_items + dbToCloudinaryResult.updated_items,
+        deleted_items: dbToCloudinaryResult.deleted_items,
+        errors: [...errors, ...dbToCloudinaryResult.errors],
+        duration_ms,
+        last_cursor: next_cursor,
+        conflicts
+      }
+
+      console.log(`[BidirectionalSyncService] ${operationId}: Delta sync ${result.success ? 'completed' : 'failed'}: ${result.synced_items} synced, ${result.updated_items} updated, ${result.deleted_items} deleted, ${conflicts} conflicts${next_cursor ? ', more pages left' : ''}`)
+
+      await SupabaseMediaService.logSyncOperation({
+        operation: 'update',
+        status: result.success ? 'synced' : 'error',
+        cloudinary_public_id: 'DELTA_SYNC',
+        source: 'admin',
+        processing_time_ms: duration_ms,
+        operation_data: { ...result as unknown as Record<string, unknown>, sync_type: 'delta', operation_id: operationId },
+        error_message: result.errors.length > 0 ? result.errors.join('; ') : undefined
+      })
+
+      if (!result.success) {
+        await this.notifySyncFailure(result.errors, operationId)
+      }
+
+      return result
+
+    } catch (error) {
+      const duration_ms = Date.now() - startTime
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+
+      console.error('[BidirectionalSyncService] Delta sync failed:', error)
+
+      await SupabaseMediaService.logSyncOperation({
+        operation: 'update',
+        status: 'error',
+        cloudinary_public_id: 'DELTA_SYNC',
+        source: 'admin',
+        processing_time_ms: duration_ms,
+        error_message: errorMessage
+      })
+
+      await this.notifySyncFailure([errorMessage], operationId)
+
+      return {
+        success: false,
+        synced_items,
+        updated_items,
+        deleted_items: 0,
+        errors: [...errors, errorMessage],
+        duration_ms,
+        conflicts
+      }
+    }
+  }
+
+  /**
+   * Where the delta sync left off
+   */
+  static async getDeltaCheckpoint(): Promise<MediaSyncCheckpoint | null> {
+    return SupabaseMediaService.getSyncCheckpoint(this.DELTA_CHECKPOINT)
+  }
+
+  /**
+   * Start delta syncs over from a point every resource has been synced up to.
+   * A failure here only costs the next delta sync some extra pages.
+   */
+  private static async resetDeltaCheckpoint(highWaterMark: string): Promise<void> {
+    try {
+      await SupabaseMediaService.saveSyncCheckpoint(this.DELTA_CHECKPOINT, {
+        high_water_mark: highWaterMark,
+        next_cursor: null,
+        run_high_water_mark: null,
+        run_failed_at: null,
+        last_full_sync_at: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('[BidirectionalSyncService] Failed to reset delta sync checkpoint:', error)
+    }
+  }
+
+  /**
+   * Tell system managers that a sync failed
+   */
+  private static async notifySyncFailure(errors: string[], operationId: string | null): Promise<void> {
+    await dispatchNotification('media.sync_failed', {
+      title: 'Media sync failed',
+      message: errors.length > 1
+        ? `${errors[0]} (and ${errors.length - 1} more error${errors.length === 2 ? '' : 's'})`
+        : errors[0] || 'The Cloudinary sync did not complete',
+      type: 'error',
+      priority: 'high',
+      category: 'sync',
+      link: '/admin/media',
+      metadata: { operation_id: operationId, errors: errors.slice(0, 20) }
+    })
+  }
+
   /**
    * Sync from Cloudinary to Database
    */
@@ -395,6 +907,7 @@ export class BidirectionalSyncService {
     let synced_items = 0
     let updated_items = 0
     const deleted_items = 0
+    let conflicts = 0
     const errors: string[] = []
     let next_cursor: string | undefined
     let last_cursor: string | undefined
@@ -431,6 +944,8 @@ export class BidirectionalSyncService {
                 synced_items++
               } else if (syncResult.updated) {
                 updated_items++
+              } else if (syncResult.conflict) {
+                conflicts++
               }
             } catch (error) {
               const errorMsg = `Failed to sync ${resource.public_id}: ${error}`
@@ -461,7 +976,8 @@ export class BidirectionalSyncService {
         deleted_items,
         errors,
         duration_ms,
-        last_cursor
+        last_cursor,
+        conflicts
       }
 
     } catch (error) {
@@ -474,22 +990,42 @@ export class BidirectionalSyncService {
         updated_items,
         deleted_items,
         errors: [...errors, errorMessage],
-        duration_ms
+        duration_ms,
+        conflicts
       }
     }
   }
 
   /**
-   * Sync single Cloudinary resource to database
+   * Sync single Cloudinary resource to database. A changed asset is only
+   * overwritten when Cloudinary alone changed; when the database also has
+   * unsynced edits, or an admin is already reviewing the asset, the
+   * difference is kept as a conflict instead.
    */
   private static async syncSingleResourceToDatabase(resource: CloudinaryResource): Promise<{
     created: boolean
     updated: boolean
+    conflict: boolean
   }> {
     try {
       // Check if asset exists in database
       const existingAsset = await SupabaseMediaService.getMediaAssetByPublicId(resource.public_id)
-      
+      let keepDatabaseFile = false
+
+      if (existingAsset && this.hasResourceChanged(existingAsset, resource)) {
+        const comparison = await this.compareWithDatabase(existingAsset, resource)
+        if (comparison.fields.length === 0) {
+          // The only difference is a file an admin chose not to take
+          return { created: false, updated: false, conflict: false }
+        }
+        if (this.needsReview(existingAsset, comparison)) {
+          await this.saveSyncConflict(existingAsset, comparison)
+          console.log(`[BidirectionalSyncService] Conflict kept for review: ${resource.public_id} (${comparison.fields.join(', ')})`)
+          return { created: false, updated: false, conflict: true }
+        }
+        keepDatabaseFile = comparison.fileKept
+      }
+
       // Convert Cloudinary resource to MediaAsset format
       const mediaAsset: Partial<MediaAsset> = {
         cloudinary_public_id: resource.public_id,
@@ -508,7 +1044,8 @@ export class BidirectionalSyncService {
         url: resource.url,
         resource_type: resource.resource_type as 'image' | 'video' | 'raw',
         cloudinary_created_at: resource.created_at,
-        sync_status: 'synced'
+        sync_status: 'synced',
+        ...(keepDatabaseFile && existingAsset ? this.databaseFileColumns(existingAsset) : {})
       }
 
       // Determine if this is a create or update
@@ -535,7 +1072,8 @@ export class BidirectionalSyncService {
 
       return {
         created: !isUpdate && hasChanges,
-        updated: isUpdate && hasChanges
+        updated: isUpdate && hasChanges,
+        conflict: false
       }
 
     } catch (error) {
@@ -556,6 +1094,243 @@ export class BidirectionalSyncService {
     )
   }
 
+  /**
+   * Compare an asset in both places, taking earlier resolutions into account
+   */
+  private static async compareWithDatabase(dbAsset: MediaAsset, resource: CloudinaryResource): Promise<{
+    cloudinaryData: SyncConflictSnapshot
+    databaseData: SyncConflictSnapshot
+    // Fields still to be resolved
+    fields: SyncConflictField[]
+    // An admin already kept the database's record over this exact Cloudinary file
+    fileKept: boolean
+    open: MediaSyncConflict | null
+  }> {
+    const { open, lastResolved } = await SupabaseMediaService.getAssetSyncConflicts(dbAsset.id)
+    const cloudinaryData = this.cloudinarySnapshot(resource)
+    const databaseData = this.databaseSnapshot(dbAsset)
+
+    const fileKept = lastResolved?.resolution?.file === 'database' &&
+      lastResolved.cloudinary_data.version === cloudinaryData.version &&
+      lastResolved.cloudinary_data.signature === cloudinaryData.signature
+
+    return {
+      cloudinaryData,
+      databaseData,
+      fields: conflictingFields(cloudinaryData, databaseData).filter(field => !(field === 'file' && fileKept)),
+      fileKept,
+      open
+    }
+  }
+
+  /**
+   * Whether a difference has to wait for an admin instead of being applied:
+   * the database also has unsynced edits, or the asset is already in review
+   */
+  private static needsReview(
+    dbAsset: MediaAsset,
+    comparison: Awaited<ReturnType<typeof BidirectionalSyncService.compareWithDatabase>>
+  ): boolean {
+    return !!comparison.open || dbAsset.sync_status !== 'synced'
+  }
+
+  /**
+   * Record a conflict, or refresh the asset's open one with the latest values
+   */
+  private static async saveSyncConflict(
+    dbAsset: MediaAsset,
+    comparison: Awaited<ReturnType<typeof BidirectionalSyncService.compareWithDatabase>>
+  ): Promise<MediaSyncConflict> {
+    return SupabaseMediaService.saveSyncConflict({
+      media_asset_id: dbAsset.id,
+      cloudinary_public_id: dbAsset.cloudinary_public_id,
+      fields: comparison.fields,
+      cloudinary_data: comparison.cloudinaryData,
+      database_data: comparison.databaseData
+    }, comparison.open?.id)
+  }
+
+  /**
+   * Resolve a conflict by taking each field from the side chosen for it.
+   * Applied against the current Cloudinary resource, which may have changed
+   * again since the conflict was detected.
+   */
+  static async resolveSyncConflict(
+    conflict: MediaSyncConflict,
+    resolution: SyncConflictResolution,
+    resolvedBy?: string
+  ): Promise<MediaSyncConflict> {
+    const unresolved = conflict.fields.filter(field => !resolution[field])
+    if (unresolved.length > 0) {
+      throw new Error(`Choose which side wins for: ${unresolved.join(', ')}`)
+    }
+
+    const cloudinaryInstance = await initCloudinary()
+    if (!cloudinaryInstance) {
+      throw new Error('Cloudinary not available for conflict resolution')
+    }
+
+    const asset = await SupabaseMediaService.getMediaAssetByPublicId(conflict.cloudinary_public_id)
+    if (!asset) {
+      throw new Error('Media asset no longer exists')
+    }
+
+    const resource: CloudinaryResource = await cloudinaryInstance.api.resource(asset.cloudinary_public_id, {
+      resource_type: asset.resource_type
+    })
+
+    // Every field has a side now, so the asset is in step and the next sync
+    // neither re-raises the conflict nor pushes the losing database values
+    const updates: Partial<MediaAsset> = {
+      sync_status: 'synced',
+      last_synced_at: new Date().toISOString()
+    }
+    if (resolution.file === 'cloudinary') {
+      Object.assign(updates, this.cloudinaryFileColumns(resource))
+    }
+    if (resolution.tags === 'cloudinary') {
+      updates.tags = resource.tags || []
+    } else if (resolution.tags === 'database') {
+      // Replaces the resource's tags rather than adding to them
+      await cloudinaryInstance.api.update(asset.cloudinary_public_id, {
+        resource_type: asset.resource_type,
+        tags: asset.tags
+      })
+    }
+
+    await SupabaseMediaService.updateMediaAsset(asset.cloudinary_public_id, updates)
+    const resolved = await SupabaseMediaService.markSyncConflictResolved(
+      conflict.id,
+      resolution,
+      resolvedBy,
+      this.cloudinarySnapshot(resource)
+    )
+
+    await SupabaseMediaService.logSyncOperation({
+      operation: 'update',
+      status: 'synced',
+      media_asset_id: asset.id,
+      cloudinary_public_id: asset.cloudinary_public_id,
+      source: 'admin',
+      triggered_by: resolvedBy,
+      operation_data: { conflict_id: conflict.id, resolution }
+    })
+
+    console.log(`[BidirectionalSyncService] Resolved conflict for ${asset.cloudinary_public_id}:`, resolution)
+    return resolved
+  }
+
+  /**
+   * Resolve open conflicts with a rule
+   * @param conflictIds - Conflicts to resolve; all open conflicts (up to 500) when not given
+   */
+  static async resolveSyncConflictsByRule(
+    rule: SyncConflictRule,
+    conflictIds?: string[],
+    resolvedBy?: string
+  ): Promise<{ resolved: MediaSyncConflict[]; failed: { id: string; error: string }[] }> {
+    const resolved: MediaSyncConflict[] = []
+    const failed: { id: string; error: string }[] = []
+
+    let conflicts: MediaSyncConflict[]
+    if (conflictIds) {
+      conflicts = []
+      for (const id of conflictIds) {
+        const conflict = await SupabaseMediaService.getSyncConflict(id)
+        if (conflict?.status === 'open') {
+          conflicts.push(conflict)
+        } else {
+          failed.push({ id, error: conflict ? 'Conflict is already resolved' : 'Conflict not found' })
+        }
+      }
+    } else {
+      conflicts = (await SupabaseMediaService.getSyncConflicts({ status: 'open', limit: 500 })).conflicts
+    }
+
+    for (const conflict of conflicts) {
+      try {
+        resolved.push(await this.resolveSyncConflict(conflict, resolutionForRule(conflict.fields, rule), resolvedBy))
+      } catch (error) {
+        console.error(`[BidirectionalSyncService] Failed to resolve conflict ${conflict.id}:`, error)
+        failed.push({ id: conflict.id, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    return { resolved, failed }
+  }
+
+  /**
+   * A Cloudinary resource as one side of a conflict
+   */
+  private static cloudinarySnapshot(resource: CloudinaryResource): SyncConflictSnapshot {
+    return {
+      version: resource.version,
+      signature: resource.signature,
+      bytes: resource.bytes,
+      width: resource.width ?? null,
+      height: resource.height ?? null,
+      format: resource.format,
+      etag: resource.etag ?? null,
+      secure_url: resource.secure_url,
+      url: resource.url,
+      tags: resource.tags || []
+    }
+  }
+
+  /**
+   * A database row as one side of a conflict
+   */
+  private static databaseSnapshot(asset: MediaAsset): SyncConflictSnapshot {
+    return {
+      version: asset.cloudinary_version,
+      signature: asset.cloudinary_signature,
+      bytes: asset.file_size,
+      width: asset.width ?? null,
+      height: asset.height ?? null,
+      format: asset.format,
+      etag: asset.cloudinary_etag ?? null,
+      secure_url: asset.secure_url,
+      url: asset.url,
+      tags: asset.tags || []
+    }
+  }
+
+  /**
+   * The columns that describe the file itself, from Cloudinary
+   */
+  private static cloudinaryFileColumns(resource: CloudinaryResource): Partial<MediaAsset> {
+    return {
+      cloudinary_version: resource.version,
+      cloudinary_signature: resource.signature,
+      cloudinary_etag: resource.etag,
+      file_size: resource.bytes,
+      mime_type: this.getMimeTypeFromFormat(resource.format, resource.resource_type),
+      format: resource.format,
+      width: resource.width,
+      height: resource.height,
+      secure_url: resource.secure_url,
+      url: resource.url
+    }
+  }
+
+  /**
+   * The columns that describe the file itself, as the database has them
+   */
+  private static databaseFileColumns(asset: MediaAsset): Partial<MediaAsset> {
+    return {
+      cloudinary_version: asset.cloudinary_version,
+      cloudinary_signature: asset.cloudinary_signature,
+      cloudinary_etag: asset.cloudinary_etag,
+      file_size: asset.file_size,
+      mime_type: asset.mime_type,
+      format: asset.format,
+      width: asset.width,
+      height: asset.height,
+      secure_url: asset.secure_url,
+      url: asset.url
+    }
+  }
+
   /**
    * Get MIME type from Cloudinary format and resource type
    */
@@ -741,8 +1516,15 @@ export class BidirectionalSyncService {
           const exists = await this.checkAssetExistsInCloudinary(asset.cloudinary_public_id, asset.resource_type)
 
           if (!exists) {
-            // Asset doesn't exist in Cloudinary, soft delete from database
-            await SupabaseMediaService.softDeleteMediaAsset(asset.cloudinary_public_id, 'system')
+            // Asset doesn't exist in Cloudinary; remove the record rather than trash a row with no file to restore
+            await SupabaseMediaService.hardDeleteMediaAsset(asset.cloudinary_public_id)
+            await SupabaseMediaService.logSyncOperation({
+              operation: 'delete',
+              status: 'synced',
+              cloudinary_public_id: asset.cloudinary_public_id,
+              source: 'admin',
+              operation_data: { reason: 'missing_in_cloudinary' }
+            })
             deleted_items++
 
             console.log(`[BidirectionalSyncService] Cleaned up orphaned record: ${asset.cloudinary_public_id}`)
@@ -0,0 +1,64 @@
+/**
+ * Calendar Feed Tokens (server-side only)
+ *
+ * Each user can hold one secret token that lets calendar apps subscribe to
+ * GET /api/events/feed/<token>.ics without a session. Only the SHA-256 hash
+ * is stored, and the token still resolves to the user's current role so a
+ * demoted or removed account stops receiving the feed.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { User as AuthUser } from '@supabase/supabase-js'
+import { supabaseAdmin } from '@/lib/supabase'
+import { db } from '@/lib/db'
+import { getUserRole } from '@/lib/authorization'
+import { hasPermission } from '@/lib/permissions'
+
+/**
+ * Hash a feed token for storage and lookup
+ */
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Issue a new feed token for a user, revoking any previous one
+ * @param userId - Supabase auth user ID
+ * @returns The plain token; it cannot be recovered later
+ */
+export async function issueFeedToken(userId: string): Promise<string> {
+  const token = randomBytes(32).toString('base64url')
+  await db.saveCalendarFeedToken(userId, hashFeedToken(token))
+  return token
+}
+
+/**
+ * Resolve a feed token to the user it belongs to
+ * @param token - Token from the feed URL
+ * @returns The user, or null when the token is unknown or the user may no longer view events
+ */
+export async function resolveFeedToken(token: string): Promise<AuthUser | null> {
+  const record = await db.findCalendarFeedTokenByHash(hashFeedToken(token))
+  if (!record) {
+    return null
+  }
+
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(record.user_id)
+  if (error || !data.user) {
+    console.warn('[CalendarFeed] Token belongs to a missing user:', record.user_id)
+    return null
+  }
+
+  const role = await getUserRole(data.user)
+  if (!hasPermission(role, 'events:view')) {
+    return null
+  }
+
+  try {
+    await db.touchCalendarFeedToken(record.id)
+  } catch (error) {
+    console.error('[CalendarFeed] Failed to record feed access:', error)
+  }
+
+  return data.user
+}
@@ -85,6 +85,7 @@ export interface CloudinaryUploadOptions {
   tags?: string[]
   transformation?: Record<string, unknown>[]
   resource_type?: 'image' | 'video' | 'raw' | 'auto'
+  type?: 'upload' | 'authenticated' | 'private'
   format?: string
   quality?: string | number
   width?: number
@@ -170,11 +171,13 @@ export async function uploadToCloudinary(
  * Delete a file from Cloudinary (server-side only)
  * @param publicId - Public ID of the file to delete
  * @param resourceType - Type of resource (image, video, raw)
+ * @param deliveryType - Delivery type the file was uploaded with
  * @returns Promise<any>
  */
 export async function deleteFromCloudinary(
   publicId: string,
-  resourceType: 'image' | 'video' | 'raw' = 'image'
+  resourceType: 'image' | 'video' | 'raw' = 'image',
+  deliveryType: string = 'upload'
 ): Promise<Record<string, unknown>> {
   const cloudinaryInstance = await initCloudinary()
   if (!cloudinaryInstance) {
@@ -185,7 +188,8 @@ export async function deleteFromCloudinary(
     console.log('[Cloudinary] Deleting file:', publicId)
 
     const result = await cloudinaryInstance.uploader.destroy(publicId, {
-      resource_type: resourceType
+      resource_type: resourceType,
+      type: deliveryType
     })
 
     console.log('[Cloudinary] Delete result:', result)
@@ -224,6 +228,35 @@ export async function generateCloudinaryUrl(
   }
 }
 
+/**
+ * Generate a short-lived signed download URL for an authenticated or private
+ * file (server-side only)
+ * @param publicId - Public ID of the file
+ * @param resourceType - Type of resource (image, video, raw)
+ * @param deliveryType - Delivery type the file was uploaded with
+ * @param format - File extension; ignored for raw files, whose public ID carries it
+ * @param expiresInSeconds - How long the URL stays valid
+ * @returns string - Signed Cloudinary download URL
+ */
+export async function generateSignedDownloadUrl(
+  publicId: string,
+  resourceType: 'image' | 'video' | 'raw',
+  deliveryType: string,
+  format: string = '',
+  expiresInSeconds: number = 60
+): Promise<string> {
+  const cloudinaryInstance = await initCloudinary()
+  if (!cloudinaryInstance) {
+    throw new Error('Cloudinary is not available. This function can only be used server-side.')
+  }
+
+  return cloudinaryInstance.utils.private_download_url(publicId, resourceType === 'raw' ? '' : format, {
+    resource_type: resourceType,
+    type: deliveryType,
+    expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds
+  })
+}
+
 /**
  * Get optimized image URL for different use cases
  */
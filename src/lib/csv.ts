@@ -0,0 +1,100 @@
+/**
+ * CSV Utilities
+ *
+ * Minimal RFC 4180 reader/writer shared by the import/export routes and the
+ * browser-side report downloads. Safe to use on both server and client.
+ */
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Stop spreadsheet apps from evaluating user-supplied text as a formula by
+ * prefixing values that start with =, +, -, @, tab or CR with a quote.
+ */
+export function neutralizeFormula(text: string): string {
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text
+}
+
+/**
+ * Escape a single value as a quoted CSV field.
+ * Objects are serialised as JSON so nested data survives the round trip, and
+ * text that would run as a formula is neutralised.
+ */
+export function escapeCsvValue(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ''
+    : typeof value === 'string'
+      ? neutralizeFormula(value)
+      : value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value)
+
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [
+    header.map(escapeCsvValue).join(','),
+    ...rows.map(row => row.map(escapeCsvValue).join(','))
+  ].join('\n')
+}
+
+/**
+ * Parse a CSV document into rows of raw string cells.
+ * Handles quoted fields, escaped quotes, embedded newlines, CRLF line
+ * endings and a leading byte-order mark. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  const endRow = () => {
+    row.push(field)
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row)
+    }
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
@@ -5,7 +5,9 @@
  */
 
 import { SupabaseService } from './supabaseService'
-import { User, Personnel, PersonnelDocument } from './database.types'
+import { trackProfilePhoto, trackPersonnelDocument, releaseUsageByReference, PERSONNEL_REFERENCE, DOCUMENT_REFERENCE } from './mediaUsage'
+import type { PersonnelFilterGroup } from './personnelFilter'
+import { User, Personnel, PersonnelInsert, PersonnelDocument, PersonnelDocumentInsert, PersonnelDocumentUpdate, Department, DepartmentInsert, DepartmentWithStats, AuditLog, AuditEntityType, AuditContext, Json, UserSort, CalendarEvent, CalendarEventInsert, CalendarEventUpdate, CalendarEventWithAttendees, EventAttendeeDetail, CalendarFeedToken, SearchEntityType, SearchResultRow, SavedFilter, SavedFilterInsert, SavedFilterUpdate, SavedFilterListType, Notification, NotificationInsert, NotificationType, NotificationPreferences, NotificationPreferencesInsert, DigestRun, DigestRunInsert, DigestRunUpdate, ExpiringDocument, SyncOperation, EmailOutbox, EmailOutboxInsert, EmailOutboxUpdate, EmailOutboxStatus, EmailTemplate, EmailTemplateInsert, EditableEmailTemplateKey, EmailLanguage, SmsMessage, SmsMessageInsert, SmsStatus, SmsOptOut, SmsOptOutInsert } from './database.types'
 
 /**
  * Main Database Service Class
@@ -31,6 +33,20 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Find the roles and statuses of several users at once
+   * @param emails - Email addresses to look up
+   * @returns Matching users' email, name, phone, role and status
+   */
+  static async findUserRolesByEmails(emails: string[]): Promise<Pick<User, 'email' | 'name' | 'phone' | 'role' | 'status'>[]> {
+    try {
+      return await SupabaseService.findUserRolesByEmails(emails)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findUserRolesByEmails:', error)
+      throw error
+    }
+  }
+
   /**
    * Find user by ID
    * @param id - User's ID
@@ -48,6 +64,7 @@ export class DatabaseService {
   /**
    * Create a new user
    * @param userData - User data to insert (without id, created_at, updated_at)
+   * @param audit - Actor and request details for the audit log
    * @returns Created user object
    */
   static async createUser(userData: {
@@ -58,9 +75,11 @@ export class DatabaseService {
     address?: string | null
     role?: string
     status?: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED'
-  }): Promise<User> {
+  }, audit?: AuditContext): Promise<User> {
     try {
-      return await SupabaseService.createUser(userData)
+      const user = await SupabaseService.createUser(userData)
+      await this.recordAudit('create', 'user', user.id, user.email, null, user, audit)
+      return user
     } catch (error) {
       console.error('[DatabaseService] Error in createUser:', error)
       throw error
@@ -71,11 +90,17 @@ export class DatabaseService {
    * Update user data
    * @param id - User ID to update
    * @param userData - Partial user data to update
+   * @param audit - Actor and request details for the audit log
    * @returns Updated user object or null if not found
    */
-  static async updateUser(id: number, userData: Partial<User>): Promise<User | null> {
+  static async updateUser(id: number, userData: Partial<User>, audit?: AuditContext): Promise<User | null> {
     try {
-      return await SupabaseService.updateUser(id, userData)
+      const before = await SupabaseService.findUserById(id)
+      const user = await SupabaseService.updateUser(id, userData)
+      if (user) {
+        await this.recordAudit('update', 'user', id, user.email, before, user, audit)
+      }
+      return user
     } catch (error) {
       console.error('[DatabaseService] Error in updateUser:', error)
       throw error
@@ -85,11 +110,17 @@ export class DatabaseService {
   /**
    * Delete user by ID
    * @param id - User ID to delete
+   * @param audit - Actor and request details for the audit log
    * @returns True if deleted successfully
    */
-  static async deleteUser(id: number): Promise<boolean> {
+  static async deleteUser(id: number, audit?: AuditContext): Promise<boolean> {
     try {
-      return await SupabaseService.deleteUser(id)
+      const before = await SupabaseService.findUserById(id)
+      const deleted = await SupabaseService.deleteUser(id)
+      if (deleted && before) {
+        await this.recordAudit('delete', 'user', id, before.email, before, null, audit)
+      }
+      return deleted
     } catch (error) {
       console.error('[DatabaseService] Error in deleteUser:', error)
       throw error
@@ -97,16 +128,26 @@ export class DatabaseService {
   }
 
   /**
-   * Get all users with optional filtering
+   * Get users with pagination, filtering and sorting
    * @param options - Query options
-   * @returns Array of users
+   * @returns Paginated users with an exact total count
    */
   static async getAllUsers(options?: {
     page?: number
     limit?: number
     search?: string
     status?: string
-  }): Promise<User[]> {
+    role?: string
+    sort?: UserSort
+  }): Promise<{
+    data: User[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      pages: number
+    }
+  }> {
     try {
       return await SupabaseService.getAllUsers(options)
     } catch (error) {
@@ -150,6 +191,7 @@ export class DatabaseService {
   /**
    * Create new personnel record
    * @param personnelData - Personnel data to insert (without id, created_at, updated_at)
+   * @param audit - Actor and request details for the audit log
    * @returns Created personnel object
    */
   static async createPersonnel(personnelData: {
@@ -168,24 +210,61 @@ export class DatabaseService {
     children_count?: string | null
     emergency_contact?: string | null
     children_names?: string | null
-  }): Promise<Personnel> {
+  }, audit?: AuditContext): Promise<Personnel> {
     try {
-      return await SupabaseService.createPersonnel(personnelData)
+      const personnel = await SupabaseService.createPersonnel(personnelData)
+      await this.recordAudit('create', 'personnel', personnel.id, personnel.name, null, personnel, audit)
+      if (personnel.profile_photo) {
+        await trackProfilePhoto(personnel)
+      }
+      return personnel
     } catch (error) {
       console.error('[DatabaseService] Error in createPersonnel:', error)
       throw error
     }
   }
 
+  /**
+   * Create many personnel records atomically (used by the bulk importer)
+   * @param personnelData - Personnel rows to insert
+   * @param audit - Actor and request details for the audit log
+   * @returns Created personnel objects
+   */
+  static async createPersonnelBatch(personnelData: Omit<PersonnelInsert, 'id' | 'created_at' | 'updated_at'>[], audit?: AuditContext): Promise<Personnel[]> {
+    try {
+      const created = await SupabaseService.createPersonnelBatch(personnelData)
+      await Promise.all(created.map(personnel =>
+        this.recordAudit('create', 'personnel', personnel.id, personnel.name, null, personnel, audit)
+      ))
+      for (const personnel of created.filter(personnel => personnel.profile_photo)) {
+        await trackProfilePhoto(personnel)
+      }
+      return created
+    } catch (error) {
+      console.error('[DatabaseService] Error in createPersonnelBatch:', error)
+      throw error
+    }
+  }
+
   /**
    * Update personnel data
    * @param id - Personnel ID to update
    * @param personnelData - Partial personnel data to update
+   * @param audit - Actor and request details for the audit log
    * @returns Updated personnel object or null if not found
    */
-  static async updatePersonnel(id: number, personnelData: Partial<Personnel>): Promise<Personnel | null> {
+  static async updatePersonnel(id: number, personnelData: Partial<Personnel>, audit?: AuditContext): Promise<Personnel | null> {
     try {
-      return await SupabaseService.updatePersonnel(id, personnelData)
+      const before = await SupabaseService.findPersonnelById(id)
+      const personnel = await SupabaseService.updatePersonnel(id, personnelData)
+      if (personnel) {
+        await this.recordAudit('update', 'personnel', id, personnel.name, before, personnel, audit)
+        // A new photo moves the usage; a new name refreshes its label
+        if (personnel.profile_photo !== before?.profile_photo || personnel.name !== before?.name) {
+          await trackProfilePhoto(personnel)
+        }
+      }
+      return personnel
     } catch (error) {
       console.error('[DatabaseService] Error in updatePersonnel:', error)
       throw error
@@ -195,11 +274,23 @@ export class DatabaseService {
   /**
    * Delete personnel by ID
    * @param id - Personnel ID to delete
+   * @param audit - Actor and request details for the audit log
    * @returns True if deleted successfully
    */
-  static async deletePersonnel(id: number): Promise<boolean> {
+  static async deletePersonnel(id: number, audit?: AuditContext): Promise<boolean> {
     try {
-      return await SupabaseService.deletePersonnel(id)
+      const before = await SupabaseService.findPersonnelById(id)
+      // Documents go with the personnel record, so their usages are released too
+      const documents = before ? await SupabaseService.getPersonnelDocuments(id) : []
+      const deleted = await SupabaseService.deletePersonnel(id)
+      if (deleted && before) {
+        await this.recordAudit('delete', 'personnel', id, before.name, before, null, audit)
+        await releaseUsageByReference(PERSONNEL_REFERENCE, id)
+        for (const document of documents) {
+          await releaseUsageByReference(DOCUMENT_REFERENCE, document.id)
+        }
+      }
+      return deleted
     } catch (error) {
       console.error('[DatabaseService] Error in deletePersonnel:', error)
       throw error
@@ -221,6 +312,7 @@ export class DatabaseService {
       department?: string
       status?: string
       sort?: 'id_asc' | 'id_desc' | 'name_asc' | 'name_desc'
+      filter?: PersonnelFilterGroup
     }
   ): Promise<{
     data: Personnel[]
@@ -243,6 +335,20 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Find personnel by a list of IDs
+   * @param ids - Personnel IDs
+   * @returns Matching personnel (missing IDs are skipped)
+   */
+  static async findPersonnelByIds(ids: number[]): Promise<Personnel[]> {
+    try {
+      return await SupabaseService.findPersonnelByIds(ids)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findPersonnelByIds:', error)
+      throw error
+    }
+  }
+
   // =====================================================
   // PERSONNEL DOCUMENTS OPERATIONS
   // =====================================================
@@ -264,17 +370,1210 @@ export class DatabaseService {
   /**
    * Create a new personnel document
    * @param documentData - Document data to insert (without id, created_at, updated_at)
+   * @param audit - Actor and request details for the audit log
    * @returns Created document object
    */
-  static async createPersonnelDocument(documentData: Omit<PersonnelDocument, 'id' | 'created_at' | 'updated_at'>): Promise<PersonnelDocument> {
+  static async createPersonnelDocument(documentData: Omit<PersonnelDocumentInsert, 'id' | 'created_at' | 'updated_at'>, audit?: AuditContext): Promise<PersonnelDocument> {
     try {
-      return await SupabaseService.createPersonnelDocument(documentData)
+      const document = await SupabaseService.createPersonnelDocument(documentData)
+      await this.recordAudit('create', 'personnel_document', document.id, document.original_name, null, document, audit)
+      await trackPersonnelDocument(document)
+      return document
     } catch (error) {
       console.error('[DatabaseService] Error in createPersonnelDocument:', error)
       throw error
     }
   }
 
+  /**
+   * Find a personnel document by ID
+   * @param id - Document ID
+   * @returns Document object or null if not found
+   */
+  static async findPersonnelDocumentById(id: number): Promise<PersonnelDocument | null> {
+    try {
+      return await SupabaseService.findPersonnelDocumentById(id)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findPersonnelDocumentById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update personnel document by ID
+   * @param id - Document ID to update
+   * @param documentData - Document data to update
+   * @param audit - Actor and request details for the audit log
+   * @returns Updated document object or null if not found
+   */
+  static async updatePersonnelDocument(id: number, documentData: PersonnelDocumentUpdate, audit?: AuditContext): Promise<PersonnelDocument | null> {
+    try {
+      const before = await SupabaseService.findPersonnelDocumentById(id)
+      const document = await SupabaseService.updatePersonnelDocument(id, documentData)
+      if (document) {
+        await this.recordAudit('update', 'personnel_document', id, document.original_name, before, document, audit)
+        // A replaced file moves the usage to the new asset
+        if (document.filename !== before?.filename || document.path !== before?.path) {
+          await trackPersonnelDocument(document)
+        }
+      }
+      return document
+    } catch (error) {
+      console.error('[DatabaseService] Error in updatePersonnelDocument:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete personnel document by ID
+   * @param id - Document ID to delete
+   * @param audit - Actor and request details for the audit log
+   * @returns True if deleted successfully
+   */
+  static async deletePersonnelDocument(id: number, audit?: AuditContext): Promise<boolean> {
+    try {
+      const before = await SupabaseService.findPersonnelDocumentById(id)
+      const deleted = await SupabaseService.deletePersonnelDocument(id)
+      if (deleted && before) {
+        await this.recordAudit('delete', 'personnel_document', id, before.original_name, before, null, audit)
+        await releaseUsageByReference(DOCUMENT_REFERENCE, id)
+      }
+      return deleted
+    } catch (error) {
+      console.error('[DatabaseService] Error in deletePersonnelDocument:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // DEPARTMENT OPERATIONS
+  // =====================================================
+
+  /**
+   * Get all departments with live personnel counts
+   * @param options - Query options
+   * @returns Array of departments with personnel_count
+   */
+  static async getAllDepartments(options?: {
+    search?: string
+    status?: string
+  }): Promise<DepartmentWithStats[]> {
+    try {
+      return await SupabaseService.getAllDepartments(options)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getAllDepartments:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the names of all departments
+   * @returns Department names in alphabetical order
+   */
+  static async getDepartmentNames(): Promise<string[]> {
+    try {
+      return await SupabaseService.getDepartmentNames()
+    } catch (error) {
+      console.error('[DatabaseService] Error in getDepartmentNames:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find department by ID
+   * @param id - Department ID
+   * @returns Department with personnel_count or null if not found
+   */
+  static async findDepartmentById(id: number): Promise<DepartmentWithStats | null> {
+    try {
+      return await SupabaseService.findDepartmentById(id)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findDepartmentById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find department by name
+   * @param name - Department name
+   * @returns Department object or null if not found
+   */
+  static async findDepartmentByName(name: string): Promise<Department | null> {
+    try {
+      return await SupabaseService.findDepartmentByName(name)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findDepartmentByName:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a new department
+   * @param departmentData - Department data to insert (without id, created_at, updated_at)
+   * @param audit - Actor and request details for the audit log
+   * @returns Created department object
+   */
+  static async createDepartment(departmentData: Omit<DepartmentInsert, 'id' | 'created_at' | 'updated_at'>, audit?: AuditContext): Promise<Department> {
+    try {
+      const department = await SupabaseService.createDepartment(departmentData)
+      await this.recordAudit('create', 'department', department.id, department.name, null, department, audit)
+      return department
+    } catch (error) {
+      console.error('[DatabaseService] Error in createDepartment:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update department data
+   * @param id - Department ID to update
+   * @param departmentData - Partial department data to update
+   * @param audit - Actor and request details for the audit log
+   * @returns Updated department object or null if not found
+   */
+  static async updateDepartment(id: number, departmentData: Partial<DepartmentInsert>, audit?: AuditContext): Promise<Department | null> {
+    try {
+      const before = await SupabaseService.findDepartmentById(id)
+      const department = await SupabaseService.updateDepartment(id, departmentData)
+      if (department) {
+        await this.recordAudit('update', 'department', id, department.name, before, department, audit)
+      }
+      return department
+    } catch (error) {
+      console.error('[DatabaseService] Error in updateDepartment:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete department by ID
+   * @param id - Department ID to delete
+   * @param audit - Actor and request details for the audit log
+   * @returns True if deleted successfully
+   */
+  static async deleteDepartment(id: number, audit?: AuditContext): Promise<boolean> {
+    try {
+      const before = await SupabaseService.findDepartmentById(id)
+      const deleted = await SupabaseService.deleteDepartment(id)
+      if (deleted && before) {
+        await this.recordAudit('delete', 'department', id, before.name, before, null, audit)
+      }
+      return deleted
+    } catch (error) {
+      console.error('[DatabaseService] Error in deleteDepartment:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find departments by a list of IDs
+   * @param ids - Department IDs
+   * @returns Matching departments (missing IDs are skipped)
+   */
+  static async findDepartmentsByIds(ids: number[]): Promise<Department[]> {
+    try {
+      return await SupabaseService.findDepartmentsByIds(ids)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findDepartmentsByIds:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // EVENT OPERATIONS
+  // =====================================================
+
+  /**
+   * Get events that may have occurrences in a time range, with attendees.
+   * Recurring events are not expanded here; see expandOccurrences().
+   * @param options - Range and filters
+   * @returns Array of events ordered by start time
+   */
+  static async getEvents(options: {
+    from: string
+    to: string
+    type?: CalendarEvent['type']
+    search?: string
+  }): Promise<CalendarEventWithAttendees[]> {
+    try {
+      const events = await SupabaseService.getEvents(options)
+      return await this.withAttendees(events)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getEvents:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find event by ID, with attendees
+   * @param id - Event ID
+   * @returns Event or null if not found
+   */
+  static async findEventById(id: number): Promise<CalendarEventWithAttendees | null> {
+    try {
+      const event = await SupabaseService.findEventById(id)
+      if (!event) {
+        return null
+      }
+      const [withAttendees] = await this.withAttendees([event])
+      return withAttendees
+    } catch (error) {
+      console.error('[DatabaseService] Error in findEventById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a new event and its attendee list
+   * @param eventData - Event data to insert (without id, created_at, updated_at)
+   * @param attendees - Personnel and department IDs to invite
+   * @param audit - Actor and request details for the audit log
+   * @returns Created event with attendees
+   */
+  static async createEvent(
+    eventData: Omit<CalendarEventInsert, 'id' | 'created_at' | 'updated_at'>,
+    attendees: { personnelIds: number[]; departmentIds: number[] },
+    audit?: AuditContext
+  ): Promise<CalendarEventWithAttendees> {
+    try {
+      const created = await SupabaseService.createEvent(eventData)
+      try {
+        await SupabaseService.replaceEventAttendees(created.id, attendees)
+      } catch (error) {
+        // Don't leave an event behind without the attendees the caller asked for
+        await SupabaseService.deleteEvent(created.id)
+        throw error
+      }
+
+      const event = (await this.findEventById(created.id))!
+      await this.recordAudit('create', 'event', event.id, event.title, null, event, audit)
+      return event
+    } catch (error) {
+      console.error('[DatabaseService] Error in createEvent:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update an event and, when given, replace its attendee list
+   * @param id - Event ID to update
+   * @param eventData - Event data to update
+   * @param attendees - New attendee list, or undefined to keep the current one
+   * @param audit - Actor and request details for the audit log
+   * @returns Updated event with attendees, or null if not found
+   */
+  static async updateEvent(
+    id: number,
+    eventData: CalendarEventUpdate,
+    attendees?: { personnelIds: number[]; departmentIds: number[] },
+    audit?: AuditContext
+  ): Promise<CalendarEventWithAttendees | null> {
+    try {
+      const before = await this.findEventById(id)
+      if (!before) {
+        return null
+      }
+
+      await SupabaseService.updateEvent(id, eventData)
+      if (attendees) {
+        await SupabaseService.replaceEventAttendees(id, attendees)
+      }
+
+      const event = await this.findEventById(id)
+      if (event) {
+        await this.recordAudit('update', 'event', id, event.title, before, event, audit)
+      }
+      return event
+    } catch (error) {
+      console.error('[DatabaseService] Error in updateEvent:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete event by ID
+   * @param id - Event ID to delete
+   * @param audit - Actor and request details for the audit log
+   * @returns True if deleted successfully
+   */
+  static async deleteEvent(id: number, audit?: AuditContext): Promise<boolean> {
+    try {
+      const before = await this.findEventById(id)
+      const deleted = await SupabaseService.deleteEvent(id)
+      if (deleted && before) {
+        await this.recordAudit('delete', 'event', id, before.title, before, null, audit)
+      }
+      return deleted
+    } catch (error) {
+      console.error('[DatabaseService] Error in deleteEvent:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find an imported event by its iCalendar UID
+   * @param uid - VEVENT UID
+   * @returns Event object or null if not found
+   */
+  static async findEventByIcalUid(uid: string): Promise<CalendarEvent | null> {
+    try {
+      return await SupabaseService.findEventByIcalUid(uid)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findEventByIcalUid:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Attach attendee lists to events, resolving personnel and department names
+   */
+  private static async withAttendees(events: CalendarEvent[]): Promise<CalendarEventWithAttendees[]> {
+    const attendees = await SupabaseService.getEventAttendees(events.map(event => event.id))
+
+    const personnelIds = [...new Set(attendees.flatMap(attendee => attendee.personnel_id ?? []))]
+    const departmentIds = [...new Set(attendees.flatMap(attendee => attendee.department_id ?? []))]
+    const [personnel, departments] = await Promise.all([
+      SupabaseService.findPersonnelByIds(personnelIds),
+      SupabaseService.findDepartmentsByIds(departmentIds)
+    ])
+
+    const personnelById = new Map(personnel.map(person => [person.id, person]))
+    const departmentsById = new Map(departments.map(department => [department.id, department]))
+
+    return events.map(event => ({
+      ...event,
+      attendees: attendees
+        .filter(attendee => attendee.event_id === event.id)
+        .map((attendee): EventAttendeeDetail => {
+          const person = attendee.personnel_id !== null ? personnelById.get(attendee.personnel_id) : undefined
+          const department = attendee.department_id !== null ? departmentsById.get(attendee.department_id) : undefined
+          return {
+            id: attendee.id,
+            personnel_id: attendee.personnel_id,
+            department_id: attendee.department_id,
+            name: person?.name ?? department?.name ?? 'Unknown',
+            department: person?.department ?? null
+          }
+        })
+    }))
+  }
+
+  // =====================================================
+  // CALENDAR FEED OPERATIONS
+  // =====================================================
+
+  /**
+   * Get a user's calendar feed token record
+   * @param userId - Supabase auth user ID
+   * @returns Token record or null if the user has no feed
+   */
+  static async findCalendarFeedTokenByUser(userId: string): Promise<CalendarFeedToken | null> {
+    try {
+      return await SupabaseService.findCalendarFeedTokenByUser(userId)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findCalendarFeedTokenByUser:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find a calendar feed token record by token hash
+   * @param tokenHash - SHA-256 hex digest of the token
+   * @returns Token record or null if not found
+   */
+  static async findCalendarFeedTokenByHash(tokenHash: string): Promise<CalendarFeedToken | null> {
+    try {
+      return await SupabaseService.findCalendarFeedTokenByHash(tokenHash)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findCalendarFeedTokenByHash:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Store a user's calendar feed token, replacing any previous one
+   * @param userId - Supabase auth user ID
+   * @param tokenHash - SHA-256 hex digest of the new token
+   * @returns Saved token record
+   */
+  static async saveCalendarFeedToken(userId: string, tokenHash: string): Promise<CalendarFeedToken> {
+    try {
+      return await SupabaseService.saveCalendarFeedToken(userId, tokenHash)
+    } catch (error) {
+      console.error('[DatabaseService] Error in saveCalendarFeedToken:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Record that a calendar feed token was used
+   * @param id - Token record ID
+   */
+  static async touchCalendarFeedToken(id: number): Promise<void> {
+    try {
+      await SupabaseService.touchCalendarFeedToken(id)
+    } catch (error) {
+      console.error('[DatabaseService] Error in touchCalendarFeedToken:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Revoke a user's calendar feed token
+   * @param userId - Supabase auth user ID
+   * @returns True if deleted successfully
+   */
+  static async deleteCalendarFeedToken(userId: string): Promise<boolean> {
+    try {
+      return await SupabaseService.deleteCalendarFeedToken(userId)
+    } catch (error) {
+      console.error('[DatabaseService] Error in deleteCalendarFeedToken:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // SAVED FILTER OPERATIONS
+  // =====================================================
+
+  /**
+   * Get the filter presets a user can see on a list: their own plus those shared with their role
+   * @param listType - List the presets belong to
+   * @param ownerId - Supabase auth user ID
+   * @param role - User's role
+   * @returns Presets ordered by name
+   */
+  static async getSavedFilters(listType: SavedFilterListType, ownerId: string, role: string): Promise<SavedFilter[]> {
+    try {
+      return await SupabaseService.getSavedFilters(listType, ownerId, role)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getSavedFilters:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find a filter preset by ID
+   * @param id - Preset ID
+   * @returns Preset or null if not found
+   */
+  static async findSavedFilterById(id: number): Promise<SavedFilter | null> {
+    try {
+      return await SupabaseService.findSavedFilterById(id)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findSavedFilterById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find one of a user's filter presets by name
+   * @param ownerId - Supabase auth user ID
+   * @param listType - List the preset belongs to
+   * @param name - Preset name
+   * @returns Preset or null if not found
+   */
+  static async findSavedFilterByName(ownerId: string, listType: SavedFilterListType, name: string): Promise<SavedFilter | null> {
+    try {
+      return await SupabaseService.findSavedFilterByName(ownerId, listType, name)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findSavedFilterByName:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a filter preset
+   * @param filterData - Preset data
+   * @returns Created preset
+   */
+  static async createSavedFilter(filterData: Omit<SavedFilterInsert, 'id' | 'created_at' | 'updated_at'>): Promise<SavedFilter> {
+    try {
+      return await SupabaseService.createSavedFilter(filterData)
+    } catch (error) {
+      console.error('[DatabaseService] Error in createSavedFilter:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update a filter preset
+   * @param id - Preset ID
+   * @param filterData - Fields to update
+   * @returns Updated preset or null if not found
+   */
+  static async updateSavedFilter(id: number, filterData: SavedFilterUpdate): Promise<SavedFilter | null> {
+    try {
+      return await SupabaseService.updateSavedFilter(id, filterData)
+    } catch (error) {
+      console.error('[DatabaseService] Error in updateSavedFilter:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a filter preset
+   * @param id - Preset ID
+   * @returns True if deleted successfully
+   */
+  static async deleteSavedFilter(id: number): Promise<boolean> {
+    try {
+      return await SupabaseService.deleteSavedFilter(id)
+    } catch (error) {
+      console.error('[DatabaseService] Error in deleteSavedFilter:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // NOTIFICATION OPERATIONS
+  // =====================================================
+
+  /**
+   * Get a user's notifications, newest first
+   * @param userId - Supabase auth user ID
+   * @param options - Pagination and filters
+   * @returns Notifications with pagination and the user's total unread count
+   */
+  static async getNotifications(
+    userId: string,
+    options?: {
+      page?: number
+      limit?: number
+      // true for read notifications only, false for unread only
+      read?: boolean
+      type?: NotificationType
+    }
+  ): Promise<{
+    data: Notification[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      pages: number
+    }
+    unread: number
+  }> {
+    try {
+      return await SupabaseService.getNotifications(userId, options)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getNotifications:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create notifications, one row per recipient
+   * @param notifications - Notification rows
+   * @returns Created notifications
+   */
+  static async createNotifications(notifications: Omit<NotificationInsert, 'id' | 'created_at' | 'read_at'>[]): Promise<Notification[]> {
+    try {
+      return await SupabaseService.createNotifications(notifications)
+    } catch (error) {
+      console.error('[DatabaseService] Error in createNotifications:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark a user's notifications as read or unread
+   * @param userId - Supabase auth user ID
+   * @param ids - Notification IDs, or null for all of the user's notifications
+   * @param read - True to mark read, false to mark unread
+   * @returns Number of notifications changed
+   */
+  static async markNotificationsRead(userId: string, ids: number[] | null, read: boolean): Promise<number> {
+    try {
+      return await SupabaseService.markNotificationsRead(userId, ids, read)
+    } catch (error) {
+      console.error('[DatabaseService] Error in markNotificationsRead:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a user's notifications
+   * @param userId - Supabase auth user ID
+   * @param ids - Notification IDs, or null for all of the user's notifications
+   * @returns Number of notifications deleted
+   */
+  static async deleteNotifications(userId: string, ids: number[] | null): Promise<number> {
+    try {
+      return await SupabaseService.deleteNotifications(userId, ids)
+    } catch (error) {
+      console.error('[DatabaseService] Error in deleteNotifications:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark notifications as sent by email
+   * @param ids - Notification IDs
+   */
+  static async markNotificationsEmailed(ids: number[]): Promise<void> {
+    try {
+      return await SupabaseService.markNotificationsEmailed(ids)
+    } catch (error) {
+      console.error('[DatabaseService] Error in markNotificationsEmailed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get notification preferences for several users
+   * @param userIds - Supabase auth user IDs
+   * @returns Stored preferences; users without a row are omitted
+   */
+  static async getNotificationPreferences(userIds: string[]): Promise<NotificationPreferences[]> {
+    try {
+      return await SupabaseService.getNotificationPreferences(userIds)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getNotificationPreferences:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get one user's notification preferences
+   * @param userId - Supabase auth user ID
+   * @returns Stored preferences or null if the user never saved any
+   */
+  static async findNotificationPreferences(userId: string): Promise<NotificationPreferences | null> {
+    try {
+      return await SupabaseService.findNotificationPreferences(userId)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findNotificationPreferences:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create or replace a user's notification preferences
+   * @param preferences - Preferences row keyed by user_id
+   * @returns Saved preferences
+   */
+  static async saveNotificationPreferences(preferences: NotificationPreferencesInsert): Promise<NotificationPreferences> {
+    try {
+      return await SupabaseService.saveNotificationPreferences(preferences)
+    } catch (error) {
+      console.error('[DatabaseService] Error in saveNotificationPreferences:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // DIGEST OPERATIONS
+  // =====================================================
+
+  /**
+   * Get personnel registered in a time range
+   * @param from - Range start (inclusive, ISO timestamp)
+   * @param to - Range end (exclusive, ISO timestamp)
+   * @param limit - Maximum records to return
+   * @returns Personnel ordered by registration time
+   */
+  static async getPersonnelCreatedBetween(from: string, to: string, limit = 100): Promise<Personnel[]> {
+    try {
+      return await SupabaseService.getPersonnelCreatedBetween(from, to, limit)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getPersonnelCreatedBetween:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get audit entries for personnel status changes in a time range
+   * @param from - Range start (inclusive, ISO timestamp)
+   * @param to - Range end (exclusive, ISO timestamp)
+   * @param limit - Maximum entries to return
+   * @returns Audit entries whose changes include status, oldest first
+   */
+  static async getPersonnelStatusChanges(from: string, to: string, limit = 100): Promise<AuditLog[]> {
+    try {
+      return await SupabaseService.getPersonnelStatusChanges(from, to, limit)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getPersonnelStatusChanges:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get documents that expire within a date range, with their owner
+   * @param fromDate - First expiry date included (YYYY-MM-DD)
+   * @param toDate - Last expiry date included (YYYY-MM-DD)
+   * @param limit - Maximum documents to return
+   * @returns Documents ordered by expiry date
+   */
+  static async getExpiringDocuments(fromDate: string, toDate: string, limit = 100): Promise<ExpiringDocument[]> {
+    try {
+      return await SupabaseService.getExpiringDocuments(fromDate, toDate, limit)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getExpiringDocuments:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get sync operations that failed in a time range
+   * @param from - Range start (inclusive, ISO timestamp)
+   * @param to - Range end (exclusive, ISO timestamp)
+   * @param limit - Maximum operations to return
+   * @returns Failed operations, oldest first
+   */
+  static async getFailedSyncOperations(from: string, to: string, limit = 50): Promise<SyncOperation[]> {
+    try {
+      return await SupabaseService.getFailedSyncOperations(from, to, limit)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getFailedSyncOperations:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a user's notifications held for their digest and not yet emailed
+   * @param userId - Supabase auth user ID
+   * @param before - Only notifications created before this time (ISO timestamp)
+   * @returns Notifications, oldest first
+   */
+  static async getPendingDigestNotifications(userId: string, before: string): Promise<Notification[]> {
+    try {
+      return await SupabaseService.getPendingDigestNotifications(userId, before)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getPendingDigestNotifications:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Claim a digest period for a user; failed periods can be claimed again
+   * @param run - User, frequency and period to claim
+   * @returns The claimed run, or null if the period is already sent, skipped or in progress
+   */
+  static async claimDigestRun(run: Pick<DigestRunInsert, 'user_id' | 'frequency' | 'period_start' | 'period_end'>): Promise<DigestRun | null> {
+    try {
+      return await SupabaseService.claimDigestRun(run)
+    } catch (error) {
+      console.error('[DatabaseService] Error in claimDigestRun:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Record the outcome of a claimed digest run
+   * @param id - Digest run ID
+   * @param updates - Final status, item count, message ID or error
+   */
+  static async completeDigestRun(id: number, updates: Pick<DigestRunUpdate, 'status' | 'item_count' | 'message_id' | 'error'>): Promise<void> {
+    try {
+      return await SupabaseService.completeDigestRun(id, updates)
+    } catch (error) {
+      console.error('[DatabaseService] Error in completeDigestRun:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // EMAIL OUTBOX OPERATIONS
+  // =====================================================
+
+  /**
+   * Queue an outbound email
+   * @param email - Template, recipient, subject and template data
+   * @returns Queued outbox row
+   */
+  static async createOutboxEmail(email: Omit<EmailOutboxInsert, 'id' | 'created_at' | 'updated_at'>): Promise<EmailOutbox> {
+    try {
+      return await SupabaseService.createOutboxEmail(email)
+    } catch (error) {
+      console.error('[DatabaseService] Error in createOutboxEmail:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get queued emails due for a send attempt, plus sends that stalled
+   * @param now - Current time (ISO timestamp)
+   * @param staleBefore - Emails still 'sending' since before this time are retried
+   * @param limit - Maximum emails to return
+   * @returns Due emails, oldest first
+   */
+  static async getDueOutboxEmails(now: string, staleBefore: string, limit = 25): Promise<EmailOutbox[]> {
+    try {
+      return await SupabaseService.getDueOutboxEmails(now, staleBefore, limit)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getDueOutboxEmails:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark an email as sending, unless another worker changed it since it was read
+   * @param email - Outbox row as read by the caller
+   * @returns Claimed row, or null if another worker got there first
+   */
+  static async claimOutboxEmail(email: EmailOutbox): Promise<EmailOutbox | null> {
+    try {
+      return await SupabaseService.claimOutboxEmail(email)
+    } catch (error) {
+      console.error('[DatabaseService] Error in claimOutboxEmail:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update an outbox email
+   * @param id - Outbox email ID
+   * @param updates - Fields to update
+   * @returns Updated row
+   */
+  static async updateOutboxEmail(id: number, updates: EmailOutboxUpdate): Promise<EmailOutbox> {
+    try {
+      return await SupabaseService.updateOutboxEmail(id, updates)
+    } catch (error) {
+      console.error('[DatabaseService] Error in updateOutboxEmail:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find an outbox email by ID
+   * @param id - Outbox email ID
+   * @returns Outbox row or null if not found
+   */
+  static async findOutboxEmailById(id: number): Promise<EmailOutbox | null> {
+    try {
+      return await SupabaseService.findOutboxEmailById(id)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findOutboxEmailById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find an outbox email by its provider message ID
+   * @param messageId - Resend email ID
+   * @returns Outbox row or null if not found
+   */
+  static async findOutboxEmailByMessageId(messageId: string): Promise<EmailOutbox | null> {
+    try {
+      return await SupabaseService.findOutboxEmailByMessageId(messageId)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findOutboxEmailByMessageId:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the delivery log with pagination and filters
+   * @param options - Pagination, recipient search and status filter
+   * @returns Outbox rows (newest first), pagination and per-status counts
+   */
+  static async getOutboxEmails(options?: {
+    page?: number
+    limit?: number
+    recipient?: string
+    status?: EmailOutboxStatus
+  }) {
+    try {
+      return await SupabaseService.getOutboxEmails(options)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getOutboxEmails:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // EMAIL TEMPLATE OPERATIONS
+  // =====================================================
+
+  /**
+   * Get every edited email template
+   * @returns Templates ordered by key and language
+   */
+  static async getEmailTemplates(): Promise<EmailTemplate[]> {
+    try {
+      return await SupabaseService.getEmailTemplates()
+    } catch (error) {
+      console.error('[DatabaseService] Error in getEmailTemplates:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find the edited version of a template in one language
+   * @param templateKey - Template key
+   * @param language - Language code
+   * @returns Template or null if the built-in template is in use
+   */
+  static async findEmailTemplate(templateKey: EditableEmailTemplateKey, language: EmailLanguage): Promise<EmailTemplate | null> {
+    try {
+      return await SupabaseService.findEmailTemplate(templateKey, language)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findEmailTemplate:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create or replace a template in one language
+   * @param template - Key, language, subject and body
+   * @returns Saved template
+   */
+  static async saveEmailTemplate(template: EmailTemplateInsert): Promise<EmailTemplate> {
+    try {
+      return await SupabaseService.saveEmailTemplate(template)
+    } catch (error) {
+      console.error('[DatabaseService] Error in saveEmailTemplate:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete the edited version of a template, restoring the built-in one
+   * @param templateKey - Template key
+   * @param language - Language code
+   * @returns True if a template was deleted
+   */
+  static async deleteEmailTemplate(templateKey: EditableEmailTemplateKey, language: EmailLanguage): Promise<boolean> {
+    try {
+      return await SupabaseService.deleteEmailTemplate(templateKey, language)
+    } catch (error) {
+      console.error('[DatabaseService] Error in deleteEmailTemplate:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // SMS OPERATIONS
+  // =====================================================
+
+  /**
+   * Record sent, failed and opted-out SMS messages
+   * @param messages - One row per recipient number
+   * @returns Created rows
+   */
+  static async createSmsMessages(messages: SmsMessageInsert[]): Promise<SmsMessage[]> {
+    try {
+      return await SupabaseService.createSmsMessages(messages)
+    } catch (error) {
+      console.error('[DatabaseService] Error in createSmsMessages:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the SMS log, newest first
+   * @param options - Pagination and filters
+   * @returns Messages with pagination
+   */
+  static async getSmsMessages(options?: {
+    page?: number
+    limit?: number
+    phoneNumber?: string
+    status?: SmsStatus
+  }) {
+    try {
+      return await SupabaseService.getSmsMessages(options)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getSmsMessages:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Personnel phone numbers for an SMS broadcast. Inactive personnel are left out.
+   * @param options - ids or departments narrow the list; neither means all personnel
+   */
+  static async getPersonnelContacts(options?: { ids?: number[]; departments?: string[] }) {
+    try {
+      return await SupabaseService.getPersonnelContacts(options)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getPersonnelContacts:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Which of the given numbers have opted out of SMS
+   * @param phoneNumbers - Normalized numbers
+   * @returns The opted-out numbers
+   */
+  static async findOptedOutNumbers(phoneNumbers: string[]): Promise<string[]> {
+    try {
+      return await SupabaseService.findOptedOutNumbers(phoneNumbers)
+    } catch (error) {
+      console.error('[DatabaseService] Error in findOptedOutNumbers:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get every opted-out number, most recent first
+   */
+  static async getSmsOptOuts(): Promise<SmsOptOut[]> {
+    try {
+      return await SupabaseService.getSmsOptOuts()
+    } catch (error) {
+      console.error('[DatabaseService] Error in getSmsOptOuts:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Opt a number out of SMS; opting out again keeps the original record
+   * @param optOut - Normalized number, source and note
+   * @returns The opt-out record
+   */
+  static async saveSmsOptOut(optOut: SmsOptOutInsert): Promise<SmsOptOut> {
+    try {
+      return await SupabaseService.saveSmsOptOut(optOut)
+    } catch (error) {
+      console.error('[DatabaseService] Error in saveSmsOptOut:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Let a number receive SMS again
+   * @param phoneNumber - Normalized number
+   * @returns True if the number had opted out
+   */
+  static async deleteSmsOptOut(phoneNumber: string): Promise<boolean> {
+    try {
+      return await SupabaseService.deleteSmsOptOut(phoneNumber)
+    } catch (error) {
+      console.error('[DatabaseService] Error in deleteSmsOptOut:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // SEARCH OPERATIONS
+  // =====================================================
+
+  /**
+   * Full-text search across personnel, users, documents, departments and media
+   * @param query - Words to match; each word matches as a prefix
+   * @param entityTypes - Entity types to include
+   * @param perTypeLimit - Maximum matches per entity type
+   * @returns Matches ranked within each entity type
+   */
+  static async globalSearch(query: string, entityTypes: SearchEntityType[], perTypeLimit?: number): Promise<SearchResultRow[]> {
+    try {
+      return await SupabaseService.globalSearch(query, entityTypes, perTypeLimit)
+    } catch (error) {
+      console.error('[DatabaseService] Error in globalSearch:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // AUDIT LOG OPERATIONS
+  // =====================================================
+
+  /**
+   * Record a create/update/delete in the audit log.
+   * Failures are logged rather than thrown so auditing never blocks the mutation itself.
+   * @param action - Mutation type
+   * @param entityType - Kind of record that changed
+   * @param entityId - ID of the record that changed
+   * @param entityLabel - Human-readable name shown in the timeline
+   * @param before - Record before the change (null for creates)
+   * @param after - Record after the change (null for deletes)
+   * @param audit - Actor and request details
+   */
+  static async recordAudit(
+    action: 'create' | 'update' | 'delete',
+    entityType: AuditEntityType,
+    entityId: number | string,
+    entityLabel: string | null,
+    before: object | null,
+    after: object | null,
+    audit?: AuditContext
+  ): Promise<void> {
+    try {
+      const changes = this.diffRecords(before, after)
+
+      // Updates that did not change any field are not worth a timeline entry
+      if (action === 'update' && Object.keys(changes).length === 0) {
+        return
+      }
+
+      await SupabaseService.createAuditLog({
+        action,
+        entity_type: entityType,
+        entity_id: String(entityId),
+        entity_label: entityLabel,
+        actor_id: audit?.actorId ?? null,
+        actor_email: audit?.actorEmail ?? null,
+        changes,
+        ip_address: audit?.ipAddress ?? null,
+        user_agent: audit?.userAgent ?? null
+      })
+    } catch (error) {
+      console.error('[DatabaseService] Error in recordAudit:', error)
+    }
+  }
+
+  /**
+   * Get audit log entries with pagination and filtering
+   * @param options - Query options
+   * @returns Paginated audit log entries, newest first
+   */
+  static async getAuditLogs(options?: {
+    page?: number
+    limit?: number
+    actor?: string
+    entityType?: AuditEntityType
+    entityId?: string
+    action?: 'create' | 'update' | 'delete'
+    dateFrom?: string
+    dateTo?: string
+  }): Promise<{
+    data: AuditLog[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      pages: number
+    }
+  }> {
+    try {
+      return await SupabaseService.getAuditLogs(options)
+    } catch (error) {
+      console.error('[DatabaseService] Error in getAuditLogs:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Build a per-field { before, after } diff between two versions of a record.
+   * Timestamps and computed fields are skipped, and secrets are never written to the log.
+   */
+  private static diffRecords(before: object | null, after: object | null): Record<string, { before: Json; after: Json }> {
+    const ignoredFields = ['created_at', 'updated_at', 'personnel_count']
+    const redactedFields = ['password']
+    const beforeRecord = (before || {}) as Record<string, Json>
+    const afterRecord = (after || {}) as Record<string, Json>
+    const changes: Record<string, { before: Json; after: Json }> = {}
+
+    const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)])
+    for (const field of fields) {
+      if (ignoredFields.includes(field)) continue
+
+      const oldValue = beforeRecord[field] ?? null
+      const newValue = afterRecord[field] ?? null
+      if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue
+
+      changes[field] = redactedFields.includes(field)
+        ? { before: oldValue === null ? null : '[redacted]', after: newValue === null ? null : '[redacted]' }
+        : { before: oldValue, after: newValue }
+    }
+
+    return changes
+  }
+
   // =====================================================
   // UTILITY OPERATIONS
   // =====================================================
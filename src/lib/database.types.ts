@@ -48,6 +48,54 @@ export interface Database {
         }
         Relationships: []
       }
+      departments: {
+        Row: {
+          id: number
+          name: string
+          description: string | null
+          head_name: string | null
+          head_email: string | null
+          head_phone: string | null
+          location: string | null
+          budget: number | null
+          established: string | null
+          status: 'Active' | 'Inactive' | 'Restructuring'
+          performance: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          name: string
+          description?: string | null
+          head_name?: string | null
+          head_email?: string | null
+          head_phone?: string | null
+          location?: string | null
+          budget?: number | null
+          established?: string | null
+          status?: 'Active' | 'Inactive' | 'Restructuring'
+          performance?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          name?: string
+          description?: string | null
+          head_name?: string | null
+          head_email?: string | null
+          head_phone?: string | null
+          location?: string | null
+          budget?: number | null
+          established?: string | null
+          status?: 'Active' | 'Inactive' | 'Restructuring'
+          performance?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       personnel: {
         Row: {
           id: number
@@ -109,7 +157,15 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "personnel_department_fkey"
+            columns: ["department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["name"]
+          }
+        ]
       }
       personnel_documents: {
         Row: {
@@ -120,6 +176,11 @@ export interface Database {
           size: number
           path: string
           personnel_id: number
+          document_type: string
+          resource_type: string
+          delivery_type: string
+          uploaded_by: string | null
+          expires_on: string | null
           created_at: string
           updated_at: string
         }
@@ -131,6 +192,11 @@ export interface Database {
           size: number
           path: string
           personnel_id: number
+          document_type?: string
+          resource_type?: string
+          delivery_type?: string
+          uploaded_by?: string | null
+          expires_on?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -142,6 +208,11 @@ export interface Database {
           size?: number
           path?: string
           personnel_id?: number
+          document_type?: string
+          resource_type?: string
+          delivery_type?: string
+          uploaded_by?: string | null
+          expires_on?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -632,6 +703,520 @@ export interface Database {
         }
         Relationships: []
       }
+      audit_log: {
+        Row: {
+          id: number
+          action: 'create' | 'update' | 'delete'
+          entity_type: AuditEntityType
+          entity_id: string
+          entity_label: string | null
+          actor_id: string | null
+          actor_email: string | null
+          changes: Json
+          ip_address: string | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          action: 'create' | 'update' | 'delete'
+          entity_type: AuditEntityType
+          entity_id: string
+          entity_label?: string | null
+          actor_id?: string | null
+          actor_email?: string | null
+          changes?: Json
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          action?: 'create' | 'update' | 'delete'
+          entity_type?: AuditEntityType
+          entity_id?: string
+          entity_label?: string | null
+          actor_id?: string | null
+          actor_email?: string | null
+          changes?: Json
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      events: {
+        Row: {
+          id: number
+          title: string
+          description: string | null
+          type: 'meeting' | 'training' | 'inspection' | 'maintenance' | 'emergency'
+          status: 'scheduled' | 'ongoing' | 'completed' | 'cancelled'
+          priority: 'low' | 'medium' | 'high'
+          location: string | null
+          starts_at: string
+          ends_at: string
+          all_day: boolean
+          timezone: string
+          recurrence_rule: string | null
+          ical_uid: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          title: string
+          description?: string | null
+          type?: 'meeting' | 'training' | 'inspection' | 'maintenance' | 'emergency'
+          status?: 'scheduled' | 'ongoing' | 'completed' | 'cancelled'
+          priority?: 'low' | 'medium' | 'high'
+          location?: string | null
+          starts_at: string
+          ends_at: string
+          all_day?: boolean
+          timezone?: string
+          recurrence_rule?: string | null
+          ical_uid?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          title?: string
+          description?: string | null
+          type?: 'meeting' | 'training' | 'inspection' | 'maintenance' | 'emergency'
+          status?: 'scheduled' | 'ongoing' | 'completed' | 'cancelled'
+          priority?: 'low' | 'medium' | 'high'
+          location?: string | null
+          starts_at?: string
+          ends_at?: string
+          all_day?: boolean
+          timezone?: string
+          recurrence_rule?: string | null
+          ical_uid?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      event_attendees: {
+        Row: {
+          id: number
+          event_id: number
+          personnel_id: number | null
+          department_id: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          event_id: number
+          personnel_id?: number | null
+          department_id?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          event_id?: number
+          personnel_id?: number | null
+          department_id?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_attendees_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_attendees_personnel_id_fkey"
+            columns: ["personnel_id"]
+            isOneToOne: false
+            referencedRelation: "personnel"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_attendees_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          id: number
+          user_id: string
+          token_hash: string
+          created_at: string
+          last_used_at: string | null
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          token_hash: string
+          created_at?: string
+          last_used_at?: string | null
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          token_hash?: string
+          created_at?: string
+          last_used_at?: string | null
+        }
+        Relationships: []
+      }
+      saved_filters: {
+        Row: {
+          id: number
+          list_type: SavedFilterListType
+          name: string
+          definition: Json
+          owner_id: string
+          shared_with_role: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          list_type: SavedFilterListType
+          name: string
+          definition?: Json
+          owner_id: string
+          shared_with_role?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          list_type?: SavedFilterListType
+          name?: string
+          definition?: Json
+          owner_id?: string
+          shared_with_role?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          id: number
+          user_id: string
+          title: string
+          message: string
+          type: NotificationType
+          priority: NotificationPriority
+          category: string
+          link: string | null
+          metadata: Json | null
+          channel: NotificationChannel
+          emailed_at: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          title: string
+          message: string
+          type?: NotificationType
+          priority?: NotificationPriority
+          category?: string
+          link?: string | null
+          metadata?: Json | null
+          channel?: NotificationChannel
+          emailed_at?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          title?: string
+          message?: string
+          type?: NotificationType
+          priority?: NotificationPriority
+          category?: string
+          link?: string | null
+          metadata?: Json | null
+          channel?: NotificationChannel
+          emailed_at?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          channels: Json
+          timezone: string
+          quiet_hours_start: string | null
+          quiet_hours_end: string | null
+          digest_frequency: DigestFrequency
+          language: EmailLanguage
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          channels?: Json
+          timezone?: string
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          digest_frequency?: DigestFrequency
+          language?: EmailLanguage
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          channels?: Json
+          timezone?: string
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          digest_frequency?: DigestFrequency
+          language?: EmailLanguage
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      digest_runs: {
+        Row: {
+          id: number
+          user_id: string
+          frequency: 'daily' | 'weekly'
+          period_start: string
+          period_end: string
+          status: DigestRunStatus
+          item_count: number
+          message_id: string | null
+          error: string | null
+          attempts: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          frequency: 'daily' | 'weekly'
+          period_start: string
+          period_end: string
+          status?: DigestRunStatus
+          item_count?: number
+          message_id?: string | null
+          error?: string | null
+          attempts?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          frequency?: 'daily' | 'weekly'
+          period_start?: string
+          period_end?: string
+          status?: DigestRunStatus
+          item_count?: number
+          message_id?: string | null
+          error?: string | null
+          attempts?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_outbox: {
+        Row: {
+          id: number
+          template: EmailTemplateKind
+          recipient_email: string
+          recipient_name: string | null
+          subject: string
+          payload: Json
+          status: EmailOutboxStatus
+          attempts: number
+          max_attempts: number
+          next_attempt_at: string | null
+          last_error: string | null
+          message_id: string | null
+          sent_at: string | null
+          delivered_at: string | null
+          bounced_at: string | null
+          bounce_reason: string | null
+          complained_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          template: EmailTemplateKind
+          recipient_email: string
+          recipient_name?: string | null
+          subject: string
+          payload?: Json
+          status?: EmailOutboxStatus
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string | null
+          last_error?: string | null
+          message_id?: string | null
+          sent_at?: string | null
+          delivered_at?: string | null
+          bounced_at?: string | null
+          bounce_reason?: string | null
+          complained_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          template?: EmailTemplateKind
+          recipient_email?: string
+          recipient_name?: string | null
+          subject?: string
+          payload?: Json
+          status?: EmailOutboxStatus
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string | null
+          last_error?: string | null
+          message_id?: string | null
+          sent_at?: string | null
+          delivered_at?: string | null
+          bounced_at?: string | null
+          bounce_reason?: string | null
+          complained_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_templates: {
+        Row: {
+          id: number
+          template_key: EditableEmailTemplateKey
+          language: EmailLanguage
+          subject: string
+          body: string
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          template_key: EditableEmailTemplateKey
+          language?: EmailLanguage
+          subject: string
+          body: string
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          template_key?: EditableEmailTemplateKey
+          language?: EmailLanguage
+          subject?: string
+          body?: string
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sms_messages: {
+        Row: {
+          id: number
+          phone_number: string
+          recipient_name: string | null
+          personnel_id: number | null
+          user_id: string | null
+          body: string
+          encoding: SmsEncoding
+          segments: number
+          category: SmsCategory
+          status: SmsStatus
+          provider: string
+          provider_message_id: string | null
+          error: string | null
+          sent_at: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          phone_number: string
+          recipient_name?: string | null
+          personnel_id?: number | null
+          user_id?: string | null
+          body: string
+          encoding?: SmsEncoding
+          segments?: number
+          category?: SmsCategory
+          status: SmsStatus
+          provider: string
+          provider_message_id?: string | null
+          error?: string | null
+          sent_at?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          phone_number?: string
+          recipient_name?: string | null
+          personnel_id?: number | null
+          user_id?: string | null
+          body?: string
+          encoding?: SmsEncoding
+          segments?: number
+          category?: SmsCategory
+          status?: SmsStatus
+          provider?: string
+          provider_message_id?: string | null
+          error?: string | null
+          sent_at?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      sms_opt_outs: {
+        Row: {
+          phone_number: string
+          source: SmsOptOutSource
+          note: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          phone_number: string
+          source?: SmsOptOutSource
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          phone_number?: string
+          source?: SmsOptOutSource
+          note?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -703,12 +1288,25 @@ export interface Database {
         Args: Record<string, never>
         Returns: undefined
       }
+      global_search: {
+        Args: {
+          search_query: string
+          entity_types?: SearchEntityType[]
+          per_type_limit?: number
+        }
+        Returns: SearchResultRow[]
+      }
     }
     Enums: {
       user_status: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED'
       personnel_status: 'Active' | 'Inactive' | 'On Leave' | 'Suspended'
+      department_status: 'Active' | 'Inactive' | 'Restructuring'
       media_sync_status: 'synced' | 'pending' | 'error'
       media_sync_operation: 'upload' | 'delete' | 'update' | 'restore'
+      audit_action: 'create' | 'update' | 'delete'
+      event_type: 'meeting' | 'training' | 'inspection' | 'maintenance' | 'emergency'
+      event_status: 'scheduled' | 'ongoing' | 'completed' | 'cancelled'
+      event_priority: 'low' | 'medium' | 'high'
     }
     CompositeTypes: Record<string, never>
   }
@@ -716,6 +1314,7 @@ export interface Database {
 
 // Type helpers for easier usage
 export type User = Database['public']['Tables']['users']['Row']
+export type Department = Database['public']['Tables']['departments']['Row']
 export type Personnel = Database['public']['Tables']['personnel']['Row']
 export type PersonnelDocument = Database['public']['Tables']['personnel_documents']['Row']
 export type MediaAsset = Database['public']['Tables']['media_assets']['Row']
@@ -726,8 +1325,21 @@ export type MediaCollectionItem = Database['public']['Tables']['media_collection
 export type SyncOperation = Database['public']['Tables']['sync_operations']['Row']
 export type ConnectionStatus = Database['public']['Tables']['connection_status']['Row']
 export type SyncStatusSnapshot = Database['public']['Tables']['sync_status_snapshots']['Row']
+export type AuditLog = Database['public']['Tables']['audit_log']['Row']
+export type CalendarEvent = Database['public']['Tables']['events']['Row']
+export type EventAttendee = Database['public']['Tables']['event_attendees']['Row']
+export type CalendarFeedToken = Database['public']['Tables']['calendar_feed_tokens']['Row']
+export type SavedFilter = Database['public']['Tables']['saved_filters']['Row']
+export type Notification = Database['public']['Tables']['notifications']['Row']
+export type NotificationPreferences = Database['public']['Tables']['notification_preferences']['Row']
+export type DigestRun = Database['public']['Tables']['digest_runs']['Row']
+export type EmailOutbox = Database['public']['Tables']['email_outbox']['Row']
+export type EmailTemplate = Database['public']['Tables']['email_templates']['Row']
+export type SmsMessage = Database['public']['Tables']['sms_messages']['Row']
+export type SmsOptOut = Database['public']['Tables']['sms_opt_outs']['Row']
 
 export type UserInsert = Database['public']['Tables']['users']['Insert']
+export type DepartmentInsert = Database['public']['Tables']['departments']['Insert']
 export type PersonnelInsert = Database['public']['Tables']['personnel']['Insert']
 export type PersonnelDocumentInsert = Database['public']['Tables']['personnel_documents']['Insert']
 export type MediaAssetInsert = Database['public']['Tables']['media_assets']['Insert']
@@ -738,8 +1350,21 @@ export type MediaCollectionItemInsert = Database['public']['Tables']['media_coll
 export type SyncOperationInsert = Database['public']['Tables']['sync_operations']['Insert']
 export type ConnectionStatusInsert = Database['public']['Tables']['connection_status']['Insert']
 export type SyncStatusSnapshotInsert = Database['public']['Tables']['sync_status_snapshots']['Insert']
+export type AuditLogInsert = Database['public']['Tables']['audit_log']['Insert']
+export type CalendarEventInsert = Database['public']['Tables']['events']['Insert']
+export type EventAttendeeInsert = Database['public']['Tables']['event_attendees']['Insert']
+export type CalendarFeedTokenInsert = Database['public']['Tables']['calendar_feed_tokens']['Insert']
+export type SavedFilterInsert = Database['public']['Tables']['saved_filters']['Insert']
+export type NotificationInsert = Database['public']['Tables']['notifications']['Insert']
+export type NotificationPreferencesInsert = Database['public']['Tables']['notification_preferences']['Insert']
+export type DigestRunInsert = Database['public']['Tables']['digest_runs']['Insert']
+export type EmailOutboxInsert = Database['public']['Tables']['email_outbox']['Insert']
+export type EmailTemplateInsert = Database['public']['Tables']['email_templates']['Insert']
+export type SmsMessageInsert = Database['public']['Tables']['sms_messages']['Insert']
+export type SmsOptOutInsert = Database['public']['Tables']['sms_opt_outs']['Insert']
 
 export type UserUpdate = Database['public']['Tables']['users']['Update']
+export type DepartmentUpdate = Database['public']['Tables']['departments']['Update']
 export type PersonnelUpdate = Database['public']['Tables']['personnel']['Update']
 export type PersonnelDocumentUpdate = Database['public']['Tables']['personnel_documents']['Update']
 export type MediaAssetUpdate = Database['public']['Tables']['media_assets']['Update']
@@ -750,3 +1375,90 @@ export type MediaCollectionItemUpdate = Database['public']['Tables']['media_coll
 export type SyncOperationUpdate = Database['public']['Tables']['sync_operations']['Update']
 export type ConnectionStatusUpdate = Database['public']['Tables']['connection_status']['Update']
 export type SyncStatusSnapshotUpdate = Database['public']['Tables']['sync_status_snapshots']['Update']
+export type AuditLogUpdate = Database['public']['Tables']['audit_log']['Update']
+export type CalendarEventUpdate = Database['public']['Tables']['events']['Update']
+export type EventAttendeeUpdate = Database['public']['Tables']['event_attendees']['Update']
+export type CalendarFeedTokenUpdate = Database['public']['Tables']['calendar_feed_tokens']['Update']
+export type SavedFilterUpdate = Database['public']['Tables']['saved_filters']['Update']
+export type NotificationUpdate = Database['public']['Tables']['notifications']['Update']
+export type NotificationPreferencesUpdate = Database['public']['Tables']['notification_preferences']['Update']
+export type DigestRunUpdate = Database['public']['Tables']['digest_runs']['Update']
+export type EmailOutboxUpdate = Database['public']['Tables']['email_outbox']['Update']
+export type EmailTemplateUpdate = Database['public']['Tables']['email_templates']['Update']
+export type SmsMessageUpdate = Database['public']['Tables']['sms_messages']['Update']
+export type SmsOptOutUpdate = Database['public']['Tables']['sms_opt_outs']['Update']
+
+// Department row with the live head count computed from the personnel table
+export type DepartmentWithStats = Department & { personnel_count: number }
+
+// Sort orders accepted by the users list
+export type UserSort = 'name_asc' | 'name_desc' | 'email_asc' | 'email_desc' | 'created_desc' | 'created_asc'
+
+// Entities whose mutations are recorded in audit_log
+export type AuditEntityType = 'user' | 'personnel' | 'personnel_document' | 'department' | 'media_asset' | 'event'
+
+// Who made a change and from where, passed down from the route handler
+export interface AuditContext {
+  actorId?: string | null
+  actorEmail?: string | null
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+// An invited person or department, resolved to a display name
+export interface EventAttendeeDetail {
+  id: number
+  personnel_id: number | null
+  department_id: number | null
+  name: string
+  department: string | null
+}
+
+// Calendar event with its resolved attendee list
+export type CalendarEventWithAttendees = CalendarEvent & { attendees: EventAttendeeDetail[] }
+
+// Entities covered by global search (the global_search function)
+export type SearchEntityType = 'personnel' | 'user' | 'document' | 'department' | 'media'
+
+// One ranked global_search match. parent_id is the personnel id of a document.
+export interface SearchResultRow {
+  entity_type: SearchEntityType
+  entity_id: string
+  parent_id: string | null
+  label: string
+  detail: string | null
+  thumbnail_url: string | null
+  rank: number
+}
+
+// Lists that support saved filter presets
+export type SavedFilterListType = 'personnel' | 'users' | 'media'
+
+// In-app notification severity and urgency
+export type NotificationType = 'info' | 'success' | 'warning' | 'error'
+export type NotificationPriority = 'low' | 'medium' | 'high'
+
+// How a notification was delivered: in-app only, emailed or texted immediately, or held for the digest
+export type NotificationChannel = 'in_app' | 'email' | 'sms' | 'digest'
+
+// How often a user receives the activity digest, and the outcome of one digest period
+export type DigestFrequency = 'off' | 'daily' | 'weekly'
+export type DigestRunStatus = 'pending' | 'sent' | 'skipped' | 'failed'
+
+// A personnel document with an expiry date, joined to its owner for digests
+export type ExpiringDocument = PersonnelDocument & { personnel_name: string; department: string }
+
+// Email templates the outbox can render, and the delivery state of a queued email
+export type EmailTemplateKind = 'welcome' | 'notification' | 'system_alert' | 'digest' | 'test'
+export type EmailOutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'bounced'
+
+// Email templates admins can edit (digests are built from their sections) and their languages
+export type EditableEmailTemplateKey = 'welcome' | 'notification' | 'system_alert'
+export type EmailLanguage = 'en' | 'fil' | 'ceb'
+
+// SMS character set (GSM-7 fits 160 characters per part, UCS-2 70), why a
+// message was sent, its outcome, and how a number came to be opted out
+export type SmsEncoding = 'gsm7' | 'ucs2'
+export type SmsCategory = 'notification' | 'broadcast'
+export type SmsStatus = 'sent' | 'failed' | 'opted_out'
+export type SmsOptOutSource = 'keyword' | 'admin'
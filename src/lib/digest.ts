@@ -0,0 +1,361 @@
+/**
+ * Activity Digests (server-side only)
+ *
+ * Compiles, per recipient, the activity of the last day or week - new
+ * personnel, status changes, documents about to expire, failed sync
+ * operations, upcoming calendar events and notifications held for the digest -
+ * into one email. Each section is only included when the recipient's role may
+ * see it, and empty digests are not sent.
+ *
+ * Periods follow the recipient's timezone: a daily digest covers the previous
+ * local calendar day, a weekly digest the previous Monday-to-Sunday week. Every
+ * period is claimed in digest_runs before sending, so the job can run as often
+ * as the scheduler likes (e.g. hourly) without sending a digest twice; the
+ * email itself goes through the outbox, which retries failed sends.
+ */
+
+import { db } from '@/lib/db'
+import { EmailService } from '@/lib/emailService'
+import { queueAndSend } from '@/lib/emailOutbox'
+import type { DigestEmailItem, DigestEmailSection } from '@/lib/email-templates/DigestEmailTemplate'
+import type { AuditLog, CalendarEventWithAttendees, DigestRun, ExpiringDocument, Notification, Personnel, SyncOperation } from '@/lib/database.types'
+import { hasPermission } from '@/lib/permissions'
+import { findActiveRecipients, Recipient } from '@/lib/notifier'
+import { toPreferenceSettings } from '@/lib/notificationPreferences'
+import { DOCUMENT_EXPIRY_WARNING_DAYS, PERSONNEL_DOCUMENT_TYPE_LABELS, normalizeDocumentType } from '@/lib/personnelDocuments'
+import { expandOccurrences, fromZonedWallClock, toZonedWallClock } from '@/lib/recurrence'
+
+export type DigestPeriodFrequency = DigestRun['frequency']
+
+export interface DigestPeriod {
+  start: Date
+  end: Date
+  // Local calendar date the period ends on (exclusive), YYYY-MM-DD
+  endDate: string
+}
+
+export interface DigestRunSummary {
+  frequency: DigestPeriodFrequency
+  dryRun: boolean
+  emailEnabled: boolean
+  recipients: number
+  sent: number
+  skipped: number
+  failed: number
+  // Periods already sent, skipped or being sent by another run
+  alreadyHandled: number
+}
+
+// Items listed per section; the rest are counted
+const SECTION_ITEM_LIMIT = 10
+
+// How far ahead upcoming events are listed
+const UPCOMING_EVENT_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+interface PeriodActivity {
+  newPersonnel: Personnel[]
+  statusChanges: AuditLog[]
+  expiringDocuments: ExpiringDocument[]
+  failedSyncs: SyncOperation[]
+  upcomingEvents: { event: CalendarEventWithAttendees; start: Date }[]
+}
+
+const toDateString = (utcMidnight: number) => new Date(utcMidnight).toISOString().slice(0, 10)
+
+/**
+ * The most recent complete digest period in a timezone
+ * @param frequency - daily or weekly
+ * @param timeZone - IANA timezone of the recipient
+ * @param now - Reference time
+ */
+export function digestPeriod(frequency: DigestPeriodFrequency, timeZone: string, now: Date = new Date()): DigestPeriod {
+  const clock = toZonedWallClock(now, timeZone)
+  // Local dates as UTC midnights, so day arithmetic ignores DST
+  const today = Date.UTC(clock.year, clock.month - 1, clock.day)
+  const daysSinceMonday = (new Date(today).getUTCDay() + 6) % 7
+  const endDay = frequency === 'weekly' ? today - daysSinceMonday * DAY_MS : today
+  const startDay = endDay - (frequency === 'weekly' ? 7 : 1) * DAY_MS
+
+  const localMidnight = (day: number) => {
+    const date = new Date(day)
+    return fromZonedWallClock({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: 0,
+      minute: 0,
+      second: 0
+    }, timeZone)
+  }
+
+  return {
+    start: localMidnight(startDay),
+    end: localMidnight(endDay),
+    endDate: toDateString(endDay)
+  }
+}
+
+/**
+ * Send the daily or weekly digest to every user whose preferences ask for it
+ * @param frequency - Which digest to send
+ * @param options - now overrides the reference time; dryRun compiles the
+ *   digests without claiming periods or sending anything
+ */
+export async function runDigests(
+  frequency: DigestPeriodFrequency,
+  options: { now?: Date; dryRun?: boolean } = {}
+): Promise<DigestRunSummary> {
+  const now = options.now || new Date()
+  const dryRun = !!options.dryRun
+  const summary: DigestRunSummary = {
+    frequency,
+    dryRun,
+    emailEnabled: EmailService.isEmailEnabled(),
+    recipients: 0,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+    alreadyHandled: 0
+  }
+
+  // Claiming periods without sending would mark them done and lose them
+  if (!dryRun && !summary.emailEnabled) {
+    console.log('[Digest] Email notifications are disabled; no digests sent')
+    return summary
+  }
+
+  const recipients = await findActiveRecipients()
+  const preferences = new Map(
+    (await db.getNotificationPreferences(recipients.map(recipient => recipient.id)))
+      .map(row => [row.user_id, toPreferenceSettings(row)])
+  )
+
+  // Recipients in the same timezone share a period, so load its activity once
+  const activityByPeriod = new Map<string, Promise<PeriodActivity>>()
+
+  for (const recipient of recipients) {
+    const settings = preferences.get(recipient.id) || toPreferenceSettings(null)
+    if (settings.digestFrequency !== frequency) {
+      continue
+    }
+    summary.recipients++
+
+    const period = digestPeriod(frequency, settings.timezone, now)
+    let run: DigestRun | null = null
+
+    try {
+      run = dryRun ? null : await db.claimDigestRun({
+        user_id: recipient.id,
+        frequency,
+        period_start: period.start.toISOString(),
+        period_end: period.end.toISOString()
+      })
+      if (!dryRun && !run) {
+        summary.alreadyHandled++
+        continue
+      }
+
+      const key = `${period.start.toISOString()}|${period.end.toISOString()}`
+      if (!activityByPeriod.has(key)) {
+        activityByPeriod.set(key, loadPeriodActivity(period))
+      }
+
+      const held = await db.getPendingDigestNotifications(recipient.id, period.end.toISOString())
+      const sections = buildSections(recipient, settings.timezone, await activityByPeriod.get(key)!, held)
+      const itemCount = sections.reduce((total, section) => total + section.total, 0)
+
+      if (itemCount === 0 || !recipient.email) {
+        summary.skipped++
+        if (run) {
+          await db.completeDigestRun(run.id, {
+            status: 'skipped',
+            item_count: itemCount,
+            error: recipient.email ? null : 'Recipient has no email address'
+          })
+        }
+        continue
+      }
+
+      if (!run) {
+        // Dry run: count what would be sent
+        summary.sent++
+        continue
+      }
+
+      const title = frequency === 'weekly' ? 'Weekly Digest' : 'Daily Digest'
+      const email = await queueAndSend(recipient.email, {
+        template: 'digest',
+        data: {
+          recipientName: recipient.name || recipient.email.split('@')[0],
+          subject: `${title}: ${itemCount} update${itemCount === 1 ? '' : 's'} (${formatPeriod(period, frequency, settings.timezone)})`,
+          title,
+          periodLabel: formatPeriod(period, frequency, settings.timezone),
+          sections,
+          actionUrl: `${APP_URL}/admin`
+        }
+      })
+
+      // A digest the outbox is still retrying counts as sent; it won't be compiled again
+      if (email && email.status !== 'failed') {
+        summary.sent++
+        await db.completeDigestRun(run.id, { status: 'sent', item_count: itemCount, message_id: email.message_id })
+        await db.markNotificationsEmailed(held.map(notification => notification.id))
+      } else {
+        summary.failed++
+        await db.completeDigestRun(run.id, { status: 'failed', item_count: itemCount, error: email?.last_error ?? 'Email could not be queued' })
+      }
+    } catch (error) {
+      summary.failed++
+      console.error(`[Digest] Failed to send ${frequency} digest to ${recipient.id}:`, error)
+
+      // Release the claim so the next run retries this period
+      if (run) {
+        const claimed = run
+        await db.completeDigestRun(claimed.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }).catch(releaseError => console.error(`[Digest] Failed to release digest run ${claimed.id}:`, releaseError))
+      }
+    }
+  }
+
+  console.log(`[Digest] ${frequency} digests: ${summary.sent} sent, ${summary.skipped} skipped, ${summary.failed} failed, ${summary.alreadyHandled} already handled`)
+  return summary
+}
+
+/**
+ * Load the organisation-wide activity for a period
+ */
+async function loadPeriodActivity(period: DigestPeriod): Promise<PeriodActivity> {
+  const from = period.start.toISOString()
+  const to = period.end.toISOString()
+  const eventsUntil = new Date(period.end.getTime() + UPCOMING_EVENT_DAYS * DAY_MS)
+  const expiringUntil = toDateString(Date.parse(period.endDate) + DOCUMENT_EXPIRY_WARNING_DAYS * DAY_MS)
+
+  const [newPersonnel, statusChanges, expiringDocuments, failedSyncs, events] = await Promise.all([
+    db.getPersonnelCreatedBetween(from, to),
+    db.getPersonnelStatusChanges(from, to),
+    db.getExpiringDocuments(period.endDate, expiringUntil),
+    db.getFailedSyncOperations(from, to),
+    db.getEvents({ from: to, to: eventsUntil.toISOString() })
+  ])
+
+  const upcomingEvents = events
+    .filter(event => event.status !== 'cancelled')
+    .flatMap(event => expandOccurrences(event, period.end, eventsUntil).map(occurrence => ({ event, start: occurrence.start })))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  return { newPersonnel, statusChanges, expiringDocuments, failedSyncs, upcomingEvents }
+}
+
+/**
+ * The sections one recipient may see, leaving out empty ones
+ */
+function buildSections(
+  recipient: Recipient,
+  timeZone: string,
+  activity: PeriodActivity,
+  held: Notification[]
+): DigestEmailSection[] {
+  const section = (title: string, items: DigestEmailItem[]): DigestEmailSection => ({
+    title,
+    items: items.slice(0, SECTION_ITEM_LIMIT),
+    total: items.length
+  })
+  const can = (permission: Parameters<typeof hasPermission>[1]) => hasPermission(recipient.role, permission)
+
+  const sections: DigestEmailSection[] = [
+    section('Alerts', held.map(notification => ({
+      primary: notification.title,
+      secondary: notification.message,
+      url: notification.link ? `${APP_URL}${notification.link}` : undefined
+    })))
+  ]
+
+  if (can('personnel:view')) {
+    sections.push(
+      section('New personnel', activity.newPersonnel.map(personnel => ({
+        primary: personnel.name,
+        secondary: [personnel.position, personnel.department].filter(Boolean).join(' · '),
+        url: `${APP_URL}/admin/personnel/${personnel.id}`
+      }))),
+      section('Status changes', activity.statusChanges.map(entry => ({
+        primary: entry.entity_label || `Personnel #${entry.entity_id}`,
+        secondary: describeStatusChange(entry),
+        url: `${APP_URL}/admin/personnel/${entry.entity_id}`
+      })))
+    )
+  }
+
+  if (can('documents:view')) {
+    sections.push(section('Expiring documents', activity.expiringDocuments.map(document => ({
+      primary: `${document.personnel_name}: ${document.original_name}`,
+      secondary: `${PERSONNEL_DOCUMENT_TYPE_LABELS[normalizeDocumentType(document.document_type)]} · expires ${formatDate(document.expires_on!)}`,
+      url: `${APP_URL}/admin/personnel/${document.personnel_id}`
+    }))))
+  }
+
+  if (can('system:manage')) {
+    sections.push(section('Failed sync operations', activity.failedSyncs.map(operation => ({
+      primary: `${operation.operation_type.replace('_', ' ')} (${operation.source})`,
+      secondary: `${operation.failed_items} of ${operation.total_items} items failed · ${formatDateTime(new Date(operation.created_at), timeZone)}`,
+      url: `${APP_URL}/admin/media`
+    }))))
+  }
+
+  if (can('events:view')) {
+    sections.push(section('Upcoming events', activity.upcomingEvents.map(({ event, start }) => ({
+      primary: event.title,
+      secondary: [
+        // All-day events fall on a date in their own timezone
+        event.all_day
+          ? start.toLocaleDateString('en-US', { timeZone: event.timezone, weekday: 'short', month: 'short', day: 'numeric' })
+          : formatDateTime(start, timeZone),
+        event.location
+      ].filter(Boolean).join(' · '),
+      url: `${APP_URL}/admin/calendar`
+    }))))
+  }
+
+  return sections.filter(item => item.total > 0)
+}
+
+function describeStatusChange(entry: AuditLog): string {
+  const changes = entry.changes as Record<string, { before?: unknown; after?: unknown }> | null
+  const status = changes?.status
+  return status ? `${status.before ?? 'None'} → ${status.after ?? 'None'}` : 'Status changed'
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+function formatDateTime(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+}
+
+function formatPeriod(period: DigestPeriod, frequency: DigestPeriodFrequency, timeZone: string): string {
+  const options: Intl.DateTimeFormatOptions = { timeZone, month: 'short', day: 'numeric', year: 'numeric' }
+  // The period end is exclusive; label it by its last day
+  const lastDay = new Date(period.end.getTime() - 1)
+
+  return frequency === 'weekly'
+    ? `${period.start.toLocaleDateString('en-US', { timeZone, month: 'short', day: 'numeric' })} – ${lastDay.toLocaleDateString('en-US', options)}`
+    : lastDay.toLocaleDateString('en-US', { ...options, weekday: 'long' })
+}
@@ -0,0 +1,159 @@
+/**
+ * Digest Email Template
+ *
+ * Daily or weekly activity summary: one section per kind of activity
+ * (new personnel, status changes, expiring documents, ...) with the first
+ * few items of each listed and a count of the rest
+ */
+
+import * as React from 'react'
+
+export interface DigestEmailItem {
+  primary: string
+  secondary?: string
+  url?: string
+}
+
+export interface DigestEmailSection {
+  title: string
+  items: DigestEmailItem[]
+  // Items in the section, including those not listed
+  total: number
+}
+
+interface DigestEmailTemplateProps {
+  recipientName: string
+  title: string
+  periodLabel: string
+  sections: DigestEmailSection[]
+  actionUrl: string
+}
+
+export const DigestEmailTemplate: React.FC<Readonly<DigestEmailTemplateProps>> = ({
+  recipientName,
+  title,
+  periodLabel,
+  sections,
+  actionUrl,
+}) => (
+  <div style={{
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+    maxWidth: '600px',
+    margin: '0 auto',
+    padding: '20px',
+    backgroundColor: '#ffffff'
+  }}>
+    {/* Header */}
+    <div style={{
+      textAlign: 'center',
+      marginBottom: '32px',
+      paddingBottom: '20px',
+      borderBottom: '2px solid #e5e7eb'
+    }}>
+      <h1 style={{
+        color: '#1f2937',
+        fontSize: '24px',
+        fontWeight: 'bold',
+        margin: '0',
+        marginBottom: '8px'
+      }}>
+        {title}
+      </h1>
+      <p style={{
+        color: '#6b7280',
+        fontSize: '14px',
+        margin: '0'
+      }}>
+        {periodLabel}
+      </p>
+    </div>
+
+    <h2 style={{
+      color: '#1f2937',
+      fontSize: '18px',
+      fontWeight: '600',
+      marginBottom: '24px'
+    }}>
+      Hello {recipientName},
+    </h2>
+
+    {/* Sections */}
+    {sections.map(section => (
+      <div key={section.title} style={{
+        backgroundColor: '#f9fafb',
+        border: '1px solid #e5e7eb',
+        borderRadius: '8px',
+        padding: '16px 20px',
+        marginBottom: '20px'
+      }}>
+        <h3 style={{
+          color: '#1f2937',
+          fontSize: '16px',
+          fontWeight: '600',
+          margin: '0',
+          marginBottom: '12px'
+        }}>
+          {section.title} ({section.total})
+        </h3>
+        {section.items.map((item, index) => (
+          <div key={index} style={{
+            paddingTop: index === 0 ? '0' : '10px',
+            marginTop: index === 0 ? '0' : '10px',
+            borderTop: index === 0 ? 'none' : '1px solid #e5e7eb'
+          }}>
+            <p style={{ color: '#374151', fontSize: '14px', margin: '0', fontWeight: '500' }}>
+              {item.url ? (
+                <a href={item.url} style={{ color: '#2563eb', textDecoration: 'none' }}>{item.primary}</a>
+              ) : item.primary}
+            </p>
+            {item.secondary && (
+              <p style={{ color: '#6b7280', fontSize: '13px', margin: '0', marginTop: '2px' }}>
+                {item.secondary}
+              </p>
+            )}
+          </div>
+        ))}
+        {section.total > section.items.length && (
+          <p style={{ color: '#6b7280', fontSize: '13px', margin: '0', marginTop: '12px' }}>
+            and {section.total - section.items.length} more
+          </p>
+        )}
+      </div>
+    ))}
+
+    {/* Call to Action Button */}
+    <div style={{ textAlign: 'center', margin: '32px 0' }}>
+      <a
+        href={actionUrl}
+        style={{
+          display: 'inline-block',
+          backgroundColor: '#3b82f6',
+          color: '#ffffff',
+          textDecoration: 'none',
+          padding: '12px 24px',
+          borderRadius: '6px',
+          fontSize: '14px',
+          fontWeight: '600'
+        }}
+      >
+        Open Dashboard
+      </a>
+    </div>
+
+    {/* Footer */}
+    <div style={{
+      textAlign: 'center',
+      paddingTop: '20px',
+      borderTop: '1px solid #e5e7eb',
+      color: '#6b7280',
+      fontSize: '12px'
+    }}>
+      <p style={{ margin: '0', marginBottom: '8px' }}>
+        You receive this digest because of your notification preferences.
+      </p>
+      <p style={{ margin: '0' }}>
+        Change how often it arrives under Notifications → Delivery Preferences.
+      </p>
+    </div>
+  </div>
+)
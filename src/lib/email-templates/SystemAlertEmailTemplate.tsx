@@ -14,9 +14,12 @@ interface SystemAlertEmailTemplateProps {
   message: string
   details?: string
   timestamp: Date
+  // Reference shown in the footer; random when omitted
+  alertId?: string
+  dashboardUrl?: string
 }
 
-const getAlertStyles = (alertType: string) => {
+export const getAlertStyles = (alertType: string) => {
   switch (alertType) {
     case 'error':
       return {
@@ -60,6 +63,8 @@ export const SystemAlertEmailTemplate: React.FC<Readonly<SystemAlertEmailTemplat
   message,
   details,
   timestamp,
+  alertId,
+  dashboardUrl,
 }) => {
   const alertStyles = getAlertStyles(alertType)
   
@@ -263,7 +268,7 @@ export const SystemAlertEmailTemplate: React.FC<Readonly<SystemAlertEmailTemplat
         {/* Dashboard Link */}
         <div style={{ textAlign: 'center', marginBottom: '24px' }}>
           <a
-            href={process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}
+            href={dashboardUrl || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}
             style={{
               display: 'inline-block',
               backgroundColor: '#3b82f6',
@@ -294,7 +299,7 @@ export const SystemAlertEmailTemplate: React.FC<Readonly<SystemAlertEmailTemplat
           This system alert was automatically generated by LGU Project
         </p>
         <p style={{ margin: '0', marginBottom: '8px' }}>
-          Alert ID: {Math.random().toString(36).substr(2, 9).toUpperCase()}
+          Alert ID: {alertId || Math.random().toString(36).substr(2, 9).toUpperCase()}
         </p>
         <p style={{ margin: '0' }}>
           © 2024 LGU Project. All rights reserved.
@@ -0,0 +1,304 @@
+/**
+ * Email Outbox (server-side only)
+ *
+ * Every outbound email except the admin test email is written to the
+ * email_outbox table before it is sent, so a Resend outage or rate limit
+ * delays the email instead of losing it:
+ *
+ * - queued:  waiting for its next attempt (next_attempt_at)
+ * - sending: claimed by a worker; left for ten minutes before it counts as stalled
+ * - sent:    accepted by Resend; delivery and bounces arrive later by webhook
+ * - failed:  gave up after max_attempts
+ * - bounced: the recipient's server rejected it
+ *
+ * Failed attempts are retried with exponential backoff (1, 2, 4, 8... minutes,
+ * capped at six hours) by processEmailOutbox, which the scheduler calls
+ * through POST /api/email/outbox/process.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { db } from '@/lib/db'
+import {
+  EmailService,
+  EmailResult,
+  DigestEmailData,
+  NotificationEmailData,
+  SystemAlertEmailData
+} from '@/lib/emailService'
+import type { EmailLanguage, EmailOutbox, EmailOutboxUpdate, Json } from '@/lib/database.types'
+
+export type OutboxEmail =
+  | { template: 'welcome'; data: { recipientName: string; loginUrl?: string; language?: EmailLanguage } }
+  | { template: 'notification'; data: NotificationEmailData }
+  | { template: 'system_alert'; data: Omit<SystemAlertEmailData, 'timestamp'> & { timestamp?: string } }
+  | { template: 'digest'; data: DigestEmailData }
+
+export interface OutboxProcessSummary {
+  due: number
+  sent: number
+  retrying: number
+  failed: number
+  // Claimed by another worker first
+  skipped: number
+}
+
+const BASE_RETRY_DELAY_MS = 60 * 1000
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000
+const STALLED_SEND_MS = 10 * 60 * 1000
+// Svix rejects webhooks whose timestamp is further off than this
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60
+
+const FROM_NAME = process.env.EMAIL_FROM_NAME || 'LGU Project'
+
+/**
+ * Write an email to the outbox without sending it
+ * @param recipientEmail - Recipient address
+ * @param email - Template and the data it renders
+ * @param options - createdBy records the user who asked for the email
+ * @returns Queued row, or null when email notifications are disabled
+ */
+export async function queueEmail(
+  recipientEmail: string,
+  email: OutboxEmail,
+  options: { createdBy?: string } = {}
+): Promise<EmailOutbox | null> {
+  if (!EmailService.isEmailEnabled()) {
+    console.log('[EmailOutbox] Email notifications are disabled; not queueing')
+    return null
+  }
+
+  return db.createOutboxEmail({
+    template: email.template,
+    recipient_email: recipientEmail,
+    recipient_name: email.data.recipientName,
+    subject: outboxSubject(email),
+    payload: email.data as unknown as Json,
+    status: 'queued',
+    next_attempt_at: new Date().toISOString(),
+    created_by: options.createdBy ?? null
+  })
+}
+
+/**
+ * Queue an email and make the first attempt right away; a failed attempt is
+ * left queued for the retry schedule
+ * @returns Row after the attempt, or null when email notifications are disabled
+ */
+export async function queueAndSend(
+  recipientEmail: string,
+  email: OutboxEmail,
+  options: { createdBy?: string } = {}
+): Promise<EmailOutbox | null> {
+  const queued = await queueEmail(recipientEmail, email, options)
+  if (!queued) {
+    return null
+  }
+
+  return attemptOutboxEmail(queued)
+}
+
+/**
+ * Claim an outbox email and try to send it
+ * @param email - Outbox row as last read
+ * @returns Row after the attempt, or null if another worker claimed it first
+ */
+export async function attemptOutboxEmail(email: EmailOutbox): Promise<EmailOutbox | null> {
+  const claimed = await db.claimOutboxEmail(email)
+  if (!claimed) {
+    return null
+  }
+
+  let result: EmailResult
+  try {
+    result = await deliverOutboxEmail(claimed)
+  } catch (error) {
+    result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+
+  const now = new Date()
+  let updates: EmailOutboxUpdate
+  if (result.success) {
+    updates = {
+      status: 'sent',
+      message_id: result.messageId ?? null,
+      sent_at: now.toISOString(),
+      next_attempt_at: null,
+      last_error: null
+    }
+  } else if (claimed.attempts >= claimed.max_attempts) {
+    console.error(`[EmailOutbox] Giving up on email ${claimed.id} after ${claimed.attempts} attempts:`, result.error)
+    updates = { status: 'failed', next_attempt_at: null, last_error: result.error ?? 'Unknown error' }
+  } else {
+    updates = {
+      status: 'queued',
+      next_attempt_at: new Date(now.getTime() + retryDelay(claimed.attempts)).toISOString(),
+      last_error: result.error ?? 'Unknown error'
+    }
+  }
+
+  return db.updateOutboxEmail(claimed.id, updates)
+}
+
+/**
+ * Send every queued email whose next attempt is due, and retry sends that
+ * stalled (e.g. the worker was stopped mid-send)
+ * @param options - limit caps the emails handled in one call
+ */
+export async function processEmailOutbox(options: { limit?: number; now?: Date } = {}): Promise<OutboxProcessSummary> {
+  const now = options.now || new Date()
+  const due = await db.getDueOutboxEmails(
+    now.toISOString(),
+    new Date(now.getTime() - STALLED_SEND_MS).toISOString(),
+    options.limit
+  )
+  const summary: OutboxProcessSummary = { due: due.length, sent: 0, retrying: 0, failed: 0, skipped: 0 }
+
+  for (const email of due) {
+    try {
+      const result = await attemptOutboxEmail(email)
+      if (!result) {
+        summary.skipped++
+      } else if (result.status === 'sent') {
+        summary.sent++
+      } else if (result.status === 'failed') {
+        summary.failed++
+      } else {
+        summary.retrying++
+      }
+    } catch (error) {
+      summary.failed++
+      console.error(`[EmailOutbox] Error processing email ${email.id}:`, error)
+    }
+  }
+
+  console.log(`[EmailOutbox] Processed ${summary.due} due emails: ${summary.sent} sent, ${summary.retrying} retrying, ${summary.failed} failed, ${summary.skipped} skipped`)
+  return summary
+}
+
+/**
+ * Check a Resend webhook signature (Resend signs webhooks with Svix)
+ * @param payload - Raw request body
+ * @param headers - svix-id, svix-timestamp and svix-signature request headers
+ * @param secret - Signing secret from the Resend dashboard (whsec_...)
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  headers: { id: string | null; timestamp: string | null; signature: string | null },
+  secret: string
+): boolean {
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    return false
+  }
+
+  const timestamp = Number(headers.timestamp)
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const expected = createHmac('sha256', key)
+    .update(`${headers.id}.${headers.timestamp}.${payload}`)
+    .digest()
+
+  // The header lists one or more "v1,<base64 signature>" entries
+  return headers.signature.split(' ').some(entry => {
+    const [version, signature] = entry.split(',')
+    if (version !== 'v1' || !signature) {
+      return false
+    }
+    const received = Buffer.from(signature, 'base64')
+    return received.length === expected.length && timingSafeEqual(received, expected)
+  })
+}
+
+/**
+ * Record a Resend delivery event against the outbox email it belongs to
+ * @param event - Webhook payload
+ * @returns Updated row, or null for unknown emails and event types
+ */
+export async function recordDeliveryEvent(event: {
+  type: string
+  created_at?: string
+  data?: { email_id?: string; bounce?: { message?: string; type?: string; subType?: string } }
+}): Promise<EmailOutbox | null> {
+  const messageId = event.data?.email_id
+  if (!messageId) {
+    return null
+  }
+
+  const email = await db.findOutboxEmailByMessageId(messageId)
+  if (!email) {
+    console.log(`[EmailOutbox] Ignoring ${event.type} for unknown email ${messageId}`)
+    return null
+  }
+
+  const at = event.created_at || new Date().toISOString()
+  switch (event.type) {
+    case 'email.delivered':
+      return db.updateOutboxEmail(email.id, { delivered_at: at })
+
+    case 'email.bounced': {
+      const bounce = event.data?.bounce
+      const reason = [bounce?.type, bounce?.subType].filter(Boolean).join('/')
+      return db.updateOutboxEmail(email.id, {
+        status: 'bounced',
+        bounced_at: at,
+        bounce_reason: [reason, bounce?.message].filter(Boolean).join(': ') || 'Bounced'
+      })
+    }
+
+    case 'email.complained':
+      return db.updateOutboxEmail(email.id, { complained_at: at })
+
+    case 'email.delivery_delayed':
+      return db.updateOutboxEmail(email.id, { last_error: 'Delivery delayed by the recipient server' })
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Render and send an outbox email through the matching EmailService method
+ */
+function deliverOutboxEmail(email: EmailOutbox): Promise<EmailResult> {
+  const queued = { template: email.template, data: email.payload } as unknown as OutboxEmail
+
+  switch (queued.template) {
+    case 'welcome':
+      return EmailService.sendWelcomeEmail(email.recipient_email, queued.data.recipientName, queued.data.loginUrl, queued.data.language)
+
+    case 'notification':
+      return EmailService.sendNotification(email.recipient_email, queued.data)
+
+    case 'system_alert':
+      return EmailService.sendSystemAlert(email.recipient_email, {
+        ...queued.data,
+        timestamp: queued.data.timestamp ? new Date(queued.data.timestamp) : new Date(email.created_at)
+      })
+
+    case 'digest':
+      return EmailService.sendDigest(email.recipient_email, queued.data)
+
+    default:
+      return Promise.resolve({ success: false, error: `Unsupported email template: ${email.template}` })
+  }
+}
+
+/**
+ * Subject line shown in the delivery log
+ */
+function outboxSubject(email: OutboxEmail): string {
+  switch (email.template) {
+    case 'welcome':
+      return `Welcome to ${FROM_NAME}!`
+    case 'system_alert':
+      return `[${email.data.alertType.toUpperCase()}] ${email.data.subject}`
+    default:
+      return email.data.subject
+  }
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS)
+}
@@ -1,13 +1,18 @@
 /**
- * Email Service - Professional Resend Integration
+ * Email Service - Professional Email Integration
  * 
- * This service handles all email operations using Resend API.
+ * This service handles all email operations. Emails are rendered from React
+ * templates and sent through the transport selected by EMAIL_TRANSPORT
+ * (Resend, SMTP or .eml files on disk - see emailTransport.ts). Welcome,
+ * notification and system alert emails use the version edited on
+ * /admin/email-test in the recipient's language when there is one.
  * It provides a clean interface for sending various types of emails
  * with proper error handling and logging.
  * 
  * Features:
  * - Welcome emails for new users
  * - Notification emails for system events
+ * - Daily and weekly activity digests
  * - Test emails for admin verification
  * - Professional email templates
  * - Error handling and logging
@@ -21,13 +26,13 @@
  * ```
  */
 
-import { Resend } from 'resend'
+import { getEmailTransport, EmailTransportName } from './emailTransport'
+import { htmlEmailElement, renderCustomEmail, RenderedEmail } from './emailTemplateRenderer'
+import type { EmailLanguage } from './database.types'
 import { WelcomeEmailTemplate } from './email-templates/WelcomeEmailTemplate'
 import { NotificationEmailTemplate } from './email-templates/NotificationEmailTemplate'
-import { SystemAlertEmailTemplate } from './email-templates/SystemAlertEmailTemplate'
-
-// Initialize Resend with API key
-const resend = new Resend(process.env.RESEND_API_KEY)
+import { SystemAlertEmailTemplate, getAlertStyles } from './email-templates/SystemAlertEmailTemplate'
+import { DigestEmailTemplate, DigestEmailSection } from './email-templates/DigestEmailTemplate'
 
 // Email configuration from environment variables
 const EMAIL_CONFIG = {
@@ -41,6 +46,8 @@ export interface EmailResult {
   success: boolean
   messageId?: string
   error?: string
+  // Transport that handled the email
+  transport?: EmailTransportName
 }
 
 export interface NotificationEmailData {
@@ -49,6 +56,7 @@ export interface NotificationEmailData {
   message: string
   actionUrl?: string
   actionText?: string
+  language?: EmailLanguage
 }
 
 export interface SystemAlertEmailData {
@@ -58,6 +66,16 @@ export interface SystemAlertEmailData {
   message: string
   details?: string
   timestamp?: Date
+  language?: EmailLanguage
+}
+
+export interface DigestEmailData {
+  recipientName: string
+  subject: string
+  title: string
+  periodLabel: string
+  sections: DigestEmailSection[]
+  actionUrl: string
 }
 
 /**
@@ -72,15 +90,18 @@ export class EmailService {
     return EMAIL_CONFIG.enableNotifications
   }
 
+  /**
+   * Name of the transport emails are sent through
+   */
+  static getTransportName(): EmailTransportName {
+    return getEmailTransport().name
+  }
+
   /**
    * Validate email configuration
    */
   static validateConfig(): { valid: boolean; errors: string[] } {
-    const errors: string[] = []
-    
-    if (!process.env.RESEND_API_KEY) {
-      errors.push('RESEND_API_KEY is not configured')
-    }
+    const errors: string[] = [...getEmailTransport().validateConfig()]
     
     if (!EMAIL_CONFIG.fromEmail) {
       errors.push('NEXT_PUBLIC_RESEND_FROM_EMAIL is not configured')
@@ -98,7 +119,8 @@ export class EmailService {
   static async sendWelcomeEmail(
     recipientEmail: string,
     recipientName: string,
-    loginUrl?: string
+    loginUrl?: string,
+    language?: EmailLanguage
   ): Promise<EmailResult> {
     try {
       if (!this.isEmailEnabled()) {
@@ -114,24 +136,32 @@ export class EmailService {
 
       console.log(`[EmailService] Sending welcome email to: ${recipientEmail}`)
 
-      const { data, error } = await resend.emails.send({
+      const resolvedLoginUrl = loginUrl || `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/auth/login`
+      const custom = await renderCustomEmail('welcome', language, {
+        appName: EMAIL_CONFIG.fromName,
+        recipientName,
+        loginUrl: resolvedLoginUrl
+      })
+
+      const transport = getEmailTransport()
+      const { messageId, error } = await transport.send({
         from: `${EMAIL_CONFIG.fromName} <${EMAIL_CONFIG.fromEmail}>`,
         to: [recipientEmail],
-        subject: `Welcome to ${EMAIL_CONFIG.fromName}!`,
-        react: WelcomeEmailTemplate({
+        subject: custom?.subject || `Welcome to ${EMAIL_CONFIG.fromName}!`,
+        react: custom ? htmlEmailElement(custom.html) : WelcomeEmailTemplate({
           recipientName,
-          loginUrl: loginUrl || `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/auth/login`
+          loginUrl: resolvedLoginUrl
         }),
         replyTo: EMAIL_CONFIG.replyTo
       })
 
       if (error) {
         console.error('[EmailService] Error sending welcome email:', error)
-        return { success: false, error: error.message }
+        return { success: false, error, transport: transport.name }
       }
 
-      console.log(`[EmailService] Welcome email sent successfully. ID: ${data?.id}`)
-      return { success: true, messageId: data?.id }
+      console.log(`[EmailService] Welcome email sent successfully via ${transport.name}. ID: ${messageId}`)
+      return { success: true, messageId, transport: transport.name }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -161,21 +191,31 @@ export class EmailService {
 
       console.log(`[EmailService] Sending notification email to: ${recipientEmail}`)
 
-      const { data, error } = await resend.emails.send({
+      const custom = await renderCustomEmail('notification', emailData.language, {
+        appName: EMAIL_CONFIG.fromName,
+        recipientName: emailData.recipientName,
+        subject: emailData.subject,
+        message: emailData.message,
+        actionUrl: emailData.actionUrl,
+        actionText: emailData.actionText
+      })
+
+      const transport = getEmailTransport()
+      const { messageId, error } = await transport.send({
         from: `${EMAIL_CONFIG.fromName} <${EMAIL_CONFIG.fromEmail}>`,
         to: [recipientEmail],
-        subject: emailData.subject,
-        react: NotificationEmailTemplate(emailData),
+        subject: custom?.subject || emailData.subject,
+        react: custom ? htmlEmailElement(custom.html) : NotificationEmailTemplate(emailData),
         replyTo: EMAIL_CONFIG.replyTo
       })
 
       if (error) {
         console.error('[EmailService] Error sending notification email:', error)
-        return { success: false, error: error.message }
+        return { success: false, error, transport: transport.name }
       }
 
-      console.log(`[EmailService] Notification email sent successfully. ID: ${data?.id}`)
-      return { success: true, messageId: data?.id }
+      console.log(`[EmailService] Notification email sent successfully via ${transport.name}. ID: ${messageId}`)
+      return { success: true, messageId, transport: transport.name }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -205,24 +245,44 @@ export class EmailService {
 
       console.log(`[EmailService] Sending system alert email to: ${recipientEmail}`)
 
-      const { data, error } = await resend.emails.send({
+      const timestamp = emailData.timestamp || new Date()
+      const alertId = Math.random().toString(36).substr(2, 9).toUpperCase()
+      const dashboardUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+      const custom = await renderCustomEmail('system_alert', emailData.language, {
+        appName: EMAIL_CONFIG.fromName,
+        recipientName: emailData.recipientName,
+        alertType: emailData.alertType,
+        alertTypeLabel: emailData.alertType.toUpperCase(),
+        alertIcon: getAlertStyles(emailData.alertType).icon,
+        subject: emailData.subject,
+        message: emailData.message,
+        details: emailData.details,
+        timestamp: timestamp.toLocaleString(),
+        alertId,
+        dashboardUrl
+      })
+
+      const transport = getEmailTransport()
+      const { messageId, error } = await transport.send({
         from: `${EMAIL_CONFIG.fromName} <${EMAIL_CONFIG.fromEmail}>`,
         to: [recipientEmail],
-        subject: `[${emailData.alertType.toUpperCase()}] ${emailData.subject}`,
-        react: SystemAlertEmailTemplate({
+        subject: custom?.subject || `[${emailData.alertType.toUpperCase()}] ${emailData.subject}`,
+        react: custom ? htmlEmailElement(custom.html) : SystemAlertEmailTemplate({
           ...emailData,
-          timestamp: emailData.timestamp || new Date()
+          timestamp,
+          alertId,
+          dashboardUrl
         }),
         replyTo: EMAIL_CONFIG.replyTo
       })
 
       if (error) {
         console.error('[EmailService] Error sending system alert email:', error)
-        return { success: false, error: error.message }
+        return { success: false, error, transport: transport.name }
       }
 
-      console.log(`[EmailService] System alert email sent successfully. ID: ${data?.id}`)
-      return { success: true, messageId: data?.id }
+      console.log(`[EmailService] System alert email sent successfully via ${transport.name}. ID: ${messageId}`)
+      return { success: true, messageId, transport: transport.name }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -231,6 +291,92 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send activity digest email
+   */
+  static async sendDigest(
+    recipientEmail: string,
+    emailData: DigestEmailData
+  ): Promise<EmailResult> {
+    try {
+      if (!this.isEmailEnabled()) {
+        console.log('[EmailService] Email notifications are disabled')
+        return { success: true, messageId: 'disabled' }
+      }
+
+      const { valid, errors } = this.validateConfig()
+      if (!valid) {
+        console.error('[EmailService] Configuration errors:', errors)
+        return { success: false, error: `Configuration error: ${errors.join(', ')}` }
+      }
+
+      console.log(`[EmailService] Sending digest email to: ${recipientEmail}`)
+
+      const transport = getEmailTransport()
+      const { messageId, error } = await transport.send({
+        from: `${EMAIL_CONFIG.fromName} <${EMAIL_CONFIG.fromEmail}>`,
+        to: [recipientEmail],
+        subject: emailData.subject,
+        react: DigestEmailTemplate(emailData),
+        replyTo: EMAIL_CONFIG.replyTo
+      })
+
+      if (error) {
+        console.error('[EmailService] Error sending digest email:', error)
+        return { success: false, error, transport: transport.name }
+      }
+
+      console.log(`[EmailService] Digest email sent successfully via ${transport.name}. ID: ${messageId}`)
+      return { success: true, messageId, transport: transport.name }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error('[EmailService] Exception sending digest email:', errorMessage)
+      return { success: false, error: errorMessage }
+    }
+  }
+
+  /**
+   * Send a template rendered in the editor, with sample values, so admins
+   * can check it in a real inbox before saving
+   */
+  static async sendTemplatePreview(
+    recipientEmail: string,
+    rendered: RenderedEmail
+  ): Promise<EmailResult> {
+    try {
+      const { valid, errors } = this.validateConfig()
+      if (!valid) {
+        console.error('[EmailService] Configuration errors:', errors)
+        return { success: false, error: `Configuration error: ${errors.join(', ')}` }
+      }
+
+      console.log(`[EmailService] Sending template preview to: ${recipientEmail}`)
+
+      const transport = getEmailTransport()
+      const { messageId, error } = await transport.send({
+        from: `${EMAIL_CONFIG.fromName} <${EMAIL_CONFIG.fromEmail}>`,
+        to: [recipientEmail],
+        subject: `[Test] ${rendered.subject}`,
+        react: htmlEmailElement(rendered.html),
+        replyTo: EMAIL_CONFIG.replyTo
+      })
+
+      if (error) {
+        console.error('[EmailService] Error sending template preview:', error)
+        return { success: false, error, transport: transport.name }
+      }
+
+      console.log(`[EmailService] Template preview sent successfully via ${transport.name}. ID: ${messageId}`)
+      return { success: true, messageId, transport: transport.name }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error('[EmailService] Exception sending template preview:', errorMessage)
+      return { success: false, error: errorMessage }
+    }
+  }
+
   /**
    * Send test email for admin verification
    */
@@ -244,14 +390,15 @@ export class EmailService {
 
       console.log(`[EmailService] Sending test email to: ${recipientEmail}`)
 
-      const { data, error } = await resend.emails.send({
+      const transport = getEmailTransport()
+      const { messageId, error } = await transport.send({
         from: `${EMAIL_CONFIG.fromName} <${EMAIL_CONFIG.fromEmail}>`,
         to: [recipientEmail],
         subject: `Test Email from ${EMAIL_CONFIG.fromName}`,
         react: NotificationEmailTemplate({
           recipientName: 'Administrator',
           subject: 'Email Service Test',
-          message: 'This is a test email to verify that the Resend email service is working correctly. If you receive this email, the integration is successful!',
+          message: `This is a test email to verify that the email service (${transport.name}) is working correctly. If you receive this email, the integration is successful!`,
           actionUrl: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
           actionText: 'Go to Dashboard'
         }),
@@ -260,11 +407,11 @@ export class EmailService {
 
       if (error) {
         console.error('[EmailService] Error sending test email:', error)
-        return { success: false, error: error.message }
+        return { success: false, error, transport: transport.name }
       }
 
-      console.log(`[EmailService] Test email sent successfully. ID: ${data?.id}`)
-      return { success: true, messageId: data?.id }
+      console.log(`[EmailService] Test email sent successfully via ${transport.name}. ID: ${messageId}`)
+      return { success: true, messageId, transport: transport.name }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,194 @@
+/**
+ * Email Template Rendering (server-side only)
+ *
+ * Resolves the edited version of a template for a recipient's language -
+ * falling back to the English edit, then to the built-in TSX template - and
+ * produces the built-in templates in editable form for the editor, with
+ * {{variable}} placeholders where the TSX template takes props.
+ */
+
+import * as React from 'react'
+import { render } from '@react-email/render'
+import { db } from '@/lib/db'
+import type { EditableEmailTemplateKey, EmailLanguage } from '@/lib/database.types'
+import { DEFAULT_EMAIL_LANGUAGE, EmailTemplateVariables, renderTemplateString } from '@/lib/emailTemplates'
+import { WelcomeEmailTemplate } from '@/lib/email-templates/WelcomeEmailTemplate'
+import { NotificationEmailTemplate } from '@/lib/email-templates/NotificationEmailTemplate'
+import { SystemAlertEmailTemplate } from '@/lib/email-templates/SystemAlertEmailTemplate'
+
+export interface EditableEmailTemplate {
+  subject: string
+  body: string
+}
+
+export interface ResolvedEmailTemplate extends EditableEmailTemplate {
+  language: EmailLanguage
+  // custom: edited in this language; fallback: the English edit; built-in: the TSX template
+  source: 'custom' | 'fallback' | 'built-in'
+  updatedAt: string | null
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+}
+
+const BUILT_IN_SUBJECTS: Record<EditableEmailTemplateKey, string> = {
+  welcome: 'Welcome to {{appName}}!',
+  notification: '{{subject}}',
+  system_alert: '[{{alertTypeLabel}}] {{subject}}'
+}
+
+/**
+ * The built-in TSX template as an editable subject and HTML body
+ */
+export async function builtInEmailTemplate(templateKey: EditableEmailTemplateKey): Promise<EditableEmailTemplate> {
+  let body: string
+
+  switch (templateKey) {
+    case 'welcome':
+      body = await renderSeed(WelcomeEmailTemplate({ recipientName: '{{recipientName}}', loginUrl: '{{loginUrl}}' }))
+      break
+
+    case 'notification': {
+      const props = { recipientName: '{{recipientName}}', subject: '{{subject}}', message: '{{message}}' }
+      body = wrapOptionalBlock(
+        await renderSeed(NotificationEmailTemplate({ ...props, actionUrl: '{{actionUrl}}', actionText: '{{actionText}}' })),
+        await renderSeed(NotificationEmailTemplate(props)),
+        ['actionUrl', 'actionText']
+      )
+      break
+    }
+
+    case 'system_alert': {
+      // An unknown alert type renders with the info colours
+      const props = {
+        recipientName: '{{recipientName}}',
+        alertType: '{{alertType}}' as 'info',
+        subject: '{{subject}}',
+        message: '{{message}}',
+        timestamp: { toLocaleString: () => '{{timestamp}}' } as Date,
+        alertId: '{{alertId}}',
+        dashboardUrl: '{{dashboardUrl}}'
+      }
+      body = wrapOptionalBlock(
+        await renderSeed(SystemAlertEmailTemplate({ ...props, details: '{{details}}' })),
+        await renderSeed(SystemAlertEmailTemplate(props)),
+        ['details']
+      )
+        .replace(/\{\{ALERTTYPE\}\}/g, '{{alertTypeLabel}}')
+        .replace(/ℹ️/g, '{{alertIcon}}')
+      break
+    }
+  }
+
+  return { subject: BUILT_IN_SUBJECTS[templateKey], body }
+}
+
+/**
+ * The template a language uses, for the editor
+ */
+export async function resolveEmailTemplate(
+  templateKey: EditableEmailTemplateKey,
+  language: EmailLanguage
+): Promise<ResolvedEmailTemplate> {
+  const custom = await db.findEmailTemplate(templateKey, language)
+  if (custom) {
+    return { subject: custom.subject, body: custom.body, language, source: 'custom', updatedAt: custom.updated_at }
+  }
+
+  const fallback = language === DEFAULT_EMAIL_LANGUAGE ? null : await db.findEmailTemplate(templateKey, DEFAULT_EMAIL_LANGUAGE)
+  if (fallback) {
+    return { subject: fallback.subject, body: fallback.body, language, source: 'fallback', updatedAt: null }
+  }
+
+  return { ...(await builtInEmailTemplate(templateKey)), language, source: 'built-in', updatedAt: null }
+}
+
+/**
+ * Render the edited template for a recipient's language
+ * @returns Subject and HTML, or null when the built-in TSX template should be used
+ */
+export async function renderCustomEmail<K extends EditableEmailTemplateKey>(
+  templateKey: K,
+  language: EmailLanguage | undefined,
+  values: EmailTemplateVariables[K]
+): Promise<RenderedEmail | null> {
+  try {
+    const requested = language || DEFAULT_EMAIL_LANGUAGE
+    const template = await db.findEmailTemplate(templateKey, requested)
+      ?? (requested === DEFAULT_EMAIL_LANGUAGE ? null : await db.findEmailTemplate(templateKey, DEFAULT_EMAIL_LANGUAGE))
+    if (!template) {
+      return null
+    }
+
+    return renderEmailTemplate(template, { ...values })
+  } catch (error) {
+    // An unreadable template must not stop the email; the built-in one still works
+    console.error(`[EmailTemplates] Failed to load ${templateKey} template, using the built-in one:`, error)
+    return null
+  }
+}
+
+/**
+ * Fill a subject and body with values
+ */
+export function renderEmailTemplate(template: EditableEmailTemplate, values: Record<string, string | undefined>): RenderedEmail {
+  return {
+    subject: renderTemplateString(template.subject, values, { html: false }).replace(/\s+/g, ' ').trim(),
+    html: renderTemplateString(template.body, values, { html: true })
+  }
+}
+
+/**
+ * Wrap rendered HTML so it can be sent like a TSX template
+ */
+export function htmlEmailElement(html: string): React.ReactElement {
+  return React.createElement('div', { dangerouslySetInnerHTML: { __html: html } })
+}
+
+/**
+ * Render a template to HTML without the document wrapper and React's
+ * text-separator comments, one block element per line so it reads cleanly
+ * in the editor
+ */
+async function renderSeed(element: React.ReactNode): Promise<string> {
+  const html = await render(element)
+  return html
+    .replace(/^<!DOCTYPE[^>]*>/i, '')
+    .replace(/<!--\/?\$-->/g, '')
+    .replace(/<!-- -->/g, '')
+    // Whitespace between block elements doesn't change the layout
+    .replace(/(<(?:div|p|h[1-6])[\s>])/g, '\n$1')
+    .replace(/(<\/(?:div|p|h[1-6])>)/g, '$1\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim()
+}
+
+/**
+ * Mark the part of a template that only renders when optional props are set.
+ * Compares renders with and without the props and wraps the difference in
+ * {{#name}} sections.
+ */
+function wrapOptionalBlock(withBlock: string, withoutBlock: string, names: string[]): string {
+  let prefix = 0
+  while (prefix < withoutBlock.length && withBlock[prefix] === withoutBlock[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (suffix < withoutBlock.length - prefix && withBlock[withBlock.length - 1 - suffix] === withoutBlock[withoutBlock.length - 1 - suffix]) {
+    suffix++
+  }
+
+  // Shift the block left onto a tag boundary; each step keeps the same text outside it
+  let start = prefix
+  let end = withBlock.length - suffix
+  while (start > 0 && withBlock[start - 1] !== '>' && withBlock[start - 1] === withBlock[end - 1]) {
+    start--
+    end--
+  }
+
+  const open = names.map(name => `{{#${name}}}`).join('')
+  const close = [...names].reverse().map(name => `{{/${name}}}`).join('')
+  return withBlock.slice(0, start) + open + withBlock.slice(start, end) + close + withBlock.slice(end)
+}
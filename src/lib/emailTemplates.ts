@@ -0,0 +1,231 @@
+/**
+ * Editable Email Templates
+ *
+ * Definitions shared by the template editor and the server: which templates
+ * can be edited, the languages they come in, the variables each one
+ * receives, and the small placeholder syntax used in subjects and bodies:
+ *
+ * - {{name}}                 the variable's value (HTML-escaped in bodies)
+ * - {{#name}}...{{/name}}    only included when the variable has a value
+ *
+ * Safe to import from client components.
+ */
+
+import { z } from 'zod'
+import type { EditableEmailTemplateKey, EmailLanguage } from '@/lib/database.types'
+
+export const EMAIL_TEMPLATE_KEYS = ['welcome', 'notification', 'system_alert'] as const satisfies readonly EditableEmailTemplateKey[]
+
+export const EMAIL_LANGUAGES = ['en', 'fil', 'ceb'] as const satisfies readonly EmailLanguage[]
+
+export const EMAIL_LANGUAGE_LABELS: Record<EmailLanguage, string> = {
+  en: 'English',
+  fil: 'Filipino',
+  ceb: 'Cebuano'
+}
+
+export const DEFAULT_EMAIL_LANGUAGE: EmailLanguage = 'en'
+
+export type EmailVariableType = 'text' | 'multiline' | 'url' | 'datetime'
+
+export interface EmailVariableDefinition {
+  label: string
+  type: EmailVariableType
+  // Always provided when the email is sent
+  required: boolean
+  // Value used for the editor preview and test sends
+  sample: string
+}
+
+/**
+ * Values each template is rendered with
+ */
+export interface EmailTemplateVariables {
+  welcome: {
+    appName: string
+    recipientName: string
+    loginUrl: string
+  }
+  notification: {
+    appName: string
+    recipientName: string
+    subject: string
+    message: string
+    actionUrl?: string
+    actionText?: string
+  }
+  system_alert: {
+    appName: string
+    recipientName: string
+    alertType: string
+    alertTypeLabel: string
+    alertIcon: string
+    subject: string
+    message: string
+    details?: string
+    timestamp: string
+    alertId: string
+    dashboardUrl: string
+  }
+}
+
+interface EmailTemplateDefinition<K extends EditableEmailTemplateKey> {
+  label: string
+  description: string
+  variables: Record<keyof EmailTemplateVariables[K], EmailVariableDefinition>
+}
+
+const APP_NAME_VARIABLE: EmailVariableDefinition = {
+  label: 'Application name',
+  type: 'text',
+  required: true,
+  sample: 'LGU Project'
+}
+
+const RECIPIENT_NAME_VARIABLE: EmailVariableDefinition = {
+  label: 'Recipient name',
+  type: 'text',
+  required: true,
+  sample: 'Juan Dela Cruz'
+}
+
+export const EMAIL_TEMPLATE_DEFINITIONS: { [K in EditableEmailTemplateKey]: EmailTemplateDefinition<K> } = {
+  welcome: {
+    label: 'Welcome',
+    description: 'Sent to new user accounts',
+    variables: {
+      appName: APP_NAME_VARIABLE,
+      recipientName: RECIPIENT_NAME_VARIABLE,
+      loginUrl: { label: 'Login page URL', type: 'url', required: true, sample: 'https://lgu.example.gov.ph/auth/login' }
+    }
+  },
+  notification: {
+    label: 'Notification',
+    description: 'System events such as new personnel, and emails sent from the API',
+    variables: {
+      appName: APP_NAME_VARIABLE,
+      recipientName: RECIPIENT_NAME_VARIABLE,
+      subject: { label: 'Subject', type: 'text', required: true, sample: 'New personnel record' },
+      message: { label: 'Message', type: 'multiline', required: true, sample: 'Maria Santos was added to the Treasury department.' },
+      actionUrl: { label: 'Button URL', type: 'url', required: false, sample: 'https://lgu.example.gov.ph/admin/personnel' },
+      actionText: { label: 'Button text', type: 'text', required: false, sample: 'View in LGU Portal' }
+    }
+  },
+  system_alert: {
+    label: 'System alert',
+    description: 'Alerts about the health of the system',
+    variables: {
+      appName: APP_NAME_VARIABLE,
+      recipientName: RECIPIENT_NAME_VARIABLE,
+      alertType: { label: 'Alert type (info, warning, error, success)', type: 'text', required: true, sample: 'warning' },
+      alertTypeLabel: { label: 'Alert type in capitals', type: 'text', required: true, sample: 'WARNING' },
+      alertIcon: { label: 'Alert icon', type: 'text', required: true, sample: '⚠️' },
+      subject: { label: 'Subject', type: 'text', required: true, sample: 'Cloudinary sync failed' },
+      message: { label: 'Message', type: 'multiline', required: true, sample: '3 media assets could not be synchronized.' },
+      details: { label: 'Additional details', type: 'multiline', required: false, sample: 'Error: rate limit exceeded\nRetry scheduled in 5 minutes' },
+      timestamp: { label: 'Alert time', type: 'datetime', required: true, sample: 'October 19, 2026, 9:30 AM' },
+      alertId: { label: 'Alert reference', type: 'text', required: true, sample: 'K3Q9X2M1A' },
+      dashboardUrl: { label: 'Dashboard URL', type: 'url', required: true, sample: 'https://lgu.example.gov.ph' }
+    }
+  }
+}
+
+export type EmailTemplateValues = Record<string, string | undefined>
+
+const TOKEN_PATTERN = /\{\{\s*([#/]?)\s*([a-zA-Z][a-zA-Z0-9]*)\s*\}\}/g
+const SECTION_PATTERN = /\{\{\s*#\s*([a-zA-Z][a-zA-Z0-9]*)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\1\s*\}\}/
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;')
+
+/**
+ * Fill a subject or body with variable values
+ * @param template - Text with {{name}} placeholders and {{#name}} sections
+ * @param values - Variable values; missing ones render empty
+ * @param options - html escapes values (bodies); subjects are plain text
+ */
+export function renderTemplateString(
+  template: string,
+  values: EmailTemplateValues,
+  options: { html: boolean }
+): string {
+  // Drop sections whose variable is empty, outermost first, before any value is inserted
+  let output = template
+  for (let match = SECTION_PATTERN.exec(output); match; match = SECTION_PATTERN.exec(output)) {
+    const [whole, name, content] = match
+    output = output.slice(0, match.index) + (values[name] ? content : '') + output.slice(match.index + whole.length)
+  }
+
+  return output.replace(TOKEN_PATTERN, (_token, marker: string, name: string) => {
+    if (marker) {
+      // Unmatched section markers are reported by validateTemplateString
+      return ''
+    }
+    const value = values[name] ?? ''
+    return options.html ? escapeHtml(value) : value
+  })
+}
+
+/**
+ * Check a subject or body for unknown variables and unbalanced sections
+ * @returns Problems found, empty when the text is valid
+ */
+export function validateTemplateString(templateKey: EditableEmailTemplateKey, template: string): string[] {
+  const known = Object.keys(EMAIL_TEMPLATE_DEFINITIONS[templateKey].variables)
+  const errors: string[] = []
+  const open: string[] = []
+
+  for (const [, marker, name] of template.matchAll(TOKEN_PATTERN)) {
+    if (!known.includes(name)) {
+      errors.push(`Unknown variable {{${name}}}`)
+      continue
+    }
+    if (marker === '#') {
+      open.push(name)
+    } else if (marker === '/') {
+      const last = open.pop()
+      if (last !== name) {
+        errors.push(last ? `{{/${name}}} closes {{#${last}}}` : `{{/${name}}} has no matching {{#${name}}}`)
+        if (last) {
+          open.push(last)
+        }
+      }
+    }
+  }
+
+  for (const name of open) {
+    errors.push(`{{#${name}}} is never closed`)
+  }
+
+  return [...new Set(errors)]
+}
+
+/**
+ * Sample values for previews and test sends
+ */
+export function sampleTemplateValues(templateKey: EditableEmailTemplateKey): EmailTemplateValues {
+  const variables = EMAIL_TEMPLATE_DEFINITIONS[templateKey].variables as Record<string, EmailVariableDefinition>
+  return Object.fromEntries(Object.entries(variables).map(([name, variable]) => [name, variable.sample]))
+}
+
+/**
+ * Validation schema for saving a template; placeholders are checked against
+ * the template's variables
+ */
+export function emailTemplateSchema(templateKey: EditableEmailTemplateKey) {
+  return z.object({
+    language: z.enum(EMAIL_LANGUAGES),
+    subject: z.string().trim().min(1, 'Subject is required').max(500),
+    body: z.string().trim().min(1, 'Body is required').max(200000)
+  }).superRefine((template, ctx) => {
+    for (const field of ['subject', 'body'] as const) {
+      for (const message of validateTemplateString(templateKey, template[field])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message })
+      }
+    }
+  })
+}
@@ -0,0 +1,180 @@
+/**
+ * Email Transports (server-side only)
+ *
+ * EmailService hands every rendered email to one transport, chosen with
+ * EMAIL_TRANSPORT:
+ *
+ * - resend (default): the Resend API (RESEND_API_KEY)
+ * - smtp:  any SMTP server, e.g. the municipal mail server
+ *          (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD)
+ * - file:  writes each email as an .eml file to EMAIL_FILE_SINK_DIR
+ *          (default .emails) for offline development; open them in any mail client
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type * as React from 'react'
+import { Resend } from 'resend'
+import nodemailer, { SendMailOptions, Transporter } from 'nodemailer'
+import { render } from '@react-email/render'
+
+export const EMAIL_TRANSPORTS = ['resend', 'smtp', 'file'] as const
+
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number]
+
+export interface EmailMessage {
+  from: string
+  to: string[]
+  subject: string
+  react: React.ReactNode
+  replyTo?: string
+}
+
+export interface EmailSendResult {
+  messageId?: string
+  error?: string
+}
+
+export interface EmailTransport {
+  name: EmailTransportName
+  /**
+   * Missing or invalid settings, empty when the transport is ready
+   */
+  validateConfig(): string[]
+  send(message: EmailMessage): Promise<EmailSendResult>
+}
+
+const resendTransport = (): EmailTransport => {
+  let client: Resend | null = null
+
+  return {
+    name: 'resend',
+    validateConfig() {
+      return process.env.RESEND_API_KEY ? [] : ['RESEND_API_KEY is not configured']
+    },
+    async send(message) {
+      // Created on first send: the constructor throws without an API key
+      client = client || new Resend(process.env.RESEND_API_KEY)
+
+      const { data, error } = await client.emails.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        react: message.react,
+        replyTo: message.replyTo
+      })
+
+      return error ? { error: error.message } : { messageId: data?.id }
+    }
+  }
+}
+
+const smtpTransport = (): EmailTransport => {
+  let transporter: Transporter | null = null
+
+  return {
+    name: 'smtp',
+    validateConfig() {
+      const errors: string[] = []
+      if (!process.env.SMTP_HOST) {
+        errors.push('SMTP_HOST is not configured')
+      }
+      if (process.env.SMTP_PORT && isNaN(Number(process.env.SMTP_PORT))) {
+        errors.push('SMTP_PORT must be a number')
+      }
+      if (process.env.SMTP_USER && !process.env.SMTP_PASSWORD) {
+        errors.push('SMTP_PASSWORD is not configured')
+      }
+      return errors
+    },
+    async send(message) {
+      transporter = transporter || nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        // true for implicit TLS (port 465); otherwise STARTTLS is used when offered
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+          : undefined
+      })
+
+      const info = await transporter.sendMail(await toMailOptions(message))
+      const rejected = info.rejected || []
+      if (rejected.length > 0) {
+        return { error: `Rejected by SMTP server: ${rejected.join(', ')}` }
+      }
+      return { messageId: info.messageId }
+    }
+  }
+}
+
+const fileTransport = (): EmailTransport => {
+  const streamer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' })
+
+  return {
+    name: 'file',
+    validateConfig() {
+      return []
+    },
+    async send(message) {
+      const info = await streamer.sendMail(await toMailOptions(message))
+      const directory = path.resolve(process.env.EMAIL_FILE_SINK_DIR || '.emails')
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to[0].replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`
+
+      await fs.mkdir(directory, { recursive: true })
+      await fs.writeFile(path.join(directory, fileName), info.message)
+
+      console.log(`[EmailTransport] Wrote ${path.join(directory, fileName)}`)
+      return { messageId: fileName }
+    }
+  }
+}
+
+const TRANSPORT_FACTORIES: Record<EmailTransportName, () => EmailTransport> = {
+  resend: resendTransport,
+  smtp: smtpTransport,
+  file: fileTransport
+}
+
+let activeTransport: EmailTransport | null = null
+
+/**
+ * Name of the configured transport; unknown EMAIL_TRANSPORT values fall back to Resend
+ */
+export function configuredTransportName(): EmailTransportName {
+  const name = (process.env.EMAIL_TRANSPORT || 'resend').toLowerCase()
+  return (EMAIL_TRANSPORTS as readonly string[]).includes(name) ? name as EmailTransportName : 'resend'
+}
+
+/**
+ * The transport selected by EMAIL_TRANSPORT, created once per process
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    const name = configuredTransportName()
+    if (process.env.EMAIL_TRANSPORT && process.env.EMAIL_TRANSPORT.toLowerCase() !== name) {
+      console.warn(`[EmailTransport] Unknown EMAIL_TRANSPORT "${process.env.EMAIL_TRANSPORT}", using ${name}`)
+    }
+    activeTransport = TRANSPORT_FACTORIES[name]()
+  }
+  return activeTransport
+}
+
+/**
+ * Render the React template to HTML and plain text for nodemailer
+ */
+async function toMailOptions(message: EmailMessage): Promise<SendMailOptions> {
+  const [html, text] = await Promise.all([
+    render(message.react),
+    render(message.react, { plainText: true })
+  ])
+
+  return {
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    html,
+    text,
+    replyTo: message.replyTo
+  }
+}
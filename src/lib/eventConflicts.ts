@@ -0,0 +1,127 @@
+/**
+ * Event Conflict Detection (server-side only)
+ *
+ * Finds other events that double-book a location or an attendee at the same
+ * time as a new or edited event. Recurring events are compared occurrence by
+ * occurrence over the next year. A person is also considered booked when
+ * their whole department is invited elsewhere.
+ */
+
+import { db } from '@/lib/db'
+import { expandOccurrences, Occurrence, RecurringSchedule } from '@/lib/recurrence'
+import type { CalendarEventWithAttendees } from '@/lib/database.types'
+import type { EventConflict } from '@/lib/events'
+
+export interface ConflictCandidate extends RecurringSchedule {
+  id?: number
+  location: string | null
+  status: CalendarEventWithAttendees['status']
+  personnelIds: number[]
+  departmentIds: number[]
+}
+
+// How far ahead recurring events are checked, and how many occurrences at most
+const CONFLICT_HORIZON_MS = 366 * 24 * 60 * 60 * 1000
+const MAX_CHECKED_OCCURRENCES = 500
+
+const normalizeLocation = (location: string | null) =>
+  (location || '').trim().toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * First occurrence in b that overlaps an occurrence in a (both sorted by start)
+ */
+function firstOverlap(a: Occurrence[], b: Occurrence[]): Occurrence | null {
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i].start < b[j].end && b[j].start < a[i].end) {
+      return b[j]
+    }
+    if (a[i].end <= b[j].end) i++
+    else j++
+  }
+  return null
+}
+
+/**
+ * Find events that clash with a candidate event
+ * @param candidate - Event being created or updated, with its attendee IDs
+ * @returns Conflicting events with the reasons they clash
+ */
+export async function findEventConflicts(candidate: ConflictCandidate): Promise<EventConflict[]> {
+  if (candidate.status === 'cancelled') {
+    return []
+  }
+
+  const start = new Date(candidate.starts_at)
+  const occurrences = expandOccurrences(
+    candidate,
+    start,
+    new Date(start.getTime() + CONFLICT_HORIZON_MS),
+    MAX_CHECKED_OCCURRENCES
+  )
+  if (occurrences.length === 0) {
+    return []
+  }
+
+  const windowStart = occurrences[0].start
+  const windowEnd = occurrences[occurrences.length - 1].end
+
+  const [others, people, departments] = await Promise.all([
+    db.getEvents({ from: windowStart.toISOString(), to: windowEnd.toISOString() }),
+    db.findPersonnelByIds(candidate.personnelIds),
+    db.findDepartmentsByIds(candidate.departmentIds)
+  ])
+
+  const location = normalizeLocation(candidate.location)
+  const departmentNames = new Set(departments.map(department => department.name))
+
+  const conflicts: EventConflict[] = []
+
+  for (const other of others) {
+    if (other.id === candidate.id || other.status === 'cancelled') continue
+
+    const reasons: string[] = []
+
+    if (location && normalizeLocation(other.location) === location) {
+      reasons.push(`${candidate.location} is already booked`)
+    }
+
+    for (const attendee of other.attendees) {
+      if (attendee.personnel_id !== null) {
+        if (candidate.personnelIds.includes(attendee.personnel_id)) {
+          reasons.push(`${attendee.name} is already attending`)
+        } else if (attendee.department && departmentNames.has(attendee.department)) {
+          reasons.push(`${attendee.name} (${attendee.department}) is already attending`)
+        }
+      } else if (attendee.department_id !== null) {
+        if (candidate.departmentIds.includes(attendee.department_id)) {
+          reasons.push(`${attendee.name} is already attending`)
+        }
+        for (const person of people) {
+          if (person.department === attendee.name) {
+            reasons.push(`${person.name} is already attending with ${attendee.name}`)
+          }
+        }
+      }
+    }
+
+    if (reasons.length === 0) continue
+
+    const overlap = firstOverlap(
+      occurrences,
+      expandOccurrences(other, windowStart, windowEnd, MAX_CHECKED_OCCURRENCES * 4)
+    )
+    if (overlap) {
+      conflicts.push({
+        eventId: other.id,
+        title: other.title,
+        occurrenceStart: overlap.start.toISOString(),
+        occurrenceEnd: overlap.end.toISOString(),
+        reasons
+      })
+    }
+  }
+
+  return conflicts
+}
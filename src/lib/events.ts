@@ -0,0 +1,130 @@
+/**
+ * Calendar Events
+ *
+ * Event categories, the request schema used by /api/events and the
+ * occurrence shape returned to the Calendar page. Shared by the API routes
+ * and the event editor.
+ */
+
+import { z } from 'zod'
+import type { CalendarEventInsert, CalendarEventWithAttendees } from '@/lib/database.types'
+import { validateRecurrenceRule } from '@/lib/recurrence'
+
+export const EVENT_TYPES = ['meeting', 'training', 'inspection', 'maintenance', 'emergency'] as const
+
+export const EVENT_STATUSES = ['scheduled', 'ongoing', 'completed', 'cancelled'] as const
+
+export const EVENT_PRIORITIES = ['low', 'medium', 'high'] as const
+
+export type EventType = typeof EVENT_TYPES[number]
+
+export const DEFAULT_EVENT_TIMEZONE = 'Asia/Manila'
+
+/**
+ * Repeat options offered by the event editor, as RRULEs
+ */
+export const RECURRENCE_PRESETS = [
+  { label: 'Does not repeat', rule: '' },
+  { label: 'Daily', rule: 'FREQ=DAILY' },
+  { label: 'Weekly', rule: 'FREQ=WEEKLY' },
+  { label: 'Monthly', rule: 'FREQ=MONTHLY' },
+  { label: 'Quarterly', rule: 'FREQ=MONTHLY;INTERVAL=3' },
+  { label: 'Yearly', rule: 'FREQ=YEARLY' }
+] as const
+
+/**
+ * One occurrence of an event; recurring events produce several per month
+ */
+export type EventOccurrence = CalendarEventWithAttendees & {
+  occurrence_start: string
+  occurrence_end: string
+}
+
+/**
+ * Another event that double-books a location or attendee (409 response body)
+ */
+export interface EventConflict {
+  eventId: number
+  title: string
+  occurrenceStart: string
+  occurrenceEnd: string
+  reasons: string[]
+}
+
+/**
+ * Whether the runtime knows an IANA timezone name
+ */
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const eventFieldsSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(255),
+  description: z.string().optional(),
+  type: z.enum(EVENT_TYPES).default('meeting'),
+  status: z.enum(EVENT_STATUSES).default('scheduled'),
+  priority: z.enum(EVENT_PRIORITIES).default('medium'),
+  location: z.string().max(255).optional(),
+  startsAt: z.string().datetime({ offset: true, message: 'Start must be an ISO 8601 date-time' }),
+  endsAt: z.string().datetime({ offset: true, message: 'End must be an ISO 8601 date-time' }),
+  allDay: z.boolean().default(false),
+  timezone: z.string().default(DEFAULT_EVENT_TIMEZONE)
+    .refine(isValidTimezone, 'Unknown timezone'),
+  recurrenceRule: z.string().max(500).nullable().optional()
+    .superRefine((rule, ctx) => {
+      const message = rule ? validateRecurrenceRule(rule) : null
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+      }
+    }),
+  personnelIds: z.array(z.number().int().positive()).default([]),
+  departmentIds: z.array(z.number().int().positive()).default([]),
+  // Save even when the conflict check finds double bookings
+  allowConflicts: z.boolean().default(false)
+})
+
+export const createEventSchema = eventFieldsSchema.refine(
+  data => new Date(data.endsAt) >= new Date(data.startsAt),
+  { message: 'End must not be before start', path: ['endsAt'] }
+)
+
+// Defaults are dropped so an update only touches the fields it sends
+export const updateEventSchema = eventFieldsSchema.extend({
+  type: z.enum(EVENT_TYPES).optional(),
+  status: z.enum(EVENT_STATUSES).optional(),
+  priority: z.enum(EVENT_PRIORITIES).optional(),
+  allDay: z.boolean().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  personnelIds: z.array(z.number().int().positive()).optional(),
+  departmentIds: z.array(z.number().int().positive()).optional()
+}).partial()
+
+export type CreateEventInput = z.infer<typeof createEventSchema>
+
+export type UpdateEventInput = z.infer<typeof updateEventSchema>
+
+/**
+ * Map validated event input onto events table columns
+ */
+export function toEventColumns(input: UpdateEventInput): Partial<Omit<CalendarEventInsert, 'id' | 'created_at' | 'updated_at'>> {
+  const columns: Partial<Omit<CalendarEventInsert, 'id' | 'created_at' | 'updated_at'>> = {}
+
+  if (input.title !== undefined) columns.title = input.title
+  if (input.description !== undefined) columns.description = input.description || null
+  if (input.type !== undefined) columns.type = input.type
+  if (input.status !== undefined) columns.status = input.status
+  if (input.priority !== undefined) columns.priority = input.priority
+  if (input.location !== undefined) columns.location = input.location || null
+  if (input.startsAt !== undefined) columns.starts_at = new Date(input.startsAt).toISOString()
+  if (input.endsAt !== undefined) columns.ends_at = new Date(input.endsAt).toISOString()
+  if (input.allDay !== undefined) columns.all_day = input.allDay
+  if (input.timezone !== undefined) columns.timezone = input.timezone
+  if (input.recurrenceRule !== undefined) columns.recurrence_rule = input.recurrenceRule || null
+
+  return columns
+}
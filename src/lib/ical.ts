@@ -0,0 +1,488 @@
+/**
+ * iCalendar (RFC 5545)
+ *
+ * Writes calendar events as an .ics feed and reads VEVENTs from uploaded
+ * .ics files. Recurring events keep their RRULE; times are written in the
+ * event's IANA timezone so phone calendars show the same wall-clock time.
+ * Floating times and unknown TZIDs in imports fall back to a default zone.
+ */
+
+import type { CalendarEventWithAttendees } from '@/lib/database.types'
+import { EVENT_TYPES, EventType, isValidTimezone } from '@/lib/events'
+import { fromZonedWallClock, parseRecurrenceRule, toZonedWallClock } from '@/lib/recurrence'
+
+const PRODUCT_ID = '-//LGU Project//Calendar//EN'
+
+// Common Windows/Outlook zone names seen in exported .ics files
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  'Singapore Standard Time': 'Asia/Singapore',
+  'China Standard Time': 'Asia/Shanghai',
+  'Taipei Standard Time': 'Asia/Taipei',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'SE Asia Standard Time': 'Asia/Bangkok',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'UTC': 'UTC'
+}
+
+export interface ParsedICalEvent {
+  uid: string
+  title: string
+  description: string | null
+  location: string | null
+  type: EventType
+  status: 'scheduled' | 'cancelled'
+  priority: 'low' | 'medium' | 'high'
+  startsAt: string
+  endsAt: string
+  allDay: boolean
+  timezone: string
+  recurrenceRule: string | null
+  warnings: string[]
+}
+
+export interface ICalParseError {
+  index: number
+  summary: string | null
+  message: string
+}
+
+interface ICalProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+// =====================================================
+// WRITING
+// =====================================================
+
+/**
+ * Escape a TEXT value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      chunks.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  chunks.push(current)
+
+  return chunks.join('\r\n ')
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+function formatLocalDate(date: Date, timezone: string): string {
+  const clock = toZonedWallClock(date, timezone)
+  return `${clock.year}${pad(clock.month)}${pad(clock.day)}`
+}
+
+function formatLocalDateTime(date: Date, timezone: string): string {
+  const clock = toZonedWallClock(date, timezone)
+  return `${clock.year}${pad(clock.month)}${pad(clock.day)}T${pad(clock.hour)}${pad(clock.minute)}${pad(clock.second)}`
+}
+
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const absolute = Math.abs(offsetMinutes)
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`
+}
+
+function offsetMinutesAt(date: Date, timezone: string): number {
+  const clock = toZonedWallClock(date, timezone)
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second)
+  return Math.round((asUtc - date.getTime()) / 60000)
+}
+
+/**
+ * VTIMEZONE for a zone without daylight saving. Zones with DST are left to the
+ * client's own tz database, which every major calendar app resolves by IANA name.
+ */
+function buildTimezone(timezone: string): string[] {
+  const year = new Date().getUTCFullYear()
+  const january = offsetMinutesAt(new Date(Date.UTC(year, 0, 1)), timezone)
+  const july = offsetMinutesAt(new Date(Date.UTC(year, 6, 1)), timezone)
+  if (january !== july) {
+    return []
+  }
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${formatOffset(january)}`,
+    `TZOFFSETTO:${formatOffset(january)}`,
+    'END:STANDARD',
+    'END:VTIMEZONE'
+  ]
+}
+
+/**
+ * Rewrite UNTIL to match the DTSTART value type, as RFC 5545 requires
+ */
+function exportRule(rule: string, allDay: boolean): string {
+  return rule.split(';').map(part => {
+    if (!part.toUpperCase().startsWith('UNTIL=')) return part
+    const value = part.slice(6)
+    if (allDay) return `UNTIL=${value.slice(0, 8)}`
+    return value.length === 8 ? `UNTIL=${value}T235959Z` : part
+  }).join(';')
+}
+
+/**
+ * Build an .ics calendar from events
+ * @param events - Events with attendees
+ * @param options - Calendar name and default timezone
+ * @returns iCalendar text with CRLF line endings
+ */
+export function buildICalendar(
+  events: CalendarEventWithAttendees[],
+  options: { name: string; timezone: string }
+): string {
+  const timezones = new Set(events.filter(event => !event.all_day).map(event => event.timezone))
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${options.timezone}`,
+    ...[...timezones].flatMap(buildTimezone)
+  ]
+
+  for (const event of events) {
+    const startsAt = new Date(event.starts_at)
+    const endsAt = new Date(event.ends_at)
+    const description = [
+      event.description,
+      event.attendees.length > 0 ? `Attendees: ${event.attendees.map(attendee => attendee.name).join(', ')}` : null
+    ].filter(Boolean).join('\n\n')
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.ical_uid || `event-${event.id}@lgu-project`}`,
+      `DTSTAMP:${formatUtc(new Date(event.updated_at))}`,
+      `CREATED:${formatUtc(new Date(event.created_at))}`,
+      `LAST-MODIFIED:${formatUtc(new Date(event.updated_at))}`
+    )
+
+    if (event.all_day) {
+      // DTEND is exclusive for all-day events
+      const lastDay = toZonedWallClock(endsAt, event.timezone)
+      const dayAfter = new Date(Date.UTC(lastDay.year, lastDay.month - 1, lastDay.day + 1))
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatLocalDate(startsAt, event.timezone)}`,
+        `DTEND;VALUE=DATE:${formatLocalDate(dayAfter, 'UTC')}`
+      )
+    } else {
+      lines.push(
+        `DTSTART;TZID=${event.timezone}:${formatLocalDateTime(startsAt, event.timezone)}`,
+        `DTEND;TZID=${event.timezone}:${formatLocalDateTime(endsAt, event.timezone)}`
+      )
+    }
+
+    if (event.recurrence_rule) {
+      lines.push(`RRULE:${exportRule(event.recurrence_rule, event.all_day)}`)
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.title)}`)
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+    lines.push(
+      `STATUS:${event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+      `CATEGORIES:${event.type.toUpperCase()}`,
+      `PRIORITY:${{ high: 1, medium: 5, low: 9 }[event.priority]}`,
+      'END:VEVENT'
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// =====================================================
+// READING
+// =====================================================
+
+/**
+ * Split a content line into name, parameters and value.
+ * Parameter values may be quoted and contain ":" or ";".
+ */
+function parseProperty(line: string): ICalProperty | null {
+  let index = 0
+  let inQuotes = false
+  const segments: string[] = []
+  let current = ''
+
+  for (; index < line.length; index++) {
+    const char = line[index]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === ';' || char === ':')) {
+      segments.push(current)
+      current = ''
+      if (char === ':') break
+      continue
+    }
+    current += char
+  }
+
+  if (index >= line.length) {
+    return null
+  }
+
+  const [name, ...rawParams] = segments
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const separator = param.indexOf('=')
+    if (separator > 0) {
+      params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '')
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+/**
+ * Map a TZID onto an IANA zone, or null when it can't be resolved
+ */
+function resolveTimezone(tzid: string): string | null {
+  if (WINDOWS_TIMEZONES[tzid]) return WINDOWS_TIMEZONES[tzid]
+  if (isValidTimezone(tzid)) return tzid
+
+  // Some exporters prefix the IANA name, e.g. /mozilla.org/20050126_1/Asia/Manila
+  const match = tzid.match(/([A-Za-z_]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?)$/)
+  return match && isValidTimezone(match[1]) ? match[1] : null
+}
+
+interface ParsedDate {
+  date: Date
+  allDay: boolean
+  timezone: string | null
+}
+
+/**
+ * Parse a DATE or DATE-TIME value in its TZID (or the default zone when floating)
+ */
+function parseDateValue(property: ICalProperty, defaultTimezone: string, warnings: string[]): ParsedDate {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) {
+    throw new Error(`Unreadable ${property.name} "${property.value}"`)
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const clock = { year: +year, month: +month, day: +day, hour: +(hour || 0), minute: +(minute || 0), second: +(second || 0) }
+
+  if (hour === undefined || property.params.VALUE === 'DATE') {
+    return { date: fromZonedWallClock({ ...clock, hour: 0, minute: 0, second: 0 }, defaultTimezone), allDay: true, timezone: null }
+  }
+
+  if (utc) {
+    return { date: new Date(Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second)), allDay: false, timezone: 'UTC' }
+  }
+
+  let timezone = defaultTimezone
+  if (property.params.TZID) {
+    const resolved = resolveTimezone(property.params.TZID)
+    if (resolved) {
+      timezone = resolved
+    } else {
+      warnings.push(`Unknown timezone "${property.params.TZID}"; times were read as ${defaultTimezone}`)
+    }
+  }
+
+  return { date: fromZonedWallClock(clock, timezone), allDay: false, timezone }
+}
+
+/**
+ * Parse an ISO 8601 duration such as PT1H30M or P1D
+ * @returns Duration in milliseconds
+ */
+function parseDuration(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) {
+    throw new Error(`Unreadable DURATION "${value}"`)
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const total = ((+(weeks || 0) * 7 + +(days || 0)) * 24 * 3600 + +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000
+  return sign === '-' ? -total : total
+}
+
+/**
+ * Turn one VEVENT's properties into event fields
+ */
+function toParsedEvent(properties: ICalProperty[], defaultTimezone: string): ParsedICalEvent {
+  const warnings: string[] = []
+  const get = (name: string) => properties.find(property => property.name === name)
+  const text = (name: string) => {
+    const property = get(name)
+    return property ? unescapeText(property.value).trim() : null
+  }
+
+  const dtstart = get('DTSTART')
+  if (!dtstart) {
+    throw new Error('Missing DTSTART')
+  }
+
+  const start = parseDateValue(dtstart, defaultTimezone, warnings)
+  const timezone = start.timezone && start.timezone !== 'UTC' ? start.timezone : defaultTimezone
+
+  let end: Date
+  const dtend = get('DTEND')
+  const duration = get('DURATION')
+  if (dtend) {
+    end = parseDateValue(dtend, defaultTimezone, warnings).date
+  } else if (duration) {
+    end = new Date(start.date.getTime() + parseDuration(duration.value.trim()))
+  } else {
+    // RFC 5545: a date-only event without an end lasts one day
+    end = start.allDay ? new Date(start.date.getTime() + 24 * 3600 * 1000) : start.date
+  }
+
+  if (start.allDay) {
+    // All-day DTEND is exclusive; store the last second of the final day
+    end = new Date(Math.max(start.date.getTime(), end.getTime() - 1000))
+  }
+
+  if (end < start.date) {
+    throw new Error('DTEND is before DTSTART')
+  }
+
+  let recurrenceRule: string | null = null
+  const rrule = get('RRULE')
+  if (rrule) {
+    try {
+      parseRecurrenceRule(rrule.value)
+      recurrenceRule = rrule.value.trim().toUpperCase()
+    } catch (error) {
+      warnings.push(`${error instanceof Error ? error.message : 'Unsupported recurrence'}; imported as a single event`)
+    }
+  }
+
+  if (get('EXDATE') || get('RDATE')) {
+    warnings.push('Excluded or extra dates (EXDATE/RDATE) are not supported and were ignored')
+  }
+
+  const category = (text('CATEGORIES') || '').split(',').map(value => value.trim().toLowerCase())
+    .find((value): value is EventType => (EVENT_TYPES as readonly string[]).includes(value))
+
+  const priority = parseInt(get('PRIORITY')?.value || '0')
+  const summary = text('SUMMARY') || '(No title)'
+  const location = text('LOCATION')
+
+  return {
+    uid: (text('UID') || `${dtstart.value}-${summary}`).slice(0, 255),
+    title: summary.slice(0, 255),
+    description: text('DESCRIPTION'),
+    location: location ? location.slice(0, 255) : null,
+    type: category || 'meeting',
+    status: get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED' ? 'cancelled' : 'scheduled',
+    priority: priority >= 1 && priority <= 4 ? 'high' : priority >= 6 ? 'low' : 'medium',
+    startsAt: start.date.toISOString(),
+    endsAt: end.toISOString(),
+    allDay: start.allDay,
+    timezone,
+    recurrenceRule,
+    warnings
+  }
+}
+
+/**
+ * Read the VEVENTs of an .ics file
+ * @param text - iCalendar text
+ * @param defaultTimezone - Zone for floating times, all-day dates and unknown TZIDs
+ * @returns Parsed events and per-VEVENT errors
+ */
+export function parseICalendar(text: string, defaultTimezone: string): { events: ParsedICalEvent[]; errors: ICalParseError[] } {
+  // Unfold continuation lines before splitting
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+
+  const events: ParsedICalEvent[] = []
+  const errors: ICalParseError[] = []
+  const stack: string[] = []
+  let properties: ICalProperty[] = []
+  let index = 0
+
+  for (const line of lines) {
+    if (!line.trim()) continue
+
+    const property = parseProperty(line)
+    if (!property) continue
+
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.trim().toUpperCase())
+      if (stack[stack.length - 1] === 'VEVENT') {
+        properties = []
+      }
+      continue
+    }
+
+    if (property.name === 'END') {
+      const component = stack.pop()
+      if (component === 'VEVENT') {
+        index++
+        const summary = properties.find(p => p.name === 'SUMMARY')
+        try {
+          if (properties.some(p => p.name === 'RECURRENCE-ID')) {
+            throw new Error('Changes to single occurrences of a recurring event are not supported')
+          }
+          events.push(toParsedEvent(properties, defaultTimezone))
+        } catch (error) {
+          errors.push({
+            index,
+            summary: summary ? unescapeText(summary.value) : null,
+            message: error instanceof Error ? error.message : 'Unreadable event'
+          })
+        }
+      }
+      continue
+    }
+
+    // Properties of nested components such as VALARM are ignored
+    if (stack[stack.length - 1] === 'VEVENT') {
+      properties.push(property)
+    }
+  }
+
+  return { events, errors }
+}
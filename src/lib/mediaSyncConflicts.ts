@@ -0,0 +1,97 @@
+/**
+ * Media Sync Conflicts
+ *
+ * A conflict is an asset whose Cloudinary resource and media_assets row
+ * disagree. It is kept with a snapshot of both sides until an admin picks,
+ * field by field, which side wins:
+ *
+ * - file (binary): version, signature, size, dimensions, format and URLs.
+ *   Cloudinary winning copies them into the database; the database winning
+ *   keeps the row as it is (the file in Cloudinary is not changed)
+ * - tags (metadata): the winning side's tags are written to the other side
+ *
+ * Rules resolve many conflicts at once, e.g. Cloudinary wins for binary
+ * fields and the database wins for metadata.
+ *
+ * Safe to import from client components.
+ */
+
+export type SyncConflictSide = 'cloudinary' | 'database'
+export type SyncConflictField = 'file' | 'tags'
+export type SyncConflictResolution = Partial<Record<SyncConflictField, SyncConflictSide>>
+
+// One side of a conflict, in the same shape for both sides so they can be diffed
+export interface SyncConflictSnapshot {
+  version: number
+  signature: string
+  bytes: number
+  width: number | null
+  height: number | null
+  format: string
+  etag: string | null
+  secure_url: string
+  url: string
+  tags: string[]
+}
+
+export const SYNC_CONFLICT_FIELDS: Record<SyncConflictField, {
+  label: string
+  kind: 'binary' | 'metadata'
+  // Snapshot values shown in the diff for this field
+  properties: (keyof SyncConflictSnapshot)[]
+}> = {
+  file: {
+    label: 'File',
+    kind: 'binary',
+    properties: ['version', 'signature', 'bytes', 'width', 'height', 'format', 'secure_url']
+  },
+  tags: {
+    label: 'Tags',
+    kind: 'metadata',
+    properties: ['tags']
+  }
+}
+
+export const SYNC_CONFLICT_RULES = {
+  cloudinary_binary_database_metadata: 'Cloudinary wins for binary, database wins for metadata',
+  cloudinary_wins: 'Cloudinary wins for everything',
+  database_wins: 'Database wins for everything'
+} as const
+
+export type SyncConflictRule = keyof typeof SYNC_CONFLICT_RULES
+
+const sortedTags = (tags: string[]) => [...tags].sort()
+
+/**
+ * Fields on which the two sides disagree
+ */
+export function conflictingFields(cloudinary: SyncConflictSnapshot, database: SyncConflictSnapshot): SyncConflictField[] {
+  const fields: SyncConflictField[] = []
+  if (
+    cloudinary.version !== database.version ||
+    cloudinary.signature !== database.signature ||
+    cloudinary.bytes !== database.bytes
+  ) {
+    fields.push('file')
+  }
+  if (JSON.stringify(sortedTags(cloudinary.tags)) !== JSON.stringify(sortedTags(database.tags))) {
+    fields.push('tags')
+  }
+  return fields
+}
+
+/**
+ * The winning side of each conflicting field under a rule
+ */
+export function resolutionForRule(fields: SyncConflictField[], rule: SyncConflictRule): SyncConflictResolution {
+  return Object.fromEntries(fields.map(field => {
+    switch (rule) {
+      case 'cloudinary_wins':
+        return [field, 'cloudinary']
+      case 'database_wins':
+        return [field, 'database']
+      case 'cloudinary_binary_database_metadata':
+        return [field, SYNC_CONFLICT_FIELDS[field].kind === 'binary' ? 'cloudinary' : 'database']
+    }
+  }))
+}
@@ -0,0 +1,83 @@
+/**
+ * Media Trash (server-side only)
+ *
+ * Deleting from the media library moves an asset to the trash (deleted_at is
+ * set) and leaves the file in Cloudinary, so it can be restored. Assets left
+ * in the trash longer than MEDIA_TRASH_RETENTION_DAYS (default 30) are purged:
+ * the file is queued in cloudinary_cleanup_queue for the cleanup job to
+ * destroy and the database row is removed.
+ */
+
+import { SupabaseMediaService, MediaAsset } from './supabaseMediaService'
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+export interface TrashPurgeSummary {
+  purged: string[]
+  failed: { public_id: string; error: string }[]
+}
+
+/**
+ * Days an asset stays in the trash before it is purged
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.MEDIA_TRASH_RETENTION_DAYS || '', 10)
+  return Number.isFinite(days) && days >= 1 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/**
+ * When an asset deleted at deletedAt will be purged
+ */
+export function trashPurgeDate(deletedAt: string): Date {
+  return new Date(new Date(deletedAt).getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Queue the Cloudinary files of trashed assets for cleanup and remove their rows
+ * @param reason - Recorded as the queue entry's deletion_reason
+ */
+export async function purgeMediaAssets(
+  assets: MediaAsset[],
+  reason: 'trash_retention_expired' | 'trash_emptied',
+  triggeredBy?: string
+): Promise<TrashPurgeSummary> {
+  const summary: TrashPurgeSummary = { purged: [], failed: [] }
+
+  for (const asset of assets) {
+    try {
+      await SupabaseMediaService.queueCloudinaryCleanup(asset.cloudinary_public_id, asset.resource_type, {
+        originalFilename: asset.original_filename,
+        fileSize: asset.file_size,
+        folder: asset.folder,
+        deletionReason: reason,
+        triggerSource: triggeredBy ? 'manual' : 'api',
+        triggeredBy
+      })
+      await SupabaseMediaService.hardDeleteMediaAsset(asset.cloudinary_public_id)
+      summary.purged.push(asset.cloudinary_public_id)
+    } catch (error) {
+      console.error(`[MediaTrash] Failed to purge ${asset.cloudinary_public_id}:`, error)
+      summary.failed.push({
+        public_id: asset.cloudinary_public_id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Purge assets that have been in the trash longer than the retention period
+ * @param limit - Most assets to purge in one run
+ */
+export async function purgeExpiredTrash(limit: number = 100): Promise<TrashPurgeSummary & { retentionDays: number }> {
+  const retentionDays = getTrashRetentionDays()
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString()
+
+  const expired = await SupabaseMediaService.getExpiredTrashedAssets(cutoff, limit)
+  const summary = await purgeMediaAssets(expired, 'trash_retention_expired')
+
+  console.log(`[MediaTrash] Purged ${summary.purged.length} assets older than ${retentionDays} days, ${summary.failed.length} failed`)
+  return { ...summary, retentionDays }
+}
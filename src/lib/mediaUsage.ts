@@ -0,0 +1,231 @@
+/**
+ * Media Usage Tracking (server-side only)
+ *
+ * Keeps media_usage in step with the records that point at library assets, so
+ * the media library can show where an asset is used and warn before a delete
+ * breaks it:
+ *
+ * - personnel_profile: a personnel profile_photo (a Cloudinary delivery URL)
+ * - document: a personnel document (its Cloudinary public_id and URL)
+ *
+ * A file that is not in the media library (media_assets) yet, such as a
+ * document uploaded straight to Cloudinary, is imported by its public ID
+ * first. When a record stops using an asset its usage gets removed_at rather than
+ * being deleted. Tracking failures are logged, never thrown, so they can't
+ * block the change that triggered them.
+ */
+
+import type { Personnel, PersonnelDocument } from './database.types'
+import { SupabaseMediaService, MediaUsage, MediaUsageType } from './supabaseMediaService'
+import { SupabaseService } from './supabaseService'
+import { BidirectionalSyncService } from './bidirectionalSyncService'
+
+export const PERSONNEL_REFERENCE = 'personnel'
+export const DOCUMENT_REFERENCE = 'personnel_documents'
+
+// A usage as shown in the media library's "used in" panel
+export interface MediaUsageDescription {
+  id: string
+  mediaAssetId: string
+  usageType: MediaUsageType
+  label: string
+  href: string | null
+  since: string
+}
+
+/**
+ * Public ID inside a Cloudinary delivery URL, e.g.
+ * https://res.cloudinary.com/demo/image/upload/c_fill,w_200/v1712/lgu-uploads/personnel/abc.jpg
+ * → lgu-uploads/personnel/abc
+ */
+export function cloudinaryPublicIdFromUrl(url: string): string | null {
+  const match = /\/(image|video|raw)\/upload\/([^?#]+)/.exec(url)
+  if (!match) {
+    return null
+  }
+
+  const [, resourceType, path] = match
+  // Everything after the version is the public ID; without one, skip transformation segments
+  const versioned = /(?:^|\/)v\d+\/(.+)$/.exec(path)
+  const segments = (versioned ? versioned[1] : path).split('/')
+  while (!versioned && segments.length > 1 && /^[a-z]{1,3}_[^/]*$/.test(segments[0])) {
+    segments.shift()
+  }
+
+  const publicId = decodeURIComponent(segments.join('/'))
+  // Raw files keep their extension as part of the public ID
+  return resourceType === 'raw' ? publicId : publicId.replace(/\.[a-z0-9]+$/i, '')
+}
+
+/**
+ * Point a record's usage of one type at the asset it now uses, releasing any
+ * other asset it used before
+ */
+async function syncUsage(
+  usageType: MediaUsageType,
+  referenceTable: string,
+  referenceId: string,
+  reference: { publicId?: string | null; url?: string | null; resourceType: string; deliveryType?: string },
+  usageContext: Record<string, unknown>
+): Promise<void> {
+  let asset = reference.publicId || reference.url
+    ? await SupabaseMediaService.findMediaAssetByReference(reference)
+    : null
+
+  if (!asset && reference.publicId) {
+    const imported = await BidirectionalSyncService.syncSingleAsset(reference.publicId, reference.resourceType, reference.deliveryType)
+    if (imported.success) {
+      asset = await SupabaseMediaService.getMediaAssetByPublicId(reference.publicId)
+    }
+  }
+
+  const existing = (await SupabaseMediaService.getActiveUsageByReference(referenceTable, referenceId))
+    .filter(usage => usage.usage_type === usageType)
+  const current = asset ? existing.find(usage => usage.media_asset_id === asset.id) : undefined
+
+  await SupabaseMediaService.releaseMediaUsage(
+    existing.filter(usage => usage !== current).map(usage => usage.id)
+  )
+
+  if (current) {
+    await SupabaseMediaService.updateMediaUsageContext(current.id, usageContext)
+  } else if (asset) {
+    await SupabaseMediaService.recordMediaUsage({
+      media_asset_id: asset.id,
+      usage_type: usageType,
+      reference_table: referenceTable,
+      reference_id: referenceId,
+      usage_context: usageContext
+    })
+  }
+}
+
+/**
+ * Track the asset used as a personnel profile photo (or release it when the photo was cleared)
+ */
+export async function trackProfilePhoto(personnel: Pick<Personnel, 'id' | 'name' | 'profile_photo'>): Promise<void> {
+  try {
+    const url = personnel.profile_photo || null
+    await syncUsage(
+      'personnel_profile',
+      PERSONNEL_REFERENCE,
+      String(personnel.id),
+      { url, publicId: url ? cloudinaryPublicIdFromUrl(url) : null, resourceType: 'image' },
+      { personnel_id: personnel.id, personnel_name: personnel.name }
+    )
+  } catch (error) {
+    console.error('[MediaUsage] Error tracking profile photo:', error)
+  }
+}
+
+/**
+ * Track the asset behind a personnel document
+ * @param personnelName - Owner's name for the usage label; looked up when not given
+ */
+export async function trackPersonnelDocument(
+  document: Pick<PersonnelDocument, 'id' | 'personnel_id' | 'filename' | 'path' | 'original_name' | 'document_type' | 'resource_type' | 'delivery_type'>,
+  personnelName?: string | null
+): Promise<void> {
+  try {
+    const name = personnelName !== undefined
+      ? personnelName
+      : (await SupabaseService.findPersonnelById(document.personnel_id))?.name
+    await syncUsage(
+      'document',
+      DOCUMENT_REFERENCE,
+      String(document.id),
+      {
+        publicId: document.filename,
+        url: document.path,
+        resourceType: document.resource_type || 'image',
+        deliveryType: document.delivery_type
+      },
+      {
+        personnel_id: document.personnel_id,
+        personnel_name: name ?? null,
+        document_name: document.original_name,
+        document_type: document.document_type
+      }
+    )
+  } catch (error) {
+    console.error('[MediaUsage] Error tracking personnel document:', error)
+  }
+}
+
+/**
+ * Release every usage held by a record that was deleted
+ */
+export async function releaseUsageByReference(referenceTable: string, referenceId: number | string): Promise<void> {
+  try {
+    const usages = await SupabaseMediaService.getActiveUsageByReference(referenceTable, String(referenceId))
+    await SupabaseMediaService.releaseMediaUsage(usages.map(usage => usage.id))
+  } catch (error) {
+    console.error('[MediaUsage] Error releasing media usage:', error)
+  }
+}
+
+/**
+ * Label and link for a usage, from the context saved with it
+ */
+export function describeMediaUsage(usage: MediaUsage): MediaUsageDescription {
+  const context = usage.usage_context || {}
+  const personnelId = typeof context.personnel_id === 'number' ? context.personnel_id : null
+  const personnelName = typeof context.personnel_name === 'string' ? context.personnel_name : null
+
+  let label: string
+  switch (usage.usage_type) {
+    case 'personnel_profile':
+      label = `Profile photo of ${personnelName || `personnel #${usage.reference_id}`}`
+      break
+    case 'document':
+      label = `Document "${context.document_name || usage.reference_id}"${personnelName ? ` of ${personnelName}` : ''}`
+      break
+    default:
+      label = `${usage.usage_type.charAt(0).toUpperCase()}${usage.usage_type.slice(1)}${usage.reference_table ? ` (${usage.reference_table} ${usage.reference_id})` : ''}`
+  }
+
+  return {
+    id: usage.id,
+    mediaAssetId: usage.media_asset_id,
+    usageType: usage.usage_type,
+    label,
+    href: personnelId ? `/admin/personnel/${personnelId}` : null,
+    since: usage.created_at
+  }
+}
+
+/**
+ * Describe the active usages of some assets, grouped by asset ID
+ */
+export async function getMediaUsageByAsset(assetIds: string[]): Promise<Record<string, MediaUsageDescription[]>> {
+  const usages = await SupabaseMediaService.getActiveMediaUsage(assetIds)
+  const byAsset: Record<string, MediaUsageDescription[]> = {}
+  for (const usage of usages) {
+    (byAsset[usage.media_asset_id] ||= []).push(describeMediaUsage(usage))
+  }
+  return byAsset
+}
+
+/**
+ * Record usages for every existing profile photo and document, for records
+ * saved before tracking existed. Safe to run again.
+ */
+export async function backfillMediaUsage(): Promise<{ personnel: number; documents: number }> {
+  const personnel = await SupabaseService.getPersonnelWithProfilePhotos()
+  for (const person of personnel) {
+    await trackProfilePhoto(person)
+  }
+
+  const names = new Map(personnel.map(person => [person.id, person.name]))
+  const documents = await SupabaseService.getAllPersonnelDocuments()
+  const missing = [...new Set(documents.map(document => document.personnel_id))].filter(id => !names.has(id))
+  for (const person of await SupabaseService.findPersonnelByIds(missing)) {
+    names.set(person.id, person.name)
+  }
+  for (const document of documents) {
+    await trackPersonnelDocument(document, names.get(document.personnel_id))
+  }
+
+  console.log(`[MediaUsage] Backfilled usage for ${personnel.length} profile photos and ${documents.length} documents`)
+  return { personnel: personnel.length, documents: documents.length }
+}
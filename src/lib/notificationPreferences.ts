@@ -0,0 +1,171 @@
+/**
+ * Notification Preferences
+ *
+ * The system events users can be notified about, and how each user wants them
+ * delivered: in-app only, in-app plus an immediate email or SMS, in-app plus
+ * the digest email, or not at all. Immediate emails and SMS that fall inside
+ * the user's quiet hours are held for the digest instead. Shared by the dispatcher,
+ * /api/notifications/preferences and the preferences panel.
+ */
+
+import { z } from 'zod'
+import type { DigestFrequency, EmailLanguage, NotificationPreferences } from '@/lib/database.types'
+import { Permission, Role, hasPermission } from '@/lib/permissions'
+import { isValidTimezone } from '@/lib/events'
+import { toZonedWallClock } from '@/lib/recurrence'
+import { DEFAULT_EMAIL_LANGUAGE, EMAIL_LANGUAGES } from '@/lib/emailTemplates'
+
+export const NOTIFICATION_DELIVERIES = ['in_app', 'email', 'sms', 'digest', 'off'] as const
+
+export type NotificationDelivery = typeof NOTIFICATION_DELIVERIES[number]
+
+export const DELIVERY_LABELS: Record<NotificationDelivery, string> = {
+  in_app: 'In-app',
+  email: 'Email',
+  sms: 'SMS',
+  digest: 'Digest',
+  off: 'Off'
+}
+
+interface NotificationEventDefinition {
+  label: string
+  description: string
+  // Only users whose role holds this permission receive the event
+  permission: Permission
+  defaultDelivery: NotificationDelivery
+}
+
+export const NOTIFICATION_EVENTS = {
+  'personnel.created': {
+    label: 'New personnel',
+    description: 'A personnel record is registered',
+    permission: 'personnel:update',
+    defaultDelivery: 'in_app'
+  },
+  'personnel.imported': {
+    label: 'Personnel import',
+    description: 'Personnel records are imported from a file',
+    permission: 'personnel:update',
+    defaultDelivery: 'in_app'
+  },
+  'media.cleanup_failed': {
+    label: 'Cloudinary cleanup failures',
+    description: 'Queued Cloudinary deletions fail',
+    permission: 'system:manage',
+    defaultDelivery: 'email'
+  },
+  'media.sync_failed': {
+    label: 'Media sync failures',
+    description: 'A full Cloudinary sync does not complete',
+    permission: 'system:manage',
+    defaultDelivery: 'email'
+  }
+} satisfies Record<string, NotificationEventDefinition>
+
+export type NotificationEventType = keyof typeof NOTIFICATION_EVENTS
+
+const EVENT_KEYS = Object.keys(NOTIFICATION_EVENTS) as [NotificationEventType, ...NotificationEventType[]]
+
+/**
+ * Events a role can receive, and so configure
+ */
+export function eventsForRole(role: Role | null): NotificationEventType[] {
+  return EVENT_KEYS.filter(event => hasPermission(role, NOTIFICATION_EVENTS[event].permission))
+}
+
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const satisfies readonly DigestFrequency[]
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: 'No digest',
+  daily: 'Daily',
+  weekly: 'Weekly (Mondays)'
+}
+
+export const DEFAULT_NOTIFICATION_TIMEZONE = 'Asia/Manila'
+
+export interface QuietHours {
+  // HH:MM wall-clock times in the user's timezone; end may be past midnight
+  start: string
+  end: string
+}
+
+/**
+ * A user's preferences with defaults filled in, as returned by the API
+ */
+export interface NotificationPreferenceSettings {
+  channels: Record<NotificationEventType, NotificationDelivery>
+  timezone: string
+  quietHours: QuietHours | null
+  digestFrequency: DigestFrequency
+  // Language of the user's emails
+  language: EmailLanguage
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export const updateNotificationPreferencesSchema = z.object({
+  channels: z.record(z.enum(EVENT_KEYS), z.enum(NOTIFICATION_DELIVERIES)).optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  quietHours: z.object({
+    start: z.string().regex(TIME_PATTERN, 'Use HH:MM'),
+    end: z.string().regex(TIME_PATTERN, 'Use HH:MM')
+  }).refine(hours => hours.start !== hours.end, { message: 'Quiet hours must start and end at different times' })
+    .nullable()
+    .optional(),
+  digestFrequency: z.enum(DIGEST_FREQUENCIES).optional(),
+  language: z.enum(EMAIL_LANGUAGES).optional()
+})
+
+/**
+ * Map a notification_preferences row (or its absence) onto the effective settings
+ */
+export function toPreferenceSettings(preferences: NotificationPreferences | null): NotificationPreferenceSettings {
+  const stored = (preferences?.channels && typeof preferences.channels === 'object' && !Array.isArray(preferences.channels))
+    ? preferences.channels as Record<string, unknown>
+    : {}
+
+  const channels = Object.fromEntries(EVENT_KEYS.map(event => {
+    const value = stored[event]
+    const delivery = NOTIFICATION_DELIVERIES.includes(value as NotificationDelivery)
+      ? value as NotificationDelivery
+      : NOTIFICATION_EVENTS[event].defaultDelivery
+    return [event, delivery]
+  })) as Record<NotificationEventType, NotificationDelivery>
+
+  // TIME columns come back as HH:MM:SS
+  const quietHours = preferences?.quiet_hours_start && preferences.quiet_hours_end
+    ? { start: preferences.quiet_hours_start.slice(0, 5), end: preferences.quiet_hours_end.slice(0, 5) }
+    : null
+
+  return {
+    channels,
+    timezone: preferences?.timezone || DEFAULT_NOTIFICATION_TIMEZONE,
+    quietHours,
+    digestFrequency: preferences?.digest_frequency || 'daily',
+    language: preferences?.language || DEFAULT_EMAIL_LANGUAGE
+  }
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Whether an instant falls inside the user's quiet hours
+ */
+export function isWithinQuietHours(settings: NotificationPreferenceSettings, at: Date = new Date()): boolean {
+  if (!settings.quietHours) {
+    return false
+  }
+
+  const clock = toZonedWallClock(at, settings.timezone)
+  const now = clock.hour * 60 + clock.minute
+  const start = toMinutes(settings.quietHours.start)
+  const end = toMinutes(settings.quietHours.end)
+
+  // A window such as 22:00-07:00 wraps past midnight
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end
+}
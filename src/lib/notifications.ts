@@ -0,0 +1,76 @@
+/**
+ * In-app Notifications
+ *
+ * Shapes and validation shared by /api/notifications, the header bell and the
+ * notifications page. Notifications are created server-side by the notifier
+ * (see notifier.ts) and delivered live through Supabase Realtime.
+ */
+
+import { z } from 'zod'
+import type { Notification, NotificationPriority, NotificationType } from '@/lib/database.types'
+
+export const NOTIFICATION_TYPES = ['info', 'success', 'warning', 'error'] as const
+export const NOTIFICATION_PRIORITIES = ['low', 'medium', 'high'] as const
+
+/**
+ * A notification as returned by /api/notifications
+ */
+export interface NotificationItem {
+  id: number
+  title: string
+  message: string
+  type: NotificationType
+  priority: NotificationPriority
+  category: string
+  link: string | null
+  read: boolean
+  createdAt: string
+}
+
+/**
+ * Map a notifications row onto the API shape
+ */
+export function toNotificationItem(notification: Notification): NotificationItem {
+  return {
+    id: notification.id,
+    title: notification.title,
+    message: notification.message,
+    type: notification.type,
+    priority: notification.priority,
+    category: notification.category,
+    link: notification.link,
+    read: notification.read_at !== null,
+    createdAt: notification.created_at
+  }
+}
+
+// Bulk actions name specific notifications or all of the caller's
+const selectionSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(200).optional(),
+  all: z.literal(true).optional()
+})
+
+export const updateNotificationsSchema = selectionSchema.extend({
+  read: z.boolean().default(true)
+}).refine(data => data.ids || data.all, { message: 'Provide ids or all: true' })
+
+export const deleteNotificationsSchema = selectionSchema
+  .refine(data => data.ids || data.all, { message: 'Provide ids or all: true' })
+
+/**
+ * Short relative time for notification lists, e.g. "5 min ago"
+ */
+export function formatNotificationTime(createdAt: string, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - new Date(createdAt).getTime()) / 60000)
+
+  if (minutes < 1) return 'Just now'
+  if (minutes < 60) return `${minutes} min ago`
+
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`
+
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days} day${days === 1 ? '' : 's'} ago`
+
+  return new Date(createdAt).toLocaleDateString()
+}
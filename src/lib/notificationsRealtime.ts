@@ -0,0 +1,53 @@
+'use client'
+
+/**
+ * Live notification delivery
+ *
+ * Subscribes to the signed-in user's rows in the notifications table through
+ * Supabase Realtime. Row-level security limits the stream to the user's own
+ * notifications; the filter keeps other users' changes off the socket.
+ */
+
+import { useEffect, useRef } from 'react'
+import { createClient } from '@/utils/supabase/client'
+import type { Notification } from '@/lib/database.types'
+
+export type NotificationChange =
+  | { event: 'INSERT'; notification: Notification }
+  | { event: 'UPDATE'; notification: Notification }
+
+/**
+ * Call onChange whenever one of the user's notifications is created or updated
+ * @param userId - Supabase auth user ID; nothing is subscribed while undefined
+ * @param onChange - Handler for each change
+ */
+export function useNotificationsRealtime(userId: string | undefined, onChange: (change: NotificationChange) => void) {
+  // Keep the latest handler without resubscribing on every render
+  const handlerRef = useRef(onChange)
+  useEffect(() => {
+    handlerRef.current = onChange
+  }, [onChange])
+
+  useEffect(() => {
+    if (!userId) return
+
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        payload => handlerRef.current({ event: 'INSERT', notification: payload.new as Notification })
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        payload => handlerRef.current({ event: 'UPDATE', notification: payload.new as Notification })
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId])
+}
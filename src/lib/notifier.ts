@@ -0,0 +1,238 @@
+/**
+ * Notification Dispatch (server-side only)
+ *
+ * Routes system events - new personnel, failed Cloudinary cleanups, sync
+ * errors - to every user allowed to receive them, on the channel each user
+ * chose in their notification preferences:
+ *
+ * - in_app: a notification in the bell and on /admin/notifications
+ * - email:  the in-app notification plus an immediate email, held for the
+ *           digest instead while the user is in quiet hours
+ * - sms:    the in-app notification plus an SMS to the phone number on the
+ *           user's profile, held for the digest the same way
+ * - digest: the in-app notification, collected into the next digest email
+ * - off:    nothing
+ *
+ * Emails go through the email outbox, which retries failed sends. A
+ * notification that can't be written, queued or texted is logged and
+ * dropped; it never fails the operation that raised it.
+ */
+
+import type { User as AuthUser } from '@supabase/supabase-js'
+import { supabaseAdmin } from '@/lib/supabase'
+import { db } from '@/lib/db'
+import { EmailService } from '@/lib/emailService'
+import { queueAndSend } from '@/lib/emailOutbox'
+import { isSmsEnabled, sendSms } from '@/lib/smsService'
+import { truncateSms } from '@/lib/sms'
+import type { EmailLanguage, Json, NotificationChannel, NotificationInsert, NotificationPriority, NotificationType } from '@/lib/database.types'
+import { Role, hasPermission, normalizeRole } from '@/lib/permissions'
+import {
+  NOTIFICATION_EVENTS,
+  NotificationEventType,
+  isWithinQuietHours,
+  toPreferenceSettings
+} from '@/lib/notificationPreferences'
+
+export interface NotificationInput {
+  title: string
+  message: string
+  type?: NotificationType
+  priority?: NotificationPriority
+  // Event source, e.g. personnel, sync, cleanup
+  category: string
+  link?: string | null
+  metadata?: Json | null
+}
+
+export interface Recipient {
+  id: string
+  email: string | null
+  name: string | null
+  phone: string | null
+  role: Role
+}
+
+// Auth users fetched per page while resolving recipients
+const USERS_PAGE_SIZE = 1000
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+const APP_NAME = process.env.EMAIL_FROM_NAME || 'LGU Project'
+
+// Longest notification SMS, in billed parts
+const NOTIFICATION_SMS_SEGMENTS = 2
+
+/**
+ * Deliver a system event to every active user whose role may receive it
+ * @param event - Event type; decides the required permission and default channel
+ * @param input - Notification content
+ * @param options - excludeUserId skips the user who caused the event
+ */
+export async function dispatchNotification(
+  event: NotificationEventType,
+  input: NotificationInput,
+  options: { excludeUserId?: string } = {}
+): Promise<void> {
+  try {
+    const recipients = (await findActiveRecipients())
+      .filter(recipient => hasPermission(recipient.role, NOTIFICATION_EVENTS[event].permission))
+      .filter(recipient => recipient.id !== options.excludeUserId)
+    if (recipients.length === 0) {
+      return
+    }
+
+    const preferences = new Map(
+      (await db.getNotificationPreferences(recipients.map(recipient => recipient.id)))
+        .map(row => [row.user_id, toPreferenceSettings(row)])
+    )
+    const now = new Date()
+
+    const deliveries: { recipient: Recipient; channel: NotificationChannel; language: EmailLanguage }[] = []
+    for (const recipient of recipients) {
+      const settings = preferences.get(recipient.id) || toPreferenceSettings(null)
+      const delivery = settings.channels[event]
+      if (delivery === 'off') {
+        continue
+      }
+
+      const immediate = delivery === 'email' || delivery === 'sms'
+      const channel = immediate && isWithinQuietHours(settings, now) ? 'digest' : delivery
+      deliveries.push({ recipient, channel, language: settings.language })
+    }
+
+    if (deliveries.length === 0) {
+      return
+    }
+
+    const created = await db.createNotifications(deliveries.map(({ recipient, channel }): NotificationInsert => ({
+      user_id: recipient.id,
+      title: input.title,
+      message: input.message,
+      type: input.type || 'info',
+      priority: input.priority || 'medium',
+      category: input.category,
+      link: input.link ?? null,
+      metadata: input.metadata ?? null,
+      channel
+    })))
+
+    const deliveriesByUser = new Map(deliveries.map(delivery => [delivery.recipient.id, delivery]))
+    await emailNotifications(
+      created
+        .filter(notification => notification.channel === 'email')
+        .map(notification => {
+          const { recipient, language } = deliveriesByUser.get(notification.user_id)!
+          return { id: notification.id, recipient, language }
+        }),
+      input
+    )
+    await textNotifications(
+      created
+        .filter(notification => notification.channel === 'sms')
+        .map(notification => deliveriesByUser.get(notification.user_id)!.recipient),
+      input
+    )
+  } catch (error) {
+    console.error(`[Notifier] Failed to dispatch ${event} notification:`, error)
+  }
+}
+
+/**
+ * Queue immediate emails and record which notifications went out
+ */
+async function emailNotifications(
+  pending: { id: number; recipient: Recipient; language: EmailLanguage }[],
+  input: NotificationInput
+): Promise<void> {
+  // Without email the notifications stay in-app only
+  if (pending.length === 0 || !EmailService.isEmailEnabled()) {
+    return
+  }
+
+  const emailed: number[] = []
+  for (const { id, recipient, language } of pending) {
+    if (!recipient.email) {
+      continue
+    }
+
+    try {
+      // Queued counts as emailed: the outbox keeps retrying until it goes out
+      const queued = await queueAndSend(recipient.email, {
+        template: 'notification',
+        data: {
+          recipientName: recipient.name || recipient.email.split('@')[0],
+          subject: input.title,
+          message: input.message,
+          actionUrl: `${APP_URL}${input.link || '/admin/notifications'}`,
+          actionText: 'View in LGU Portal',
+          language
+        }
+      })
+      if (queued) {
+        emailed.push(id)
+      }
+    } catch (error) {
+      console.error(`[Notifier] Failed to email notification ${id}:`, error)
+    }
+  }
+
+  await db.markNotificationsEmailed(emailed)
+}
+
+/**
+ * Text the notification to users who chose SMS. Users without a mobile number
+ * on their profile only get the in-app notification.
+ */
+async function textNotifications(recipients: Recipient[], input: NotificationInput): Promise<void> {
+  if (recipients.length === 0 || !isSmsEnabled()) {
+    return
+  }
+
+  try {
+    await sendSms(
+      recipients.map(recipient => ({ phone: recipient.phone, name: recipient.name, userId: recipient.id })),
+      truncateSms(`${APP_NAME}: ${input.title}\n${input.message}`, NOTIFICATION_SMS_SEGMENTS),
+      { category: 'notification' }
+    )
+  } catch (error) {
+    console.error('[Notifier] Failed to text notifications:', error)
+  }
+}
+
+/**
+ * Every active user with their role. Roles resolve the same way as
+ * getUserRole: the users table first, then app_metadata for accounts without
+ * a profile row.
+ */
+export async function findActiveRecipients(): Promise<Recipient[]> {
+  const authUsers: AuthUser[] = []
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabaseAdmin.auth.admin.listUsers({ page, perPage: USERS_PAGE_SIZE })
+    if (error) {
+      throw new Error(`Auth error: ${error.message}`)
+    }
+    authUsers.push(...data.users)
+    if (data.users.length < USERS_PAGE_SIZE) {
+      break
+    }
+  }
+
+  const emails = authUsers.map(user => user.email).filter((email): email is string => !!email)
+  const profiles = new Map((await db.findUserRolesByEmails(emails)).map(profile => [profile.email, profile]))
+
+  return authUsers.flatMap(user => {
+    const profile = user.email ? profiles.get(user.email) : undefined
+    if (profile && profile.status && profile.status !== 'ACTIVE') {
+      return []
+    }
+    return [{
+      id: user.id,
+      email: user.email || null,
+      name: profile?.name || null,
+      phone: profile?.phone || null,
+      role: normalizeRole(profile ? profile.role : user.app_metadata?.role)
+    }]
+  })
+}
@@ -0,0 +1,147 @@
+/**
+ * Role-Based Access Control
+ *
+ * Defines the application roles, the permissions each role grants, and which
+ * permission each admin page requires. Shared by the API route guards, the
+ * AuthGuard and the Sidebar so all three enforce the same model.
+ */
+
+export const ROLES = ['admin', 'hr_officer', 'records_clerk', 'viewer'] as const
+
+export type Role = typeof ROLES[number]
+
+export type Permission =
+  | 'personnel:view'
+  | 'personnel:create'
+  | 'personnel:update'
+  | 'personnel:delete'
+  | 'departments:view'
+  | 'departments:manage'
+  | 'users:view'
+  | 'users:manage'
+  | 'documents:view'
+  | 'documents:manage'
+  | 'media:view'
+  | 'media:manage'
+  | 'events:view'
+  | 'events:manage'
+  | 'reports:view'
+  | 'audit:view'
+  | 'email:send'
+  | 'sms:send'
+  | 'system:manage'
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrator',
+  hr_officer: 'HR Officer',
+  records_clerk: 'Records Clerk',
+  viewer: 'Viewer'
+}
+
+const VIEW_PERMISSIONS: Permission[] = [
+  'personnel:view',
+  'departments:view',
+  'documents:view',
+  'media:view',
+  'events:view',
+  'reports:view'
+]
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    ...VIEW_PERMISSIONS,
+    'personnel:create',
+    'personnel:update',
+    'personnel:delete',
+    'departments:manage',
+    'users:view',
+    'users:manage',
+    'documents:manage',
+    'media:manage',
+    'events:manage',
+    'audit:view',
+    'email:send',
+    'sms:send',
+    'system:manage'
+  ],
+  hr_officer: [
+    ...VIEW_PERMISSIONS,
+    'personnel:create',
+    'personnel:update',
+    'personnel:delete',
+    'departments:manage',
+    'users:view',
+    'documents:manage',
+    'media:manage',
+    'events:manage',
+    'audit:view',
+    'email:send',
+    'sms:send'
+  ],
+  records_clerk: [
+    ...VIEW_PERMISSIONS,
+    'personnel:create',
+    'personnel:update',
+    'documents:manage',
+    'media:manage',
+    'events:manage'
+  ],
+  viewer: [...VIEW_PERMISSIONS]
+}
+
+/**
+ * Permission required to open each admin page. Pages not listed here are
+ * available to every signed-in user.
+ */
+export const PAGE_PERMISSIONS: Record<string, Permission> = {
+  '/admin/personnel': 'personnel:view',
+  '/admin/users': 'users:view',
+  '/admin/documents': 'documents:view',
+  '/admin/reports': 'reports:view',
+  '/admin/analytics': 'reports:view',
+  '/admin/statistics': 'reports:view',
+  '/admin/departments': 'departments:view',
+  '/admin/media': 'media:view',
+  '/admin/calendar': 'events:view',
+  '/admin/files': 'documents:view',
+  '/admin/archive': 'documents:view',
+  '/admin/database': 'system:manage',
+  '/admin/print': 'reports:view',
+  '/admin/activity': 'audit:view',
+  '/admin/monitor': 'system:manage',
+  '/admin/backup': 'system:manage',
+  '/admin/import-export': 'personnel:create',
+  '/admin/security': 'system:manage',
+  '/admin/communications': 'sms:send',
+  '/admin/email-test': 'email:send',
+  '/admin/email-log': 'email:send',
+  '/admin/settings': 'system:manage'
+}
+
+/**
+ * Map a stored role value onto a known role. Legacy values such as the
+ * column default 'user' get the least-privileged role.
+ */
+export function normalizeRole(role: string | null | undefined): Role {
+  return ROLES.includes(role as Role) ? (role as Role) : 'viewer'
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: Role | null | undefined, permission: Permission): boolean {
+  if (!role) return false
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Get the permission required for a path, matching nested pages
+ * (e.g. /admin/personnel/12) against their section
+ */
+export function getRequiredPermission(pathname: string): Permission | null {
+  const section = Object.keys(PAGE_PERMISSIONS)
+    .filter(path => pathname === path || pathname.startsWith(`${path}/`))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return section ? PAGE_PERMISSIONS[section] : null
+}
@@ -0,0 +1,93 @@
+/**
+ * Personnel Document Categories
+ *
+ * Document types an employee's 201 file is organised by, plus the upload
+ * limits enforced by the documents API. Shared by the API routes and the
+ * Documents tab on the personnel detail page.
+ */
+
+import { z } from 'zod'
+import type { PersonnelDocument } from '@/lib/database.types'
+
+export const PERSONNEL_DOCUMENT_TYPES = ['pds', 'appointment', 'certificate', 'id', 'other'] as const
+
+export type PersonnelDocumentType = typeof PERSONNEL_DOCUMENT_TYPES[number]
+
+export const PERSONNEL_DOCUMENT_TYPE_LABELS: Record<PersonnelDocumentType, string> = {
+  pds: 'Personal Data Sheet',
+  appointment: 'Appointment Papers',
+  certificate: 'Certificates',
+  id: 'IDs',
+  other: 'Other'
+}
+
+/**
+ * Optional expiry date (YYYY-MM-DD) of IDs, certificates and the like
+ */
+export const documentExpirySchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+  .refine(value => !isNaN(Date.parse(value)), 'Invalid date')
+
+/**
+ * Days ahead a document's expiry is flagged in digests and the Documents tab
+ */
+export const DOCUMENT_EXPIRY_WARNING_DAYS = 30
+
+/**
+ * Maximum document size (10MB)
+ */
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024
+
+/**
+ * Allowed document MIME types
+ */
+export const ALLOWED_DOCUMENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp'
+]
+
+/**
+ * Cloudinary delivery type documents are uploaded with. Authenticated files
+ * have no public URL; the download route fetches them with a signed one.
+ */
+export const DOCUMENT_DELIVERY_TYPE = 'authenticated'
+
+/**
+ * Drop the stored Cloudinary URL from a document before it goes out in an
+ * API response, so the file is only reachable through the download route
+ */
+export function toDocumentResponse(document: PersonnelDocument): Omit<PersonnelDocument, 'path'> {
+  const response: Partial<PersonnelDocument> = { ...document }
+  delete response.path
+  return response as Omit<PersonnelDocument, 'path'>
+}
+
+/**
+ * Coerce a stored document_type onto a known category
+ */
+export function normalizeDocumentType(value: unknown): PersonnelDocumentType {
+  return PERSONNEL_DOCUMENT_TYPES.includes(value as PersonnelDocumentType)
+    ? value as PersonnelDocumentType
+    : 'other'
+}
+
+/**
+ * Check an uploaded file against the document limits
+ * @returns Error message, or null when the file is acceptable
+ */
+export function validateDocumentFile(file: File): string | null {
+  if (!ALLOWED_DOCUMENT_TYPES.includes(file.type)) {
+    return `File type ${file.type || 'unknown'} not allowed. Allowed types: ${ALLOWED_DOCUMENT_TYPES.join(', ')}`
+  }
+
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    return `File size ${file.size} exceeds maximum allowed size of ${MAX_DOCUMENT_SIZE} bytes`
+  }
+
+  return null
+}
@@ -0,0 +1,45 @@
+/**
+ * Personnel Export Columns
+ *
+ * Columns available to GET /api/personnel/export and the Export dialog on the
+ * Personnel page. Family fields are sensitive and only exported on request.
+ */
+
+import type { Personnel } from '@/lib/database.types'
+
+export type PersonnelExportColumn = keyof Personnel
+
+export const PERSONNEL_EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const
+
+export type PersonnelExportFormat = typeof PERSONNEL_EXPORT_FORMATS[number]
+
+export const PERSONNEL_EXPORT_COLUMNS: { key: PersonnelExportColumn; label: string; sensitive?: boolean }[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'department', label: 'Department' },
+  { key: 'position', label: 'Position' },
+  { key: 'hire_date', label: 'Hire Date' },
+  { key: 'status', label: 'Status' },
+  { key: 'emergency_contact', label: 'Emergency Contact' },
+  { key: 'biography', label: 'Biography' },
+  { key: 'spouse_name', label: 'Spouse Name', sensitive: true },
+  { key: 'spouse_occupation', label: 'Spouse Occupation', sensitive: true },
+  { key: 'children_count', label: 'Children Count', sensitive: true },
+  { key: 'children_names', label: 'Children Names', sensitive: true },
+  { key: 'created_at', label: 'Created At' },
+  { key: 'updated_at', label: 'Updated At' }
+]
+
+/**
+ * Columns selected when the user doesn't choose any
+ */
+export const DEFAULT_EXPORT_COLUMNS: PersonnelExportColumn[] = [
+  'id', 'name', 'email', 'phone', 'department', 'position', 'hire_date', 'status'
+]
+
+export const SENSITIVE_EXPORT_COLUMNS: PersonnelExportColumn[] = PERSONNEL_EXPORT_COLUMNS
+  .filter(column => column.sensitive)
+  .map(column => column.key)
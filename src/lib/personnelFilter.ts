@@ -0,0 +1,286 @@
+/**
+ * Personnel Filter Expressions
+ *
+ * A structured filter for /api/personnel: AND/OR groups of field conditions,
+ * validated with Zod and translated into a PostgREST logic tree such as
+ * and(hire_date.lt."2015-01-01",status.eq."On Leave",department.in.("A","B")).
+ * Every value is quoted, so user input can't change the tree's structure.
+ * Shared by the personnel API, the export route and the filter builder.
+ */
+
+import { z } from 'zod'
+import { PERSONNEL_STATUSES } from '@/lib/personnelSchema'
+
+type FieldType = 'text' | 'date' | 'enum'
+
+interface FilterField {
+  label: string
+  type: FieldType
+  // Optional columns also offer "is empty" / "is not empty"
+  nullable: boolean
+  // Timestamp columns compare whole days, so "on" a date means the full day
+  timestamp?: boolean
+  options?: readonly string[]
+}
+
+export const PERSONNEL_FILTER_FIELDS = {
+  name: { label: 'Name', type: 'text', nullable: false },
+  email: { label: 'Email', type: 'text', nullable: false },
+  department: { label: 'Department', type: 'text', nullable: false },
+  position: { label: 'Position', type: 'text', nullable: true },
+  status: { label: 'Status', type: 'enum', nullable: true, options: PERSONNEL_STATUSES },
+  hire_date: { label: 'Hire date', type: 'date', nullable: true },
+  phone: { label: 'Phone', type: 'text', nullable: true },
+  address: { label: 'Address', type: 'text', nullable: true },
+  emergency_contact: { label: 'Emergency contact', type: 'text', nullable: true },
+  spouse_name: { label: 'Spouse name', type: 'text', nullable: true },
+  created_at: { label: 'Registered', type: 'date', nullable: false, timestamp: true }
+} satisfies Record<string, FilterField>
+
+export type PersonnelFilterField = keyof typeof PERSONNEL_FILTER_FIELDS
+
+const FIELD_KEYS = Object.keys(PERSONNEL_FILTER_FIELDS) as [PersonnelFilterField, ...PersonnelFilterField[]]
+
+// value: what the operator takes - nothing, one value, a list, or a [from, to] pair
+export const FILTER_OPERATORS = {
+  eq: { label: 'is', value: 'single' },
+  neq: { label: 'is not', value: 'single' },
+  contains: { label: 'contains', value: 'single' },
+  starts_with: { label: 'starts with', value: 'single' },
+  in: { label: 'is any of', value: 'list' },
+  not_in: { label: 'is none of', value: 'list' },
+  lt: { label: 'before', value: 'single' },
+  lte: { label: 'on or before', value: 'single' },
+  gt: { label: 'after', value: 'single' },
+  gte: { label: 'on or after', value: 'single' },
+  between: { label: 'between', value: 'range' },
+  is_null: { label: 'is empty', value: 'none' },
+  not_null: { label: 'is not empty', value: 'none' }
+} as const
+
+export type FilterOperator = keyof typeof FILTER_OPERATORS
+
+const OPERATOR_KEYS = Object.keys(FILTER_OPERATORS) as [FilterOperator, ...FilterOperator[]]
+
+const OPERATORS_BY_TYPE: Record<FieldType, FilterOperator[]> = {
+  text: ['eq', 'neq', 'contains', 'starts_with', 'in', 'not_in'],
+  date: ['eq', 'lt', 'lte', 'gt', 'gte', 'between'],
+  enum: ['eq', 'neq', 'in', 'not_in']
+}
+
+/**
+ * Operators offered for a field, including the null checks on optional fields
+ */
+export function operatorsForField(field: PersonnelFilterField): FilterOperator[] {
+  const definition: FilterField = PERSONNEL_FILTER_FIELDS[field]
+  const operators = OPERATORS_BY_TYPE[definition.type]
+  return definition.nullable ? [...operators, 'is_null', 'not_null'] : operators
+}
+
+// Type aliases rather than interfaces so expressions can be stored in JSONB columns
+export type PersonnelFilterCondition = {
+  field: PersonnelFilterField
+  operator: FilterOperator
+  value?: string | string[]
+}
+
+export type PersonnelFilterGroup = {
+  combinator: 'and' | 'or'
+  conditions: (PersonnelFilterCondition | PersonnelFilterGroup)[]
+}
+
+// Keep generated queries (and their URLs) to a sensible size
+export const MAX_FILTER_DEPTH = 3
+export const MAX_FILTER_CONDITIONS = 30
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const isValidDate = (value: string) =>
+  DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime())
+
+export const isFilterGroup = (node: PersonnelFilterCondition | PersonnelFilterGroup): node is PersonnelFilterGroup =>
+  'combinator' in node
+
+const conditionSchema: z.ZodType<PersonnelFilterCondition> = z.object({
+  field: z.enum(FIELD_KEYS),
+  operator: z.enum(OPERATOR_KEYS),
+  value: z.union([z.string().max(255), z.array(z.string().max(255)).max(50)]).optional()
+}).superRefine((condition, ctx) => {
+  const field: FilterField = PERSONNEL_FILTER_FIELDS[condition.field]
+  const { value } = condition
+
+  if (!operatorsForField(condition.field).includes(condition.operator)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['operator'],
+      message: `"${FILTER_OPERATORS[condition.operator].label}" can't be used with ${field.label}`
+    })
+    return
+  }
+
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value]
+
+  switch (FILTER_OPERATORS[condition.operator].value) {
+    case 'none':
+      return
+    case 'single':
+      if (typeof value !== 'string' || value.trim() === '') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${field.label} needs a value` })
+        return
+      }
+      break
+    case 'list':
+      if (!Array.isArray(value) || value.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${field.label} needs at least one value` })
+        return
+      }
+      break
+    case 'range':
+      if (!Array.isArray(value) || value.length !== 2) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${field.label} needs a start and an end` })
+        return
+      }
+      if (value[0] > value[1]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${field.label} range ends before it starts` })
+        return
+      }
+      break
+  }
+
+  if (field.type === 'date' && !values.every(isValidDate)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${field.label} dates must be YYYY-MM-DD` })
+  }
+
+  if (field.options && !values.every(item => field.options?.includes(item))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: `${field.label} must be one of: ${field.options.join(', ')}`
+    })
+  }
+})
+
+const groupSchema: z.ZodType<PersonnelFilterGroup> = z.lazy(() => z.object({
+  combinator: z.enum(['and', 'or']),
+  conditions: z.array(z.union([conditionSchema, groupSchema])).min(1, 'A group needs at least one condition')
+}))
+
+const measure = (group: PersonnelFilterGroup): { depth: number; conditions: number } =>
+  group.conditions.reduce((total, node) => {
+    if (!isFilterGroup(node)) {
+      return { depth: total.depth, conditions: total.conditions + 1 }
+    }
+    const nested = measure(node)
+    return {
+      depth: Math.max(total.depth, nested.depth + 1),
+      conditions: total.conditions + nested.conditions
+    }
+  }, { depth: 1, conditions: 0 })
+
+export const personnelFilterSchema = groupSchema.superRefine((group, ctx) => {
+  const { depth, conditions } = measure(group)
+
+  if (depth > MAX_FILTER_DEPTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Groups can be nested at most ${MAX_FILTER_DEPTH} levels deep` })
+  }
+
+  if (conditions > MAX_FILTER_CONDITIONS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `A filter can have at most ${MAX_FILTER_CONDITIONS} conditions` })
+  }
+})
+
+/**
+ * The ?filter= query parameter: JSON-encoded personnelFilterSchema
+ */
+export const personnelFilterParamSchema = z.string().transform((raw, ctx) => {
+  try {
+    return JSON.parse(raw) as unknown
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['filter'], message: 'filter must be valid JSON' })
+    return z.NEVER
+  }
+}).pipe(personnelFilterSchema)
+
+// PostgREST reserves , . : ( ) in logic trees; a double-quoted value may hold anything
+// once its backslashes and double quotes are escaped
+export const quoteFilterValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+// Treat % and _ typed by the user literally in (i)like patterns
+export const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, character => `\\${character}`)
+
+const nextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString().slice(0, 10)
+}
+
+const toConditionFilter = ({ field, operator, value }: PersonnelFilterCondition): string => {
+  const definition: FilterField = PERSONNEL_FILTER_FIELDS[field]
+  const single = typeof value === 'string' ? value.trim() : ''
+  const list = Array.isArray(value) ? value : []
+
+  // A day on a timestamp column runs from midnight to the next midnight (UTC)
+  if (definition.timestamp) {
+    switch (operator) {
+      case 'eq':
+        return `and(${field}.gte.${quoteFilterValue(single)},${field}.lt.${quoteFilterValue(nextDay(single))})`
+      case 'lte':
+        return `${field}.lt.${quoteFilterValue(nextDay(single))}`
+      case 'gt':
+        return `${field}.gte.${quoteFilterValue(nextDay(single))}`
+      case 'between':
+        return `and(${field}.gte.${quoteFilterValue(list[0])},${field}.lt.${quoteFilterValue(nextDay(list[1]))})`
+    }
+  }
+
+  switch (operator) {
+    case 'eq':
+    case 'neq':
+    case 'lt':
+    case 'lte':
+    case 'gt':
+    case 'gte':
+      return `${field}.${operator}.${quoteFilterValue(single)}`
+    case 'contains':
+      return `${field}.ilike.${quoteFilterValue(`*${escapeLikePattern(single)}*`)}`
+    case 'starts_with':
+      return `${field}.ilike.${quoteFilterValue(`${escapeLikePattern(single)}*`)}`
+    case 'in':
+      return `${field}.in.(${list.map(quoteFilterValue).join(',')})`
+    case 'not_in':
+      return `${field}.not.in.(${list.map(quoteFilterValue).join(',')})`
+    case 'between':
+      return `and(${field}.gte.${quoteFilterValue(list[0])},${field}.lte.${quoteFilterValue(list[1])})`
+    case 'is_null':
+      return `${field}.is.null`
+    case 'not_null':
+      return `${field}.not.is.null`
+  }
+}
+
+/**
+ * Translate a validated filter into a PostgREST logic tree, e.g. for query.or()
+ */
+export function toPostgrestFilter(group: PersonnelFilterGroup): string {
+  const parts = group.conditions.map(node => isFilterGroup(node) ? toPostgrestFilter(node) : toConditionFilter(node))
+  return `${group.combinator}(${parts.join(',')})`
+}
+
+/**
+ * One-line summary of a filter for labels, e.g. "Hire date before 2015-01-01 and Status is On Leave"
+ */
+export function describePersonnelFilter(group: PersonnelFilterGroup): string {
+  return group.conditions.map(node => {
+    if (isFilterGroup(node)) {
+      return `(${describePersonnelFilter(node)})`
+    }
+
+    const label = `${PERSONNEL_FILTER_FIELDS[node.field].label} ${FILTER_OPERATORS[node.operator].label}`
+    if (Array.isArray(node.value)) {
+      return node.operator === 'between'
+        ? `${label} ${node.value[0]} and ${node.value[1]}`
+        : `${label} ${node.value.join(', ')}`
+    }
+    return node.value ? `${label} ${node.value}` : label
+  }).join(` ${group.combinator} `)
+}
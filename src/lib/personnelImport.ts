@@ -0,0 +1,200 @@
+/**
+ * Personnel Bulk Import
+ *
+ * Maps spreadsheet columns onto the create-personnel fields, validates every
+ * row with Zod and flags duplicate emails (within the file and against
+ * existing records) and unknown departments. Used by POST /api/personnel/import
+ * for both the dry-run preview and the commit.
+ */
+
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import {
+  createPersonnelSchema,
+  CreatePersonnelInput,
+  PERSONNEL_STATUSES
+} from '@/lib/personnelSchema'
+
+export type PersonnelImportField = keyof CreatePersonnelInput
+
+/**
+ * Maximum rows accepted in a single import
+ */
+export const MAX_IMPORT_ROWS = 1000
+
+/**
+ * Maximum import file size (5MB)
+ */
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024
+
+/**
+ * Header spellings recognised for each field, compared after lowercasing and
+ * stripping everything but letters and digits ("Hire Date", "hire_date" and
+ * "hireDate" all match "hiredate")
+ */
+export const PERSONNEL_IMPORT_COLUMNS: Record<PersonnelImportField, string[]> = {
+  name: ['name', 'fullname', 'employeename'],
+  email: ['email', 'emailaddress'],
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilenumber', 'contactnumber'],
+  address: ['address'],
+  profilePhoto: ['profilephoto', 'photo', 'photourl'],
+  department: ['department', 'dept', 'office'],
+  position: ['position', 'designation', 'jobtitle'],
+  hireDate: ['hiredate', 'datehired', 'dateofhire'],
+  status: ['status', 'employmentstatus'],
+  biography: ['biography', 'bio'],
+  spouseName: ['spousename', 'spouse'],
+  spouseOccupation: ['spouseoccupation'],
+  childrenCount: ['childrencount', 'numberofchildren', 'children'],
+  emergencyContact: ['emergencycontact'],
+  childrenNames: ['childrennames']
+}
+
+/**
+ * The create schema plus the column limits a bulk INSERT would otherwise
+ * reject, so one bad cell cannot fail the whole batch
+ */
+const importRowSchema = createPersonnelSchema.extend({
+  phone: z.string().max(50, 'Phone must be at most 50 characters').optional(),
+  hireDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Hire date must be YYYY-MM-DD').optional(),
+  childrenCount: z.string().max(10, 'Children count must be at most 10 characters').optional(),
+  emergencyContact: z.string().max(50, 'Emergency contact must be at most 50 characters').optional()
+})
+
+export interface PersonnelImportRow {
+  row: number
+  values: Partial<Record<PersonnelImportField, string>>
+  errors: string[]
+}
+
+export interface PersonnelImportResult {
+  dryRun: boolean
+  columns: {
+    mapped: Partial<Record<PersonnelImportField, string>>
+    unmapped: string[]
+  }
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    imported: number
+  }
+  rows: PersonnelImportRow[]
+}
+
+export interface PersonnelImportAnalysis {
+  columns: PersonnelImportResult['columns']
+  rows: PersonnelImportRow[]
+  validRecords: CreatePersonnelInput[]
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Match header cells to import fields
+ * @returns Column index per field plus the headers that matched nothing
+ */
+function mapColumns(header: string[]) {
+  const indexes: Partial<Record<PersonnelImportField, number>> = {}
+  const mapped: Partial<Record<PersonnelImportField, string>> = {}
+  const unmapped: string[] = []
+
+  header.forEach((cell, index) => {
+    const key = normalizeHeader(cell)
+    const field = (Object.keys(PERSONNEL_IMPORT_COLUMNS) as PersonnelImportField[])
+      .find(candidate => PERSONNEL_IMPORT_COLUMNS[candidate].includes(key))
+
+    if (field && indexes[field] === undefined) {
+      indexes[field] = index
+      mapped[field] = cell
+    } else if (cell) {
+      unmapped.push(cell)
+    }
+  })
+
+  return { indexes, mapped, unmapped }
+}
+
+/**
+ * Validate spreadsheet rows for import
+ * @param table - Rows of cell text, header row first
+ * @returns Per-row results and the rows that are safe to insert
+ */
+export async function analyzePersonnelImport(table: string[][]): Promise<PersonnelImportAnalysis> {
+  const [header = [], ...dataRows] = table
+  const { indexes, mapped, unmapped } = mapColumns(header)
+
+  const departments = await db.getDepartmentNames()
+  const departmentNames = new Map(departments.map(name => [name.toLowerCase(), name]))
+
+  const rows: PersonnelImportRow[] = []
+  const parsed: (CreatePersonnelInput | null)[] = []
+  const firstRowByEmail = new Map<string, number>()
+
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + 2 // 1-based, after the header row
+    const values: PersonnelImportRow['values'] = {}
+
+    for (const [field, column] of Object.entries(indexes) as [PersonnelImportField, number][]) {
+      const value = cells[column]?.trim()
+      if (value) {
+        values[field] = value
+      }
+    }
+
+    const candidate: Record<string, string> = { ...values }
+    if (values.status) {
+      candidate.status = PERSONNEL_STATUSES.find(status => status.toLowerCase() === values.status!.toLowerCase()) || values.status
+    }
+    if (values.department) {
+      candidate.department = departmentNames.get(values.department.toLowerCase()) || values.department
+    }
+
+    const errors: string[] = []
+    const result = importRowSchema.safeParse(candidate)
+
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        errors.push(issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+      }
+    } else if (!departmentNames.has(result.data.department.toLowerCase())) {
+      errors.push(`department: Department "${result.data.department}" does not exist`)
+    }
+
+    const email = values.email?.toLowerCase()
+    if (email) {
+      const firstRow = firstRowByEmail.get(email)
+      if (firstRow !== undefined) {
+        errors.push(`email: Duplicate of row ${firstRow} in this file`)
+      } else {
+        firstRowByEmail.set(email, rowNumber)
+      }
+    }
+
+    rows.push({ row: rowNumber, values, errors })
+    parsed.push(result.success && errors.length === 0 ? result.data : null)
+  })
+
+  // Check the remaining candidates against existing personnel, a few at a time
+  const pending = parsed
+    .map((data, index) => ({ data, index }))
+    .filter((entry): entry is { data: CreatePersonnelInput; index: number } => entry.data !== null)
+
+  for (let start = 0; start < pending.length; start += 20) {
+    await Promise.all(pending.slice(start, start + 20).map(async ({ data, index }) => {
+      const existing = await db.findPersonnelByEmail(data.email)
+      if (existing) {
+        rows[index].errors.push(`email: Personnel with this email already exists (#${existing.id})`)
+        parsed[index] = null
+      }
+    }))
+  }
+
+  return {
+    columns: { mapped, unmapped },
+    rows,
+    validRecords: parsed.filter((data): data is CreatePersonnelInput => data !== null)
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Personnel Validation
+ *
+ * The create-personnel schema used by POST /api/personnel and the bulk
+ * importer, plus the mapping from its camelCase fields to database columns.
+ */
+
+import { z } from 'zod'
+import type { PersonnelInsert } from '@/lib/database.types'
+
+export const PERSONNEL_STATUSES = ['Active', 'Inactive', 'On Leave', 'Suspended'] as const
+
+export const createPersonnelSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email address'),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  profilePhoto: z.string().optional(),
+  department: z.string().min(1, 'Department is required'),
+  position: z.string().optional(),
+  hireDate: z.string().optional(),
+  status: z.enum(PERSONNEL_STATUSES).default('Active'),
+  biography: z.string().optional(),
+  spouseName: z.string().optional(),
+  spouseOccupation: z.string().optional(),
+  childrenCount: z.string().optional(),
+  emergencyContact: z.string().optional(),
+  childrenNames: z.string().optional(),
+})
+
+export type CreatePersonnelInput = z.infer<typeof createPersonnelSchema>
+
+/**
+ * Map validated create input onto personnel table columns
+ */
+export function toPersonnelInsert(input: CreatePersonnelInput): Omit<PersonnelInsert, 'id' | 'created_at' | 'updated_at'> {
+  return {
+    name: input.name,
+    email: input.email,
+    phone: input.phone || null,
+    address: input.address || null,
+    profile_photo: input.profilePhoto || null,
+    department: input.department,
+    position: input.position || null,
+    hire_date: input.hireDate || null,
+    status: input.status,
+    biography: input.biography || null,
+    spouse_name: input.spouseName || null,
+    spouse_occupation: input.spouseOccupation || null,
+    children_count: input.childrenCount || null,
+    emergency_contact: input.emergencyContact || null,
+    children_names: input.childrenNames || null
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Recurrence Rules
+ *
+ * Parses and expands the subset of RFC 5545 RRULEs the calendar supports:
+ * FREQ (DAILY, WEEKLY, MONTHLY, YEARLY) with INTERVAL, COUNT and UNTIL, plus
+ *
+ * - BYDAY: weekdays for daily, weekly and monthly rules, and "1MO" / "-1FR"
+ *   style ordinals for monthly rules only
+ * - BYMONTHDAY: for daily and monthly rules; with BYDAY, both must match
+ *
+ * Yearly rules repeat on the first occurrence's date and take neither.
+ * Other combinations are rejected rather than expanded wrongly. Occurrences keep the wall-clock time of the first one in the
+ * event's timezone, so a 09:00 meeting stays at 09:00 across DST changes.
+ *
+ * Usage:
+ * ```typescript
+ * const occurrences = expandOccurrences(event, monthStart, monthEnd)
+ * ```
+ */
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number]
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+
+type Weekday = typeof WEEKDAYS[number]
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  count?: number
+  until?: Date
+  byDay?: { weekday: Weekday; ordinal?: number }[]
+  byMonthDay?: number[]
+}
+
+export interface RecurringSchedule {
+  starts_at: string
+  ends_at: string
+  timezone: string
+  recurrence_rule: string | null
+}
+
+export interface Occurrence {
+  start: Date
+  end: Date
+}
+
+// Hard stop for pathological rules (e.g. a daily rule read decades later)
+const MAX_ITERATIONS = 20000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ * @throws Error when the rule uses unsupported or malformed parts
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>()
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue
+    const [key, value] = part.split('=')
+    if (!key || value === undefined) {
+      throw new Error(`Malformed recurrence rule part "${part}"`)
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase())
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported recurrence frequency "${parts.get('FREQ') || ''}"`)
+  }
+
+  const interval = parts.has('INTERVAL') ? parseInt(parts.get('INTERVAL')!) : 1
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error('Recurrence INTERVAL must be a positive integer')
+  }
+
+  const result: RecurrenceRule = { freq, interval }
+
+  if (parts.has('COUNT')) {
+    result.count = parseInt(parts.get('COUNT')!)
+    if (!Number.isInteger(result.count) || result.count < 1) {
+      throw new Error('Recurrence COUNT must be a positive integer')
+    }
+  }
+
+  if (parts.has('UNTIL')) {
+    result.until = parseRuleDate(parts.get('UNTIL')!)
+  }
+
+  if (parts.has('BYDAY')) {
+    result.byDay = parts.get('BYDAY')!.split(',').map(token => {
+      const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/)
+      const ordinal = match?.[1] ? parseInt(match[1]) : undefined
+      if (!match || ordinal === 0 || (ordinal !== undefined && Math.abs(ordinal) > 5)) {
+        throw new Error(`Unsupported BYDAY value "${token}"`)
+      }
+      return { weekday: match[2] as Weekday, ordinal }
+    })
+    if (freq === 'YEARLY') {
+      throw new Error('BYDAY is not supported for yearly rules')
+    }
+    if (freq !== 'MONTHLY' && result.byDay.some(entry => entry.ordinal !== undefined)) {
+      throw new Error(`Numbered weekdays (e.g. "1MO") are only supported for monthly rules`)
+    }
+  }
+
+  if (parts.has('BYMONTHDAY')) {
+    result.byMonthDay = parts.get('BYMONTHDAY')!.split(',').map(token => {
+      const day = parseInt(token)
+      if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+        throw new Error(`Unsupported BYMONTHDAY value "${token}"`)
+      }
+      return day
+    })
+    if (freq === 'WEEKLY' || freq === 'YEARLY') {
+      throw new Error(`BYMONTHDAY is not supported for ${freq.toLowerCase()} rules`)
+    }
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'].includes(key)) {
+      throw new Error(`Unsupported recurrence rule part "${key}"`)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Check a rule without throwing
+ * @returns Error message, or null when the rule is supported
+ */
+export function validateRecurrenceRule(rule: string): string | null {
+  try {
+    parseRecurrenceRule(rule)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid recurrence rule'
+  }
+}
+
+/**
+ * Parse an RRULE UNTIL value: YYYYMMDD or YYYYMMDDTHHMMSS[Z]
+ */
+function parseRuleDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+  if (!match) {
+    throw new Error(`Malformed recurrence UNTIL value "${value}"`)
+  }
+  const [, year, month, day, hour, minute, second] = match
+  // A date-only UNTIL includes the whole of that day
+  return hour === undefined
+    ? new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59))
+    : new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))
+}
+
+interface WallClock {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+/**
+ * Read the wall-clock time of an instant in a timezone
+ */
+export function toZonedWallClock(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date)
+
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0')
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  }
+}
+
+/**
+ * Convert a wall-clock time in a timezone to the instant it denotes
+ */
+export function fromZonedWallClock(clock: WallClock, timeZone: string): Date {
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second)
+  const offsetAt = (instant: number) => {
+    const zoned = toZonedWallClock(new Date(instant), timeZone)
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second) - instant
+  }
+
+  const firstGuess = asUtc - offsetAt(asUtc)
+  const correctedOffset = offsetAt(firstGuess)
+  return new Date(asUtc - correctedOffset)
+}
+
+/**
+ * Whether a date is one of the rule's BYMONTHDAY days (negative days count from the month's end)
+ */
+function matchesMonthDay(rule: RecurrenceRule, date: Date): boolean {
+  if (!rule.byMonthDay) return true
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate()
+  return rule.byMonthDay.some(monthDay =>
+    (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1) === date.getUTCDate()
+  )
+}
+
+/**
+ * Calendar dates (as UTC-midnight Date objects) produced by one period of the rule
+ */
+function datesInPeriod(rule: RecurrenceRule, first: Date, period: number): Date[] {
+  const year = first.getUTCFullYear()
+  const month = first.getUTCMonth()
+  const day = first.getUTCDate()
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = new Date(Date.UTC(year, month, day + period * rule.interval))
+      return matchesMonthDay(rule, date) && (!rule.byDay || rule.byDay.some(entry => WEEKDAYS.indexOf(entry.weekday) === date.getUTCDay()))
+        ? [date]
+        : []
+    }
+
+    case 'WEEKLY': {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const mondayOffset = (first.getUTCDay() + 6) % 7
+      const weekStart = Date.UTC(year, month, day - mondayOffset + period * rule.interval * 7)
+      const weekdays = rule.byDay?.map(entry => entry.weekday) || [WEEKDAYS[first.getUTCDay()]]
+      return weekdays
+        .map(weekday => new Date(weekStart + ((WEEKDAYS.indexOf(weekday) + 6) % 7) * DAY_MS))
+        .sort((a, b) => a.getTime() - b.getTime())
+    }
+
+    case 'MONTHLY': {
+      const targetMonth = month + period * rule.interval
+      const monthStart = new Date(Date.UTC(year, targetMonth, 1))
+      const daysInMonth = new Date(Date.UTC(year, targetMonth + 1, 0)).getUTCDate()
+      const dates: Date[] = []
+
+      if (rule.byDay) {
+        for (const { weekday, ordinal } of rule.byDay) {
+          const matching: number[] = []
+          for (let d = 1; d <= daysInMonth; d++) {
+            if (new Date(Date.UTC(year, targetMonth, d)).getUTCDay() === WEEKDAYS.indexOf(weekday)) {
+              matching.push(d)
+            }
+          }
+          const picked = ordinal === undefined
+            ? matching
+            : [ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal]]
+          for (const d of picked) {
+            if (d !== undefined) dates.push(new Date(Date.UTC(year, targetMonth, d)))
+          }
+        }
+      } else {
+        for (const monthDay of rule.byMonthDay || [day]) {
+          const d = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1
+          // Months without that day are skipped, as RFC 5545 requires
+          if (d >= 1 && d <= daysInMonth) {
+            dates.push(new Date(Date.UTC(year, targetMonth, d)))
+          }
+        }
+      }
+
+      return dates
+        .filter(date => date.getUTCMonth() === monthStart.getUTCMonth())
+        // BYDAY and BYMONTHDAY together keep only the dates matching both (e.g. Friday the 13th)
+        .filter(date => !rule.byDay || matchesMonthDay(rule, date))
+        .sort((a, b) => a.getTime() - b.getTime())
+    }
+
+    case 'YEARLY': {
+      const date = new Date(Date.UTC(year + period * rule.interval, month, day))
+      // Skip Feb 29 in non-leap years
+      return date.getUTCMonth() === month ? [date] : []
+    }
+  }
+}
+
+/**
+ * Expand an event into the occurrences that overlap a time range.
+ * Non-recurring events yield at most one occurrence.
+ * @param schedule - Event start/end, timezone and optional RRULE
+ * @param rangeStart - Start of the range (inclusive)
+ * @param rangeEnd - End of the range (exclusive)
+ * @param limit - Maximum occurrences to return
+ */
+export function expandOccurrences(
+  schedule: RecurringSchedule,
+  rangeStart: Date,
+  rangeEnd: Date,
+  limit: number = 1000
+): Occurrence[] {
+  const start = new Date(schedule.starts_at)
+  const duration = Math.max(0, new Date(schedule.ends_at).getTime() - start.getTime())
+
+  const overlaps = (occurrenceStart: Date, occurrenceEnd: Date) =>
+    occurrenceStart < rangeEnd &&
+    (occurrenceEnd > rangeStart || (duration === 0 && occurrenceStart >= rangeStart))
+
+  if (!schedule.recurrence_rule) {
+    const end = new Date(start.getTime() + duration)
+    return overlaps(start, end) ? [{ start, end }] : []
+  }
+
+  const rule = parseRecurrenceRule(schedule.recurrence_rule)
+  const clock = toZonedWallClock(start, schedule.timezone)
+  const firstDate = new Date(Date.UTC(clock.year, clock.month - 1, clock.day))
+
+  const occurrences: Occurrence[] = []
+  let generated = 0
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const dates = datesInPeriod(rule, firstDate, period)
+
+    for (const date of dates) {
+      if (date < firstDate) continue
+
+      const occurrenceStart = fromZonedWallClock({
+        ...clock,
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate()
+      }, schedule.timezone)
+
+      if (occurrenceStart < start) continue
+      if (rule.until && occurrenceStart > rule.until) return occurrences
+      if (rule.count !== undefined && generated >= rule.count) return occurrences
+      if (occurrenceStart >= rangeEnd) return occurrences
+
+      generated++
+      const occurrenceEnd = new Date(occurrenceStart.getTime() + duration)
+      if (overlaps(occurrenceStart, occurrenceEnd)) {
+        occurrences.push({ start: occurrenceStart, end: occurrenceEnd })
+        if (occurrences.length >= limit) return occurrences
+      }
+    }
+  }
+
+  return occurrences
+}
+
+/**
+ * Describe a rule in plain English for the calendar UI
+ */
+export function describeRecurrenceRule(ruleText: string | null): string {
+  if (!ruleText) return 'Does not repeat'
+
+  try {
+    const rule = parseRecurrenceRule(ruleText)
+    const units = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }
+    const dayNames: Record<Weekday, string> = { SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat' }
+
+    let text = rule.freq === 'MONTHLY' && rule.interval === 3
+      ? 'Quarterly'
+      : rule.interval === 1
+        ? `${rule.freq.charAt(0)}${rule.freq.slice(1).toLowerCase()}`
+        : `Every ${rule.interval} ${units[rule.freq]}s`
+
+    if (rule.byDay?.length) {
+      text += ` on ${rule.byDay.map(({ weekday, ordinal }) =>
+        ordinal === undefined ? dayNames[weekday] : `${ordinal === -1 ? 'last' : `#${ordinal}`} ${dayNames[weekday]}`
+      ).join(', ')}`
+    }
+    if (rule.byMonthDay?.length) {
+      text += ` on ${rule.byMonthDay.map(day => day === -1 ? 'the last day' : `day ${day}`).join(', ')}`
+    }
+    if (rule.count) {
+      text += `, ${rule.count} times`
+    }
+    if (rule.until) {
+      text += `, until ${rule.until.toISOString().slice(0, 10)}`
+    }
+    return text
+  } catch {
+    return 'Custom recurrence'
+  }
+}
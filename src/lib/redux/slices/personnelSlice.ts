@@ -10,6 +10,7 @@
  */
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import type { PersonnelFilterGroup } from '@/lib/personnelFilter'
 
 // Types
 export interface Personnel {
@@ -46,6 +47,8 @@ export interface PersonnelFilters {
   department?: string
   status?: string
   sortBy: 'id_asc' | 'id_desc' | 'name_asc' | 'name_desc'
+  // Advanced AND/OR expression from the filter builder
+  expression?: PersonnelFilterGroup
 }
 
 export interface PersonnelState {
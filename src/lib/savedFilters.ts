@@ -0,0 +1,87 @@
+/**
+ * Saved Filter Presets
+ *
+ * Named filter definitions for the personnel, users and media lists, either
+ * private to their owner or shared with everyone holding a role. Shared by
+ * /api/saved-filters and the preset dropdown on each list page.
+ */
+
+import { z } from 'zod'
+import { ROLES, Permission } from '@/lib/permissions'
+import { personnelFilterSchema } from '@/lib/personnelFilter'
+import type { SavedFilter, SavedFilterListType } from '@/lib/database.types'
+
+export const SAVED_FILTER_LISTS = ['personnel', 'users', 'media'] as const
+
+// Viewing a list is enough to keep presets for it
+export const SAVED_FILTER_PERMISSIONS: Record<SavedFilterListType, Permission> = {
+  personnel: 'personnel:view',
+  users: 'users:view',
+  media: 'media:view'
+}
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+/**
+ * Filter values a preset can hold. Each list uses the fields it has controls for.
+ */
+export const filterDefinitionSchema = z.object({
+  search: z.string().max(255).optional(),
+  department: z.string().max(255).optional(),
+  status: z.string().max(50).optional(),
+  role: z.string().max(50).optional(),
+  tags: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  resourceType: z.enum(['image', 'video', 'raw']).optional(),
+  dateFrom: dateSchema.optional(),
+  dateTo: dateSchema.optional(),
+  sort: z.string().max(50).optional(),
+  // Personnel only: the advanced filter builder's expression
+  expression: personnelFilterSchema.optional()
+})
+
+export type FilterDefinition = z.infer<typeof filterDefinitionSchema>
+
+export const createSavedFilterSchema = z.object({
+  listType: z.enum(SAVED_FILTER_LISTS),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  definition: filterDefinitionSchema,
+  // null keeps the preset private
+  sharedWithRole: z.enum(ROLES).nullable().default(null)
+})
+
+export const updateSavedFilterSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  definition: filterDefinitionSchema.optional(),
+  sharedWithRole: z.enum(ROLES).nullable().optional()
+})
+
+/**
+ * A preset as returned by /api/saved-filters
+ */
+export interface SavedFilterPreset {
+  id: number
+  listType: SavedFilterListType
+  name: string
+  definition: FilterDefinition
+  sharedWithRole: string | null
+  isOwner: boolean
+  updatedAt: string
+}
+
+/**
+ * Map a saved_filters row onto the API shape for the requesting user
+ */
+export function toSavedFilterPreset(filter: SavedFilter, userId: string): SavedFilterPreset {
+  // Rows written before a field was added may not parse; fall back to the valid subset
+  const parsed = filterDefinitionSchema.safeParse(filter.definition)
+
+  return {
+    id: filter.id,
+    listType: filter.list_type,
+    name: filter.name,
+    definition: parsed.success ? parsed.data : {},
+    sharedWithRole: filter.shared_with_role,
+    isOwner: filter.owner_id === userId,
+    updatedAt: filter.updated_at
+  }
+}
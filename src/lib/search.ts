@@ -0,0 +1,72 @@
+/**
+ * Global Search
+ *
+ * Entity types covered by /api/search, the permission each one needs and
+ * where a result links to. Shared by the API route and the command palette.
+ */
+
+import type { Permission } from '@/lib/permissions'
+import type { SearchEntityType, SearchResultRow } from '@/lib/database.types'
+
+// Group order in the command palette
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['personnel', 'document', 'department', 'user', 'media']
+
+export const SEARCH_ENTITY_LABELS: Record<SearchEntityType, string> = {
+  personnel: 'Personnel',
+  document: 'Documents',
+  department: 'Departments',
+  user: 'Users',
+  media: 'Media'
+}
+
+export const SEARCH_ENTITY_PERMISSIONS: Record<SearchEntityType, Permission> = {
+  personnel: 'personnel:view',
+  document: 'documents:view',
+  department: 'departments:view',
+  user: 'users:view',
+  media: 'media:view'
+}
+
+// Shorter queries match too much with prefix search
+export const MIN_SEARCH_QUERY_LENGTH = 2
+
+/**
+ * A search match as returned by /api/search
+ */
+export interface SearchResult {
+  type: SearchEntityType
+  id: string
+  label: string
+  detail: string | null
+  thumbnailUrl: string | null
+  href: string
+}
+
+const hrefFor = (row: SearchResultRow) => {
+  switch (row.entity_type) {
+    case 'personnel':
+      return `/admin/personnel/${row.entity_id}`
+    case 'document':
+      return `/admin/personnel/${row.parent_id}?tab=documents`
+    case 'department':
+      return '/admin/departments'
+    case 'user':
+      return `/admin/users?search=${encodeURIComponent(row.label)}`
+    case 'media':
+      return `/admin/media?search=${encodeURIComponent(row.label)}`
+  }
+}
+
+/**
+ * Map a global_search row onto the API result shape
+ */
+export function toSearchResult(row: SearchResultRow): SearchResult {
+  return {
+    type: row.entity_type,
+    id: row.entity_id,
+    label: row.label,
+    detail: row.detail || null,
+    thumbnailUrl: row.thumbnail_url,
+    href: hrefFor(row)
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * SMS Helpers
+ *
+ * Philippine mobile number handling, message segmentation and the opt-out
+ * keywords, shared by the SMS service and the Communications composer:
+ *
+ * - Numbers are normalized to +639XXXXXXXXX from the ways people write them
+ *   (0917 123 4567, 917-123-4567, 63 917 123 4567, +63 (917) 123 4567)
+ * - A message that fits the GSM-7 alphabet is billed per 160 characters, or
+ *   153 per part once it is split; one character outside it (an emoji, curly
+ *   quotes) switches the whole message to UCS-2 at 70 characters, or 67 per part
+ * - Replying STOP opts a number out; START opts it back in
+ *
+ * Safe to import from client components.
+ */
+
+import type { SmsEncoding } from '@/lib/database.types'
+
+// Longest broadcast accepted, in billed parts
+export const SMS_MAX_SEGMENTS = 6
+
+export const SMS_OPT_OUT_HINT = 'Reply STOP to opt out.'
+
+export const SMS_OPT_OUT_KEYWORDS = ['STOP', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'] as const
+export const SMS_OPT_IN_KEYWORDS = ['START', 'SUBSCRIBE', 'UNSTOP'] as const
+
+export interface SmsSegmentation {
+  encoding: SmsEncoding
+  // Characters as billed: GSM-7 extension characters such as € count twice
+  length: number
+  parts: string[]
+  // Characters left in the last part before another one is needed
+  remaining: number
+}
+
+const GSM7_BASIC = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+)
+// Sent as an escape plus the character, so each takes two places
+const GSM7_EXTENSION = new Set('^{}\\[~]|€\f')
+
+const LIMITS: Record<SmsEncoding, { single: number; multi: number }> = {
+  gsm7: { single: 160, multi: 153 },
+  ucs2: { single: 70, multi: 67 }
+}
+
+/**
+ * Normalize a Philippine mobile number to +639XXXXXXXXX
+ * @returns The number, or null when it is not a Philippine mobile number (landlines can't receive SMS)
+ */
+export function normalizePhilippineNumber(input: string | null | undefined): string | null {
+  if (!input) {
+    return null
+  }
+
+  const compact = input.trim().replace(/[\s().-]/g, '').replace(/^00/, '+')
+  const match = /^(?:\+?63|0)?(9\d{9})$/.exec(compact)
+  return match ? `+63${match[1]}` : null
+}
+
+/**
+ * Find a mobile number inside free text, such as an emergency contact
+ * written as "Maria Santos (wife) 0917 123 4567"
+ */
+export function extractPhilippineNumber(text: string | null | undefined): string | null {
+  if (!text) {
+    return null
+  }
+
+  for (const candidate of text.match(/\+?\d[\d\s().-]{8,}\d/g) || []) {
+    const number = normalizePhilippineNumber(candidate)
+    if (number) {
+      return number
+    }
+  }
+  return null
+}
+
+/**
+ * Display form of a normalized number: +63 917 123 4567
+ */
+export function formatPhilippineNumber(phoneNumber: string): string {
+  const match = /^\+63(\d{3})(\d{3})(\d{4})$/.exec(phoneNumber)
+  return match ? `+63 ${match[1]} ${match[2]} ${match[3]}` : phoneNumber
+}
+
+/**
+ * Split a message into the parts a carrier bills
+ */
+export function segmentSms(text: string): SmsSegmentation {
+  const characters = Array.from(text)
+  const encoding: SmsEncoding = characters.every(char => GSM7_BASIC.has(char) || GSM7_EXTENSION.has(char))
+    ? 'gsm7'
+    : 'ucs2'
+
+  // GSM-7 extensions take two septets; UCS-2 characters outside the BMP take two code units
+  const cost = (char: string) => encoding === 'gsm7'
+    ? (GSM7_EXTENSION.has(char) ? 2 : 1)
+    : char.length
+  const length = characters.reduce((total, char) => total + cost(char), 0)
+  const limits = LIMITS[encoding]
+
+  if (length <= limits.single) {
+    return { encoding, length, parts: text ? [text] : [], remaining: limits.single - length }
+  }
+
+  // A character is never split across two parts
+  const parts: string[] = []
+  let current = ''
+  let used = 0
+  for (const char of characters) {
+    if (used + cost(char) > limits.multi) {
+      parts.push(current)
+      current = ''
+      used = 0
+    }
+    current += char
+    used += cost(char)
+  }
+  parts.push(current)
+
+  return { encoding, length, parts, remaining: limits.multi - used }
+}
+
+/**
+ * Shorten a message to at most maxSegments parts, ending it with "..."
+ */
+export function truncateSms(text: string, maxSegments: number): string {
+  if (segmentSms(text).parts.length <= maxSegments) {
+    return text
+  }
+
+  const characters = Array.from(text)
+  let low = 0
+  let high = characters.length
+  // Longest prefix that still fits once the ellipsis is added
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (segmentSms(characters.slice(0, middle).join('').trimEnd() + '...').parts.length <= maxSegments) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+  return characters.slice(0, low).join('').trimEnd() + '...'
+}
+
+/**
+ * Add the opt-out instructions to a broadcast
+ */
+export function withOptOutHint(message: string): string {
+  return `${message.trim()}\n${SMS_OPT_OUT_HINT}`
+}
+
+/**
+ * Read an opt-out or opt-in keyword from the first word of a reply
+ */
+export function parseSmsKeyword(text: string): 'opt_out' | 'opt_in' | null {
+  const word = text.trim().split(/\s+/)[0]?.replace(/[^a-zA-Z]/g, '').toUpperCase() || ''
+  if ((SMS_OPT_OUT_KEYWORDS as readonly string[]).includes(word)) {
+    return 'opt_out'
+  }
+  if ((SMS_OPT_IN_KEYWORDS as readonly string[]).includes(word)) {
+    return 'opt_in'
+  }
+  return null
+}
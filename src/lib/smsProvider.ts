@@ -0,0 +1,119 @@
+/**
+ * SMS Providers (server-side only)
+ *
+ * The SMS service hands every message to one provider, chosen with
+ * SMS_PROVIDER:
+ *
+ * - mock (default): logs each message and appends it to messages.log in
+ *   SMS_MOCK_DIR (default .sms) for development; nothing is sent
+ * - semaphore: the Semaphore SMS gateway (SEMAPHORE_API_KEY, and
+ *   SMS_SENDER_NAME for a registered sender name)
+ */
+
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export const SMS_PROVIDERS = ['mock', 'semaphore'] as const
+
+export type SmsProviderName = typeof SMS_PROVIDERS[number]
+
+export interface SmsProviderMessage {
+  // Normalized +639XXXXXXXXX number
+  to: string
+  body: string
+  // Billed parts, for providers and logs that report them
+  segments: number
+}
+
+export interface SmsProviderResult {
+  messageId?: string
+  error?: string
+}
+
+export interface SmsProvider {
+  name: SmsProviderName
+  /**
+   * Missing or invalid settings, empty when the provider is ready
+   */
+  validateConfig(): string[]
+  send(message: SmsProviderMessage): Promise<SmsProviderResult>
+}
+
+const SEMAPHORE_API_URL = 'https://api.semaphore.co/api/v4/messages'
+
+const mockProvider = (): SmsProvider => ({
+  name: 'mock',
+  validateConfig() {
+    return []
+  },
+  async send(message) {
+    const messageId = `mock-${randomUUID()}`
+    const directory = path.resolve(process.env.SMS_MOCK_DIR || '.sms')
+
+    await fs.mkdir(directory, { recursive: true })
+    await fs.appendFile(
+      path.join(directory, 'messages.log'),
+      JSON.stringify({ id: messageId, at: new Date().toISOString(), ...message }) + '\n'
+    )
+
+    console.log(`[SmsProvider] Mock SMS to ${message.to} (${message.segments} part${message.segments === 1 ? '' : 's'}): ${message.body}`)
+    return { messageId }
+  }
+})
+
+const semaphoreProvider = (): SmsProvider => ({
+  name: 'semaphore',
+  validateConfig() {
+    return process.env.SEMAPHORE_API_KEY ? [] : ['SEMAPHORE_API_KEY is not configured']
+  },
+  async send(message) {
+    const response = await fetch(SEMAPHORE_API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        apikey: process.env.SEMAPHORE_API_KEY || '',
+        // Semaphore takes 63XXXXXXXXXX without the plus sign
+        number: message.to.replace(/^\+/, ''),
+        message: message.body,
+        ...(process.env.SMS_SENDER_NAME && { sendername: process.env.SMS_SENDER_NAME })
+      })
+    })
+
+    // Accepted messages come back as an array; errors as an object keyed by field
+    const data = await response.json().catch(() => null)
+    if (!response.ok || !Array.isArray(data) || data.length === 0) {
+      return { error: `Semaphore rejected the message (${response.status}): ${data ? JSON.stringify(data) : response.statusText}` }
+    }
+    return { messageId: String(data[0].message_id) }
+  }
+})
+
+const PROVIDER_FACTORIES: Record<SmsProviderName, () => SmsProvider> = {
+  mock: mockProvider,
+  semaphore: semaphoreProvider
+}
+
+let activeProvider: SmsProvider | null = null
+
+/**
+ * Name of the configured provider; unknown SMS_PROVIDER values fall back to the mock
+ */
+export function configuredSmsProviderName(): SmsProviderName {
+  const name = (process.env.SMS_PROVIDER || 'mock').toLowerCase()
+  return (SMS_PROVIDERS as readonly string[]).includes(name) ? name as SmsProviderName : 'mock'
+}
+
+/**
+ * The provider selected by SMS_PROVIDER, created once per process
+ */
+export function getSmsProvider(): SmsProvider {
+  if (!activeProvider) {
+    const name = configuredSmsProviderName()
+    if (process.env.SMS_PROVIDER && process.env.SMS_PROVIDER.toLowerCase() !== name) {
+      console.warn(`[SmsProvider] Unknown SMS_PROVIDER "${process.env.SMS_PROVIDER}", using ${name}`)
+    }
+    activeProvider = PROVIDER_FACTORIES[name]()
+  }
+  return activeProvider
+}
@@ -0,0 +1,182 @@
+/**
+ * SMS Service (server-side only)
+ *
+ * Sends SMS to personnel and users through the configured provider (see
+ * smsProvider.ts) for the notification dispatcher and the Communications
+ * broadcasts. Every number is normalized first, each number gets one message
+ * however many recipients share it, and numbers that replied STOP are
+ * skipped. Every recipient number is logged to sms_messages with its outcome.
+ *
+ * SMS is off unless ENABLE_SMS_NOTIFICATIONS=true.
+ */
+
+import { db } from '@/lib/db'
+import type { SmsCategory, SmsMessage, SmsMessageInsert } from '@/lib/database.types'
+import { normalizePhilippineNumber, parseSmsKeyword, segmentSms } from '@/lib/sms'
+import { getSmsProvider, SmsProviderName, SmsProviderResult } from '@/lib/smsProvider'
+
+export interface SmsRecipient {
+  // As stored; normalized before sending
+  phone: string | null
+  name?: string | null
+  personnelId?: number | null
+  userId?: string | null
+}
+
+export interface SmsSendSummary {
+  sent: number
+  failed: number
+  optedOut: number
+  // Recipients without a Philippine mobile number
+  invalid: { name: string | null; phone: string | null }[]
+  // Recipients sharing a number with an earlier recipient
+  duplicates: number
+  // Billed parts across every sent message
+  segments: number
+  provider: SmsProviderName
+  messages: SmsMessage[]
+}
+
+export interface SmsServiceStatus {
+  enabled: boolean
+  provider: SmsProviderName
+  configuration: {
+    valid: boolean
+    errors: string[]
+  }
+}
+
+/**
+ * Whether SMS sending is switched on
+ */
+export function isSmsEnabled(): boolean {
+  return process.env.ENABLE_SMS_NOTIFICATIONS === 'true'
+}
+
+/**
+ * Whether SMS is switched on and the provider is configured
+ */
+export function getSmsStatus(): SmsServiceStatus {
+  const provider = getSmsProvider()
+  const errors = provider.validateConfig()
+  return {
+    enabled: isSmsEnabled(),
+    provider: provider.name,
+    configuration: { valid: errors.length === 0, errors }
+  }
+}
+
+/**
+ * Send one message to several recipients
+ * @param recipients - People to text; numbers are normalized and de-duplicated
+ * @param body - Message, sent as-is (add the opt-out hint before calling)
+ * @param options - category records why it was sent; createdBy the user who sent it
+ */
+export async function sendSms(
+  recipients: SmsRecipient[],
+  body: string,
+  options: { category: SmsCategory; createdBy?: string }
+): Promise<SmsSendSummary> {
+  const provider = getSmsProvider()
+  const { encoding, parts } = segmentSms(body)
+  const summary: SmsSendSummary = {
+    sent: 0,
+    failed: 0,
+    optedOut: 0,
+    invalid: [],
+    duplicates: 0,
+    segments: 0,
+    provider: provider.name,
+    messages: []
+  }
+
+  const byNumber = new Map<string, SmsRecipient>()
+  for (const recipient of recipients) {
+    const phoneNumber = normalizePhilippineNumber(recipient.phone)
+    if (!phoneNumber) {
+      summary.invalid.push({ name: recipient.name ?? null, phone: recipient.phone })
+    } else if (byNumber.has(phoneNumber)) {
+      summary.duplicates++
+    } else {
+      byNumber.set(phoneNumber, recipient)
+    }
+  }
+
+  if (byNumber.size === 0) {
+    return summary
+  }
+
+  const optedOut = new Set(await db.findOptedOutNumbers([...byNumber.keys()]))
+  const rows: SmsMessageInsert[] = []
+
+  for (const [phoneNumber, recipient] of byNumber) {
+    const row: SmsMessageInsert = {
+      phone_number: phoneNumber,
+      recipient_name: recipient.name ?? null,
+      personnel_id: recipient.personnelId ?? null,
+      user_id: recipient.userId ?? null,
+      body,
+      encoding,
+      segments: parts.length,
+      category: options.category,
+      status: 'opted_out',
+      provider: provider.name,
+      created_by: options.createdBy ?? null
+    }
+
+    if (optedOut.has(phoneNumber)) {
+      summary.optedOut++
+      rows.push(row)
+      continue
+    }
+
+    let result: SmsProviderResult
+    try {
+      result = await provider.send({ to: phoneNumber, body, segments: parts.length })
+    } catch (error) {
+      result = { error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+
+    if (result.error) {
+      console.error(`[SmsService] Failed to send SMS to ${phoneNumber}:`, result.error)
+      summary.failed++
+      rows.push({ ...row, status: 'failed', error: result.error })
+    } else {
+      summary.sent++
+      summary.segments += parts.length
+      rows.push({ ...row, status: 'sent', provider_message_id: result.messageId ?? null, sent_at: new Date().toISOString() })
+    }
+  }
+
+  summary.messages = await db.createSmsMessages(rows)
+
+  console.log(`[SmsService] ${options.category} SMS via ${provider.name}: ${summary.sent} sent, ${summary.failed} failed, ${summary.optedOut} opted out, ${summary.invalid.length} invalid`)
+  return summary
+}
+
+/**
+ * Handle a reply forwarded by the provider: STOP opts the number out, START
+ * opts it back in, anything else is ignored
+ * @param from - Sender number as the provider gives it
+ * @param text - Reply text
+ */
+export async function handleInboundSms(
+  from: string,
+  text: string
+): Promise<{ action: 'opted_out' | 'opted_in' | 'ignored'; phoneNumber: string | null }> {
+  const phoneNumber = normalizePhilippineNumber(from)
+  const keyword = parseSmsKeyword(text)
+  if (!phoneNumber || !keyword) {
+    return { action: 'ignored', phoneNumber }
+  }
+
+  if (keyword === 'opt_out') {
+    await db.saveSmsOptOut({ phone_number: phoneNumber, source: 'keyword', note: text.trim().slice(0, 160) })
+    console.log(`[SmsService] ${phoneNumber} opted out of SMS`)
+    return { action: 'opted_out', phoneNumber }
+  }
+
+  await db.deleteSmsOptOut(phoneNumber)
+  console.log(`[SmsService] ${phoneNumber} opted back in to SMS`)
+  return { action: 'opted_in', phoneNumber }
+}
@@ -0,0 +1,106 @@
+/**
+ * Spreadsheet Utilities (server-side only)
+ *
+ * Reads uploaded CSV and XLSX files into rows of trimmed string cells so the
+ * importers can treat both formats the same way, and writes XLSX exports.
+ */
+
+import ExcelJS from 'exceljs'
+import { neutralizeFormula, parseCsv } from '@/lib/csv'
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'] as const
+
+/**
+ * Render an Excel cell value as text. Dates become YYYY-MM-DD, rich text and
+ * hyperlinks are flattened and formulas use their cached result.
+ */
+function cellToText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10)
+  }
+
+  if (typeof value === 'object') {
+    if ('richText' in value) {
+      return value.richText.map(part => part.text).join('')
+    }
+    if ('text' in value) {
+      return String(value.text)
+    }
+    if ('result' in value) {
+      return cellToText(value.result as ExcelJS.CellValue)
+    }
+    if ('error' in value) {
+      return ''
+    }
+  }
+
+  return String(value)
+}
+
+/**
+ * Read the first worksheet of a CSV or XLSX file
+ * @param file - Uploaded file
+ * @returns Rows of cell text, header row first
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase()
+
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    return parseCsv(await file.text()).map(row => row.map(cell => cell.trim()))
+  }
+
+  if (name.endsWith('.xlsx')) {
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.load(await file.arrayBuffer())
+
+    const worksheet = workbook.worksheets[0]
+    if (!worksheet) {
+      return []
+    }
+
+    const rows: string[][] = []
+    worksheet.eachRow({ includeEmpty: false }, row => {
+      const cells: string[] = []
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        cells.push(cellToText(row.getCell(column).value).trim())
+      }
+      rows.push(cells)
+    })
+
+    return rows
+  }
+
+  throw new Error(`Unsupported file format. Upload one of: ${SPREADSHEET_EXTENSIONS.join(', ')}`)
+}
+
+/**
+ * Build a single-sheet XLSX workbook. String cells that would run as a
+ * formula are neutralised the same way as CSV exports.
+ * @param sheetName - Worksheet name
+ * @param header - Column headings
+ * @param rows - Data rows
+ * @returns XLSX file contents
+ */
+export async function buildXlsx(sheetName: string, header: string[], rows: unknown[][]): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook()
+  const worksheet = workbook.addWorksheet(sheetName)
+
+  worksheet.addRow(header).font = { bold: true }
+  for (const row of rows) {
+    worksheet.addRow(row.map(value =>
+      value === null || value === undefined
+        ? ''
+        : typeof value === 'string' ? neutralizeFormula(value) : value
+    ))
+  }
+
+  worksheet.columns.forEach((column, index) => {
+    column.width = Math.min(50, Math.max(12, (header[index] || '').length + 2))
+  })
+
+  return await workbook.xlsx.writeBuffer() as ArrayBuffer
+}
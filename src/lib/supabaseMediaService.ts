@@ -18,6 +18,8 @@
  */
 
 import { createClient } from '@supabase/supabase-js'
+import type { SyncConflictField, SyncConflictResolution, SyncConflictSnapshot } from './mediaSyncConflicts'
+import { quoteFilterValue } from './personnelFilter'
 
 // Types
 export interface MediaAsset {
@@ -104,6 +106,87 @@ export interface MediaSearchOptions {
   sort_order?: 'asc' | 'desc'
 }
 
+export type MediaUsageType = 'personnel_profile' | 'document' | 'content' | 'banner' | 'gallery' | 'attachment'
+
+export interface MediaUsage {
+  id: string
+  media_asset_id: string
+  usage_type: MediaUsageType
+  reference_table?: string | null
+  reference_id?: string | null
+  usage_context?: Record<string, unknown> | null
+  created_at: string
+  removed_at?: string | null
+}
+
+export interface MediaCollection {
+  id: string
+  name: string
+  description?: string | null
+  slug: string
+  parent_collection_id?: string | null
+  sort_order: number
+  is_public: boolean
+  created_by?: string
+  created_at: string
+  updated_at: string
+}
+
+// A collection with its item count and sub-collections, siblings in sort_order
+export interface MediaCollectionNode extends MediaCollection {
+  item_count: number
+  children: MediaCollectionNode[]
+}
+
+export interface MediaCollectionItem {
+  id: string
+  collection_id: string
+  media_asset_id: string
+  sort_order: number
+  added_at: string
+  added_by?: string
+  asset: MediaAsset
+}
+
+export interface MediaSyncConflict {
+  id: string
+  media_asset_id: string
+  cloudinary_public_id: string
+  fields: SyncConflictField[]
+  cloudinary_data: SyncConflictSnapshot
+  database_data: SyncConflictSnapshot
+  status: 'open' | 'resolved'
+  resolution?: SyncConflictResolution | null
+  detected_at: string
+  resolved_at?: string | null
+  resolved_by?: string | null
+  // Joined when listing conflicts
+  asset?: Pick<MediaAsset, 'original_filename' | 'display_name' | 'resource_type'> | null
+}
+
+// Progress of the Cloudinary delta sync
+export interface MediaSyncCheckpoint {
+  name: string
+  high_water_mark: string | null
+  next_cursor: string | null
+  run_high_water_mark: string | null
+  run_failed_at: string | null
+  last_delta_sync_at: string | null
+  last_full_sync_at: string | null
+  updated_at: string
+}
+
+/**
+ * Turn a collection name into a URL slug: "Fish Festival 2025" → fish-festival-2025
+ */
+const slugify = (name: string) => name
+  .toLowerCase()
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '')
+  .slice(0, 80) || 'collection'
+
 /**
  * Supabase Media Service Class
  */
@@ -174,6 +257,32 @@ export class SupabaseMediaService {
     }
   }
 
+  /**
+   * Update fields of a media asset by Cloudinary public ID
+   */
+  static async updateMediaAsset(publicId: string, updates: Partial<MediaAsset>): Promise<MediaAsset> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_assets')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('cloudinary_public_id', publicId)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update media asset: ${error.message}`)
+      }
+
+      return data as MediaAsset
+    } catch (error) {
+      console.error('[SupabaseMediaService] Update asset failed:', error)
+      throw error
+    }
+  }
+
   /**
    * Search media assets with advanced filtering
    */
@@ -356,6 +465,108 @@ export class SupabaseMediaService {
     }
   }
 
+  /**
+   * Restore a soft-deleted media asset from the trash
+   */
+  static async restoreMediaAsset(publicId: string, restoredBy?: string): Promise<boolean> {
+    try {
+      console.log('[SupabaseMediaService] Restoring media asset:', publicId)
+
+      const { data, error } = await this.supabase
+        .rpc('restore_media_asset', {
+          asset_id: publicId,
+          restored_by_user: restoredBy
+        })
+
+      if (error) {
+        throw new Error(`Failed to restore media asset: ${error.message}`)
+      }
+
+      return data as boolean
+    } catch (error) {
+      console.error('[SupabaseMediaService] Restore failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a soft-deleted media asset by Cloudinary public ID
+   */
+  static async getTrashedMediaAsset(publicId: string): Promise<MediaAsset | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_assets')
+        .select('*')
+        .eq('cloudinary_public_id', publicId)
+        .not('deleted_at', 'is', null)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to get trashed media asset: ${error.message}`)
+      }
+
+      return data as MediaAsset | null
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get trashed asset failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * List soft-deleted media assets, most recently deleted first
+   */
+  static async getTrashedMediaAssets(options: { page?: number; limit?: number } = {}): Promise<{
+    assets: MediaAsset[]
+    total: number
+    page: number
+    limit: number
+  }> {
+    try {
+      const { page = 1, limit = 50 } = options
+      const offset = (page - 1) * limit
+
+      const { data, error, count } = await this.supabase
+        .from('media_assets')
+        .select('*', { count: 'exact' })
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (error) {
+        throw new Error(`Failed to get trashed media assets: ${error.message}`)
+      }
+
+      return { assets: (data || []) as MediaAsset[], total: count || 0, page, limit }
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get trash failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get soft-deleted media assets deleted at or before a cutoff, oldest first
+   */
+  static async getExpiredTrashedAssets(cutoff: string, limit: number = 100): Promise<MediaAsset[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_assets')
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .lte('deleted_at', cutoff)
+        .order('deleted_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        throw new Error(`Failed to get expired trash: ${error.message}`)
+      }
+
+      return (data || []) as MediaAsset[]
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get expired trash failed:', error)
+      throw error
+    }
+  }
+
   /**
    * Hard delete media asset (permanently remove from database)
    */
@@ -448,6 +659,78 @@ export class SupabaseMediaService {
     }
   }
 
+  /**
+   * Update an existing sync log entry (e.g. to complete a pending webhook event)
+   */
+  static async updateSyncLog(logId: string, updates: Partial<MediaSyncLog>): Promise<MediaSyncLog> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_sync_log')
+        .update(updates)
+        .eq('id', logId)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update sync log: ${error.message}`)
+      }
+
+      return data as MediaSyncLog
+    } catch (error) {
+      console.error('[SupabaseMediaService] Update sync log failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find sync log entries recorded for a webhook event
+   */
+  static async getWebhookSyncLogs(eventId: string): Promise<MediaSyncLog[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_sync_log')
+        .select('*')
+        .eq('source', 'webhook')
+        .eq('webhook_data->>event_id', eventId)
+
+      if (error) {
+        throw new Error(`Failed to get webhook sync logs: ${error.message}`)
+      }
+
+      return (data || []) as MediaSyncLog[]
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get webhook sync logs failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Rename media asset (Cloudinary public ID changed)
+   */
+  static async renameMediaAsset(fromPublicId: string, toPublicId: string): Promise<MediaAsset | null> {
+    try {
+      console.log('[SupabaseMediaService] Renaming media asset:', fromPublicId, '→', toPublicId)
+
+      const { data, error } = await this.supabase
+        .from('media_assets')
+        .update({
+          cloudinary_public_id: toPublicId,
+          updated_at: new Date().toISOString()
+        })
+        .eq('cloudinary_public_id', fromPublicId)
+        .select()
+
+      if (error) {
+        throw new Error(`Failed to rename media asset: ${error.message}`)
+      }
+
+      return (data && data.length > 0 ? data[0] : null) as MediaAsset | null
+    } catch (error) {
+      console.error('[SupabaseMediaService] Rename failed:', error)
+      throw error
+    }
+  }
+
   /**
    * Queue Cloudinary cleanup operation
    */
@@ -553,4 +836,797 @@ export class SupabaseMediaService {
       throw error
     }
   }
+
+  // ==================== USAGE ====================
+
+  /**
+   * Find a library asset from a Cloudinary public ID or delivery URL
+   */
+  static async findMediaAssetByReference(reference: { publicId?: string | null; url?: string | null }): Promise<MediaAsset | null> {
+    try {
+      if (reference.url) {
+        const { data, error } = await this.supabase
+          .from('media_assets')
+          .select('*')
+          .or(`secure_url.eq.${quoteFilterValue(reference.url)},url.eq.${quoteFilterValue(reference.url)}`)
+          .is('deleted_at', null)
+          .limit(1)
+
+        if (error) {
+          throw new Error(`Failed to find media asset by URL: ${error.message}`)
+        }
+        if (data && data.length > 0) {
+          return data[0] as MediaAsset
+        }
+      }
+
+      return reference.publicId ? await this.getMediaAssetByPublicId(reference.publicId) : null
+    } catch (error) {
+      console.error('[SupabaseMediaService] Find asset by reference failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the active (not removed) usages of some assets
+   */
+  static async getActiveMediaUsage(assetIds: string[]): Promise<MediaUsage[]> {
+    try {
+      if (assetIds.length === 0) {
+        return []
+      }
+
+      const { data, error } = await this.supabase
+        .from('media_usage')
+        .select('*')
+        .in('media_asset_id', assetIds)
+        .is('removed_at', null)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to get media usage: ${error.message}`)
+      }
+
+      return (data || []) as MediaUsage[]
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get media usage failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the active usages recorded for one referencing record
+   */
+  static async getActiveUsageByReference(referenceTable: string, referenceId: string): Promise<MediaUsage[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_usage')
+        .select('*')
+        .eq('reference_table', referenceTable)
+        .eq('reference_id', referenceId)
+        .is('removed_at', null)
+
+      if (error) {
+        throw new Error(`Failed to get media usage: ${error.message}`)
+      }
+
+      return (data || []) as MediaUsage[]
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get usage by reference failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Record that a record uses an asset
+   */
+  static async recordMediaUsage(usage: Omit<MediaUsage, 'id' | 'created_at' | 'removed_at'>): Promise<MediaUsage> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_usage')
+        .insert(usage)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to record media usage: ${error.message}`)
+      }
+
+      return data as MediaUsage
+    } catch (error) {
+      console.error('[SupabaseMediaService] Record media usage failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Refresh the context (names shown in the "used in" panel) of a usage
+   */
+  static async updateMediaUsageContext(id: string, usageContext: Record<string, unknown>): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('media_usage')
+        .update({ usage_context: usageContext })
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(`Failed to update media usage: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('[SupabaseMediaService] Update media usage failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark usages as removed; the rows stay as history
+   */
+  static async releaseMediaUsage(usageIds: string[]): Promise<void> {
+    try {
+      if (usageIds.length === 0) {
+        return
+      }
+
+      const { error } = await this.supabase
+        .from('media_usage')
+        .update({ removed_at: new Date().toISOString() })
+        .in('id', usageIds)
+
+      if (error) {
+        throw new Error(`Failed to release media usage: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('[SupabaseMediaService] Release media usage failed:', error)
+      throw error
+    }
+  }
+
+  // ==================== COLLECTIONS ====================
+
+  /**
+   * Get every collection as a tree, each with the number of assets in it
+   */
+  static async getCollectionTree(): Promise<MediaCollectionNode[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_collections')
+        .select('*, media_collection_items(count)')
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to get media collections: ${error.message}`)
+      }
+
+      const nodes = new Map<string, MediaCollectionNode>()
+      for (const row of data || []) {
+        const { media_collection_items: counts, ...collection } = row
+        nodes.set(collection.id, {
+          ...(collection as MediaCollection),
+          item_count: counts?.[0]?.count || 0,
+          children: []
+        })
+      }
+
+      // Rows are already in sibling order, so appending keeps it
+      const roots: MediaCollectionNode[] = []
+      for (const node of nodes.values()) {
+        const parent = node.parent_collection_id ? nodes.get(node.parent_collection_id) : undefined
+        if (parent) {
+          parent.children.push(node)
+        } else {
+          roots.push(node)
+        }
+      }
+
+      return roots
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get collection tree failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a collection by ID
+   */
+  static async getCollection(id: string): Promise<MediaCollection | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_collections')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to get media collection: ${error.message}`)
+      }
+
+      return data as MediaCollection | null
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get collection failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a collection at the end of its siblings, with a slug made unique
+   * by numbering ("coastal-cleanup-2")
+   */
+  static async createCollection(collection: {
+    name: string
+    description?: string | null
+    parent_collection_id?: string | null
+    is_public?: boolean
+    created_by?: string
+  }): Promise<MediaCollection> {
+    try {
+      console.log('[SupabaseMediaService] Creating media collection:', collection.name)
+
+      const slug = await this.uniqueCollectionSlug(collection.name)
+      const sortOrder = await this.nextCollectionSortOrder(collection.parent_collection_id || null)
+
+      const { data, error } = await this.supabase
+        .from('media_collections')
+        .insert({
+          ...collection,
+          parent_collection_id: collection.parent_collection_id || null,
+          slug,
+          sort_order: sortOrder
+        })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create media collection: ${error.message}`)
+      }
+
+      return data as MediaCollection
+    } catch (error) {
+      console.error('[SupabaseMediaService] Create collection failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update a collection; moving it to another parent puts it at the end of its new siblings
+   */
+  static async updateCollection(
+    id: string,
+    updates: Partial<Pick<MediaCollection, 'name' | 'description' | 'parent_collection_id' | 'is_public'>>
+  ): Promise<MediaCollection | null> {
+    try {
+      const current = await this.getCollection(id)
+      if (!current) {
+        return null
+      }
+
+      const changes: Record<string, unknown> = { ...updates }
+      if (updates.parent_collection_id !== undefined && (updates.parent_collection_id || null) !== (current.parent_collection_id || null)) {
+        changes.parent_collection_id = updates.parent_collection_id || null
+        changes.sort_order = await this.nextCollectionSortOrder(updates.parent_collection_id || null)
+      }
+
+      const { data, error } = await this.supabase
+        .from('media_collections')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update media collection: ${error.message}`)
+      }
+
+      return data as MediaCollection
+    } catch (error) {
+      console.error('[SupabaseMediaService] Update collection failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Whether candidateId is the collection itself or one nested anywhere below it,
+   * which would make it an invalid new parent
+   */
+  static async isCollectionOrDescendant(id: string, candidateId: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_collections')
+        .select('id, parent_collection_id')
+
+      if (error) {
+        throw new Error(`Failed to get media collections: ${error.message}`)
+      }
+
+      const parents = new Map((data || []).map(row => [row.id as string, row.parent_collection_id as string | null]))
+      const visited = new Set<string>()
+      let current: string | null = candidateId
+      // Walk up from the candidate; reaching the collection means it sits inside it
+      while (current && !visited.has(current)) {
+        if (current === id) {
+          return true
+        }
+        visited.add(current)
+        current = parents.get(current) ?? null
+      }
+      return false
+    } catch (error) {
+      console.error('[SupabaseMediaService] Collection ancestry check failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a collection; its sub-collections move up to its parent and its
+   * items are removed (the assets themselves stay in the library)
+   */
+  static async deleteCollection(id: string): Promise<boolean> {
+    try {
+      console.log('[SupabaseMediaService] Deleting media collection:', id)
+
+      const collection = await this.getCollection(id)
+      if (!collection) {
+        return false
+      }
+
+      const { data: children, error: childrenError } = await this.supabase
+        .from('media_collections')
+        .select('id')
+        .eq('parent_collection_id', id)
+        .order('sort_order', { ascending: true })
+
+      if (childrenError) {
+        throw new Error(`Failed to get sub-collections: ${childrenError.message}`)
+      }
+
+      let sortOrder = await this.nextCollectionSortOrder(collection.parent_collection_id || null)
+      for (const child of children || []) {
+        const { error: moveError } = await this.supabase
+          .from('media_collections')
+          .update({ parent_collection_id: collection.parent_collection_id || null, sort_order: sortOrder++ })
+          .eq('id', child.id)
+
+        if (moveError) {
+          throw new Error(`Failed to move sub-collection: ${moveError.message}`)
+        }
+      }
+
+      const { error } = await this.supabase
+        .from('media_collections')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(`Failed to delete media collection: ${error.message}`)
+      }
+
+      return true
+    } catch (error) {
+      console.error('[SupabaseMediaService] Delete collection failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Put sibling collections in the given order; IDs that are not children of
+   * parentId are ignored
+   */
+  static async reorderCollections(parentId: string | null, orderedIds: string[]): Promise<void> {
+    try {
+      for (const [index, id] of orderedIds.entries()) {
+        let query = this.supabase
+          .from('media_collections')
+          .update({ sort_order: index })
+          .eq('id', id)
+        query = parentId ? query.eq('parent_collection_id', parentId) : query.is('parent_collection_id', null)
+
+        const { error } = await query
+        if (error) {
+          throw new Error(`Failed to reorder media collections: ${error.message}`)
+        }
+      }
+    } catch (error) {
+      console.error('[SupabaseMediaService] Reorder collections failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the assets in a collection in their saved order, leaving out soft-deleted assets
+   */
+  static async getCollectionItems(collectionId: string): Promise<MediaCollectionItem[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_collection_items')
+        .select('*, media_assets(*)')
+        .eq('collection_id', collectionId)
+        .order('sort_order', { ascending: true })
+        .order('added_at', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to get collection items: ${error.message}`)
+      }
+
+      return (data || [])
+        .filter(row => row.media_assets && !row.media_assets.deleted_at)
+        .map(({ media_assets: asset, ...item }) => ({ ...item, asset } as MediaCollectionItem))
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get collection items failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Add assets to the end of a collection, skipping any already in it
+   * @returns The number of assets added
+   */
+  static async addCollectionItems(collectionId: string, assetIds: string[], addedBy?: string): Promise<number> {
+    try {
+      const { data: existing, error: existingError } = await this.supabase
+        .from('media_collection_items')
+        .select('media_asset_id, sort_order')
+        .eq('collection_id', collectionId)
+
+      if (existingError) {
+        throw new Error(`Failed to get collection items: ${existingError.message}`)
+      }
+
+      const present = new Set((existing || []).map(item => item.media_asset_id as string))
+      const newIds = [...new Set(assetIds)].filter(id => !present.has(id))
+      if (newIds.length === 0) {
+        return 0
+      }
+
+      const start = (existing || []).reduce((max, item) => Math.max(max, (item.sort_order as number) + 1), 0)
+      const { error } = await this.supabase
+        .from('media_collection_items')
+        .insert(newIds.map((assetId, index) => ({
+          collection_id: collectionId,
+          media_asset_id: assetId,
+          sort_order: start + index,
+          added_by: addedBy || null
+        })))
+
+      if (error) {
+        throw new Error(`Failed to add collection items: ${error.message}`)
+      }
+
+      return newIds.length
+    } catch (error) {
+      console.error('[SupabaseMediaService] Add collection items failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Remove assets from a collection
+   * @returns The number of assets removed
+   */
+  static async removeCollectionItems(collectionId: string, assetIds: string[]): Promise<number> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_collection_items')
+        .delete()
+        .eq('collection_id', collectionId)
+        .in('media_asset_id', assetIds)
+        .select('id')
+
+      if (error) {
+        throw new Error(`Failed to remove collection items: ${error.message}`)
+      }
+
+      return data?.length || 0
+    } catch (error) {
+      console.error('[SupabaseMediaService] Remove collection items failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Save the order of a collection's assets; assets left out of orderedAssetIds
+   * keep their relative order after the listed ones
+   */
+  static async reorderCollectionItems(collectionId: string, orderedAssetIds: string[]): Promise<void> {
+    try {
+      const { data: existing, error: existingError } = await this.supabase
+        .from('media_collection_items')
+        .select('media_asset_id')
+        .eq('collection_id', collectionId)
+        .order('sort_order', { ascending: true })
+        .order('added_at', { ascending: true })
+
+      if (existingError) {
+        throw new Error(`Failed to get collection items: ${existingError.message}`)
+      }
+
+      const present = (existing || []).map(item => item.media_asset_id as string)
+      const listed = [...new Set(orderedAssetIds)].filter(id => present.includes(id))
+      const order = [...listed, ...present.filter(id => !listed.includes(id))]
+
+      const { error } = await this.supabase
+        .from('media_collection_items')
+        .upsert(order.map((assetId, index) => ({
+          collection_id: collectionId,
+          media_asset_id: assetId,
+          sort_order: index
+        })), {
+          onConflict: 'collection_id,media_asset_id'
+        })
+
+      if (error) {
+        throw new Error(`Failed to reorder collection items: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('[SupabaseMediaService] Reorder collection items failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Sort order that places a collection after its current siblings
+   */
+  private static async nextCollectionSortOrder(parentId: string | null): Promise<number> {
+    let query = this.supabase
+      .from('media_collections')
+      .select('sort_order')
+      .order('sort_order', { ascending: false })
+      .limit(1)
+    query = parentId ? query.eq('parent_collection_id', parentId) : query.is('parent_collection_id', null)
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to get collection order: ${error.message}`)
+    }
+    return data && data.length > 0 ? (data[0].sort_order as number) + 1 : 0
+  }
+
+  /**
+   * Slug for a new collection, numbered when the name is already taken
+   */
+  private static async uniqueCollectionSlug(name: string): Promise<string> {
+    const base = slugify(name)
+    const { data, error } = await this.supabase
+      .from('media_collections')
+      .select('slug')
+      .like('slug', `${base}%`)
+
+    if (error) {
+      throw new Error(`Failed to check collection slugs: ${error.message}`)
+    }
+
+    const taken = new Set((data || []).map(row => row.slug as string))
+    let slug = base
+    for (let suffix = 2; taken.has(slug); suffix++) {
+      slug = `${base}-${suffix}`
+    }
+    return slug
+  }
+
+  // ==================== SYNC CHECKPOINTS ====================
+
+  /**
+   * Get a sync checkpoint by name
+   */
+  static async getSyncCheckpoint(name: string): Promise<MediaSyncCheckpoint | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_sync_checkpoints')
+        .select('*')
+        .eq('name', name)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to get sync checkpoint: ${error.message}`)
+      }
+
+      return data as MediaSyncCheckpoint | null
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get sync checkpoint failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create or update a sync checkpoint
+   */
+  static async saveSyncCheckpoint(
+    name: string,
+    updates: Partial<Omit<MediaSyncCheckpoint, 'name' | 'updated_at'>>
+  ): Promise<MediaSyncCheckpoint> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_sync_checkpoints')
+        .upsert({
+          name,
+          ...updates,
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'name'
+        })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to save sync checkpoint: ${error.message}`)
+      }
+
+      return data as MediaSyncCheckpoint
+    } catch (error) {
+      console.error('[SupabaseMediaService] Save sync checkpoint failed:', error)
+      throw error
+    }
+  }
+
+  // ==================== SYNC CONFLICTS ====================
+
+  /**
+   * Get a sync conflict by ID
+   */
+  static async getSyncConflict(id: string): Promise<MediaSyncConflict | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_sync_conflicts')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to get sync conflict: ${error.message}`)
+      }
+
+      return data as MediaSyncConflict | null
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get sync conflict failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * List sync conflicts, most recently detected first
+   */
+  static async getSyncConflicts(options: {
+    status?: 'open' | 'resolved'
+    page?: number
+    limit?: number
+  } = {}): Promise<{
+    conflicts: MediaSyncConflict[]
+    total: number
+    page: number
+    limit: number
+  }> {
+    try {
+      const { status, page = 1, limit = 50 } = options
+      const offset = (page - 1) * limit
+
+      let query = this.supabase
+        .from('media_sync_conflicts')
+        .select('*, asset:media_assets(original_filename, display_name, resource_type)', { count: 'exact' })
+        .order(status === 'resolved' ? 'resolved_at' : 'detected_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+      if (status) {
+        query = query.eq('status', status)
+      }
+
+      const { data, error, count } = await query
+
+      if (error) {
+        throw new Error(`Failed to get sync conflicts: ${error.message}`)
+      }
+
+      return { conflicts: (data || []) as MediaSyncConflict[], total: count || 0, page, limit }
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get sync conflicts failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the open conflict and the most recently resolved one for an asset
+   */
+  static async getAssetSyncConflicts(mediaAssetId: string): Promise<{
+    open: MediaSyncConflict | null
+    lastResolved: MediaSyncConflict | null
+  }> {
+    try {
+      const [openResult, resolvedResult] = await Promise.all([
+        this.supabase
+          .from('media_sync_conflicts')
+          .select('*')
+          .eq('media_asset_id', mediaAssetId)
+          .eq('status', 'open')
+          .maybeSingle(),
+        this.supabase
+          .from('media_sync_conflicts')
+          .select('*')
+          .eq('media_asset_id', mediaAssetId)
+          .eq('status', 'resolved')
+          .order('resolved_at', { ascending: false })
+          .limit(1)
+      ])
+
+      if (openResult.error || resolvedResult.error) {
+        throw new Error(`Failed to get asset sync conflicts: ${(openResult.error || resolvedResult.error)!.message}`)
+      }
+
+      return {
+        open: openResult.data as MediaSyncConflict | null,
+        lastResolved: ((resolvedResult.data || [])[0] as MediaSyncConflict | undefined) || null
+      }
+    } catch (error) {
+      console.error('[SupabaseMediaService] Get asset sync conflicts failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Record a new open conflict, or refresh the snapshots of an existing one
+   * @param existingId - The asset's open conflict, if it has one
+   */
+  static async saveSyncConflict(
+    conflict: Pick<MediaSyncConflict, 'media_asset_id' | 'cloudinary_public_id' | 'fields' | 'cloudinary_data' | 'database_data'>,
+    existingId?: string
+  ): Promise<MediaSyncConflict> {
+    try {
+      const { data, error } = existingId
+        ? await this.supabase
+          .from('media_sync_conflicts')
+          .update({
+            fields: conflict.fields,
+            cloudinary_data: conflict.cloudinary_data,
+            database_data: conflict.database_data
+          })
+          .eq('id', existingId)
+          .select()
+          .single()
+        : await this.supabase
+          .from('media_sync_conflicts')
+          .insert(conflict)
+          .select()
+          .single()
+
+      if (error) {
+        throw new Error(`Failed to save sync conflict: ${error.message}`)
+      }
+
+      return data as MediaSyncConflict
+    } catch (error) {
+      console.error('[SupabaseMediaService] Save sync conflict failed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark a conflict resolved with the side that won each field
+   * @param cloudinaryData - The Cloudinary side as it was when resolved
+   */
+  static async markSyncConflictResolved(
+    id: string,
+    resolution: SyncConflictResolution,
+    resolvedBy?: string,
+    cloudinaryData?: SyncConflictSnapshot
+  ): Promise<MediaSyncConflict> {
+    try {
+      const { data, error } = await this.supabase
+        .from('media_sync_conflicts')
+        .update({
+          status: 'resolved',
+          resolution,
+          resolved_at: new Date().toISOString(),
+          resolved_by: resolvedBy || null,
+          ...(cloudinaryData ? { cloudinary_data: cloudinaryData } : {})
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to resolve sync conflict: ${error.message}`)
+      }
+
+      return data as MediaSyncConflict
+    } catch (error) {
+      console.error('[SupabaseMediaService] Resolve sync conflict failed:', error)
+      throw error
+    }
+  }
 }
@@ -1,5 +1,6 @@
 import { supabaseAdmin } from './supabase'
-import { User, Personnel, PersonnelDocument, UserInsert, PersonnelInsert, PersonnelDocumentInsert } from './database.types'
+import { toPostgrestFilter, quoteFilterValue, escapeLikePattern, PersonnelFilterGroup } from './personnelFilter'
+import { User, Personnel, PersonnelDocument, UserInsert, PersonnelInsert, PersonnelDocumentInsert, PersonnelDocumentUpdate, Department, DepartmentInsert, DepartmentWithStats, AuditLog, AuditLogInsert, AuditEntityType, UserSort, CalendarEvent, CalendarEventInsert, CalendarEventUpdate, EventAttendee, EventAttendeeInsert, CalendarFeedToken, SearchEntityType, SearchResultRow, SavedFilter, SavedFilterInsert, SavedFilterUpdate, SavedFilterListType, Notification, NotificationInsert, NotificationType, NotificationPreferences, NotificationPreferencesInsert, DigestRun, DigestRunInsert, DigestRunUpdate, ExpiringDocument, SyncOperation, EmailOutbox, EmailOutboxInsert, EmailOutboxUpdate, EmailOutboxStatus, EmailTemplate, EmailTemplateInsert, EditableEmailTemplateKey, EmailLanguage, SmsMessage, SmsMessageInsert, SmsStatus, SmsOptOut, SmsOptOutInsert } from './database.types'
 
 /**
  * Enterprise-grade Supabase Service Layer
@@ -44,6 +45,34 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Find the roles and statuses of several users at once
+   * @param emails - Email addresses to look up
+   * @returns Matching users' email, name, phone, role and status
+   */
+  static async findUserRolesByEmails(emails: string[]): Promise<Pick<User, 'email' | 'name' | 'phone' | 'role' | 'status'>[]> {
+    try {
+      if (emails.length === 0) {
+        return []
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('users')
+        .select('email, name, phone, role, status')
+        .in('email', emails)
+
+      if (error) {
+        console.error('[SupabaseService] Error finding user roles:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in findUserRolesByEmails:', error)
+      throw error
+    }
+  }
+
   /**
    * Find user by ID
    * @param id - User's ID
@@ -168,22 +197,36 @@ export class SupabaseService {
   }
 
   /**
-   * Get all users with optional filtering and pagination
+   * Get users with pagination, filtering and sorting
    * @param options - Query options
-   * @returns Array of users
+   * @returns Paginated users with an exact total count
    */
   static async getAllUsers(options?: {
     page?: number
     limit?: number
     search?: string
     status?: string
-  }): Promise<User[]> {
+    role?: string
+    sort?: UserSort
+  }): Promise<{
+    data: User[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      pages: number
+    }
+  }> {
     try {
+      const page = options?.page || 1
+      const limit = options?.limit || 10
+
       console.log('[SupabaseService] Getting all users with options:', options)
 
+      // One request returns the page and the exact count of matching rows
       let query = supabaseAdmin
         .from('users')
-        .select('*')
+        .select('*', { count: 'exact' })
 
       // Apply search filter
       if (options?.search) {
@@ -195,25 +238,58 @@ export class SupabaseService {
         query = query.eq('status', options.status as 'ACTIVE' | 'INACTIVE' | 'SUSPENDED')
       }
 
-      // Apply pagination
-      if (options?.page && options?.limit) {
-        const from = (options.page - 1) * options.limit
-        const to = from + options.limit - 1
-        query = query.range(from, to)
+      // Apply role filter
+      if (options?.role) {
+        query = query.eq('role', options.role)
+      }
+
+      // Apply sorting; id breaks ties so pages never overlap
+      switch (options?.sort || 'name_asc') {
+        case 'name_desc':
+          query = query.order('name', { ascending: false })
+          break
+        case 'email_asc':
+          query = query.order('email', { ascending: true })
+          break
+        case 'email_desc':
+          query = query.order('email', { ascending: false })
+          break
+        case 'created_desc':
+          query = query.order('created_at', { ascending: false })
+          break
+        case 'created_asc':
+          query = query.order('created_at', { ascending: true })
+          break
+        case 'name_asc':
+        default:
+          query = query.order('name', { ascending: true })
+          break
       }
+      query = query.order('id', { ascending: true })
 
-      // Order by name alphabetically (A-Z)
-      query = query.order('name', { ascending: true })
+      // Apply pagination
+      const from = (page - 1) * limit
+      const to = from + limit - 1
 
-      const { data, error } = await query
+      const { data, count, error } = await query.range(from, to)
 
       if (error) {
         console.error('[SupabaseService] Error getting all users:', error)
         throw new Error(`Database error: ${error.message}`)
       }
 
-      console.log(`[SupabaseService] Retrieved ${data?.length || 0} users`)
-      return data || []
+      const result = {
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          pages: Math.ceil((count || 0) / limit)
+        }
+      }
+
+      console.log(`[SupabaseService] Retrieved ${result.data.length} of ${result.pagination.total} users`)
+      return result
     } catch (error) {
       console.error('[SupabaseService] Error in getAllUsers:', error)
       throw error
@@ -319,6 +395,39 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Create many personnel records in a single INSERT statement.
+   * Postgres runs the statement atomically, so either every row is saved or none are.
+   * @param personnelData - Personnel rows to insert
+   * @returns Created personnel objects
+   */
+  static async createPersonnelBatch(personnelData: Omit<PersonnelInsert, 'id' | 'created_at' | 'updated_at'>[]): Promise<Personnel[]> {
+    try {
+      console.log(`[SupabaseService] Creating ${personnelData.length} personnel records`)
+
+      const now = new Date().toISOString()
+      const { data, error } = await supabaseAdmin
+        .from('personnel')
+        .insert(personnelData.map(personnel => ({
+          ...personnel,
+          created_at: now,
+          updated_at: now
+        })))
+        .select()
+
+      if (error) {
+        console.error('[SupabaseService] Error creating personnel batch:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Personnel batch created successfully: ${data?.length || 0} records`)
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in createPersonnelBatch:', error)
+      throw error
+    }
+  }
+
   /**
    * Update personnel data
    * @param id - Personnel ID to update
@@ -391,6 +500,7 @@ export class SupabaseService {
     department?: string
     status?: string
     sort?: 'id_asc' | 'id_desc' | 'name_asc' | 'name_desc'
+    filter?: PersonnelFilterGroup
   }): Promise<{
     data: Personnel[]
     pagination: {
@@ -433,6 +543,12 @@ export class SupabaseService {
         dataQuery = dataQuery.eq('status', options.status as 'Active' | 'Inactive' | 'On Leave' | 'Suspended')
       }
 
+      if (options?.filter) {
+        const expression = toPostgrestFilter(options.filter)
+        countQuery = countQuery.or(expression)
+        dataQuery = dataQuery.or(expression)
+      }
+
       // Get total count
       const { count, error: countError } = await countQuery
 
@@ -457,11 +573,12 @@ export class SupabaseService {
           sortedQuery = sortedQuery.order('id', { ascending: false })
           break
         case 'name_desc':
-          sortedQuery = sortedQuery.order('name', { ascending: false })
+          sortedQuery = sortedQuery.order('name', { ascending: false }).order('id', { ascending: true })
           break
         case 'name_asc':
         default:
-          sortedQuery = sortedQuery.order('name', { ascending: true })
+          // id breaks ties so consecutive pages never overlap (the export walks every page)
+          sortedQuery = sortedQuery.order('name', { ascending: true }).order('id', { ascending: true })
           break
       }
 
@@ -490,6 +607,58 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Find personnel by a list of IDs
+   * @param ids - Personnel IDs
+   * @returns Matching personnel (missing IDs are skipped)
+   */
+  static async findPersonnelByIds(ids: number[]): Promise<Personnel[]> {
+    if (ids.length === 0) {
+      return []
+    }
+
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('personnel')
+        .select('*')
+        .in('id', ids)
+
+      if (error) {
+        console.error('[SupabaseService] Error finding personnel by IDs:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in findPersonnelByIds:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get every personnel record that has a profile photo
+   * @returns ID, name and photo URL of each
+   */
+  static async getPersonnelWithProfilePhotos(): Promise<Pick<Personnel, 'id' | 'name' | 'profile_photo'>[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('personnel')
+        .select('id, name, profile_photo')
+        .not('profile_photo', 'is', null)
+        .neq('profile_photo', '')
+
+      if (error) {
+        console.error('[SupabaseService] Error getting personnel profile photos:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getPersonnelWithProfilePhotos:', error)
+      throw error
+    }
+  }
+
   // =====================================================
   // PERSONNEL DOCUMENTS OPERATIONS
   // =====================================================
@@ -522,6 +691,29 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Get every personnel document
+   * @returns All documents, oldest first
+   */
+  static async getAllPersonnelDocuments(): Promise<PersonnelDocument[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('personnel_documents')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error getting all personnel documents:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getAllPersonnelDocuments:', error)
+      throw error
+    }
+  }
+
   /**
    * Create a new personnel document
    * @param documentData - Document data to insert
@@ -554,6 +746,2235 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Find a personnel document by ID
+   * @param id - Document ID
+   * @returns Document object or null if not found
+   */
+  static async findPersonnelDocumentById(id: number): Promise<PersonnelDocument | null> {
+    try {
+      console.log(`[SupabaseService] Finding document by ID: ${id}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('personnel_documents')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          console.warn('[SupabaseService] No document found with ID:', id)
+          return null
+        }
+        console.error('[SupabaseService] Error finding document by ID:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findPersonnelDocumentById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update personnel document by ID
+   * @param id - Document ID to update
+   * @param documentData - Document data to update
+   * @returns Updated document object or null if not found
+   */
+  static async updatePersonnelDocument(id: number, documentData: PersonnelDocumentUpdate): Promise<PersonnelDocument | null> {
+    try {
+      console.log(`[SupabaseService] Updating document ID: ${id}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('personnel_documents')
+        .update({
+          ...documentData,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error updating personnel document:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Document updated successfully: ${data?.filename || 'Unknown'}`)
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in updatePersonnelDocument:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete personnel document by ID
+   * @param id - Document ID to delete
+   * @returns True if deleted successfully
+   */
+  static async deletePersonnelDocument(id: number): Promise<boolean> {
+    try {
+      console.log(`[SupabaseService] Deleting document ID: ${id}`)
+
+      const { error } = await supabaseAdmin
+        .from('personnel_documents')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('[SupabaseService] Error deleting personnel document:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Document deleted successfully: ${id}`)
+      return true
+    } catch (error) {
+      console.error('[SupabaseService] Error in deletePersonnelDocument:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // DEPARTMENT OPERATIONS
+  // =====================================================
+
+  /**
+   * Count personnel assigned to a department
+   * @param name - Department name (personnel.department references departments.name)
+   * @returns Number of personnel records in the department
+   */
+  static async countPersonnelInDepartment(name: string): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from('personnel')
+      .select('*', { count: 'exact', head: true })
+      .eq('department', name)
+
+    if (error) {
+      console.error('[SupabaseService] Error counting department personnel:', error)
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  /**
+   * Get all departments with live personnel counts
+   * @param options - Query options
+   * @returns Array of departments with personnel_count
+   */
+  static async getAllDepartments(options?: {
+    search?: string
+    status?: string
+  }): Promise<DepartmentWithStats[]> {
+    try {
+      console.log('[SupabaseService] Getting all departments with options:', options)
+
+      // Counts come from the personnel.department foreign key in the same query
+      let query = supabaseAdmin
+        .from('departments')
+        .select('*, personnel(count)')
+
+      if (options?.search) {
+        const pattern = quoteFilterValue(`*${escapeLikePattern(options.search)}*`)
+        query = query.or(`name.ilike.${pattern},head_name.ilike.${pattern},location.ilike.${pattern}`)
+      }
+
+      if (options?.status) {
+        query = query.eq('status', options.status as 'Active' | 'Inactive' | 'Restructuring')
+      }
+
+      const { data, error } = await query.order('name', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error getting departments:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      const departments = (data || []).map(({ personnel, ...department }) => ({
+        ...department,
+        personnel_count: personnel[0]?.count ?? 0
+      }))
+
+      console.log(`[SupabaseService] Retrieved ${departments.length} departments`)
+      return departments
+    } catch (error) {
+      console.error('[SupabaseService] Error in getAllDepartments:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the names of all departments, without personnel counts
+   * @returns Department names in alphabetical order
+   */
+  static async getDepartmentNames(): Promise<string[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('departments')
+        .select('name')
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error getting department names:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return (data || []).map(department => department.name)
+    } catch (error) {
+      console.error('[SupabaseService] Error in getDepartmentNames:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find department by ID
+   * @param id - Department ID
+   * @returns Department with personnel_count or null if not found
+   */
+  static async findDepartmentById(id: number): Promise<DepartmentWithStats | null> {
+    try {
+      console.log(`[SupabaseService] Finding department by ID: ${id}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('departments')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          console.warn('[SupabaseService] No department found with ID:', id)
+          return null
+        }
+        console.error('[SupabaseService] Error finding department by ID:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return {
+        ...data,
+        personnel_count: await this.countPersonnelInDepartment(data.name)
+      }
+    } catch (error) {
+      console.error('[SupabaseService] Error in findDepartmentById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find department by name
+   * @param name - Department name
+   * @returns Department object or null if not found
+   */
+  static async findDepartmentByName(name: string): Promise<Department | null> {
+    try {
+      console.log(`[SupabaseService] Finding department by name: ${name}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('departments')
+        .select('*')
+        .eq('name', name)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null
+        }
+        console.error('[SupabaseService] Error finding department by name:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findDepartmentByName:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a new department
+   * @param departmentData - Department data to insert
+   * @returns Created department object
+   */
+  static async createDepartment(departmentData: Omit<DepartmentInsert, 'id' | 'created_at' | 'updated_at'>): Promise<Department> {
+    try {
+      console.log(`[SupabaseService] Creating department: ${departmentData.name}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('departments')
+        .insert({
+          ...departmentData,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error creating department:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Department created successfully: ${data.name}`)
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in createDepartment:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update department data
+   * Renaming a department cascades to personnel.department via ON UPDATE CASCADE.
+   * @param id - Department ID to update
+   * @param departmentData - Partial department data to update
+   * @returns Updated department object or null if not found
+   */
+  static async updateDepartment(id: number, departmentData: Partial<DepartmentInsert>): Promise<Department | null> {
+    try {
+      console.log(`[SupabaseService] Updating department ID: ${id}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('departments')
+        .update({
+          ...departmentData,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error updating department:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Department updated successfully: ${data?.name || 'Unknown'}`)
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in updateDepartment:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete department by ID
+   * @param id - Department ID to delete
+   * @returns True if deleted successfully
+   */
+  static async deleteDepartment(id: number): Promise<boolean> {
+    try {
+      console.log(`[SupabaseService] Deleting department ID: ${id}`)
+
+      const { error } = await supabaseAdmin
+        .from('departments')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('[SupabaseService] Error deleting department:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Department deleted successfully: ${id}`)
+      return true
+    } catch (error) {
+      console.error('[SupabaseService] Error in deleteDepartment:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find departments by a list of IDs
+   * @param ids - Department IDs
+   * @returns Matching departments (missing IDs are skipped)
+   */
+  static async findDepartmentsByIds(ids: number[]): Promise<Department[]> {
+    if (ids.length === 0) {
+      return []
+    }
+
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('departments')
+        .select('*')
+        .in('id', ids)
+
+      if (error) {
+        console.error('[SupabaseService] Error finding departments by IDs:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in findDepartmentsByIds:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // EVENT OPERATIONS
+  // =====================================================
+
+  /**
+   * Get events that may have occurrences in a time range. Recurring events are
+   * returned whenever they start before the range ends; callers expand them.
+   * @param options - Range and filters
+   * @returns Array of events ordered by start time
+   */
+  static async getEvents(options: {
+    from: string
+    to: string
+    type?: CalendarEvent['type']
+    search?: string
+  }): Promise<CalendarEvent[]> {
+    try {
+      console.log(`[SupabaseService] Getting events from ${options.from} to ${options.to}`)
+
+      let query = supabaseAdmin
+        .from('events')
+        .select('*')
+        .lte('starts_at', options.to)
+        .or(`recurrence_rule.not.is.null,ends_at.gte.${quoteFilterValue(options.from)}`)
+
+      if (options.type) {
+        query = query.eq('type', options.type)
+      }
+
+      if (options.search) {
+        const pattern = quoteFilterValue(`*${escapeLikePattern(options.search)}*`)
+        query = query.or(`title.ilike.${pattern},location.ilike.${pattern}`)
+      }
+
+      const { data, error } = await query
+        .order('starts_at', { ascending: true })
+        .order('id', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error getting events:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Retrieved ${data?.length || 0} events`)
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getEvents:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find event by ID
+   * @param id - Event ID
+   * @returns Event object or null if not found
+   */
+  static async findEventById(id: number): Promise<CalendarEvent | null> {
+    try {
+      console.log(`[SupabaseService] Finding event by ID: ${id}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          console.warn('[SupabaseService] No event found with ID:', id)
+          return null
+        }
+        console.error('[SupabaseService] Error finding event by ID:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findEventById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a new event
+   * @param eventData - Event data to insert
+   * @returns Created event object
+   */
+  static async createEvent(eventData: Omit<CalendarEventInsert, 'id' | 'created_at' | 'updated_at'>): Promise<CalendarEvent> {
+    try {
+      console.log(`[SupabaseService] Creating event: ${eventData.title}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .insert({
+          ...eventData,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error creating event:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Event created successfully: ${data.title}`)
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in createEvent:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update event by ID
+   * @param id - Event ID to update
+   * @param eventData - Event data to update
+   * @returns Updated event object or null if not found
+   */
+  static async updateEvent(id: number, eventData: CalendarEventUpdate): Promise<CalendarEvent | null> {
+    try {
+      console.log(`[SupabaseService] Updating event ID: ${id}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .update({
+          ...eventData,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null
+        }
+        console.error('[SupabaseService] Error updating event:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Event updated successfully: ${data?.title || 'Unknown'}`)
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in updateEvent:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete event by ID. Attendee rows are removed by ON DELETE CASCADE.
+   * @param id - Event ID to delete
+   * @returns True if deleted successfully
+   */
+  static async deleteEvent(id: number): Promise<boolean> {
+    try {
+      console.log(`[SupabaseService] Deleting event ID: ${id}`)
+
+      const { error } = await supabaseAdmin
+        .from('events')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('[SupabaseService] Error deleting event:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`[SupabaseService] Event deleted successfully: ${id}`)
+      return true
+    } catch (error) {
+      console.error('[SupabaseService] Error in deleteEvent:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the attendee rows of several events
+   * @param eventIds - Event IDs
+   * @returns Attendee rows for all of the events
+   */
+  static async getEventAttendees(eventIds: number[]): Promise<EventAttendee[]> {
+    if (eventIds.length === 0) {
+      return []
+    }
+
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('event_attendees')
+        .select('*')
+        .in('event_id', eventIds)
+        .order('id', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error getting event attendees:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getEventAttendees:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Replace the attendee list of an event
+   * @param eventId - Event ID
+   * @param attendees - Personnel and department IDs to invite
+   * @returns New attendee rows
+   */
+  static async replaceEventAttendees(eventId: number, attendees: { personnelIds: number[]; departmentIds: number[] }): Promise<EventAttendee[]> {
+    try {
+      console.log(`[SupabaseService] Replacing attendees for event ID: ${eventId}`)
+
+      const { error: deleteError } = await supabaseAdmin
+        .from('event_attendees')
+        .delete()
+        .eq('event_id', eventId)
+
+      if (deleteError) {
+        console.error('[SupabaseService] Error clearing event attendees:', deleteError)
+        throw new Error(`Database error: ${deleteError.message}`)
+      }
+
+      const rows: EventAttendeeInsert[] = [
+        ...attendees.personnelIds.map(personnelId => ({ event_id: eventId, personnel_id: personnelId })),
+        ...attendees.departmentIds.map(departmentId => ({ event_id: eventId, department_id: departmentId }))
+      ]
+
+      if (rows.length === 0) {
+        return []
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('event_attendees')
+        .insert(rows)
+        .select()
+
+      if (error) {
+        console.error('[SupabaseService] Error inserting event attendees:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in replaceEventAttendees:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find an imported event by its iCalendar UID
+   * @param uid - VEVENT UID
+   * @returns Event object or null if not found
+   */
+  static async findEventByIcalUid(uid: string): Promise<CalendarEvent | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .select('*')
+        .eq('ical_uid', uid)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error finding event by iCalendar UID:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findEventByIcalUid:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // CALENDAR FEED OPERATIONS
+  // =====================================================
+
+  /**
+   * Get a user's calendar feed token record
+   * @param userId - Supabase auth user ID
+   * @returns Token record or null if the user has no feed
+   */
+  static async findCalendarFeedTokenByUser(userId: string): Promise<CalendarFeedToken | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error finding calendar feed token:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findCalendarFeedTokenByUser:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find a calendar feed token record by token hash
+   * @param tokenHash - SHA-256 hex digest of the token
+   * @returns Token record or null if not found
+   */
+  static async findCalendarFeedTokenByHash(tokenHash: string): Promise<CalendarFeedToken | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .select('*')
+        .eq('token_hash', tokenHash)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error finding calendar feed token by hash:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findCalendarFeedTokenByHash:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Store a user's calendar feed token, replacing any previous one
+   * @param userId - Supabase auth user ID
+   * @param tokenHash - SHA-256 hex digest of the new token
+   * @returns Saved token record
+   */
+  static async saveCalendarFeedToken(userId: string, tokenHash: string): Promise<CalendarFeedToken> {
+    try {
+      console.log(`[SupabaseService] Saving calendar feed token for user: ${userId}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .upsert({
+          user_id: userId,
+          token_hash: tokenHash,
+          created_at: new Date().toISOString(),
+          last_used_at: null
+        }, { onConflict: 'user_id' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error saving calendar feed token:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in saveCalendarFeedToken:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Record that a calendar feed token was used
+   * @param id - Token record ID
+   */
+  static async touchCalendarFeedToken(id: number): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      console.error('[SupabaseService] Error updating calendar feed token:', error)
+      throw new Error(`Database error: ${error.message}`)
+    }
+  }
+
+  /**
+   * Revoke a user's calendar feed token
+   * @param userId - Supabase auth user ID
+   * @returns True if deleted successfully
+   */
+  static async deleteCalendarFeedToken(userId: string): Promise<boolean> {
+    try {
+      console.log(`[SupabaseService] Revoking calendar feed token for user: ${userId}`)
+
+      const { error } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .delete()
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('[SupabaseService] Error deleting calendar feed token:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return true
+    } catch (error) {
+      console.error('[SupabaseService] Error in deleteCalendarFeedToken:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // SAVED FILTER OPERATIONS
+  // =====================================================
+
+  /**
+   * Get the filter presets a user can see on a list: their own plus those shared with their role
+   * @param listType - List the presets belong to
+   * @param ownerId - Supabase auth user ID
+   * @param role - User's role
+   * @returns Presets ordered by name
+   */
+  static async getSavedFilters(listType: SavedFilterListType, ownerId: string, role: string): Promise<SavedFilter[]> {
+    try {
+      console.log(`[SupabaseService] Getting saved filters - List: ${listType}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('saved_filters')
+        .select('*')
+        .eq('list_type', listType)
+        .or(`owner_id.eq.${ownerId},shared_with_role.eq.${role}`)
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error getting saved filters:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getSavedFilters:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find a filter preset by ID
+   * @param id - Preset ID
+   * @returns Preset or null if not found
+   */
+  static async findSavedFilterById(id: number): Promise<SavedFilter | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('saved_filters')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error finding saved filter:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findSavedFilterById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find one of a user's filter presets by name
+   * @param ownerId - Supabase auth user ID
+   * @param listType - List the preset belongs to
+   * @param name - Preset name
+   * @returns Preset or null if not found
+   */
+  static async findSavedFilterByName(ownerId: string, listType: SavedFilterListType, name: string): Promise<SavedFilter | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('saved_filters')
+        .select('*')
+        .eq('owner_id', ownerId)
+        .eq('list_type', listType)
+        .eq('name', name)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error finding saved filter by name:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findSavedFilterByName:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a filter preset
+   * @param filterData - Preset data
+   * @returns Created preset
+   */
+  static async createSavedFilter(filterData: Omit<SavedFilterInsert, 'id' | 'created_at' | 'updated_at'>): Promise<SavedFilter> {
+    try {
+      console.log(`[SupabaseService] Creating saved filter: ${filterData.name}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('saved_filters')
+        .insert(filterData)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error creating saved filter:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in createSavedFilter:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update a filter preset
+   * @param id - Preset ID
+   * @param filterData - Fields to update
+   * @returns Updated preset or null if not found
+   */
+  static async updateSavedFilter(id: number, filterData: SavedFilterUpdate): Promise<SavedFilter | null> {
+    try {
+      console.log(`[SupabaseService] Updating saved filter ID: ${id}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('saved_filters')
+        .update(filterData)
+        .eq('id', id)
+        .select()
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error updating saved filter:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in updateSavedFilter:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a filter preset
+   * @param id - Preset ID
+   * @returns True if deleted successfully
+   */
+  static async deleteSavedFilter(id: number): Promise<boolean> {
+    try {
+      console.log(`[SupabaseService] Deleting saved filter ID: ${id}`)
+
+      const { error } = await supabaseAdmin
+        .from('saved_filters')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('[SupabaseService] Error deleting saved filter:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return true
+    } catch (error) {
+      console.error('[SupabaseService] Error in deleteSavedFilter:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // NOTIFICATION OPERATIONS
+  // =====================================================
+
+  /**
+   * Get a user's notifications, newest first
+   * @param userId - Supabase auth user ID
+   * @param options - Pagination and filters
+   * @returns Notifications with pagination and the user's total unread count
+   */
+  static async getNotifications(userId: string, options?: {
+    page?: number
+    limit?: number
+    // true for read notifications only, false for unread only
+    read?: boolean
+    type?: NotificationType
+  }): Promise<{
+    data: Notification[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      pages: number
+    }
+    unread: number
+  }> {
+    try {
+      const page = options?.page || 1
+      const limit = options?.limit || 20
+      const offset = (page - 1) * limit
+
+      console.log(`[SupabaseService] Getting notifications - Page: ${page}, Limit: ${limit}, Read: ${options?.read ?? 'any'}`)
+
+      let dataQuery = supabaseAdmin
+        .from('notifications')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+
+      if (options?.read !== undefined) {
+        dataQuery = options.read ? dataQuery.not('read_at', 'is', null) : dataQuery.is('read_at', null)
+      }
+
+      if (options?.type) {
+        dataQuery = dataQuery.eq('type', options.type)
+      }
+
+      const [dataResult, unreadResult] = await Promise.all([
+        dataQuery
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1),
+        supabaseAdmin
+          .from('notifications')
+          .select('*', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .is('read_at', null)
+      ])
+
+      if (dataResult.error) {
+        console.error('[SupabaseService] Error getting notifications:', dataResult.error)
+        throw new Error(`Database error: ${dataResult.error.message}`)
+      }
+
+      if (unreadResult.error) {
+        console.error('[SupabaseService] Error counting unread notifications:', unreadResult.error)
+        throw new Error(`Database error: ${unreadResult.error.message}`)
+      }
+
+      const total = dataResult.count || 0
+
+      return {
+        data: dataResult.data || [],
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        unread: unreadResult.count || 0
+      }
+    } catch (error) {
+      console.error('[SupabaseService] Error in getNotifications:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create notifications, one row per recipient
+   * @param notifications - Notification rows
+   * @returns Created notifications
+   */
+  static async createNotifications(notifications: Omit<NotificationInsert, 'id' | 'created_at' | 'read_at'>[]): Promise<Notification[]> {
+    try {
+      if (notifications.length === 0) {
+        return []
+      }
+
+      console.log(`[SupabaseService] Creating ${notifications.length} notification(s): ${notifications[0].title}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('notifications')
+        .insert(notifications)
+        .select()
+
+      if (error) {
+        console.error('[SupabaseService] Error creating notifications:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in createNotifications:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark a user's notifications as read or unread
+   * @param userId - Supabase auth user ID
+   * @param ids - Notification IDs, or null for all of the user's notifications
+   * @param read - True to mark read, false to mark unread
+   * @returns Number of notifications changed
+   */
+  static async markNotificationsRead(userId: string, ids: number[] | null, read: boolean): Promise<number> {
+    try {
+      console.log(`[SupabaseService] Marking ${ids ? ids.length : 'all'} notification(s) as ${read ? 'read' : 'unread'}`)
+
+      let query = supabaseAdmin
+        .from('notifications')
+        .update({ read_at: read ? new Date().toISOString() : null })
+        .eq('user_id', userId)
+
+      if (ids) {
+        query = query.in('id', ids)
+      }
+
+      // Leave the original read time alone on notifications that are already read
+      query = read ? query.is('read_at', null) : query.not('read_at', 'is', null)
+
+      const { data, error } = await query.select('id')
+
+      if (error) {
+        console.error('[SupabaseService] Error marking notifications:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data?.length || 0
+    } catch (error) {
+      console.error('[SupabaseService] Error in markNotificationsRead:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a user's notifications
+   * @param userId - Supabase auth user ID
+   * @param ids - Notification IDs, or null for all of the user's notifications
+   * @returns Number of notifications deleted
+   */
+  static async deleteNotifications(userId: string, ids: number[] | null): Promise<number> {
+    try {
+      console.log(`[SupabaseService] Deleting ${ids ? ids.length : 'all'} notification(s)`)
+
+      let query = supabaseAdmin
+        .from('notifications')
+        .delete()
+        .eq('user_id', userId)
+
+      if (ids) {
+        query = query.in('id', ids)
+      }
+
+      const { data, error } = await query.select('id')
+
+      if (error) {
+        console.error('[SupabaseService] Error deleting notifications:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data?.length || 0
+    } catch (error) {
+      console.error('[SupabaseService] Error in deleteNotifications:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark notifications as sent by email
+   * @param ids - Notification IDs
+   */
+  static async markNotificationsEmailed(ids: number[]): Promise<void> {
+    try {
+      if (ids.length === 0) {
+        return
+      }
+
+      console.log(`[SupabaseService] Marking ${ids.length} notification(s) emailed`)
+
+      const { error } = await supabaseAdmin
+        .from('notifications')
+        .update({ emailed_at: new Date().toISOString() })
+        .in('id', ids)
+
+      if (error) {
+        console.error('[SupabaseService] Error marking notifications emailed:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('[SupabaseService] Error in markNotificationsEmailed:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get notification preferences for several users
+   * @param userIds - Supabase auth user IDs
+   * @returns Stored preferences; users without a row are omitted
+   */
+  static async getNotificationPreferences(userIds: string[]): Promise<NotificationPreferences[]> {
+    try {
+      if (userIds.length === 0) {
+        return []
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('notification_preferences')
+        .select('*')
+        .in('user_id', userIds)
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching notification preferences:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getNotificationPreferences:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get one user's notification preferences
+   * @param userId - Supabase auth user ID
+   * @returns Stored preferences or null if the user never saved any
+   */
+  static async findNotificationPreferences(userId: string): Promise<NotificationPreferences | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching notification preferences:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findNotificationPreferences:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create or replace a user's notification preferences
+   * @param preferences - Preferences row keyed by user_id
+   * @returns Saved preferences
+   */
+  static async saveNotificationPreferences(preferences: NotificationPreferencesInsert): Promise<NotificationPreferences> {
+    try {
+      console.log('[SupabaseService] Saving notification preferences for user:', preferences.user_id)
+
+      const { data, error } = await supabaseAdmin
+        .from('notification_preferences')
+        .upsert(preferences, { onConflict: 'user_id' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error saving notification preferences:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in saveNotificationPreferences:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // DIGEST OPERATIONS
+  // =====================================================
+
+  /**
+   * Get personnel registered in a time range
+   * @param from - Range start (inclusive, ISO timestamp)
+   * @param to - Range end (exclusive, ISO timestamp)
+   * @param limit - Maximum records to return
+   * @returns Personnel ordered by registration time
+   */
+  static async getPersonnelCreatedBetween(from: string, to: string, limit = 100): Promise<Personnel[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('personnel')
+        .select('*')
+        .gte('created_at', from)
+        .lt('created_at', to)
+        .order('created_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching new personnel:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getPersonnelCreatedBetween:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get audit entries for personnel status changes in a time range
+   * @param from - Range start (inclusive, ISO timestamp)
+   * @param to - Range end (exclusive, ISO timestamp)
+   * @param limit - Maximum entries to return
+   * @returns Audit entries whose changes include status, oldest first
+   */
+  static async getPersonnelStatusChanges(from: string, to: string, limit = 100): Promise<AuditLog[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('audit_log')
+        .select('*')
+        .eq('entity_type', 'personnel')
+        .eq('action', 'update')
+        .not('changes->status', 'is', null)
+        .gte('created_at', from)
+        .lt('created_at', to)
+        .order('created_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching personnel status changes:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getPersonnelStatusChanges:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get documents that expire within a date range, with their owner
+   * @param fromDate - First expiry date included (YYYY-MM-DD)
+   * @param toDate - Last expiry date included (YYYY-MM-DD)
+   * @param limit - Maximum documents to return
+   * @returns Documents ordered by expiry date
+   */
+  static async getExpiringDocuments(fromDate: string, toDate: string, limit = 100): Promise<ExpiringDocument[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('personnel_documents')
+        .select('*, personnel(name, department)')
+        .gte('expires_on', fromDate)
+        .lte('expires_on', toDate)
+        .order('expires_on', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching expiring documents:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return (data || []).map(({ personnel, ...document }) => ({
+        ...document,
+        personnel_name: personnel?.name ?? 'Unknown',
+        department: personnel?.department ?? ''
+      }))
+    } catch (error) {
+      console.error('[SupabaseService] Error in getExpiringDocuments:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get sync operations that failed in a time range
+   * @param from - Range start (inclusive, ISO timestamp)
+   * @param to - Range end (exclusive, ISO timestamp)
+   * @param limit - Maximum operations to return
+   * @returns Failed operations, oldest first
+   */
+  static async getFailedSyncOperations(from: string, to: string, limit = 50): Promise<SyncOperation[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('sync_operations')
+        .select('*')
+        .eq('status', 'failed')
+        .gte('created_at', from)
+        .lt('created_at', to)
+        .order('created_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching failed sync operations:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getFailedSyncOperations:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a user's notifications held for their digest and not yet emailed
+   * @param userId - Supabase auth user ID
+   * @param before - Only notifications created before this time (ISO timestamp)
+   * @returns Notifications, oldest first
+   */
+  static async getPendingDigestNotifications(userId: string, before: string): Promise<Notification[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('channel', 'digest')
+        .is('emailed_at', null)
+        .lt('created_at', before)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching digest notifications:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getPendingDigestNotifications:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Claim a digest period for a user. Only one caller can claim a period;
+   * a period whose earlier attempt failed can be claimed again.
+   * @param run - User, frequency and period to claim
+   * @returns The claimed run, or null if the period is already sent, skipped or in progress
+   */
+  static async claimDigestRun(run: Pick<DigestRunInsert, 'user_id' | 'frequency' | 'period_start' | 'period_end'>): Promise<DigestRun | null> {
+    try {
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('digest_runs')
+        .upsert({ ...run, status: 'pending' }, { onConflict: 'user_id,frequency,period_start', ignoreDuplicates: true })
+        .select()
+
+      if (insertError) {
+        console.error('[SupabaseService] Error claiming digest run:', insertError)
+        throw new Error(`Database error: ${insertError.message}`)
+      }
+
+      if (inserted && inserted.length > 0) {
+        return inserted[0]
+      }
+
+      const { data: existing, error: findError } = await supabaseAdmin
+        .from('digest_runs')
+        .select('*')
+        .eq('user_id', run.user_id)
+        .eq('frequency', run.frequency)
+        .eq('period_start', run.period_start)
+        .maybeSingle()
+
+      if (findError) {
+        console.error('[SupabaseService] Error finding digest run:', findError)
+        throw new Error(`Database error: ${findError.message}`)
+      }
+
+      if (!existing || existing.status !== 'failed') {
+        return null
+      }
+
+      // Retry a failed period; the status condition lets only one caller win
+      const { data: retried, error: retryError } = await supabaseAdmin
+        .from('digest_runs')
+        .update({ status: 'pending', error: null, attempts: existing.attempts + 1 })
+        .eq('id', existing.id)
+        .eq('status', 'failed')
+        .select()
+
+      if (retryError) {
+        console.error('[SupabaseService] Error reclaiming digest run:', retryError)
+        throw new Error(`Database error: ${retryError.message}`)
+      }
+
+      return retried && retried.length > 0 ? retried[0] : null
+    } catch (error) {
+      console.error('[SupabaseService] Error in claimDigestRun:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Record the outcome of a claimed digest run
+   * @param id - Digest run ID
+   * @param updates - Final status, item count, message ID or error
+   */
+  static async completeDigestRun(id: number, updates: Pick<DigestRunUpdate, 'status' | 'item_count' | 'message_id' | 'error'>): Promise<void> {
+    try {
+      const { error } = await supabaseAdmin
+        .from('digest_runs')
+        .update(updates)
+        .eq('id', id)
+
+      if (error) {
+        console.error('[SupabaseService] Error completing digest run:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('[SupabaseService] Error in completeDigestRun:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // EMAIL OUTBOX OPERATIONS
+  // =====================================================
+
+  /**
+   * Queue an outbound email
+   * @param email - Template, recipient, subject and template data
+   * @returns Queued outbox row
+   */
+  static async createOutboxEmail(email: Omit<EmailOutboxInsert, 'id' | 'created_at' | 'updated_at'>): Promise<EmailOutbox> {
+    try {
+      console.log(`[SupabaseService] Queueing ${email.template} email to: ${email.recipient_email}`)
+
+      const { data, error } = await supabaseAdmin
+        .from('email_outbox')
+        .insert(email)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error queueing email:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in createOutboxEmail:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get queued emails due for a send attempt, plus sends that stalled
+   * @param now - Current time (ISO timestamp)
+   * @param staleBefore - Emails still 'sending' since before this time are retried
+   * @param limit - Maximum emails to return
+   * @returns Due emails, oldest first
+   */
+  static async getDueOutboxEmails(now: string, staleBefore: string, limit = 25): Promise<EmailOutbox[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_outbox')
+        .select('*')
+        .or(`and(status.eq.queued,next_attempt_at.lte.${now}),and(status.eq.sending,updated_at.lt.${staleBefore})`)
+        .order('next_attempt_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching due emails:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getDueOutboxEmails:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark an email as sending, unless another worker changed it since it was read
+   * @param email - Outbox row as read by the caller
+   * @returns Claimed row, or null if another worker got there first
+   */
+  static async claimOutboxEmail(email: EmailOutbox): Promise<EmailOutbox | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_outbox')
+        .update({ status: 'sending', attempts: email.attempts + 1 })
+        .eq('id', email.id)
+        .eq('status', email.status)
+        .eq('updated_at', email.updated_at)
+        .select()
+
+      if (error) {
+        console.error('[SupabaseService] Error claiming email:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data && data.length > 0 ? data[0] : null
+    } catch (error) {
+      console.error('[SupabaseService] Error in claimOutboxEmail:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update an outbox email
+   * @param id - Outbox email ID
+   * @param updates - Fields to update
+   * @returns Updated row
+   */
+  static async updateOutboxEmail(id: number, updates: EmailOutboxUpdate): Promise<EmailOutbox> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_outbox')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error updating email:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in updateOutboxEmail:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find an outbox email by ID
+   * @param id - Outbox email ID
+   * @returns Outbox row or null if not found
+   */
+  static async findOutboxEmailById(id: number): Promise<EmailOutbox | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_outbox')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error finding email:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findOutboxEmailById:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find an outbox email by its provider message ID
+   * @param messageId - Resend email ID
+   * @returns Outbox row or null if not found
+   */
+  static async findOutboxEmailByMessageId(messageId: string): Promise<EmailOutbox | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_outbox')
+        .select('*')
+        .eq('message_id', messageId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error finding email by message ID:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findOutboxEmailByMessageId:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the delivery log with pagination and filters
+   * @param options - Pagination, recipient search and status filter
+   * @returns Outbox rows (newest first), pagination and per-status counts
+   */
+  static async getOutboxEmails(options?: {
+    page?: number
+    limit?: number
+    // Matches part of the recipient address
+    recipient?: string
+    status?: EmailOutboxStatus
+  }): Promise<{
+    data: EmailOutbox[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      pages: number
+    }
+    counts: Record<EmailOutboxStatus, number>
+  }> {
+    try {
+      const page = options?.page || 1
+      const limit = options?.limit || 20
+      const offset = (page - 1) * limit
+      const recipient = options?.recipient?.replace(/[%_]/g, '')
+
+      console.log(`[SupabaseService] Getting email outbox - Page: ${page}, Limit: ${limit}, Recipient: ${recipient || 'any'}`)
+
+      let dataQuery = supabaseAdmin
+        .from('email_outbox')
+        .select('*', { count: 'exact' })
+
+      if (recipient) {
+        dataQuery = dataQuery.ilike('recipient_email', `%${recipient}%`)
+      }
+
+      if (options?.status) {
+        dataQuery = dataQuery.eq('status', options.status)
+      }
+
+      const statuses: EmailOutboxStatus[] = ['queued', 'sending', 'sent', 'failed', 'bounced']
+      const countQuery = (status: EmailOutboxStatus) => {
+        let query = supabaseAdmin
+          .from('email_outbox')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', status)
+        if (recipient) {
+          query = query.ilike('recipient_email', `%${recipient}%`)
+        }
+        return query
+      }
+
+      const [dataResult, ...countResults] = await Promise.all([
+        dataQuery
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1),
+        ...statuses.map(countQuery)
+      ])
+
+      if (dataResult.error) {
+        console.error('[SupabaseService] Error getting email outbox:', dataResult.error)
+        throw new Error(`Database error: ${dataResult.error.message}`)
+      }
+
+      const counts = {} as Record<EmailOutboxStatus, number>
+      statuses.forEach((status, index) => {
+        const result = countResults[index]
+        if (result.error) {
+          console.error('[SupabaseService] Error counting outbox emails:', result.error)
+          throw new Error(`Database error: ${result.error.message}`)
+        }
+        counts[status] = result.count || 0
+      })
+
+      const total = dataResult.count || 0
+
+      return {
+        data: dataResult.data || [],
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        counts
+      }
+    } catch (error) {
+      console.error('[SupabaseService] Error in getOutboxEmails:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // EMAIL TEMPLATE OPERATIONS
+  // =====================================================
+
+  /**
+   * Get every edited email template
+   * @returns Templates ordered by key and language
+   */
+  static async getEmailTemplates(): Promise<EmailTemplate[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_templates')
+        .select('*')
+        .order('template_key', { ascending: true })
+        .order('language', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching email templates:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getEmailTemplates:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find the edited version of a template in one language
+   * @param templateKey - Template key
+   * @param language - Language code
+   * @returns Template or null if the built-in template is in use
+   */
+  static async findEmailTemplate(templateKey: EditableEmailTemplateKey, language: EmailLanguage): Promise<EmailTemplate | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_templates')
+        .select('*')
+        .eq('template_key', templateKey)
+        .eq('language', language)
+        .maybeSingle()
+
+      if (error) {
+        console.error('[SupabaseService] Error finding email template:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in findEmailTemplate:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create or replace a template in one language
+   * @param template - Key, language, subject and body
+   * @returns Saved template
+   */
+  static async saveEmailTemplate(template: EmailTemplateInsert): Promise<EmailTemplate> {
+    try {
+      console.log(`[SupabaseService] Saving ${template.template_key} email template (${template.language})`)
+
+      const { data, error } = await supabaseAdmin
+        .from('email_templates')
+        .upsert(template, { onConflict: 'template_key,language' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error saving email template:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in saveEmailTemplate:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete the edited version of a template, restoring the built-in one
+   * @param templateKey - Template key
+   * @param language - Language code
+   * @returns True if a template was deleted
+   */
+  static async deleteEmailTemplate(templateKey: EditableEmailTemplateKey, language: EmailLanguage): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_templates')
+        .delete()
+        .eq('template_key', templateKey)
+        .eq('language', language)
+        .select('id')
+
+      if (error) {
+        console.error('[SupabaseService] Error deleting email template:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return (data || []).length > 0
+    } catch (error) {
+      console.error('[SupabaseService] Error in deleteEmailTemplate:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // SMS OPERATIONS
+  // =====================================================
+
+  /**
+   * Record sent, failed and opted-out SMS messages
+   * @param messages - One row per recipient number
+   * @returns Created rows
+   */
+  static async createSmsMessages(messages: SmsMessageInsert[]): Promise<SmsMessage[]> {
+    try {
+      if (messages.length === 0) {
+        return []
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('sms_messages')
+        .insert(messages)
+        .select()
+
+      if (error) {
+        console.error('[SupabaseService] Error creating SMS messages:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in createSmsMessages:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the SMS log, newest first
+   * @param options - Pagination and filters
+   * @returns Messages with pagination
+   */
+  static async getSmsMessages(options?: {
+    page?: number
+    limit?: number
+    // Matches part of the phone number
+    phoneNumber?: string
+    status?: SmsStatus
+  }): Promise<{
+    data: SmsMessage[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      pages: number
+    }
+  }> {
+    try {
+      const page = options?.page || 1
+      const limit = options?.limit || 20
+      const offset = (page - 1) * limit
+      const phoneNumber = options?.phoneNumber?.replace(/[%_]/g, '')
+
+      let query = supabaseAdmin
+        .from('sms_messages')
+        .select('*', { count: 'exact' })
+
+      if (phoneNumber) {
+        query = query.ilike('phone_number', `%${phoneNumber}%`)
+      }
+
+      if (options?.status) {
+        query = query.eq('status', options.status)
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (error) {
+        console.error('[SupabaseService] Error getting SMS messages:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      const total = count || 0
+
+      return {
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    } catch (error) {
+      console.error('[SupabaseService] Error in getSmsMessages:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Personnel phone numbers for an SMS broadcast. Inactive personnel are left out.
+   * @param options - ids or departments narrow the list; neither means all personnel
+   */
+  static async getPersonnelContacts(options?: {
+    ids?: number[]
+    departments?: string[]
+  }): Promise<Pick<Personnel, 'id' | 'name' | 'department' | 'phone' | 'emergency_contact'>[]> {
+    try {
+      let query = supabaseAdmin
+        .from('personnel')
+        .select('id, name, department, phone, emergency_contact')
+        .neq('status', 'Inactive')
+
+      if (options?.ids) {
+        query = query.in('id', options.ids)
+      }
+
+      if (options?.departments) {
+        query = query.in('department', options.departments)
+      }
+
+      const { data, error } = await query.order('name', { ascending: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error getting personnel contacts:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getPersonnelContacts:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Which of the given numbers have opted out of SMS
+   * @param phoneNumbers - Normalized numbers
+   * @returns The opted-out numbers
+   */
+  static async findOptedOutNumbers(phoneNumbers: string[]): Promise<string[]> {
+    try {
+      if (phoneNumbers.length === 0) {
+        return []
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('sms_opt_outs')
+        .select('phone_number')
+        .in('phone_number', phoneNumbers)
+
+      if (error) {
+        console.error('[SupabaseService] Error finding SMS opt-outs:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return (data || []).map(row => row.phone_number)
+    } catch (error) {
+      console.error('[SupabaseService] Error in findOptedOutNumbers:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get every opted-out number, most recent first
+   */
+  static async getSmsOptOuts(): Promise<SmsOptOut[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('sms_opt_outs')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('[SupabaseService] Error fetching SMS opt-outs:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in getSmsOptOuts:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Opt a number out of SMS; opting out again keeps the original record
+   * @param optOut - Normalized number, source and note
+   * @returns The opt-out record
+   */
+  static async saveSmsOptOut(optOut: SmsOptOutInsert): Promise<SmsOptOut> {
+    try {
+      console.log(`[SupabaseService] Opting out ${optOut.phone_number} (${optOut.source || 'keyword'})`)
+
+      const { error } = await supabaseAdmin
+        .from('sms_opt_outs')
+        .upsert(optOut, { onConflict: 'phone_number', ignoreDuplicates: true })
+
+      if (error) {
+        console.error('[SupabaseService] Error saving SMS opt-out:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      const { data, error: fetchError } = await supabaseAdmin
+        .from('sms_opt_outs')
+        .select('*')
+        .eq('phone_number', optOut.phone_number)
+        .single()
+
+      if (fetchError) {
+        console.error('[SupabaseService] Error fetching SMS opt-out:', fetchError)
+        throw new Error(`Database error: ${fetchError.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in saveSmsOptOut:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Let a number receive SMS again
+   * @param phoneNumber - Normalized number
+   * @returns True if the number had opted out
+   */
+  static async deleteSmsOptOut(phoneNumber: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('sms_opt_outs')
+        .delete()
+        .eq('phone_number', phoneNumber)
+        .select('phone_number')
+
+      if (error) {
+        console.error('[SupabaseService] Error deleting SMS opt-out:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return (data || []).length > 0
+    } catch (error) {
+      console.error('[SupabaseService] Error in deleteSmsOptOut:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // SEARCH OPERATIONS
+  // =====================================================
+
+  /**
+   * Full-text search across personnel, users, documents, departments and media
+   * @param query - Words to match; each word matches as a prefix
+   * @param entityTypes - Entity types to include
+   * @param perTypeLimit - Maximum matches per entity type
+   * @returns Matches ranked within each entity type
+   */
+  static async globalSearch(query: string, entityTypes: SearchEntityType[], perTypeLimit = 5): Promise<SearchResultRow[]> {
+    try {
+      console.log(`[SupabaseService] Global search - Query: "${query}", Types: ${entityTypes.join(', ')}`)
+
+      const { data, error } = await supabaseAdmin
+        .rpc('global_search', {
+          search_query: query,
+          entity_types: entityTypes,
+          per_type_limit: perTypeLimit
+        })
+
+      if (error) {
+        console.error('[SupabaseService] Error in global search:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('[SupabaseService] Error in globalSearch:', error)
+      throw error
+    }
+  }
+
+  // =====================================================
+  // AUDIT LOG OPERATIONS
+  // =====================================================
+
+  /**
+   * Record an audit log entry
+   * @param entry - Audit entry to insert
+   * @returns Created audit log entry
+   */
+  static async createAuditLog(entry: Omit<AuditLogInsert, 'id' | 'created_at'>): Promise<AuditLog> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('audit_log')
+        .insert(entry)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('[SupabaseService] Error creating audit log:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('[SupabaseService] Error in createAuditLog:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get audit log entries with pagination and filtering, newest first
+   * @param options - Query options
+   * @returns Paginated audit log entries
+   */
+  static async getAuditLogs(options?: {
+    page?: number
+    limit?: number
+    actor?: string
+    entityType?: AuditEntityType
+    entityId?: string
+    action?: 'create' | 'update' | 'delete'
+    dateFrom?: string
+    dateTo?: string
+  }): Promise<{
+    data: AuditLog[]
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      pages: number
+    }
+  }> {
+    try {
+      const page = options?.page || 1
+      const limit = options?.limit || 50
+
+      console.log(`[SupabaseService] Getting audit logs - Page: ${page}, Limit: ${limit}`)
+
+      let query = supabaseAdmin
+        .from('audit_log')
+        .select('*', { count: 'exact' })
+
+      if (options?.actor) {
+        query = query.ilike('actor_email', `%${options.actor}%`)
+      }
+
+      if (options?.entityType) {
+        query = query.eq('entity_type', options.entityType)
+      }
+
+      if (options?.entityId) {
+        query = query.eq('entity_id', options.entityId)
+      }
+
+      if (options?.action) {
+        query = query.eq('action', options.action)
+      }
+
+      if (options?.dateFrom) {
+        query = query.gte('created_at', options.dateFrom)
+      }
+
+      if (options?.dateTo) {
+        query = query.lte('created_at', options.dateTo)
+      }
+
+      const from = (page - 1) * limit
+      const to = from + limit - 1
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(from, to)
+
+      if (error) {
+        console.error('[SupabaseService] Error getting audit logs:', error)
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return {
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          pages: Math.ceil((count || 0) / limit)
+        }
+      }
+    } catch (error) {
+      console.error('[SupabaseService] Error in getAuditLogs:', error)
+      throw error
+    }
+  }
+
   // =====================================================
   // UTILITY OPERATIONS
   // =====================================================